@@ -0,0 +1,324 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import type { AlertCondition, AlertRule, FiredAlert } from "@/lib/alertStore";
+import { DISPLAY_FIELDS, type DisplayField } from "@/lib/reading";
+import { formatTs12Hour } from "@/lib/format";
+import { StationPicker, stationLabel, useStations } from "@/app/components/StationPicker";
+import { AlertNotifier } from "@/app/components/AlertNotifier";
+
+const buttonStyle = {
+  border: "1px solid #e5e7eb",
+  borderRadius: 8,
+  padding: "6px 10px",
+  background: "white",
+  cursor: "pointer",
+  fontSize: 13,
+} as const;
+
+const inputStyle = { border: "1px solid #e5e7eb", borderRadius: 8, padding: "6px 8px", fontSize: 13 } as const;
+
+type Draft = {
+  name: string;
+  stationId: string;
+  kind: AlertCondition["kind"];
+  field: DisplayField;
+  windowMin: string;
+  delta: string;
+  op: "above" | "below";
+  value: string;
+  minutes: string;
+  cooldownMin: string;
+  webhookUrl: string;
+};
+
+const EMPTY_DRAFT: Draft = {
+  name: "",
+  stationId: "",
+  kind: "change",
+  field: "densityAltFt",
+  windowMin: "30",
+  delta: "200",
+  op: "above",
+  value: "",
+  minutes: "3",
+  cooldownMin: "15",
+  webhookUrl: "",
+};
+
+function describe(c: AlertCondition): string {
+  if (c.kind === "offline") return `OFFLINE for ${c.minutes} min`;
+  const { label, unit } = DISPLAY_FIELDS[c.field];
+  if (c.kind === "threshold") return `${label} ${c.op} ${c.value}${unit ? ` ${unit}` : ""}`;
+  return `${label} changes by more than ${c.delta}${unit ? ` ${unit}` : ""} in ${c.windowMin} min`;
+}
+
+function draftCondition(d: Draft): AlertCondition {
+  if (d.kind === "offline") return { kind: "offline", minutes: Number(d.minutes) };
+  if (d.kind === "threshold") return { kind: "threshold", field: d.field, op: d.op, value: Number(d.value) };
+  return { kind: "change", field: d.field, windowMin: Number(d.windowMin), delta: Number(d.delta) };
+}
+
+export default function AlertsPage() {
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [fired, setFired] = useState<FiredAlert[]>([]);
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [error, setError] = useState<string | null>(null);
+  const { stations } = useStations();
+
+  async function load() {
+    try {
+      const res = await fetch("/api/alerts", { cache: "no-store" });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json?.error ?? `Request failed (${res.status})`);
+      setRules(json.rules ?? []);
+      setFired(json.fired ?? []);
+    } catch (e: unknown) {
+      setError((e as Error)?.message ?? "Failed to load alerts.");
+    }
+  }
+
+  useEffect(() => {
+    load();
+    const id = setInterval(load, 60_000);
+    return () => clearInterval(id);
+  }, []);
+
+  async function addRule() {
+    try {
+      setError(null);
+      const res = await fetch("/api/alerts", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: draft.name,
+          stationId: draft.stationId,
+          condition: draftCondition(draft),
+          cooldownMin: Number(draft.cooldownMin),
+          webhookUrl: draft.webhookUrl,
+        }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json?.error ?? `Request failed (${res.status})`);
+      setDraft({ ...EMPTY_DRAFT, stationId: draft.stationId });
+      await load();
+    } catch (e: unknown) {
+      setError((e as Error)?.message ?? "Failed to save rule.");
+    }
+  }
+
+  async function setEnabled(id: string, enabled: boolean) {
+    try {
+      const res = await fetch("/api/alerts", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id, enabled }),
+      });
+      if (!res.ok) throw new Error(`Update failed (${res.status})`);
+      setRules((prev) => prev.map((r) => (r.id === id ? { ...r, enabled, firing: false } : r)));
+    } catch (e: unknown) {
+      setError((e as Error)?.message ?? "Failed to update rule.");
+    }
+  }
+
+  async function removeRule(id: string) {
+    if (!confirm("Delete this alert rule?")) return;
+    try {
+      const res = await fetch(`/api/alerts?id=${encodeURIComponent(id)}`, { method: "DELETE" });
+      if (!res.ok) throw new Error(`Delete failed (${res.status})`);
+      setRules((prev) => prev.filter((r) => r.id !== id));
+    } catch (e: unknown) {
+      setError((e as Error)?.message ?? "Failed to delete rule.");
+    }
+  }
+
+  const set = (k: keyof Draft) => (e: { target: { value: string } }) =>
+    setDraft((prev) => ({ ...prev, [k]: e.target.value }));
+
+  const cell = { padding: "8px 10px", borderBottom: "1px solid #f3f4f6", whiteSpace: "nowrap" } as const;
+  const head = { ...cell, textAlign: "left", fontSize: 12, borderBottom: "1px solid #e5e7eb" } as const;
+
+  return (
+    <main style={{ padding: 16, fontFamily: "system-ui, sans-serif" }}>
+      <div style={{ display: "flex", alignItems: "baseline", gap: 12, flexWrap: "wrap" }}>
+        <h1 style={{ marginBottom: 12 }}>Alerts</h1>
+        <Link href="/" style={{ fontSize: 13 }}>
+          Back to dashboard
+        </Link>
+        <AlertNotifier />
+      </div>
+
+      {error && (
+        <div
+          style={{
+            background: "#fee2e2",
+            border: "1px solid #ef4444",
+            color: "#991b1b",
+            padding: 12,
+            borderRadius: 8,
+            marginBottom: 12,
+          }}
+        >
+          {error}
+        </div>
+      )}
+
+      <div style={{ fontSize: 13, opacity: 0.7, marginBottom: 10 }}>
+        Rules are checked by the server after every poll, so they fire with no tab open. Fired alerts
+        also POST to the rule&apos;s webhook (or RACEWX_ALERT_WEBHOOK_URL).
+      </div>
+
+      {/* ---- New rule ---- */}
+      <section
+        style={{
+          border: "1px solid #e5e7eb",
+          borderRadius: 12,
+          padding: 12,
+          display: "flex",
+          gap: 10,
+          flexWrap: "wrap",
+          alignItems: "center",
+          fontSize: 13,
+        }}
+      >
+        <label>
+          Name <input value={draft.name} onChange={set("name")} style={inputStyle} />
+        </label>
+        <StationPicker
+          stations={stations}
+          value={draft.stationId}
+          onChange={(id) => setDraft((prev) => ({ ...prev, stationId: id }))}
+        />
+        <select value={draft.kind} onChange={set("kind")} style={inputStyle}>
+          <option value="change">Changes by</option>
+          <option value="threshold">Crosses</option>
+          <option value="offline">Station offline</option>
+        </select>
+
+        {draft.kind !== "offline" && (
+          <select value={draft.field} onChange={set("field")} style={inputStyle}>
+            {(Object.keys(DISPLAY_FIELDS) as DisplayField[]).map((k) => (
+              <option key={k} value={k}>
+                {DISPLAY_FIELDS[k].label}
+              </option>
+            ))}
+          </select>
+        )}
+        {draft.kind === "change" && (
+          <>
+            <label>
+              more than <input value={draft.delta} onChange={set("delta")} style={{ ...inputStyle, width: 70 }} />
+            </label>
+            <label>
+              in <input value={draft.windowMin} onChange={set("windowMin")} style={{ ...inputStyle, width: 50 }} /> min
+            </label>
+          </>
+        )}
+        {draft.kind === "threshold" && (
+          <>
+            <select value={draft.op} onChange={set("op")} style={inputStyle}>
+              <option value="above">above</option>
+              <option value="below">below</option>
+            </select>
+            <input value={draft.value} onChange={set("value")} style={{ ...inputStyle, width: 80 }} />
+          </>
+        )}
+        {draft.kind === "offline" && (
+          <label>
+            for <input value={draft.minutes} onChange={set("minutes")} style={{ ...inputStyle, width: 50 }} /> min
+          </label>
+        )}
+
+        <label>
+          Cooldown{" "}
+          <input value={draft.cooldownMin} onChange={set("cooldownMin")} style={{ ...inputStyle, width: 50 }} /> min
+        </label>
+        <label>
+          Webhook{" "}
+          <input
+            value={draft.webhookUrl}
+            onChange={set("webhookUrl")}
+            placeholder="https://… (optional)"
+            style={inputStyle}
+          />
+        </label>
+        <button onClick={addRule} disabled={!draft.name.trim()} style={buttonStyle}>
+          Add rule
+        </button>
+      </section>
+
+      {/* ---- Rules ---- */}
+      <section style={{ marginTop: 16 }}>
+        <h2 style={{ margin: "0 0 8px" }}>Rules</h2>
+        {rules.length === 0 ? (
+          <div style={{ opacity: 0.7, fontSize: 13 }}>No rules yet.</div>
+        ) : (
+          <table style={{ borderCollapse: "collapse", fontSize: 13 }}>
+            <thead>
+              <tr>
+                <th style={head}>On</th>
+                <th style={head}>Name</th>
+                <th style={head}>Station</th>
+                <th style={head}>Condition</th>
+                <th style={head}>State</th>
+                <th style={head}>Last fired</th>
+                <th style={head} />
+              </tr>
+            </thead>
+            <tbody>
+              {rules.map((r) => (
+                <tr key={r.id}>
+                  <td style={cell}>
+                    <input type="checkbox" checked={r.enabled} onChange={(e) => setEnabled(r.id, e.target.checked)} />
+                  </td>
+                  <td style={cell}>{r.name}</td>
+                  <td style={cell}>{stationLabel(stations, r.stationId)}</td>
+                  <td style={cell}>{describe(r.condition)}</td>
+                  <td style={{ ...cell, color: r.firing ? "#991b1b" : undefined }}>{r.firing ? "Firing" : "OK"}</td>
+                  <td style={cell}>{r.lastFiredAt ? formatTs12Hour(r.lastFiredAt) : "—"}</td>
+                  <td style={cell}>
+                    <button onClick={() => removeRule(r.id)} style={buttonStyle}>
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      {/* ---- History ---- */}
+      <section style={{ marginTop: 16 }}>
+        <h2 style={{ margin: "0 0 8px" }}>Fired alerts</h2>
+        {fired.length === 0 ? (
+          <div style={{ opacity: 0.7, fontSize: 13 }}>Nothing has fired yet.</div>
+        ) : (
+          <table style={{ borderCollapse: "collapse", fontSize: 13 }}>
+            <thead>
+              <tr>
+                <th style={head}>When</th>
+                <th style={head}>Rule</th>
+                <th style={head}>Station</th>
+                <th style={head}>Message</th>
+                <th style={head}>Webhook</th>
+              </tr>
+            </thead>
+            <tbody>
+              {fired.map((a) => (
+                <tr key={a.id}>
+                  <td style={cell}>{formatTs12Hour(a.at)}</td>
+                  <td style={cell}>{a.ruleName}</td>
+                  <td style={cell}>{stationLabel(stations, a.stationId)}</td>
+                  <td style={cell}>{a.message}</td>
+                  <td style={cell}>{a.webhook}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,64 @@
+import { NextResponse } from "next/server";
+import {
+  addAlertRule,
+  deleteAlertRule,
+  listAlertRules,
+  readFiredAlerts,
+  updateAlertRule,
+} from "@/lib/alertStore";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/alerts               -> { rules, fired }
+// GET /api/alerts?since=<ms>    -> { fired } newer than since (for notifications)
+export async function GET(req: Request) {
+  try {
+    const sinceRaw = new URL(req.url).searchParams.get("since");
+    if (sinceRaw !== null) {
+      const since = Number(sinceRaw);
+      if (!Number.isFinite(since)) return NextResponse.json({ error: "Bad ?since=" }, { status: 400 });
+      return NextResponse.json({ fired: await readFiredAlerts({ since }) });
+    }
+    const [rules, fired] = await Promise.all([listAlertRules(), readFiredAlerts({ limit: 100 })]);
+    return NextResponse.json({ rules, fired });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: (err as Error)?.message ?? "Unknown error" }, { status: 500 });
+  }
+}
+
+// POST /api/alerts  { name, stationId?, condition, cooldownMin?, webhookUrl? }
+export async function POST(req: Request) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    return NextResponse.json({ rule: await addAlertRule(body ?? {}) });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: (err as Error)?.message ?? "Unknown error" }, { status: 400 });
+  }
+}
+
+// PATCH /api/alerts  { id, enabled }
+export async function PATCH(req: Request) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    if (typeof body?.id !== "string" || typeof body?.enabled !== "boolean") {
+      return NextResponse.json({ error: "Body must be { id, enabled }" }, { status: 400 });
+    }
+    // Re-enabling starts a fresh episode
+    const rule = await updateAlertRule(body.id, { enabled: body.enabled, firing: false });
+    if (!rule) return NextResponse.json({ error: "Unknown rule" }, { status: 404 });
+    return NextResponse.json({ rule });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: (err as Error)?.message ?? "Unknown error" }, { status: 500 });
+  }
+}
+
+// DELETE /api/alerts?id=al_x
+export async function DELETE(req: Request) {
+  try {
+    const id = new URL(req.url).searchParams.get("id");
+    if (!id) return NextResponse.json({ error: "Missing ?id=" }, { status: 400 });
+    return NextResponse.json(await deleteAlertRule(id));
+  } catch (err: unknown) {
+    return NextResponse.json({ error: (err as Error)?.message ?? "Unknown error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import {
+  getBackfillJob,
+  isInvalidWindow,
+  listBackfillJobs,
+  resumeBackfill,
+  startBackfill,
+} from "@/lib/backfill";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/backfill          – recent jobs
+// GET /api/backfill?id=bf_x  – one job with per-chunk progress
+export async function GET(req: Request) {
+  try {
+    const id = new URL(req.url).searchParams.get("id");
+    if (id) {
+      const job = await getBackfillJob(id);
+      if (!job) return NextResponse.json({ error: `No backfill job ${id}` }, { status: 404 });
+      return NextResponse.json({ job });
+    }
+    return NextResponse.json({ jobs: await listBackfillJobs() });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: (err as Error)?.message ?? "Unknown error" }, { status: 500 });
+  }
+}
+
+// POST /api/backfill  { from, to, station? } – start a job (ISO strings or unix ms)
+// POST /api/backfill  { resume: id }        – retry a job's failed/unfinished chunks
+export async function POST(req: Request) {
+  try {
+    const body = await req.json().catch(() => ({}));
+
+    if (typeof body?.resume === "string") {
+      const job = await resumeBackfill(body.resume);
+      if (!job) return NextResponse.json({ error: `No backfill job ${body.resume}` }, { status: 404 });
+      return NextResponse.json({ job });
+    }
+
+    const from = typeof body?.from === "number" ? body.from : Date.parse(body?.from);
+    const to = typeof body?.to === "number" ? body.to : Date.parse(body?.to);
+    if (!Number.isFinite(from) || !Number.isFinite(to)) {
+      return NextResponse.json({ error: "Body must be { from, to } or { resume: id }" }, { status: 400 });
+    }
+
+    return NextResponse.json({ job: await startBackfill(from, to, body?.station || undefined) }, { status: 202 });
+  } catch (err: unknown) {
+    const status = isInvalidWindow(err) ? 400 : 500;
+    return NextResponse.json({ error: (err as Error)?.message ?? "Unknown error" }, { status });
+  }
+}
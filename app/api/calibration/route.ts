@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server";
+import { evaluateCalibration, fitDaConstants, parseReferenceCsv } from "@/lib/calibration";
+import {
+  deleteCalibrationProfile,
+  listCalibrationProfiles,
+  saveCalibrationProfile,
+} from "@/lib/calibrationStore";
+import { getComputeOptions, getSettings, updateSettings } from "@/lib/settingsStore";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/calibration -> { profiles, activeId }
+export async function GET() {
+  try {
+    const [profiles, settings] = await Promise.all([listCalibrationProfiles(), getSettings()]);
+    return NextResponse.json({ profiles, activeId: settings.calibrationProfileId });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: (err as Error)?.message ?? "Unknown error" }, { status: 500 });
+  }
+}
+
+// POST /api/calibration  { action: "evaluate", csv }
+//   -> { current, refit: { constants, report } | null }
+// POST /api/calibration  { action: "save", name, daA, daB, fit? } -> { profile }
+export async function POST(req: Request) {
+  try {
+    const body = await req.json().catch(() => ({}));
+
+    if (body?.action === "evaluate") {
+      if (typeof body.csv !== "string") {
+        return NextResponse.json({ error: "Body must be { action, csv }" }, { status: 400 });
+      }
+      const rows = parseReferenceCsv(body.csv);
+      const calc = await getComputeOptions();
+      const current = evaluateCalibration(rows, calc);
+      const constants = fitDaConstants(rows, calc);
+      const refit = constants
+        ? { constants, report: evaluateCalibration(rows, { ...calc, calibration: constants }) }
+        : null;
+      return NextResponse.json({ current, refit });
+    }
+
+    if (body?.action === "save") {
+      const profile = await saveCalibrationProfile(
+        String(body.name ?? ""),
+        { daA: Number(body.daA), daB: Number(body.daB) },
+        body.fit ?? null
+      );
+      return NextResponse.json({ profile });
+    }
+
+    return NextResponse.json({ error: 'action must be "evaluate" or "save"' }, { status: 400 });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: (err as Error)?.message ?? "Unknown error" }, { status: 400 });
+  }
+}
+
+// DELETE /api/calibration?id=cal_x  (deleting the active profile reverts to the built-in constants)
+export async function DELETE(req: Request) {
+  try {
+    const id = new URL(req.url).searchParams.get("id");
+    if (!id) return NextResponse.json({ error: "Missing ?id=" }, { status: 400 });
+    if ((await getSettings()).calibrationProfileId === id) {
+      await updateSettings({ calibrationProfileId: null });
+    }
+    return NextResponse.json(await deleteCalibrationProfile(id));
+  } catch (err: unknown) {
+    return NextResponse.json({ error: (err as Error)?.message ?? "Unknown error" }, { status: 500 });
+  }
+}
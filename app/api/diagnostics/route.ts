@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+import { stationDiagnostics } from "@/lib/diagnostics";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/diagnostics?station=<id>
+//   -> per-sensor type / last report / battery + reception fields, which record
+//      fed each input, and the poller's view of the station
+export async function GET(req: Request) {
+  try {
+    const station = new URL(req.url).searchParams.get("station") || undefined;
+    return NextResponse.json(await stationDiagnostics(station));
+  } catch (err: unknown) {
+    return NextResponse.json({ error: (err as Error)?.message ?? "Unknown error" }, { status: 500 });
+  }
+}
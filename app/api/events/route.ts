@@ -0,0 +1,95 @@
+import { NextResponse } from "next/server";
+import {
+  createEvent,
+  deleteEvent,
+  deleteSession,
+  endSession,
+  eventReadings,
+  eventReadingsToCsv,
+  getEvent,
+  listEvents,
+  startSession,
+} from "@/lib/eventStore";
+import { summarizeReadings } from "@/lib/events";
+import { parseUnitPrefs } from "@/lib/units";
+
+export const dynamic = "force-dynamic";
+
+// The browse view pages nothing; the CSV always has every reading
+const BROWSE_MAX = 2000;
+
+// GET /api/events                        -> { events }
+// GET /api/events?id=ev_x&session=se_y   -> { event, session, summary, readings, total } (session optional)
+// GET /api/events?id=ev_x&format=csv&units=metric|F,hPa,...  -> CSV in the track's local time
+export async function GET(req: Request) {
+  try {
+    const sp = new URL(req.url).searchParams;
+    const id = sp.get("id");
+    if (!id) return NextResponse.json({ events: await listEvents() });
+
+    const event = await getEvent(id);
+    if (!event) return NextResponse.json({ error: `No event ${id}` }, { status: 404 });
+    const sessionId = sp.get("session");
+    const session = sessionId ? (event.sessions.find((s) => s.id === sessionId) ?? null) : null;
+    if (sessionId && !session) return NextResponse.json({ error: `No session ${sessionId}` }, { status: 404 });
+
+    const readings = await eventReadings(id, sessionId);
+
+    if (sp.get("format") === "csv") {
+      const name = [event.track, event.startDate, session?.label].filter(Boolean).join("_").replace(/[^\w-]+/g, "-");
+      return new NextResponse(eventReadingsToCsv(event, readings, parseUnitPrefs(sp.get("units"))), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="${name}.csv"`,
+        },
+      });
+    }
+
+    return NextResponse.json({
+      event,
+      session,
+      summary: summarizeReadings(readings),
+      readings: readings.slice(0, BROWSE_MAX),
+      total: readings.length,
+    });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: (err as Error)?.message ?? "Unknown error" }, { status: 500 });
+  }
+}
+
+// POST /api/events  { action: "create", track, location, timezone, startDate, endDate?, stationId? } -> { event }
+// POST /api/events  { action: "start", eventId, kind: "test" | "qualifying" | "elimination", number? } -> { session }
+// POST /api/events  { action: "end", eventId } -> { session }  (the one that was running, or null)
+export async function POST(req: Request) {
+  try {
+    const body = await req.json().catch(() => ({}));
+
+    if (body?.action === "create") {
+      return NextResponse.json({ event: await createEvent(body) });
+    }
+    if (body?.action === "start") {
+      return NextResponse.json({ session: await startSession(String(body.eventId ?? ""), body.kind, body.number) });
+    }
+    if (body?.action === "end") {
+      return NextResponse.json({ session: await endSession(String(body.eventId ?? "")) });
+    }
+
+    return NextResponse.json({ error: 'action must be "create", "start" or "end"' }, { status: 400 });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: (err as Error)?.message ?? "Unknown error" }, { status: 400 });
+  }
+}
+
+// DELETE /api/events?id=ev_x              – the event (its readings are kept, untagged)
+// DELETE /api/events?id=ev_x&session=se_y – one session (its readings stay with the event)
+export async function DELETE(req: Request) {
+  try {
+    const sp = new URL(req.url).searchParams;
+    const id = sp.get("id");
+    if (!id) return NextResponse.json({ error: "Missing ?id=" }, { status: 400 });
+    const sessionId = sp.get("session");
+    return NextResponse.json(sessionId ? await deleteSession(id, sessionId) : await deleteEvent(id));
+  } catch (err: unknown) {
+    return NextResponse.json({ error: (err as Error)?.message ?? "Unknown error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,173 @@
+import { NextResponse } from "next/server";
+import { addReadings, deleteHistory, previewReadings, queryHistory, rangeReadings } from "@/lib/historyStore";
+import { getProvider } from "@/lib/providers";
+import { listCalibrationProfiles } from "@/lib/calibrationStore";
+import { tagReadings } from "@/lib/eventStore";
+import { getComputeOptions } from "@/lib/settingsStore";
+import { computeRacingWeather } from "@/lib/weatherCalc";
+import { toCsv } from "@/lib/csv";
+import { toXlsx } from "@/lib/xlsx";
+import { EXPORT_FORMATS, exportTable, isExportFormat, parseImport, resolveColumns } from "@/lib/historyTransfer";
+import { parseUnitPrefs } from "@/lib/units";
+import { isReading, rebuildReading, type Reading } from "@/lib/reading";
+
+export const dynamic = "force-dynamic";
+
+// Accepts ISO strings or unix ms for ?from= / ?to= / ?before=
+function parseTimeParam(sp: URLSearchParams, name: string): number | null {
+  const v = sp.get(name);
+  if (!v) return null;
+  const n = Number(v);
+  if (Number.isFinite(n)) return n;
+  const ms = Date.parse(v);
+  if (!Number.isFinite(ms)) throw Object.assign(new Error(`Invalid ${name}: ${v}`), { param: name });
+  return ms;
+}
+
+// A query parameter the caller got wrong is theirs (400); anything else is ours (500)
+function errorStatus(err: unknown): number {
+  return typeof (err as { param?: unknown })?.param === "string" ? 400 : 500;
+}
+
+// No ?station= means every station; an empty ?station= means the default one.
+function parseStationParam(sp: URLSearchParams): string | null {
+  const v = sp.get("station");
+  if (v === null) return null;
+  return v || getProvider().defaultStationId();
+}
+
+function parseIntParam(v: string | null): number | undefined {
+  if (!v) return undefined;
+  const n = parseInt(v, 10);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+// Most import problems worth listing back; the rest are only counted
+const ISSUES_MAX = 50;
+
+async function calibrationProfiles() {
+  return new Map((await listCalibrationProfiles()).map((p) => [p.id, p]));
+}
+
+// Recompute the calc breakdown with the settings each reading was captured under
+async function rawForReadings() {
+  const profiles = await calibrationProfiles();
+  return (r: Reading) => {
+    const profile = r.calibrationProfileId ? profiles.get(r.calibrationProfileId) : undefined;
+    return computeRacingWeather(r.inputs, {
+      correctionStandard: r.correctionStandard,
+      calibration: profile ? { daA: profile.daA, daB: profile.daB } : undefined,
+    });
+  };
+}
+
+// GET /api/history?station=&from=&to=&limit=&offset=&before=  – before: only readings older than this
+// GET /api/history?format=csv|json|xlsx&station=&from=&to=&columns=ts,tempF,...&units=  – download the whole range
+export async function GET(req: Request) {
+  try {
+    const sp = new URL(req.url).searchParams;
+    const format = sp.get("format");
+    if (format !== null) {
+      if (!isExportFormat(format)) {
+        return NextResponse.json({ error: `Unknown format: ${format}` }, { status: 400 });
+      }
+      const station = parseStationParam(sp);
+      const from = parseTimeParam(sp, "from");
+      const to = parseTimeParam(sp, "to");
+      const units = parseUnitPrefs(sp.get("units"));
+      const columns = resolveColumns(sp.get("columns")?.split(","));
+      const readings = await rangeReadings(from, to, station);
+      const { header, rows } = exportTable(readings, columns, units, await rawForReadings());
+
+      const stamp = new Date().toISOString().slice(0, 10);
+      const name = `RaceWx_${station ?? "all"}_${stamp}`.replace(/[^\w-]+/g, "-");
+      const { ext, mime } = EXPORT_FORMATS[format];
+      const body =
+        format === "csv"
+          ? toCsv(header, rows)
+          : format === "xlsx"
+          ? new Uint8Array(toXlsx("Readings", header, rows))
+          : JSON.stringify({
+              exportedAt: new Date().toISOString(),
+              station,
+              from: from === null ? null : new Date(from).toISOString(),
+              to: to === null ? null : new Date(to).toISOString(),
+              units,
+              columns: header,
+              rows: rows.map((row) => Object.fromEntries(header.map((h, i) => [h, row[i]]))),
+            });
+      return new NextResponse(body, {
+        headers: {
+          "Content-Type": mime,
+          "Content-Disposition": `attachment; filename="${name}.${ext}"`,
+        },
+      });
+    }
+
+    const page = await queryHistory({
+      station: parseStationParam(sp),
+      from: parseTimeParam(sp, "from"),
+      to: parseTimeParam(sp, "to"),
+      before: parseTimeParam(sp, "before"),
+      limit: parseIntParam(sp.get("limit")),
+      offset: parseIntParam(sp.get("offset")),
+    });
+    return NextResponse.json(page);
+  } catch (err: unknown) {
+    return NextResponse.json({ error: (err as Error)?.message ?? "Unknown error" }, { status: errorStatus(err) });
+  }
+}
+
+// POST /api/history  { readings: Reading[] }  – bulk import (e.g. old localStorage history), recomputed from inputs
+// POST /api/history  { text, format: "csv"|"json", station?, dryRun? }  – import an exported (or hand-made) file
+//   -> { added, skipped, invalid, issues: [{ row, error }], total }
+export async function POST(req: Request) {
+  try {
+    const body = await req.json();
+    if (typeof body?.text === "string") {
+      if (body.format !== "csv" && body.format !== "json") {
+        return NextResponse.json({ error: 'format must be "csv" or "json"' }, { status: 400 });
+      }
+      let parsed: ReturnType<typeof parseImport>;
+      try {
+        parsed = parseImport(body.text, body.format, {
+          station: String(body.station || getProvider().defaultStationId()),
+          calc: await getComputeOptions(),
+          profiles: await calibrationProfiles(),
+        });
+      } catch (e: unknown) {
+        return NextResponse.json({ error: (e as Error)?.message ?? "Unreadable file" }, { status: 400 });
+      }
+      const readings = await tagReadings(parsed.readings);
+      const result = body.dryRun ? await previewReadings(readings) : await addReadings(readings);
+      return NextResponse.json({
+        ...result,
+        invalid: parsed.issues.length,
+        issues: parsed.issues.slice(0, ISSUES_MAX),
+        total: parsed.total,
+      });
+    }
+
+    const readings = body?.readings;
+    if (!Array.isArray(readings)) {
+      return NextResponse.json({ error: "Body must be { readings: [...] }" }, { status: 400 });
+    }
+    const profiles = await calibrationProfiles();
+    const valid = readings.filter(isReading).map((r) => rebuildReading(r, profiles));
+    const result = await addReadings(await tagReadings(valid));
+    return NextResponse.json({ ...result, skipped: result.skipped + readings.length - valid.length });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: (err as Error)?.message ?? "Unknown error" }, { status: 500 });
+  }
+}
+
+// DELETE /api/history?station=&from=&to=  – no filters clears everything
+export async function DELETE(req: Request) {
+  try {
+    const sp = new URL(req.url).searchParams;
+    const result = await deleteHistory(parseTimeParam(sp, "from"), parseTimeParam(sp, "to"), parseStationParam(sp));
+    return NextResponse.json(result);
+  } catch (err: unknown) {
+    return NextResponse.json({ error: (err as Error)?.message ?? "Unknown error" }, { status: errorStatus(err) });
+  }
+}
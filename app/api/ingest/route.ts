@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import {
+  getIngestStatus,
+  readIngestLog,
+  runIngestNow,
+  startIngest,
+  stopIngest,
+} from "@/lib/ingest";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/ingest – poller status plus recent gaps/failures
+export async function GET() {
+  try {
+    const log = await readIngestLog(50);
+    return NextResponse.json({ status: getIngestStatus(), log });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: (err as Error)?.message ?? "Unknown error" }, { status: 500 });
+  }
+}
+
+// POST /api/ingest  { action: "start" | "stop" | "run" }
+export async function POST(req: Request) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const action = body?.action;
+
+    if (action === "start") startIngest();
+    else if (action === "stop") stopIngest();
+    else if (action === "run") await runIngestNow();
+    else {
+      return NextResponse.json({ error: 'action must be "start", "stop" or "run"' }, { status: 400 });
+    }
+
+    return NextResponse.json({ status: getIngestStatus() });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: (err as Error)?.message ?? "Unknown error" }, { status: 500 });
+  }
+}
@@ -1,28 +1,7 @@
 import { NextResponse } from "next/server";
+import { fetchWeatherLinkCurrent } from "@/lib/weatherlink";
 
-async function fetchWeatherLinkCurrent() {
-  const apiKey = process.env.WEATHERLINK_API_KEY;
-  const apiSecret = process.env.WEATHERLINK_API_SECRET;
-  const stationId = process.env.WEATHERLINK_STATION_ID;
-
-  if (!apiKey || !apiSecret || !stationId) {
-    throw new Error("Missing WEATHERLINK env vars. Check .env.local");
-  }
-
-  const url = `https://api.weatherlink.com/v2/current/${stationId}?api-key=${apiKey}`;
-  const res = await fetch(url, {
-    headers: { "X-Api-Secret": apiSecret },
-    cache: "no-store",
-  });
-
-  if (!res.ok) {
-    const txt = await res.text();
-    throw new Error(`WeatherLink HTTP ${res.status}: ${txt}`);
-  }
-
-  return res.json();
-}
-
+// Shares the WeatherLink client's cache and rate-limit protection with /api/live
 export async function GET() {
   try {
     const payload = await fetchWeatherLinkCurrent();
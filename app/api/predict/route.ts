@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server";
+import { listRuns } from "@/lib/runStore";
+import { latestReading } from "@/lib/historyStore";
+import { fieldValue } from "@/lib/reading";
+import { getProvider } from "@/lib/providers";
+import {
+  BASE_FEATURES,
+  fitModel,
+  predict,
+  type FittedModel,
+  type ModelConditions,
+  type ModelDistance,
+  type ModelTarget,
+} from "@/lib/predict";
+
+export const dynamic = "force-dynamic";
+
+function summarize(model: FittedModel | null, conditions: ModelConditions) {
+  if (!model) return null;
+  return {
+    n: model.n,
+    r2: model.r2,
+    sigma: model.sigma,
+    features: model.features,
+    residuals: model.residuals,
+    prediction: predict(model, conditions),
+  };
+}
+
+// Track temp joins the features only when asked for and enough passes logged it
+function fitWithOptionalTrackTemp(
+  runs: Awaited<ReturnType<typeof listRuns>>,
+  target: ModelTarget,
+  distance: ModelDistance,
+  useTrackTemp: boolean
+) {
+  if (useTrackTemp) {
+    const m = fitModel(runs, target, distance, [...BASE_FEATURES, "trackTempF"]);
+    if (m) return m;
+  }
+  return fitModel(runs, target, distance);
+}
+
+// GET /api/predict?car=&distance=quarter|eighth&station=&trackTempF=
+export async function GET(req: Request) {
+  try {
+    const sp = new URL(req.url).searchParams;
+    const car = sp.get("car") ?? "";
+    const distance: ModelDistance = sp.get("distance") === "eighth" ? "eighth" : "quarter";
+    const station = sp.get("station") || getProvider().defaultStationId();
+    const trackTempF = sp.get("trackTempF") ? Number(sp.get("trackTempF")) : null;
+
+    const runs = await listRuns({ car: car || null });
+    const latest = await latestReading(station || null);
+
+    const conditions: ModelConditions = {
+      adr: latest?.display.adr,
+      densityAltFt: latest?.display.densityAltFt,
+      correction: latest ? fieldValue(latest, "correction", "sheet") : undefined,
+      humidityGrains: latest?.display.humidityGrains,
+      trackTempF: Number.isFinite(trackTempF) ? trackTempF : null,
+    };
+    const useTrackTemp = conditions.trackTempF !== null;
+
+    return NextResponse.json({
+      car,
+      distance,
+      readingTs: latest?.display.ts ?? null,
+      et: summarize(fitWithOptionalTrackTemp(runs, "et", distance, useTrackTemp), conditions),
+      mph: summarize(fitWithOptionalTrackTemp(runs, "mph", distance, useTrackTemp), conditions),
+    });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: (err as Error)?.message ?? "Unknown error" }, { status: 500 });
+  }
+}
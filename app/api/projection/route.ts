@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+import { getProvider } from "@/lib/providers";
+import {
+  deleteProjection,
+  listProjections,
+  makeProjection,
+  projectionAccuracy,
+  saveProjection,
+} from "@/lib/projectionStore";
+
+export const dynamic = "force-dynamic";
+
+function parseTime(v: unknown): number {
+  if (typeof v === "number") return v;
+  const s = String(v ?? "");
+  return /^\d+$/.test(s) ? Number(s) : Date.parse(s);
+}
+
+function parseLookback(v: unknown): number | undefined {
+  const n = Number(v);
+  return v != null && v !== "" && Number.isFinite(n) && n > 0 ? n : undefined;
+}
+
+// GET /api/projection?station=&at=<ms|iso>&lookbackMin=  -> { projection } (not saved)
+// GET /api/projection?station=                           -> { projections, accuracy }
+export async function GET(req: Request) {
+  const sp = new URL(req.url).searchParams;
+  const station = sp.get("station") || getProvider().defaultStationId();
+
+  if (!sp.get("at")) {
+    try {
+      const projections = await listProjections(station);
+      return NextResponse.json({ projections, accuracy: projectionAccuracy(projections) });
+    } catch (err: unknown) {
+      return NextResponse.json({ error: (err as Error)?.message ?? "Unknown error" }, { status: 500 });
+    }
+  }
+
+  try {
+    const projection = await makeProjection(station, parseTime(sp.get("at")), parseLookback(sp.get("lookbackMin")));
+    return NextResponse.json({ projection });
+  } catch (err: unknown) {
+    // Not enough data / too far ahead
+    return NextResponse.json({ error: (err as Error)?.message ?? "Unknown error" }, { status: 422 });
+  }
+}
+
+// POST /api/projection  { station?, at, lookbackMin? }  -> { projection } (saved for scoring later)
+export async function POST(req: Request) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const station = body?.station || getProvider().defaultStationId();
+    const projection = await makeProjection(station, parseTime(body?.at), parseLookback(body?.lookbackMin));
+    return NextResponse.json({ projection: await saveProjection(projection) });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: (err as Error)?.message ?? "Unknown error" }, { status: 422 });
+  }
+}
+
+// DELETE /api/projection?id=pj_x
+export async function DELETE(req: Request) {
+  try {
+    const id = new URL(req.url).searchParams.get("id");
+    if (!id) return NextResponse.json({ error: "Missing ?id=" }, { status: 400 });
+    return NextResponse.json(await deleteProjection(id));
+  } catch (err: unknown) {
+    return NextResponse.json({ error: (err as Error)?.message ?? "Unknown error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,80 @@
+import { NextResponse } from "next/server";
+import {
+  addRun,
+  deleteRun,
+  listRunCars,
+  listRunEvents,
+  listRuns,
+  runsToCsv,
+  setRunExcluded,
+} from "@/lib/runStore";
+import { parseUnitPrefs } from "@/lib/units";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/runs?q=&event=&car=&format=csv&units=metric|F,hPa,...
+export async function GET(req: Request) {
+  try {
+    const sp = new URL(req.url).searchParams;
+    const runs = await listRuns({ q: sp.get("q"), event: sp.get("event"), car: sp.get("car") });
+
+    if (sp.get("format") === "csv") {
+      return new NextResponse(runsToCsv(runs, parseUnitPrefs(sp.get("units"))), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="RunLog_${new Date().toISOString().slice(0, 10)}.csv"`,
+        },
+      });
+    }
+
+    return NextResponse.json({ runs, events: await listRunEvents(), cars: await listRunCars() });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: (err as Error)?.message ?? "Unknown error" }, { status: 500 });
+  }
+}
+
+// POST /api/runs  { runAt?, stationId?, event, car, lane, sixtyFt, ..., trackTempF?, notes, tuneUp }
+export async function POST(req: Request) {
+  try {
+    const body = await req.json().catch(() => null);
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ error: "Body must be a run object" }, { status: 400 });
+    }
+    // Left out means now; anything else has to be a time
+    const runAt = body.runAt;
+    if (runAt !== undefined && runAt !== null && runAt !== "") {
+      if (typeof runAt !== "string" || !Number.isFinite(Date.parse(runAt))) {
+        return NextResponse.json({ error: `Invalid runAt: ${String(runAt)}` }, { status: 400 });
+      }
+    }
+    return NextResponse.json({ run: await addRun(body) });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: (err as Error)?.message ?? "Unknown error" }, { status: 500 });
+  }
+}
+
+// PATCH /api/runs  { id, excluded }  – leave a pass out of (or put it back into) model training
+export async function PATCH(req: Request) {
+  try {
+    const body = await req.json().catch(() => null);
+    if (typeof body?.id !== "string" || typeof body?.excluded !== "boolean") {
+      return NextResponse.json({ error: "Body must be { id, excluded }" }, { status: 400 });
+    }
+    const run = await setRunExcluded(body.id, body.excluded);
+    if (!run) return NextResponse.json({ error: `No run ${body.id}` }, { status: 404 });
+    return NextResponse.json({ run });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: (err as Error)?.message ?? "Unknown error" }, { status: 500 });
+  }
+}
+
+// DELETE /api/runs?id=run_x
+export async function DELETE(req: Request) {
+  try {
+    const id = new URL(req.url).searchParams.get("id");
+    if (!id) return NextResponse.json({ error: "Missing ?id=" }, { status: 400 });
+    return NextResponse.json(await deleteRun(id));
+  } catch (err: unknown) {
+    return NextResponse.json({ error: (err as Error)?.message ?? "Unknown error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { deleteScenario, listScenarios, saveScenario } from "@/lib/scenarioStore";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    return NextResponse.json({ scenarios: await listScenarios() });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: (err as Error)?.message ?? "Unknown error" }, { status: 500 });
+  }
+}
+
+// POST /api/scenarios  { name, inputs: { tempF, humidityPct, absPressureInHg } }
+export async function POST(req: Request) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    if (typeof body?.name !== "string") {
+      return NextResponse.json({ error: "Body must be { name, inputs }" }, { status: 400 });
+    }
+    return NextResponse.json({ scenario: await saveScenario(body.name, body.inputs) });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: (err as Error)?.message ?? "Unknown error" }, { status: 400 });
+  }
+}
+
+// DELETE /api/scenarios?id=sc_x
+export async function DELETE(req: Request) {
+  try {
+    const id = new URL(req.url).searchParams.get("id");
+    if (!id) return NextResponse.json({ error: "Missing ?id=" }, { status: 400 });
+    return NextResponse.json(await deleteScenario(id));
+  } catch (err: unknown) {
+    return NextResponse.json({ error: (err as Error)?.message ?? "Unknown error" }, { status: 500 });
+  }
+}
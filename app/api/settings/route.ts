@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { getComputeOptions, getSettings, updateSettings } from "@/lib/settingsStore";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const settings = await getSettings();
+    return NextResponse.json({ settings, calibration: (await getComputeOptions()).calibration ?? null });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: (err as Error)?.message ?? "Unknown error" }, { status: 500 });
+  }
+}
+
+// PATCH /api/settings  { correctionStandard?, calibrationProfileId?, quality?: { smoothing?, window?, maxStepPerMin? } }
+export async function PATCH(req: Request) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const settings = await updateSettings(body ?? {});
+    return NextResponse.json({ settings, calibration: (await getComputeOptions()).calibration ?? null });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: (err as Error)?.message ?? "Unknown error" }, { status: 400 });
+  }
+}
@@ -0,0 +1,81 @@
+import { NextResponse } from "next/server";
+import {
+  isCorrectionStandard,
+  SOLVE_RANGES,
+  SOLVE_TARGETS,
+  solveForInput,
+  type SolveFor,
+  type SolveTarget,
+} from "@/lib/weatherCalc";
+import type { DisplayField } from "@/lib/reading";
+import { fromDisplayUnits, parseUnitPrefs } from "@/lib/units";
+
+// Solve targets whose value is a convertible quantity (the rest are unitless)
+const TARGET_FIELD: Partial<Record<SolveTarget, DisplayField>> = {
+  densityAltFt: "densityAltFt",
+  humidityGrains: "humidityGrains",
+  dewPointF: "dewPointF",
+};
+
+// A finite number, or null when missing or blank (Number("") would be 0)
+function numberParam(sp: URLSearchParams, name: string): number | null {
+  const v = sp.get(name)?.trim();
+  if (!v) return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+// GET /api/solve?solveFor=tempF&target=adrPct&value=95&humidityPct=40&absPressureInHg=28.9
+// The two inputs not being solved for are required. &standard= picks the correction standard.
+// &units=metric (or e.g. C,hPa) means the known inputs and the target value are in those
+// units; the result stays imperial, as everywhere else in the API.
+export function GET(req: Request) {
+  try {
+    const sp = new URL(req.url).searchParams;
+    const units = parseUnitPrefs(sp.get("units"));
+
+    const solveFor = sp.get("solveFor") as SolveFor;
+    const target = sp.get("target") as SolveTarget;
+    const typed = numberParam(sp, "value");
+
+    if (!Object.hasOwn(SOLVE_RANGES, solveFor ?? "")) {
+      return NextResponse.json(
+        { error: `solveFor must be one of: ${Object.keys(SOLVE_RANGES).join(", ")}` },
+        { status: 400 }
+      );
+    }
+    if (!SOLVE_TARGETS.includes(target)) {
+      return NextResponse.json({ error: `target must be one of: ${SOLVE_TARGETS.join(", ")}` }, { status: 400 });
+    }
+    if (typed === null) {
+      return NextResponse.json({ error: "value must be a number" }, { status: 400 });
+    }
+    const targetField = TARGET_FIELD[target];
+    const value = targetField ? fromDisplayUnits(targetField, typed, units) : typed;
+
+    const known = { tempF: NaN, humidityPct: NaN, absPressureInHg: NaN };
+    for (const k of Object.keys(known) as SolveFor[]) {
+      if (k === solveFor) continue;
+      const n = numberParam(sp, k);
+      if (n === null) {
+        return NextResponse.json({ error: `${k} is required when solving for ${solveFor}` }, { status: 400 });
+      }
+      known[k] = fromDisplayUnits(k, n, units);
+    }
+
+    const standard = sp.get("standard");
+    const result = solveForInput(solveFor, target, value, known, {
+      correctionStandard: isCorrectionStandard(standard) ? standard : undefined,
+    });
+    if (!result) {
+      return NextResponse.json(
+        { error: `No ${solveFor} in ${SOLVE_RANGES[solveFor].join("–")} gives ${target} = ${typed}` },
+        { status: 422 }
+      );
+    }
+
+    return NextResponse.json({ result });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: (err as Error)?.message ?? "Unknown error" }, { status: 500 });
+  }
+}
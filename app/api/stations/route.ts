@@ -1,40 +1,36 @@
 import { NextResponse } from "next/server";
+import { getProvider } from "@/lib/providers";
+import { listStationConfig, setStationElevation, setStationLsids } from "@/lib/stationConfigStore";
 
-async function fetchStations() {
-  const apiKey = process.env.WEATHERLINK_API_KEY;
-  const apiSecret = process.env.WEATHERLINK_API_SECRET;
-
-  if (!apiKey || !apiSecret) {
-    throw new Error("Missing WEATHERLINK_API_KEY or WEATHERLINK_API_SECRET in .env.local");
-  }
+// GET /api/stations  -> { provider, stations, config: { [stationId]: { elevationFt, lsids } } }
+export async function GET() {
+  try {
+    const provider = getProvider();
 
-  const url = `https://api.weatherlink.com/v2/stations?api-key=${apiKey}`;
-  const res = await fetch(url, {
-    headers: { "X-Api-Secret": apiSecret },
-    cache: "no-store",
-  });
+    // Providers without an account-level listing just offer their configured stations
+    const stations = provider.listStations
+      ? await provider.listStations()
+      : provider.stationIds().filter(Boolean).map((id) => ({ station_id: id, station_name: id }));
 
-  if (!res.ok) {
-    const txt = await res.text();
-    throw new Error(`Stations HTTP ${res.status}: ${txt}`);
+    return NextResponse.json({ provider: provider.id, stations, config: await listStationConfig() });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: (err as Error)?.message ?? "Unknown error" }, { status: 500 });
   }
-
-  return res.json();
 }
 
-export async function GET() {
+// PATCH /api/stations  { stationId?, elevationFt?: number | null, lsids?: { tempF?: number | null, ... } }
+// (stationId defaults to the provider's; a null lsid goes back to picking by sensor role)
+export async function PATCH(req: Request) {
   try {
-    const payload = await fetchStations();
-
-    // Return only the helpful bits
-    const stations = (payload?.stations ?? []).map((s: any) => ({
-      station_name: s.station_name,
-      station_id: s.station_id,               // <— THIS is what you need
-      station_id_uuid: s.station_id_uuid,     // <— also acceptable for /current
-    }));
-
-    return NextResponse.json({ stations });
-  } catch (err: any) {
-    return NextResponse.json({ error: err?.message ?? "Unknown error" }, { status: 500 });
+    const body = await req.json().catch(() => null);
+    if (!body || typeof body !== "object" || !("elevationFt" in body || "lsids" in body)) {
+      return NextResponse.json({ error: "Body must be { stationId?, elevationFt?, lsids? }" }, { status: 400 });
+    }
+    const stationId = String(body.stationId || getProvider().defaultStationId());
+    let config = "elevationFt" in body ? await setStationElevation(stationId, body.elevationFt) : null;
+    if ("lsids" in body) config = await setStationLsids(stationId, body.lsids);
+    return NextResponse.json({ stationId, config });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: (err as Error)?.message ?? "Unknown error" }, { status: 400 });
   }
 }
@@ -0,0 +1,122 @@
+import { NextResponse } from "next/server";
+import { latestReading, rangeReadings, readingStation } from "@/lib/historyStore";
+import { liveStatus, watchStation } from "@/lib/ingest";
+import { subscribeLive, type LiveEvent } from "@/lib/liveBus";
+import { getProvider } from "@/lib/providers";
+import type { Reading } from "@/lib/reading";
+
+export const dynamic = "force-dynamic";
+
+// Most missed readings replayed on reconnect; older gaps are left to /api/history
+const CATCHUP_MAX = 500;
+// Comment line that keeps proxies from closing an idle connection
+const HEARTBEAT_MS = 25_000;
+// How long the browser waits before reconnecting
+const RETRY_MS = 5_000;
+
+function frame(event: string, data: unknown, id?: string): string {
+  return `${id ? `id: ${id}\n` : ""}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+// GET /api/stream?station=&since=  – text/event-stream of `reading` and `status` events
+//   No ?station= means every station; an empty ?station= means the default one.
+//   Each reading's id is its ts, so a reconnect (Last-Event-ID, or ?since=) replays
+//   what was missed; a first connect gets the latest stored reading.
+export async function GET(req: Request) {
+  try {
+    const sp = new URL(req.url).searchParams;
+    const provider = getProvider();
+    const param = sp.get("station");
+    const station = param === null ? null : param || provider.defaultStationId();
+    const sinceRaw = req.headers.get("last-event-id") || sp.get("since");
+    const sinceMs = sinceRaw ? Date.parse(sinceRaw) : null;
+    if (sinceMs !== null && !Number.isFinite(sinceMs)) {
+      return NextResponse.json({ error: `Invalid since: ${sinceRaw}` }, { status: 400 });
+    }
+
+    const encoder = new TextEncoder();
+    const watched = station === null ? provider.stationIds() : [station];
+    let cleanup = () => {};
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        let closed = false;
+        const send = (text: string) => {
+          if (closed) return;
+          try {
+            controller.enqueue(encoder.encode(text));
+          } catch {
+            cleanup();
+          }
+        };
+
+        // Subscribe first and hold live events until the catch-up is out, so nothing falls between
+        let queue: LiveEvent[] | null = [];
+        let lastTs = sinceMs ?? -Infinity;
+        const deliver = (event: LiveEvent) => {
+          if (event.type === "status") {
+            if (station === null || event.status.stationId === station) send(frame("status", event.status));
+            return;
+          }
+          const r = event.reading;
+          if (station !== null && readingStation(r) !== station) return;
+          const ms = Date.parse(r.display.ts);
+          if (ms <= lastTs && station !== null) return;
+          lastTs = Math.max(lastTs, ms);
+          send(frame("reading", r, r.display.ts));
+        };
+        const unsubscribe = subscribeLive((event) => (queue ? queue.push(event) : deliver(event)));
+        const unwatch = watched.map((id) => watchStation(id));
+        const heartbeat = setInterval(() => send(": ping\n\n"), HEARTBEAT_MS);
+
+        cleanup = () => {
+          if (closed) return;
+          closed = true;
+          clearInterval(heartbeat);
+          unsubscribe();
+          for (const stop of unwatch) stop();
+          try {
+            controller.close();
+          } catch {
+            // already closed by the client
+          }
+        };
+        req.signal.addEventListener("abort", () => cleanup());
+
+        send(`retry: ${RETRY_MS}\n\n`);
+        try {
+          let missed: Reading[];
+          if (sinceMs === null) {
+            const latest = await latestReading(station);
+            missed = latest ? [latest] : [];
+          } else {
+            missed = (await rangeReadings(sinceMs + 1, null, station)).slice(0, CATCHUP_MAX).reverse();
+          }
+          for (const r of missed) deliver({ type: "reading", reading: r });
+        } catch (err: unknown) {
+          send(frame("failure", { error: (err as Error)?.message ?? "Catch-up failed" }));
+        }
+        for (const id of watched) send(frame("status", liveStatus(id)));
+
+        const held = queue;
+        queue = null;
+        for (const event of held) deliver(event);
+      },
+      cancel() {
+        cleanup();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream; charset=utf-8",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+        // Stops nginx-style proxies buffering the stream
+        "X-Accel-Buffering": "no",
+      },
+    });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: (err as Error)?.message ?? "Unknown error" }, { status: 500 });
+  }
+}
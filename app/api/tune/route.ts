@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server";
+import { deleteTuneTable, listTuneTables, saveTuneTable, tuneTableVersions } from "@/lib/tuneStore";
+import { tableFromCsv, tableToCsv } from "@/lib/tuneTables";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/tune                       -> tables currently in effect
+// GET /api/tune?at=<ms|iso>           -> tables as they were at that time
+// GET /api/tune?id=tt_x               -> every version of one table
+// GET /api/tune?id=tt_x&format=csv    -> CSV of the latest (or &version=N)
+export async function GET(req: Request) {
+  try {
+    const url = new URL(req.url);
+    const id = url.searchParams.get("id");
+
+    if (id) {
+      const versions = await tuneTableVersions(id);
+      if (!versions.length) return NextResponse.json({ error: "Unknown table" }, { status: 404 });
+
+      if (url.searchParams.get("format") === "csv") {
+        const wanted = Number(url.searchParams.get("version"));
+        const table = versions.find((v) => v.version === wanted) ?? versions[0];
+        const safeName = table.name.replace(/[^\w.-]+/g, "_");
+        return new NextResponse(tableToCsv(table), {
+          headers: {
+            "Content-Type": "text/csv; charset=utf-8",
+            "Content-Disposition": `attachment; filename="${safeName}_v${table.version}.csv"`,
+          },
+        });
+      }
+      return NextResponse.json({ versions });
+    }
+
+    const atRaw = url.searchParams.get("at");
+    const at = atRaw ? (/^\d+$/.test(atRaw) ? Number(atRaw) : Date.parse(atRaw)) : Date.now();
+    if (!Number.isFinite(at)) return NextResponse.json({ error: "Bad ?at=" }, { status: 400 });
+
+    return NextResponse.json({ tables: await listTuneTables(at) });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: (err as Error)?.message ?? "Unknown error" }, { status: 500 });
+  }
+}
+
+// POST /api/tune  { id?, name, keyField, columns, rows }  or  { id?, name, csv }
+// Giving an id saves a new version of that table.
+export async function POST(req: Request) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    if (typeof body?.name !== "string") {
+      return NextResponse.json({ error: "Body must include a name" }, { status: 400 });
+    }
+    const parsed = typeof body.csv === "string" ? tableFromCsv(body.csv) : body;
+    const table = await saveTuneTable({
+      id: typeof body.id === "string" ? body.id : undefined,
+      name: body.name,
+      keyField: parsed.keyField,
+      columns: parsed.columns,
+      rows: parsed.rows,
+    });
+    return NextResponse.json({ table });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: (err as Error)?.message ?? "Unknown error" }, { status: 400 });
+  }
+}
+
+// DELETE /api/tune?id=tt_x
+export async function DELETE(req: Request) {
+  try {
+    const id = new URL(req.url).searchParams.get("id");
+    if (!id) return NextResponse.json({ error: "Missing ?id=" }, { status: 400 });
+    return NextResponse.json(await deleteTuneTable(id));
+  } catch (err: unknown) {
+    return NextResponse.json({ error: (err as Error)?.message ?? "Unknown error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,8 @@
+import { v1Error } from "@/lib/apiV1";
+
+// Anything else under /api/v1 gets the same error object as the real endpoints
+function notFound(req: Request) {
+  return v1Error("not_found", `No such endpoint: ${new URL(req.url).pathname} (see /api/v1/openapi.json)`);
+}
+
+export { notFound as GET, notFound as POST, notFound as PUT, notFound as PATCH, notFound as DELETE };
@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { computeRacingWeather, CORRECTION_STANDARDS, isCorrectionStandard } from "@/lib/weatherCalc";
+import { getComputeOptions } from "@/lib/settingsStore";
+import { QUALITY_INPUTS, VALID_RANGES } from "@/lib/quality";
+import { buildDisplay } from "@/lib/reading";
+import { invalidParam, parseV1Number, toV1Values, v1Failure } from "@/lib/apiV1";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/v1/calc?tempF=80&humidityPct=50&absPressureInHg=28.9&standard=  -> { result }
+// Imperial inputs only. Uses the app's calibration profile; standard defaults to the app's setting.
+export async function GET(req: Request) {
+  try {
+    const sp = new URL(req.url).searchParams;
+    const inputs = Object.fromEntries(
+      QUALITY_INPUTS.map((k) => [k, parseV1Number(sp, k, VALID_RANGES[k].min, VALID_RANGES[k].max)])
+    ) as Record<(typeof QUALITY_INPUTS)[number], number>;
+
+    const standard = sp.get("standard");
+    if (standard && !isCorrectionStandard(standard)) {
+      throw invalidParam("standard", `standard must be one of: ${Object.keys(CORRECTION_STANDARDS).join(", ")}`);
+    }
+    const { calibrationProfileId, ...opts } = await getComputeOptions();
+    const raw = computeRacingWeather(inputs, {
+      ...opts,
+      correctionStandard: isCorrectionStandard(standard) ? standard : opts.correctionStandard,
+    });
+
+    return NextResponse.json({
+      result: {
+        inputs,
+        values: toV1Values(buildDisplay(raw, new Date().toISOString(), null)),
+        correctionStandard: raw.correctionStandard,
+        calibrationProfileId,
+      },
+    });
+  } catch (err: unknown) {
+    return v1Failure(err);
+  }
+}
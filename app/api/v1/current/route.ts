@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { captureCurrentReading } from "@/lib/ingest";
+import { readingStation } from "@/lib/historyStore";
+import { toV1Reading, v1Failure } from "@/lib/apiV1";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/v1/current?station=<id>  -> { reading }  (station defaults to the provider's)
+// Same capture as /api/live; reading.stale is set when the source is down and this is its last good data.
+export async function GET(req: Request) {
+  try {
+    const station = new URL(req.url).searchParams.get("station") || undefined;
+    const { reading } = await captureCurrentReading(station);
+    return NextResponse.json({ reading: toV1Reading(reading, readingStation(reading)) });
+  } catch (err: unknown) {
+    return v1Failure(err, "source_unavailable");
+  }
+}
@@ -0,0 +1,7 @@
+import { NextResponse } from "next/server";
+import { openApiV1Document } from "@/lib/openapiV1";
+
+// GET /api/v1/openapi.json  -> OpenAPI 3.1 description of /api/v1
+export function GET() {
+  return NextResponse.json(openApiV1Document());
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { getProvider } from "@/lib/providers";
+import { queryHistory } from "@/lib/historyStore";
+import {
+  invalidParam,
+  parseV1Int,
+  parseV1Time,
+  toV1Reading,
+  V1_READINGS_LIMIT,
+  v1Failure,
+} from "@/lib/apiV1";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/v1/readings?station=&from=&to=&limit=&offset=  -> { readings, total, offset, limit }
+// Stored readings for one station (default: the provider's), newest first. from/to are inclusive.
+export async function GET(req: Request) {
+  try {
+    const sp = new URL(req.url).searchParams;
+    const station = sp.get("station") || getProvider().defaultStationId();
+    const from = parseV1Time(sp, "from");
+    const to = parseV1Time(sp, "to");
+    if (from !== null && to !== null && from > to) throw invalidParam("from", "from must not be after to");
+    const limit = parseV1Int(sp, "limit", V1_READINGS_LIMIT.default, 1, V1_READINGS_LIMIT.max);
+    const offset = parseV1Int(sp, "offset", 0, 0, Infinity);
+
+    const page = await queryHistory({ station, from, to, limit, offset });
+    return NextResponse.json({
+      readings: page.readings.map((r) => toV1Reading(r, station)),
+      total: page.total,
+      offset: page.offset,
+      limit: page.limit,
+    });
+  } catch (err: unknown) {
+    return v1Failure(err);
+  }
+}
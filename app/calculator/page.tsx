@@ -0,0 +1,469 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useMemo, useState } from "react";
+import {
+  computeRacingWeather,
+  solveForInput,
+  SOLVE_TARGETS,
+  type Inputs,
+  type RawOutput,
+  type SolveFor,
+  type SolveResult,
+  type SolveTarget,
+} from "@/lib/weatherCalc";
+import { roundTo, type DisplayField, type Reading } from "@/lib/reading";
+import type { Scenario } from "@/lib/scenarioStore";
+import { fmt, formatTs12Hour } from "@/lib/format";
+import { useSelectedStation } from "@/app/components/StationPicker";
+import { CorrectionStandardPicker, useSettings } from "@/app/components/Settings";
+import { UnitPicker, useUnitPrefs } from "@/app/components/Units";
+import {
+  deltaToDisplayUnits,
+  fieldLabel,
+  fieldUnit,
+  formatField,
+  fromDisplayUnits,
+  toDisplayUnits,
+  type UnitPrefs,
+} from "@/lib/units";
+
+type NumericOutputKey = Exclude<keyof RawOutput, "correctionStandard">;
+
+// Every RawOutput field, in the order tuners read them. `unitOf` fields follow
+// the user's units (and that unit's precision) like the named display field.
+const OUTPUT_FIELDS: { key: NumericOutputKey; label: string; decimals: number; unitOf?: DisplayField }[] = [
+  { key: "adrPct", label: "ADR", decimals: 2 },
+  { key: "adr2", label: "ADR2", decimals: 5 },
+  { key: "densityAltFt", label: "DA", decimals: 0, unitOf: "densityAltFt" },
+  { key: "correction", label: "Correction", decimals: 5 },
+  { key: "humidityGrains", label: "Grains", decimals: 1, unitOf: "humidityGrains" },
+  { key: "dewPointF", label: "Dew Pt", decimals: 1, unitOf: "dewPointF" },
+  { key: "vaporPressureInHg", label: "Vapor P", decimals: 4, unitOf: "vaporPressureInHg" },
+  { key: "pdValue", label: "PD", decimals: 4, unitOf: "vaporPressureInHg" },
+  { key: "tf", label: "tf", decimals: 5 },
+  { key: "hf", label: "hf", decimals: 5 },
+  { key: "bf", label: "bf", decimals: 5 },
+  { key: "adrCorr", label: "adrCorr", decimals: 5 },
+  { key: "adrCalc", label: "adrCalc", decimals: 5 },
+  { key: "corrSheet", label: "Corr (sheet)", decimals: 5 },
+  { key: "corrSaeJ1349", label: "Corr SAE J1349", decimals: 5 },
+  { key: "corrSaeJ607", label: "Corr SAE J607", decimals: 5 },
+  { key: "corrDin70020", label: "Corr DIN 70020", decimals: 5 },
+  { key: "corrNhraOld", label: "Corr old NHRA", decimals: 5 },
+];
+
+// Columns in the saved-scenario comparison
+const COMPARE_FIELDS = OUTPUT_FIELDS.filter((f) =>
+  ["adrPct", "adr2", "densityAltFt", "correction", "humidityGrains"].includes(f.key)
+);
+
+// Ranges are imperial; the sliders show them in the user's units
+const INPUT_FIELDS: {
+  key: keyof Inputs;
+  min: number;
+  max: number;
+}[] = [
+  { key: "tempF", min: 0, max: 130 },
+  { key: "humidityPct", min: 0, max: 100 },
+  { key: "absPressureInHg", min: 22, max: 31.5 },
+];
+
+function outputLabel(f: (typeof OUTPUT_FIELDS)[number], units: UnitPrefs) {
+  return f.unitOf ? `${f.label} (${fieldUnit(f.unitOf, units).unit})` : f.label;
+}
+
+function formatOutput(f: (typeof OUTPUT_FIELDS)[number], value: number, units: UnitPrefs) {
+  return f.unitOf ? formatField(f.unitOf, value, units) : fmt(value, f.decimals);
+}
+
+// Inputs step at the unit's display precision (humidity to 0.1 %)
+function inputDecimals(key: keyof Inputs, units: UnitPrefs) {
+  return key === "humidityPct" ? 1 : fieldUnit(key, units).decimals;
+}
+
+function inputInUnits(key: keyof Inputs, value: number, units: UnitPrefs) {
+  return roundTo(toDisplayUnits(key, value, units), inputDecimals(key, units));
+}
+
+const DEFAULT_INPUTS: Inputs = { tempF: 80, humidityPct: 50, absPressureInHg: 28.9 };
+
+const buttonStyle = {
+  border: "1px solid #e5e7eb",
+  borderRadius: 8,
+  padding: "6px 10px",
+  background: "white",
+  cursor: "pointer",
+  fontSize: 13,
+} as const;
+
+export default function CalculatorPage() {
+  const [inputs, setInputs] = useState<Inputs>(DEFAULT_INPUTS);
+
+  // Inverse solver: hold two inputs, find the third that hits a target output
+  const [solveFor, setSolveFor] = useState<SolveFor>("tempF");
+  const [solveTarget, setSolveTarget] = useState<SolveTarget>("adrPct");
+  const [solveValue, setSolveValue] = useState<number>(95);
+  const [solveResult, setSolveResult] = useState<SolveResult | null | undefined>(undefined);
+  const [scenarios, setScenarios] = useState<Scenario[]>([]);
+  const [scenarioName, setScenarioName] = useState("");
+  const [note, setNote] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { station } = useSelectedStation();
+
+  const { settings, computeOptions, update: updateSettings } = useSettings();
+  const { correctionStandard } = settings;
+  const { units, setUnits } = useUnitPrefs();
+
+  const output = useMemo(() => computeRacingWeather(inputs, computeOptions), [inputs, computeOptions]);
+
+  async function loadScenarios() {
+    try {
+      const res = await fetch("/api/scenarios", { cache: "no-store" });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json?.error ?? `Request failed (${res.status})`);
+      setScenarios(json.scenarios ?? []);
+    } catch (e: unknown) {
+      setError((e as Error)?.message ?? "Failed to load scenarios.");
+    }
+  }
+
+  useEffect(() => {
+    loadScenarios();
+  }, []);
+
+  function setInput(key: keyof Inputs, value: number) {
+    if (!Number.isFinite(value)) return;
+    setInputs((prev) => ({ ...prev, [key]: value }));
+  }
+
+  // Latest stored reading for the dashboard's station (no extra WeatherLink call)
+  async function startFromLive() {
+    try {
+      setError(null);
+      const res = await fetch(`/api/history?station=${encodeURIComponent(station)}&limit=1`, {
+        cache: "no-store",
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json?.error ?? `Request failed (${res.status})`);
+      const latest = json.readings?.[0] as Reading | undefined;
+      if (!latest) throw new Error("No readings stored yet.");
+
+      setInputs({
+        tempF: latest.inputs.tempF,
+        humidityPct: latest.inputs.humidityPct,
+        absPressureInHg: latest.inputs.absPressureInHg,
+      });
+      setNote(`Loaded reading from ${formatTs12Hour(latest.display.ts)}`);
+    } catch (e: unknown) {
+      setError((e as Error)?.message ?? "Failed to load live reading.");
+    }
+  }
+
+  async function saveCurrent() {
+    try {
+      setError(null);
+      const res = await fetch("/api/scenarios", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: scenarioName, inputs }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json?.error ?? `Request failed (${res.status})`);
+      setScenarioName("");
+      await loadScenarios();
+    } catch (e: unknown) {
+      setError((e as Error)?.message ?? "Failed to save scenario.");
+    }
+  }
+
+  async function removeScenario(id: string) {
+    try {
+      const res = await fetch(`/api/scenarios?id=${encodeURIComponent(id)}`, { method: "DELETE" });
+      if (!res.ok) throw new Error(`Delete failed (${res.status})`);
+      setScenarios((prev) => prev.filter((s) => s.id !== id));
+    } catch (e: unknown) {
+      setError((e as Error)?.message ?? "Failed to delete scenario.");
+    }
+  }
+
+  const targetField = (t: SolveTarget) => OUTPUT_FIELDS.find((f) => f.key === t)!;
+  const targetLabel = (t: SolveTarget) => outputLabel(targetField(t), units);
+  const inputLabel = (k: SolveFor) => fieldLabel(k, units);
+
+  function runSolve() {
+    // The target is typed in the user's units (DA in m, grains as g/kg, ...)
+    const unitOf = targetField(solveTarget).unitOf;
+    const target = unitOf ? fromDisplayUnits(unitOf, solveValue, units) : solveValue;
+    setSolveResult(solveForInput(solveFor, solveTarget, target, inputs, computeOptions));
+  }
+  const selectStyle = {
+    border: "1px solid #e5e7eb",
+    borderRadius: 8,
+    padding: "6px 10px",
+    background: "white",
+    fontSize: 13,
+  } as const;
+
+  const cell = { padding: "8px 12px", borderBottom: "1px solid #f3f4f6", whiteSpace: "nowrap" } as const;
+  const head = { ...cell, textAlign: "left", fontSize: 12, borderBottom: "1px solid #e5e7eb" } as const;
+
+  return (
+    <main style={{ padding: 16, fontFamily: "system-ui, sans-serif" }}>
+      <div style={{ display: "flex", alignItems: "baseline", gap: 12, flexWrap: "wrap" }}>
+        <h1 style={{ marginBottom: 12 }}>What-if calculator</h1>
+        <Link href="/" style={{ fontSize: 13 }}>
+          Back to dashboard
+        </Link>
+      </div>
+
+      {error && (
+        <div
+          style={{
+            background: "#fee2e2",
+            border: "1px solid #ef4444",
+            color: "#991b1b",
+            padding: 12,
+            borderRadius: 8,
+            marginBottom: 12,
+          }}
+        >
+          {error}
+        </div>
+      )}
+
+      {/* ---- Inputs ---- */}
+      <section style={{ display: "grid", gap: 12, maxWidth: 640 }}>
+        {INPUT_FIELDS.map((f) => {
+          const step = 10 ** -inputDecimals(f.key, units);
+          const shown = inputInUnits(f.key, inputs[f.key], units);
+          const set = (v: number) => setInput(f.key, fromDisplayUnits(f.key, v, units));
+          return (
+            <label key={f.key} style={{ display: "grid", gap: 4, fontSize: 13 }}>
+              <span style={{ opacity: 0.7 }}>{fieldLabel(f.key, units)}</span>
+              <div style={{ display: "flex", gap: 12, alignItems: "center" }}>
+                <input
+                  type="range"
+                  min={inputInUnits(f.key, f.min, units)}
+                  max={inputInUnits(f.key, f.max, units)}
+                  step={step}
+                  value={shown}
+                  onChange={(e) => set(Number(e.target.value))}
+                  style={{ flex: 1 }}
+                />
+                <input
+                  type="number"
+                  step={step}
+                  value={shown}
+                  onChange={(e) => set(e.target.valueAsNumber)}
+                  style={{ width: 110, border: "1px solid #e5e7eb", borderRadius: 8, padding: "6px 8px" }}
+                />
+              </div>
+            </label>
+          );
+        })}
+
+        <div style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
+          <button onClick={startFromLive} style={buttonStyle}>
+            Start from latest reading
+          </button>
+          <button onClick={() => setInputs(DEFAULT_INPUTS)} style={buttonStyle}>
+            Reset
+          </button>
+          <label style={{ fontSize: 13 }}>
+            Correction standard{" "}
+            <CorrectionStandardPicker
+              value={correctionStandard}
+              onChange={(std) => updateSettings({ correctionStandard: std })}
+            />
+          </label>
+          <UnitPicker value={units} onChange={setUnits} />
+          {note && <span style={{ fontSize: 13, opacity: 0.7 }}>{note}</span>}
+        </div>
+      </section>
+
+      {/* ---- Outputs ---- */}
+      <section
+        style={{
+          marginTop: 20,
+          display: "grid",
+          gridTemplateColumns: "repeat(5, minmax(0, 1fr))",
+          gap: 12,
+        }}
+      >
+        {OUTPUT_FIELDS.map((f) => (
+          <div
+            key={f.key}
+            style={{
+              border: "1px solid #e5e7eb",
+              borderRadius: 12,
+              padding: 12,
+              boxShadow: "0 1px 0 rgba(0,0,0,0.02)",
+            }}
+          >
+            <div style={{ fontSize: 12, opacity: 0.7 }}>{outputLabel(f, units)}</div>
+            <div style={{ fontSize: 20, fontWeight: 650, marginTop: 6 }}>
+              {formatOutput(f, output[f.key], units)}
+            </div>
+          </div>
+        ))}
+      </section>
+
+      {/* ---- Inverse solver ---- */}
+      <section style={{ marginTop: 20 }}>
+        <h2 style={{ margin: 0 }}>Solve for a target</h2>
+        <div style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap", marginTop: 10, fontSize: 13 }}>
+          <span>Find</span>
+          <select
+            value={solveFor}
+            onChange={(e) => setSolveFor(e.target.value as SolveFor)}
+            style={selectStyle}
+          >
+            {INPUT_FIELDS.map((f) => (
+              <option key={f.key} value={f.key}>
+                {inputLabel(f.key)}
+              </option>
+            ))}
+          </select>
+          <span>that gives</span>
+          <select
+            value={solveTarget}
+            onChange={(e) => setSolveTarget(e.target.value as SolveTarget)}
+            style={selectStyle}
+          >
+            {SOLVE_TARGETS.map((t) => (
+              <option key={t} value={t}>
+                {targetLabel(t)}
+              </option>
+            ))}
+          </select>
+          <span>=</span>
+          <input
+            type="number"
+            step="any"
+            value={solveValue}
+            onChange={(e) => setSolveValue(e.target.valueAsNumber)}
+            style={{ width: 110, border: "1px solid #e5e7eb", borderRadius: 8, padding: "6px 8px" }}
+          />
+          <span style={{ opacity: 0.7 }}>
+            keeping{" "}
+            {INPUT_FIELDS.filter((f) => f.key !== solveFor)
+              .map((f) => `${inputLabel(f.key)} ${formatField(f.key, inputs[f.key], units)}`)
+              .join(" and ")}
+          </span>
+          <button onClick={runSolve} disabled={!Number.isFinite(solveValue)} style={buttonStyle}>
+            Solve
+          </button>
+        </div>
+
+        {solveResult === null && (
+          <div style={{ marginTop: 10, fontSize: 13, color: "#991b1b" }}>
+            No {inputLabel(solveFor)} in a sensible range reaches that {targetLabel(solveTarget)}.
+          </div>
+        )}
+        {solveResult && (
+          <div style={{ marginTop: 10, display: "flex", gap: 10, alignItems: "center", fontSize: 13 }}>
+            <strong>
+              {inputLabel(solveResult.solveFor)} ={" "}
+              {solveResult.solveFor === "humidityPct"
+                ? fmt(solveResult.value, 1)
+                : formatField(solveResult.solveFor, solveResult.value, units)}
+            </strong>
+            <span style={{ opacity: 0.7 }}>
+              (ADR {fmt(solveResult.output.adrPct, 2)} · DA{" "}
+              {formatField("densityAltFt", solveResult.output.densityAltFt, units)}{" "}
+              {fieldUnit("densityAltFt", units).unit} · Correction {fmt(solveResult.output.correction, 5)})
+            </span>
+            <button onClick={() => setInputs(solveResult.inputs)} style={buttonStyle}>
+              Use these inputs
+            </button>
+          </div>
+        )}
+      </section>
+
+      {/* ---- Saved scenarios ---- */}
+      <section style={{ marginTop: 20 }}>
+        <div style={{ display: "flex", alignItems: "baseline", gap: 12, flexWrap: "wrap" }}>
+          <h2 style={{ margin: 0 }}>Saved scenarios</h2>
+          <input
+            placeholder="Name (e.g. E3 at 7pm, -10F)"
+            value={scenarioName}
+            onChange={(e) => setScenarioName(e.target.value)}
+            style={{ border: "1px solid #e5e7eb", borderRadius: 8, padding: "6px 8px", fontSize: 13 }}
+          />
+          <button onClick={saveCurrent} disabled={!scenarioName.trim()} style={buttonStyle}>
+            Save current inputs
+          </button>
+        </div>
+
+        <div style={{ marginTop: 10, border: "1px solid #e5e7eb", borderRadius: 10, overflow: "auto" }}>
+          <table style={{ width: "100%", borderCollapse: "collapse" }}>
+            <thead>
+              <tr>
+                <th style={head}>Scenario</th>
+                <th style={head}>Temp ({fieldUnit("tempF", units).unit})</th>
+                <th style={head}>Humidity</th>
+                <th style={head}>Pressure ({fieldUnit("absPressureInHg", units).unit})</th>
+                {COMPARE_FIELDS.map((f) => (
+                  <th key={f.key} style={head}>
+                    {outputLabel(f, units)} (Δ vs current)
+                  </th>
+                ))}
+                <th style={head}></th>
+              </tr>
+            </thead>
+            <tbody>
+              {scenarios.length === 0 ? (
+                <tr>
+                  <td colSpan={5 + COMPARE_FIELDS.length} style={{ padding: 12, opacity: 0.7 }}>
+                    No saved scenarios.
+                  </td>
+                </tr>
+              ) : (
+                scenarios.map((s) => {
+                  const out = computeRacingWeather(s.inputs, computeOptions);
+                  return (
+                    <tr key={s.id}>
+                      <td style={cell}>
+                        <button
+                          onClick={() => setInputs(s.inputs)}
+                          title="Load into calculator"
+                          style={{ ...buttonStyle, border: "none", padding: 0, textDecoration: "underline" }}
+                        >
+                          {s.name}
+                        </button>
+                      </td>
+                      <td style={cell}>{formatField("tempF", s.inputs.tempF, units)}</td>
+                      <td style={cell}>{fmt(s.inputs.humidityPct, 1)}</td>
+                      <td style={cell}>{formatField("absPressureInHg", s.inputs.absPressureInHg, units)}</td>
+                      {COMPARE_FIELDS.map((f) => {
+                        const raw = out[f.key] - output[f.key];
+                        const d = f.unitOf ? deltaToDisplayUnits(f.unitOf, raw, units) : raw;
+                        const decimals = f.unitOf ? fieldUnit(f.unitOf, units).decimals : f.decimals;
+                        return (
+                          <td key={f.key} style={cell}>
+                            {formatOutput(f, out[f.key], units)}{" "}
+                            <span style={{ opacity: 0.6 }}>
+                              ({d >= 0 ? "+" : "−"}
+                              {Math.abs(d).toFixed(decimals)})
+                            </span>
+                          </td>
+                        );
+                      })}
+                      <td style={cell}>
+                        <button onClick={() => removeScenario(s.id)} style={buttonStyle}>
+                          Delete
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,350 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import type { CalibrationField, CalibrationReport, FieldStats } from "@/lib/calibration";
+import type { CalibrationProfile } from "@/lib/calibrationStore";
+import { DA_A, DA_B, type DaConstants } from "@/lib/weatherCalc";
+import { DISPLAY_FIELDS } from "@/lib/reading";
+import { fmt, formatTs12Hour } from "@/lib/format";
+
+const buttonStyle = {
+  border: "1px solid #e5e7eb",
+  borderRadius: 8,
+  padding: "6px 10px",
+  background: "white",
+  cursor: "pointer",
+  fontSize: 13,
+} as const;
+
+const inputStyle = { border: "1px solid #e5e7eb", borderRadius: 8, padding: "6px 8px", fontSize: 13 } as const;
+
+const CSV_PLACEHOLDER = `tempF,humidityPct,absPressureInHg,adrPct,densityAltFt,correction
+72.4,41,29.012,96.31,1312,1.03871
+88.1,33,28.874,92.47,2740,1.07212`;
+
+function decimalsFor(f: CalibrationField): number {
+  if (f === "adrPct") return 2;
+  if (f === "pdValue") return 4;
+  return (DISPLAY_FIELDS as Record<string, { decimals: number }>)[f]?.decimals ?? 5;
+}
+
+type EvaluateResponse = {
+  current: CalibrationReport;
+  refit: { constants: DaConstants; report: CalibrationReport } | null;
+};
+
+export default function CalibrationPage() {
+  const [profiles, setProfiles] = useState<CalibrationProfile[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [csv, setCsv] = useState("");
+  const [result, setResult] = useState<EvaluateResponse | null>(null);
+  const [profileName, setProfileName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  async function loadProfiles() {
+    try {
+      const res = await fetch("/api/calibration", { cache: "no-store" });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json?.error ?? `Request failed (${res.status})`);
+      setProfiles(json.profiles ?? []);
+      setActiveId(json.activeId ?? null);
+    } catch (e: unknown) {
+      setError((e as Error)?.message ?? "Failed to load profiles.");
+    }
+  }
+
+  useEffect(() => {
+    loadProfiles();
+  }, []);
+
+  async function evaluate() {
+    try {
+      setError(null);
+      const res = await fetch("/api/calibration", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "evaluate", csv }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json?.error ?? `Request failed (${res.status})`);
+      setResult(json as EvaluateResponse);
+    } catch (e: unknown) {
+      setResult(null);
+      setError((e as Error)?.message ?? "Evaluation failed.");
+    }
+  }
+
+  async function activateProfile(id: string | null) {
+    try {
+      const res = await fetch("/api/settings", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ calibrationProfileId: id }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json?.error ?? `Request failed (${res.status})`);
+      setActiveId(json.settings.calibrationProfileId);
+      setResult(null); // deviations were computed against the old profile
+    } catch (e: unknown) {
+      setError((e as Error)?.message ?? "Failed to switch profile.");
+    }
+  }
+
+  async function saveRefit() {
+    if (!result?.refit) return;
+    try {
+      setError(null);
+      const res = await fetch("/api/calibration", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          action: "save",
+          name: profileName,
+          ...result.refit.constants,
+          fit: {
+            n: result.refit.report.stats.densityAltFt?.n ?? 0,
+            rmseBefore: result.current.stats.densityAltFt?.rmse ?? null,
+            rmseAfter: result.refit.report.stats.densityAltFt?.rmse ?? null,
+          },
+        }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json?.error ?? `Request failed (${res.status})`);
+      setProfileName("");
+      await loadProfiles();
+    } catch (e: unknown) {
+      setError((e as Error)?.message ?? "Failed to save profile.");
+    }
+  }
+
+  async function removeProfile(id: string) {
+    if (!confirm("Delete this calibration profile?")) return;
+    try {
+      const res = await fetch(`/api/calibration?id=${encodeURIComponent(id)}`, { method: "DELETE" });
+      if (!res.ok) throw new Error(`Delete failed (${res.status})`);
+      await loadProfiles();
+    } catch (e: unknown) {
+      setError((e as Error)?.message ?? "Failed to delete profile.");
+    }
+  }
+
+  const active = profiles.find((p) => p.id === activeId);
+  const fields = result ? (Object.keys(result.current.stats) as CalibrationField[]) : [];
+
+  const cell = { padding: "6px 10px", borderBottom: "1px solid #f3f4f6", whiteSpace: "nowrap" } as const;
+  const head = { ...cell, textAlign: "left", fontSize: 12, borderBottom: "1px solid #e5e7eb" } as const;
+
+  const statCells = (s: FieldStats | undefined, d: number) => (
+    <>
+      <td style={cell}>{s?.n ?? "—"}</td>
+      <td style={cell}>{fmt(s?.meanError, d + 1)}</td>
+      <td style={cell}>{fmt(s?.meanAbsError, d + 1)}</td>
+      <td style={cell}>{fmt(s?.rmse, d + 1)}</td>
+      <td style={cell}>{fmt(s?.maxAbsError, d + 1)}</td>
+    </>
+  );
+
+  return (
+    <main style={{ padding: 16, fontFamily: "system-ui, sans-serif" }}>
+      <div style={{ display: "flex", alignItems: "baseline", gap: 12, flexWrap: "wrap" }}>
+        <h1 style={{ marginBottom: 12 }}>Calibration</h1>
+        <Link href="/" style={{ fontSize: 13 }}>
+          Back to dashboard
+        </Link>
+      </div>
+
+      {error && (
+        <div
+          style={{
+            background: "#fee2e2",
+            border: "1px solid #ef4444",
+            color: "#991b1b",
+            padding: 12,
+            borderRadius: 8,
+            marginBottom: 12,
+          }}
+        >
+          {error}
+        </div>
+      )}
+
+      {/* ---- Profiles ---- */}
+      <section style={{ border: "1px solid #e5e7eb", borderRadius: 12, padding: 12, fontSize: 13 }}>
+        <div style={{ marginBottom: 8 }}>
+          In use: <strong>{active ? active.name : "Built-in constants"}</strong> (DA = {fmt(active?.daA ?? DA_A, 6)} ·
+          ISA alt + {fmt(active?.daB ?? DA_B, 2)})
+        </div>
+        <table style={{ borderCollapse: "collapse" }}>
+          <thead>
+            <tr>
+              <th style={head}>Profile</th>
+              <th style={head}>DA_A</th>
+              <th style={head}>DA_B</th>
+              <th style={head}>Fit (RMSE before → after)</th>
+              <th style={head}>Saved</th>
+              <th style={head} />
+            </tr>
+          </thead>
+          <tbody>
+            <tr>
+              <td style={cell}>Built-in</td>
+              <td style={cell}>{fmt(DA_A, 6)}</td>
+              <td style={cell}>{fmt(DA_B, 2)}</td>
+              <td style={cell}>—</td>
+              <td style={cell}>—</td>
+              <td style={cell}>
+                <button onClick={() => activateProfile(null)} disabled={!activeId} style={buttonStyle}>
+                  Use
+                </button>
+              </td>
+            </tr>
+            {profiles.map((p) => (
+              <tr key={p.id}>
+                <td style={cell}>{p.name}</td>
+                <td style={cell}>{fmt(p.daA, 6)}</td>
+                <td style={cell}>{fmt(p.daB, 2)}</td>
+                <td style={cell}>
+                  {p.fit ? `${fmt(p.fit.rmseBefore, 1)} → ${fmt(p.fit.rmseAfter, 1)} ft (n=${p.fit.n})` : "—"}
+                </td>
+                <td style={cell}>{formatTs12Hour(p.createdAt)}</td>
+                <td style={cell}>
+                  <button onClick={() => activateProfile(p.id)} disabled={p.id === activeId} style={buttonStyle}>
+                    Use
+                  </button>{" "}
+                  <button onClick={() => removeProfile(p.id)} style={buttonStyle}>
+                    Delete
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+
+      {/* ---- Reference data ---- */}
+      <section
+        style={{ marginTop: 16, border: "1px solid #e5e7eb", borderRadius: 12, padding: 12, display: "grid", gap: 10 }}
+      >
+        <div style={{ fontSize: 13, opacity: 0.7 }}>
+          Reference CSV: tempF, humidityPct, absPressureInHg plus any expected outputs (adrPct or adr, adr2,
+          densityAltFt, correction, humidityGrains, dewPointF, …). Rows are compared against the profile in use.
+        </div>
+        <input type="file" accept=".csv,text/csv" onChange={async (e) => setCsv((await e.target.files?.[0]?.text()) ?? "")} />
+        <textarea
+          value={csv}
+          onChange={(e) => setCsv(e.target.value)}
+          placeholder={CSV_PLACEHOLDER}
+          rows={8}
+          style={{ ...inputStyle, fontFamily: "ui-monospace, monospace" }}
+        />
+        <div>
+          <button onClick={evaluate} disabled={!csv.trim()} style={buttonStyle}>
+            Evaluate
+          </button>
+        </div>
+      </section>
+
+      {result && (
+        <>
+          {/* ---- Summary ---- */}
+          <section style={{ marginTop: 16 }}>
+            <h2 style={{ margin: "0 0 8px" }}>Error summary (computed − reference)</h2>
+            <table style={{ borderCollapse: "collapse", fontSize: 13 }}>
+              <thead>
+                <tr>
+                  <th style={head}>Field</th>
+                  <th style={head}>n</th>
+                  <th style={head}>Mean</th>
+                  <th style={head}>Mean abs</th>
+                  <th style={head}>RMSE</th>
+                  <th style={head}>Max abs</th>
+                </tr>
+              </thead>
+              <tbody>
+                {fields.map((f) => (
+                  <tr key={f}>
+                    <td style={cell}>{f}</td>
+                    {statCells(result.current.stats[f], decimalsFor(f))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+
+          {/* ---- Refit ---- */}
+          <section style={{ marginTop: 16, fontSize: 13 }}>
+            <h2 style={{ margin: "0 0 8px" }}>Refit DA constants</h2>
+            {result.refit ? (
+              <div style={{ display: "grid", gap: 8 }}>
+                <div>
+                  DA_A {fmt(result.refit.constants.daA, 6)} · DA_B {fmt(result.refit.constants.daB, 2)} — DA RMSE{" "}
+                  {fmt(result.current.stats.densityAltFt?.rmse, 1)} → {fmt(result.refit.report.stats.densityAltFt?.rmse, 1)} ft
+                </div>
+                <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+                  <input
+                    value={profileName}
+                    onChange={(e) => setProfileName(e.target.value)}
+                    placeholder="Profile name"
+                    style={inputStyle}
+                  />
+                  <button onClick={saveRefit} disabled={!profileName.trim()} style={buttonStyle}>
+                    Save as profile
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div style={{ opacity: 0.7 }}>Needs at least two rows with a densityAltFt value.</div>
+            )}
+          </section>
+
+          {/* ---- Per-row deviations ---- */}
+          <section style={{ marginTop: 16 }}>
+            <h2 style={{ margin: "0 0 8px" }}>Per-row deviations</h2>
+            <div style={{ overflowX: "auto" }}>
+              <table style={{ borderCollapse: "collapse", fontSize: 13 }}>
+                <thead>
+                  <tr>
+                    <th style={head}>Line</th>
+                    <th style={head}>Temp</th>
+                    <th style={head}>Hum</th>
+                    <th style={head}>Press</th>
+                    {fields.map((f) => (
+                      <th key={f} style={head}>
+                        {f}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.current.rows.map((r) => (
+                    <tr key={r.line}>
+                      <td style={cell}>{r.line}</td>
+                      <td style={cell}>{fmt(r.inputs.tempF, 1)}</td>
+                      <td style={cell}>{fmt(r.inputs.humidityPct, 1)}</td>
+                      <td style={cell}>{fmt(r.inputs.absPressureInHg, 3)}</td>
+                      {fields.map((f) => {
+                        const dev = r.fields[f];
+                        const rmse = result.current.stats[f]?.rmse ?? 0;
+                        const outlier = dev && rmse > 0 && Math.abs(dev.diff) > 2 * rmse;
+                        return (
+                          <td
+                            key={f}
+                            style={{ ...cell, color: outlier ? "#991b1b" : undefined }}
+                            title={dev ? `expected ${dev.expected}, got ${fmt(dev.actual, decimalsFor(f))}` : undefined}
+                          >
+                            {dev ? `${dev.diff >= 0 ? "+" : "−"}${fmt(Math.abs(dev.diff), decimalsFor(f) + 1)}` : "—"}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+        </>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,143 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import type { DisplayField, Reading } from "@/lib/reading";
+import { fmt, formatTs12Hour } from "@/lib/format";
+import { fieldLabel, fieldUnit, toDisplayUnits } from "@/lib/units";
+import { useUnitPrefs } from "@/app/components/Units";
+import {
+  StationPicker,
+  stationLabel,
+  useSelectedStation,
+  useStations,
+} from "@/app/components/StationPicker";
+
+type Side = { data: Reading | null; error: string | null };
+
+// Fields compared side by side, in the user's units at the tiles' precision
+const METRICS: DisplayField[] = ["tempF", "adr", "densityAltFt", "humidityGrains"];
+
+async function fetchStationLive(station: string): Promise<Side> {
+  try {
+    const qs = station ? `?station=${encodeURIComponent(station)}` : "";
+    const res = await fetch(`/api/live${qs}`, { cache: "no-store" });
+    const json = await res.json();
+    if (!res.ok) throw new Error(json?.error ?? `Request failed (${res.status})`);
+    return { data: json as Reading, error: null };
+  } catch (e: unknown) {
+    return { data: null, error: (e as Error)?.message ?? "Failed to load live weather." };
+  }
+}
+
+function fmtDelta(a: unknown, b: unknown, decimals: number): string {
+  if (typeof a !== "number" || typeof b !== "number") return "—";
+  const d = b - a;
+  const s = Math.abs(d).toFixed(decimals);
+  if (Number(s) === 0) return s;
+  return d > 0 ? `+${s}` : `−${s}`;
+}
+
+export default function ComparePage() {
+  const { stations, error: stationsError } = useStations();
+  const a = useSelectedStation("racewx_compare_a_v1");
+  const b = useSelectedStation("racewx_compare_b_v1");
+  const { units } = useUnitPrefs();
+
+  const [sideA, setSideA] = useState<Side>({ data: null, error: null });
+  const [sideB, setSideB] = useState<Side>({ data: null, error: null });
+
+  useEffect(() => {
+    if (!a.ready || !b.ready) return;
+    let cancelled = false;
+
+    async function load() {
+      const [ra, rb] = await Promise.all([fetchStationLive(a.station), fetchStationLive(b.station)]);
+      if (cancelled) return;
+      setSideA(ra);
+      setSideB(rb);
+    }
+
+    load();
+    const id = setInterval(load, 60_000);
+    return () => {
+      cancelled = true;
+      clearInterval(id);
+    };
+  }, [a.station, b.station, a.ready, b.ready]);
+
+  const cell = { padding: "10px 12px", borderBottom: "1px solid #f3f4f6" } as const;
+  const head = { ...cell, textAlign: "left", fontSize: 12, borderBottom: "1px solid #e5e7eb" } as const;
+
+  return (
+    <main style={{ padding: 16, fontFamily: "system-ui, sans-serif" }}>
+      <div style={{ display: "flex", alignItems: "baseline", gap: 12, flexWrap: "wrap" }}>
+        <h1 style={{ marginBottom: 12 }}>Compare stations</h1>
+        <Link href="/" style={{ fontSize: 13 }}>
+          Back to dashboard
+        </Link>
+      </div>
+
+      {[stationsError, sideA.error, sideB.error].filter(Boolean).map((msg, i) => (
+        <div
+          key={i}
+          style={{
+            background: "#fee2e2",
+            border: "1px solid #ef4444",
+            color: "#991b1b",
+            padding: 12,
+            borderRadius: 8,
+            marginBottom: 12,
+          }}
+        >
+          {msg}
+        </div>
+      ))}
+
+      <div style={{ display: "flex", gap: 12, alignItems: "center", flexWrap: "wrap", marginBottom: 12 }}>
+        <span style={{ fontSize: 13 }}>A:</span>
+        <StationPicker stations={stations} value={a.station} onChange={a.setStation} />
+        <span style={{ fontSize: 13 }}>B:</span>
+        <StationPicker stations={stations} value={b.station} onChange={b.setStation} />
+      </div>
+
+      <div style={{ border: "1px solid #e5e7eb", borderRadius: 10, overflow: "auto" }}>
+        <table style={{ width: "100%", borderCollapse: "collapse" }}>
+          <thead>
+            <tr>
+              <th style={head}></th>
+              <th style={head}>A · {stationLabel(stations, a.station)}</th>
+              <th style={head}>B · {stationLabel(stations, b.station)}</th>
+              <th style={head}>Δ (B − A)</th>
+            </tr>
+          </thead>
+          <tbody>
+            {METRICS.map((field) => {
+              const shown = (r: Reading | null) => {
+                const v = r?.display[field];
+                return typeof v === "number" ? toDisplayUnits(field, v, units) : v;
+              };
+              const va = shown(sideA.data);
+              const vb = shown(sideB.data);
+              const { decimals } = fieldUnit(field, units);
+              return (
+                <tr key={field}>
+                  <td style={{ ...cell, fontSize: 12, opacity: 0.7 }}>{fieldLabel(field, units)}</td>
+                  <td style={{ ...cell, fontSize: 18, fontWeight: 650 }}>{fmt(va, decimals)}</td>
+                  <td style={{ ...cell, fontSize: 18, fontWeight: 650 }}>{fmt(vb, decimals)}</td>
+                  <td style={{ ...cell, fontSize: 18 }}>{fmtDelta(va, vb, decimals)}</td>
+                </tr>
+              );
+            })}
+            <tr>
+              <td style={{ ...cell, fontSize: 12, opacity: 0.7 }}>Timestamp</td>
+              <td style={cell}>{formatTs12Hour(sideA.data?.display.ts)}</td>
+              <td style={cell}>{formatTs12Hour(sideB.data?.display.ts)}</td>
+              <td style={cell}></td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+    </main>
+  );
+}
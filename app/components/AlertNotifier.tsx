@@ -0,0 +1,82 @@
+"use client";
+
+import { useEffect, useRef, useState, useSyncExternalStore } from "react";
+import type { FiredAlert } from "@/lib/alertStore";
+
+const POLL_MS = 30_000;
+
+// Notification.permission has no change event; re-read it on every render
+const noopSubscribe = () => () => undefined;
+const readPermission = () => (typeof Notification === "undefined" ? "unsupported" : Notification.permission);
+
+/**
+ * Polls for alerts fired server-side and shows each as a browser notification.
+ * Renders an "enable" button until the browser has been asked.
+ */
+export function AlertNotifier() {
+  const permission = useSyncExternalStore(noopSubscribe, readPermission, () => "unsupported");
+  const [, rerender] = useState(0);
+  const [latest, setLatest] = useState<FiredAlert | null>(null);
+  const sinceRef = useRef(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    // Only alerts fired after the page opened; older ones are on /alerts
+    sinceRef.current = Date.now();
+
+    async function poll() {
+      try {
+        const res = await fetch(`/api/alerts?since=${sinceRef.current}`, { cache: "no-store" });
+        if (!res.ok || cancelled) return;
+        const fired = ((await res.json()).fired ?? []) as FiredAlert[];
+        if (!fired.length) return;
+
+        sinceRef.current = Math.max(...fired.map((a) => Date.parse(a.at)));
+        setLatest(fired[0]);
+        if (readPermission() === "granted") {
+          for (const a of [...fired].reverse()) {
+            new Notification(a.ruleName, { body: a.message, tag: a.id });
+          }
+        }
+      } catch {
+        // next poll will try again
+      }
+    }
+
+    const id = setInterval(poll, POLL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(id);
+    };
+  }, []);
+
+  async function enable() {
+    await Notification.requestPermission();
+    rerender((n) => n + 1);
+  }
+
+  return (
+    <span style={{ fontSize: 13, display: "inline-flex", gap: 8, alignItems: "center" }}>
+      {permission === "default" && (
+        <button
+          onClick={enable}
+          style={{
+            border: "1px solid #e5e7eb",
+            borderRadius: 8,
+            padding: "4px 8px",
+            background: "white",
+            cursor: "pointer",
+            fontSize: 12,
+          }}
+        >
+          Enable alert notifications
+        </button>
+      )}
+      {latest && (
+        <span style={{ color: "#991b1b" }} title={latest.at}>
+          ⚠ {latest.ruleName}: {latest.message}
+        </span>
+      )}
+    </span>
+  );
+}
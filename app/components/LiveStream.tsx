@@ -0,0 +1,95 @@
+"use client";
+
+import { useEffect, useEffectEvent, useState } from "react";
+import type { Reading } from "@/lib/reading";
+import type { LiveStatus } from "@/lib/liveBus";
+
+export type StreamMode = "connecting" | "streaming" | "polling";
+
+const POLL_MS = 60_000;
+// A dropped stream gets this long to reconnect before the page starts polling
+const GRACE_MS = 20_000;
+// How often to try the stream again after the server refused it
+const REOPEN_MS = 60_000;
+
+/**
+ * Follow one station's readings over /api/stream. The browser reconnects by
+ * itself and the server replays anything missed since the last reading seen.
+ * `poll` (e.g. a fetch of /api/live) only runs while streaming is unavailable:
+ * no EventSource, the server refused the stream, or it has stayed down past
+ * a short grace period.
+ */
+export function useLiveStream(
+  station: string,
+  enabled: boolean,
+  handlers: { onReading: (r: Reading) => void; onStatus?: (s: LiveStatus) => void; poll: () => void }
+): StreamMode {
+  const [mode, setMode] = useState<StreamMode>("connecting");
+  const onReading = useEffectEvent(handlers.onReading);
+  const onStatus = useEffectEvent((s: LiveStatus) => handlers.onStatus?.(s));
+  const poll = useEffectEvent(handlers.poll);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let es: EventSource | null = null;
+    let lastTs: string | null = null;
+    let pollTimer: ReturnType<typeof setInterval> | null = null;
+    let graceTimer: ReturnType<typeof setTimeout> | null = null;
+    let reopenTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const startPolling = () => {
+      if (pollTimer) return;
+      setMode("polling");
+      poll();
+      pollTimer = setInterval(poll, POLL_MS);
+    };
+    const stopPolling = () => {
+      if (pollTimer) clearInterval(pollTimer);
+      pollTimer = null;
+    };
+
+    const open = () => {
+      if (typeof EventSource === "undefined") {
+        startPolling();
+        return;
+      }
+      const qs = new URLSearchParams({ station });
+      if (lastTs) qs.set("since", lastTs);
+      es = new EventSource(`/api/stream?${qs}`);
+
+      es.onopen = () => {
+        if (graceTimer) clearTimeout(graceTimer);
+        graceTimer = null;
+        stopPolling();
+        setMode("streaming");
+      };
+      es.addEventListener("reading", (e) => {
+        const r = JSON.parse((e as MessageEvent<string>).data) as Reading;
+        lastTs = r.display.ts;
+        onReading(r);
+      });
+      es.addEventListener("status", (e) => onStatus(JSON.parse((e as MessageEvent<string>).data) as LiveStatus));
+      es.onerror = () => {
+        if (es?.readyState === EventSource.CLOSED) {
+          // Refused outright (no SSE support on the way, server error): poll, and retry later
+          es = null;
+          startPolling();
+          reopenTimer = setTimeout(open, REOPEN_MS);
+        } else if (!graceTimer && !pollTimer) {
+          // The browser is already reconnecting; only poll if that keeps failing
+          graceTimer = setTimeout(startPolling, GRACE_MS);
+        }
+      };
+    };
+
+    open();
+    return () => {
+      es?.close();
+      stopPolling();
+      if (graceTimer) clearTimeout(graceTimer);
+      if (reopenTimer) clearTimeout(reopenTimer);
+    };
+  }, [station, enabled]);
+
+  return mode;
+}
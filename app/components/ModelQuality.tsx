@@ -0,0 +1,195 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { ModelDistance, ModelFeature, Prediction, Residual } from "@/lib/predict";
+import { fmt, formatTs12Hour } from "@/lib/format";
+
+type ModelSummary = {
+  n: number;
+  r2: number;
+  sigma: number;
+  features: ModelFeature[];
+  residuals: Residual[];
+  prediction: Prediction | null;
+};
+
+export type PredictResponse = {
+  car: string;
+  distance: ModelDistance;
+  readingTs: string | null;
+  et: ModelSummary | null;
+  mph: ModelSummary | null;
+};
+
+/**
+ * Fetch the fitted models + prediction for a car against the latest reading.
+ * Re-fetches whenever any argument changes (pass a counter as `refreshKey`).
+ */
+export function usePrediction(
+  car: string,
+  station: string,
+  distance: ModelDistance = "quarter",
+  refreshKey: unknown = 0
+) {
+  const [result, setResult] = useState<PredictResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const qs = new URLSearchParams({ car, station, distance });
+        const res = await fetch(`/api/predict?${qs}`, { cache: "no-store" });
+        const json = await res.json();
+        if (!res.ok) throw new Error(json?.error ?? `Request failed (${res.status})`);
+        if (!cancelled) {
+          setResult(json as PredictResponse);
+          setError(null);
+        }
+      } catch (e: unknown) {
+        if (!cancelled) setError((e as Error)?.message ?? "Failed to load prediction.");
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [car, station, distance, refreshKey]);
+
+  return { result, error };
+}
+
+const inputStyle = { border: "1px solid #e5e7eb", borderRadius: 8, padding: "6px 8px", fontSize: 13 } as const;
+
+function ModelCard({
+  title,
+  model,
+  decimals,
+  onExclude,
+}: {
+  title: string;
+  model: ModelSummary | null;
+  decimals: number;
+  onExclude: (runId: string) => void;
+}) {
+  const cell = { padding: "6px 10px", borderBottom: "1px solid #f3f4f6", whiteSpace: "nowrap" } as const;
+  const head = { ...cell, textAlign: "left", fontSize: 12, borderBottom: "1px solid #e5e7eb" } as const;
+
+  if (!model) {
+    return (
+      <div style={{ border: "1px solid #e5e7eb", borderRadius: 12, padding: 12, fontSize: 13 }}>
+        <strong>{title}</strong>
+        <div style={{ opacity: 0.7, marginTop: 6 }}>Not enough usable passes to fit a model yet.</div>
+      </div>
+    );
+  }
+
+  // Largest misses first: those are the outlier candidates
+  const worst = [...model.residuals].sort((a, b) => Math.abs(b.residual) - Math.abs(a.residual));
+
+  return (
+    <div style={{ border: "1px solid #e5e7eb", borderRadius: 12, padding: 12, fontSize: 13 }}>
+      <strong>{title}</strong>
+      <div style={{ marginTop: 6, display: "flex", gap: 16, flexWrap: "wrap" }}>
+        <span>n = {model.n}</span>
+        <span>R² = {fmt(model.r2, 3)}</span>
+        <span>σ = {fmt(model.sigma, decimals)}</span>
+        <span style={{ opacity: 0.7 }}>features: {model.features.join(", ")}</span>
+      </div>
+      {model.prediction && (
+        <div style={{ marginTop: 6 }}>
+          Now: <strong>{fmt(model.prediction.value, decimals)}</strong>{" "}
+          <span style={{ opacity: 0.7 }}>
+            ({fmt(model.prediction.low, decimals)}–{fmt(model.prediction.high, decimals)})
+          </span>
+        </div>
+      )}
+      <div style={{ marginTop: 8, maxHeight: 260, overflow: "auto" }}>
+        <table style={{ width: "100%", borderCollapse: "collapse" }}>
+          <thead>
+            <tr>
+              <th style={head}>Pass</th>
+              <th style={head}>Actual</th>
+              <th style={head}>Predicted</th>
+              <th style={head}>Residual</th>
+              <th style={head}></th>
+            </tr>
+          </thead>
+          <tbody>
+            {worst.map((r) => (
+              <tr key={r.runId}>
+                <td style={cell}>{formatTs12Hour(r.runAt)}</td>
+                <td style={cell}>{fmt(r.actual, decimals)}</td>
+                <td style={cell}>{fmt(r.predicted, decimals)}</td>
+                <td style={{ ...cell, color: Math.abs(r.residual) > 2 * model.sigma ? "#991b1b" : undefined }}>
+                  {r.residual >= 0 ? "+" : "−"}
+                  {Math.abs(r.residual).toFixed(decimals)}
+                </td>
+                <td style={cell}>
+                  <button
+                    onClick={() => onExclude(r.runId)}
+                    style={{ ...inputStyle, background: "white", cursor: "pointer" }}
+                  >
+                    Exclude
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Model-quality view: R², σ, sample count and residuals per pass, with a
+ * shortcut to drop outliers from training.
+ */
+export function ModelQuality({
+  cars,
+  car,
+  onCarChange,
+  station,
+  refreshKey,
+  onExclude,
+}: {
+  cars: string[];
+  car: string;
+  onCarChange: (car: string) => void;
+  station: string;
+  refreshKey: unknown;
+  onExclude: (runId: string) => void;
+}) {
+  const [distance, setDistance] = useState<ModelDistance>("quarter");
+  const { result, error } = usePrediction(car, station, distance, refreshKey);
+
+  return (
+    <section style={{ marginTop: 20 }}>
+      <div style={{ display: "flex", alignItems: "baseline", gap: 10, flexWrap: "wrap" }}>
+        <h2 style={{ margin: 0 }}>Prediction model</h2>
+        <select value={car} onChange={(e) => onCarChange(e.target.value)} style={inputStyle}>
+          <option value="">All cars</option>
+          {cars.map((c) => (
+            <option key={c} value={c}>
+              {c}
+            </option>
+          ))}
+        </select>
+        <select value={distance} onChange={(e) => setDistance(e.target.value as ModelDistance)} style={inputStyle}>
+          <option value="quarter">1/4 mile</option>
+          <option value="eighth">1/8 mile</option>
+        </select>
+        {result?.readingTs && (
+          <span style={{ opacity: 0.7, fontSize: 13 }}>vs reading {formatTs12Hour(result.readingTs)}</span>
+        )}
+      </div>
+
+      {error && <div style={{ marginTop: 8, color: "#991b1b", fontSize: 13 }}>{error}</div>}
+
+      <div style={{ marginTop: 10, display: "grid", gridTemplateColumns: "1fr 1fr", gap: 12 }}>
+        <ModelCard title="ET" model={result?.et ?? null} decimals={3} onExclude={onExclude} />
+        <ModelCard title="MPH" model={result?.mph ?? null} decimals={2} onExclude={onExclude} />
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,213 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { Band, ProjectedOutput, Projection } from "@/lib/projection";
+import type { ProjectionAccuracy, SavedProjection } from "@/lib/projectionStore";
+import { DISPLAY_FIELDS, type DisplayField } from "@/lib/reading";
+import { fmt, formatTs12Hour } from "@/lib/format";
+import { deltaToDisplayUnits, fieldLabel, fieldUnit, formatField, type UnitPrefs } from "@/lib/units";
+import { useUnitPrefs } from "@/app/components/Units";
+
+const OUTPUTS: ProjectedOutput[] = ["adr", "adr2", "densityAltFt", "correction"];
+const INPUTS = ["tempF", "humidityPct", "absPressureInHg"] as const;
+
+const buttonStyle = {
+  border: "1px solid #e5e7eb",
+  borderRadius: 8,
+  padding: "6px 10px",
+  background: "white",
+  cursor: "pointer",
+  fontSize: 13,
+} as const;
+
+const inputStyle = { border: "1px solid #e5e7eb", borderRadius: 8, padding: "6px 8px", fontSize: 13 } as const;
+
+// "15:40" → today at 3:40 PM local
+function targetMsFromTime(hhmm: string): number {
+  const [h, m] = hhmm.split(":").map(Number);
+  const d = new Date();
+  d.setHours(h, m, 0, 0);
+  return d.getTime();
+}
+
+function bandText(b: Band, field: DisplayField, units: UnitPrefs) {
+  return `${formatField(field, b.low, units)}–${formatField(field, b.high, units)}`;
+}
+
+/**
+ * "What will the air be at 3:40?" from the recent trend, plus how past
+ * projections for this station turned out.
+ */
+export function ProjectionPanel({ station }: { station: string }) {
+  const [time, setTime] = useState("");
+  const [lookbackMin, setLookbackMin] = useState("90");
+  const [projection, setProjection] = useState<Projection | null>(null);
+  const [saved, setSaved] = useState<SavedProjection[]>([]);
+  const [accuracy, setAccuracy] = useState<ProjectionAccuracy | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { units } = useUnitPrefs();
+
+  async function loadSaved() {
+    try {
+      const res = await fetch(`/api/projection?station=${encodeURIComponent(station)}`, { cache: "no-store" });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json?.error ?? `Request failed (${res.status})`);
+      setSaved(json.projections ?? []);
+      setAccuracy(json.accuracy ?? null);
+    } catch (e: unknown) {
+      setError((e as Error)?.message ?? "Failed to load projections.");
+    }
+  }
+
+  useEffect(() => {
+    loadSaved();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [station]);
+
+  async function run(save: boolean) {
+    if (!time) return;
+    try {
+      setError(null);
+      const at = targetMsFromTime(time);
+      const res = save
+        ? await fetch("/api/projection", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ station, at, lookbackMin: Number(lookbackMin) }),
+          })
+        : await fetch(
+            `/api/projection?${new URLSearchParams({ station, at: String(at), lookbackMin })}`,
+            { cache: "no-store" }
+          );
+      const json = await res.json();
+      if (!res.ok) throw new Error(json?.error ?? `Request failed (${res.status})`);
+      setProjection(json.projection);
+      if (save) await loadSaved();
+    } catch (e: unknown) {
+      setProjection(null);
+      setError((e as Error)?.message ?? "Projection failed.");
+    }
+  }
+
+  const cell = { padding: "6px 10px", borderBottom: "1px solid #f3f4f6", whiteSpace: "nowrap" } as const;
+  const head = { ...cell, textAlign: "left", fontSize: 12, borderBottom: "1px solid #e5e7eb" } as const;
+
+  return (
+    <div style={{ border: "1px solid #e5e7eb", borderRadius: 12, padding: 12, display: "grid", gap: 12 }}>
+      <div style={{ display: "flex", gap: 10, flexWrap: "wrap", alignItems: "center", fontSize: 13 }}>
+        <label>
+          Round at <input type="time" value={time} onChange={(e) => setTime(e.target.value)} style={inputStyle} />
+        </label>
+        <label>
+          Trend over{" "}
+          <select value={lookbackMin} onChange={(e) => setLookbackMin(e.target.value)} style={inputStyle}>
+            <option value="60">1 h</option>
+            <option value="90">90 min</option>
+            <option value="180">3 h</option>
+          </select>
+        </label>
+        <button onClick={() => run(false)} disabled={!time} style={buttonStyle}>
+          Project
+        </button>
+        <button onClick={() => run(true)} disabled={!time} style={buttonStyle}>
+          Project &amp; save
+        </button>
+        {error && <span style={{ color: "#991b1b" }}>{error}</span>}
+      </div>
+
+      {projection && (
+        <div style={{ display: "flex", gap: 16, flexWrap: "wrap", fontSize: 13 }}>
+          {OUTPUTS.map((k) => (
+            <div key={k}>
+              <div style={{ opacity: 0.7, fontSize: 12 }}>{fieldLabel(k, units)}</div>
+              <div style={{ fontSize: 18, fontWeight: 650 }}>
+                {formatField(k, projection.outputs[k].value, units)}
+              </div>
+              <div style={{ opacity: 0.6, fontSize: 12 }}>{bandText(projection.outputs[k], k, units)}</div>
+            </div>
+          ))}
+          {INPUTS.map((k) => {
+            const { unit, decimals } = fieldUnit(k, units);
+            const b = projection.inputs[k];
+            const perHour = deltaToDisplayUnits(k, b.perHour, units);
+            return (
+              <div key={k} style={{ opacity: 0.8 }}>
+                <div style={{ opacity: 0.7, fontSize: 12 }}>{DISPLAY_FIELDS[k].label}</div>
+                <div>
+                  {formatField(k, b.value, units)} {unit}
+                </div>
+                <div style={{ opacity: 0.6, fontSize: 12 }}>
+                  {perHour >= 0 ? "+" : "−"}
+                  {fmt(Math.abs(perHour), decimals)} {unit}/hr
+                </div>
+              </div>
+            );
+          })}
+          <div style={{ opacity: 0.6, fontSize: 12, alignSelf: "end" }}>
+            from {projection.basis.n} readings, {formatTs12Hour(projection.basis.fromTs)} –{" "}
+            {formatTs12Hour(projection.basis.toTs)}
+          </div>
+        </div>
+      )}
+
+      {saved.length > 0 && (
+        <div style={{ overflowX: "auto" }}>
+          <table style={{ borderCollapse: "collapse", fontSize: 13 }}>
+            <thead>
+              <tr>
+                <th style={head}>Target</th>
+                <th style={head}>Made</th>
+                {OUTPUTS.map((k) => (
+                  <th key={k} style={head}>
+                    {fieldLabel(k, units)} pred / actual
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {saved.slice(0, 10).map((p) => (
+                <tr key={p.id}>
+                  <td style={cell}>{formatTs12Hour(p.targetAt)}</td>
+                  <td style={cell}>{formatTs12Hour(p.createdAt)}</td>
+                  {OUTPUTS.map((k) => {
+                    const actual = p.actual?.[k];
+                    const inBand = actual != null && actual >= p.outputs[k].low && actual <= p.outputs[k].high;
+                    return (
+                      <td key={k} style={cell}>
+                        {formatField(k, p.outputs[k].value, units)} /{" "}
+                        <span style={{ color: actual == null ? undefined : inBand ? "#065f46" : "#991b1b" }}>
+                          {actual == null ? (p.checkedAt ? "no data" : "pending") : formatField(k, actual, units)}
+                        </span>
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+            {accuracy && accuracy.adr.n > 0 && (
+              <tfoot>
+                <tr>
+                  <td style={cell} colSpan={2}>
+                    Mean abs error · in band ({accuracy.adr.n} scored)
+                  </td>
+                  {OUTPUTS.map((k) => (
+                    <td key={k} style={cell}>
+                      {accuracy[k].meanAbsError === null
+                        ? "—"
+                        : fmt(
+                            deltaToDisplayUnits(k, accuracy[k].meanAbsError, units),
+                            fieldUnit(k, units).decimals + 1
+                          )}{" "}
+                      ·{" "}
+                      {fmt(accuracy[k].withinBandPct, 0)}%
+                    </td>
+                  ))}
+                </tr>
+              </tfoot>
+            )}
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
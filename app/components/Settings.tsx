@@ -0,0 +1,93 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import type { Settings } from "@/lib/settingsStore";
+import { DEFAULT_QUALITY } from "@/lib/quality";
+import {
+  CORRECTION_STANDARDS,
+  DEFAULT_CORRECTION_STANDARD,
+  type ComputeOptions,
+  type CorrectionStandard,
+  type DaConstants,
+} from "@/lib/weatherCalc";
+
+// Same defaults as the server until /api/settings answers
+const INITIAL: Settings = {
+  correctionStandard: DEFAULT_CORRECTION_STANDARD,
+  calibrationProfileId: null,
+  quality: DEFAULT_QUALITY,
+};
+
+/**
+ * Server-side app settings, shared by every screen and the poller.
+ */
+export function useSettings() {
+  const [settings, setSettings] = useState<Settings>(INITIAL);
+  // DA constants of the active calibration profile (null = built-in)
+  const [calibration, setCalibration] = useState<DaConstants | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/settings", { cache: "no-store" })
+      .then((res) => res.json())
+      .then((json) => {
+        if (json?.settings) setSettings(json.settings);
+        setCalibration(json?.calibration ?? null);
+      })
+      .catch(() => undefined);
+  }, []);
+
+  async function update(patch: Partial<Omit<Settings, "quality">> & { quality?: Partial<Settings["quality"]> }) {
+    try {
+      const res = await fetch("/api/settings", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(patch),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json?.error ?? `Request failed (${res.status})`);
+      setSettings(json.settings);
+      setCalibration(json.calibration ?? null);
+      setError(null);
+    } catch (e: unknown) {
+      setError((e as Error)?.message ?? "Failed to save settings.");
+    }
+  }
+
+  // Ready to hand to computeRacingWeather for client-side math
+  const computeOptions = useMemo<ComputeOptions>(
+    () => ({ correctionStandard: settings.correctionStandard, calibration: calibration ?? undefined }),
+    [settings.correctionStandard, calibration]
+  );
+
+  return { settings, computeOptions, update, error };
+}
+
+export function CorrectionStandardPicker({
+  value,
+  onChange,
+}: {
+  value: CorrectionStandard;
+  onChange: (std: CorrectionStandard) => void;
+}) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value as CorrectionStandard)}
+      title="Standard used for the Correction tile and column"
+      style={{
+        border: "1px solid #e5e7eb",
+        borderRadius: 8,
+        padding: "6px 10px",
+        background: "white",
+        fontSize: 13,
+      }}
+    >
+      {(Object.keys(CORRECTION_STANDARDS) as CorrectionStandard[]).map((k) => (
+        <option key={k} value={k}>
+          {CORRECTION_STANDARDS[k].label}
+        </option>
+      ))}
+    </select>
+  );
+}
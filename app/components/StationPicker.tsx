@@ -0,0 +1,122 @@
+"use client";
+
+import { useEffect, useState, useSyncExternalStore } from "react";
+
+export type StationInfo = {
+  station_name: string;
+  station_id: number | string;
+  station_id_uuid?: string;
+};
+
+// "" means "whatever WEATHERLINK_STATION_ID the server is configured with"
+const STATION_KEY = "racewx_station_v1";
+
+/**
+ * Every station on the WeatherLink account (via /api/stations).
+ */
+export function useStations() {
+  const [stations, setStations] = useState<StationInfo[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const res = await fetch("/api/stations", { cache: "no-store" });
+        const json = await res.json();
+        if (!res.ok) throw new Error(json?.error ?? `Stations request failed (${res.status})`);
+        setStations(json.stations ?? []);
+      } catch (e: unknown) {
+        setError((e as Error)?.message ?? "Failed to load stations.");
+      }
+    })();
+  }, []);
+
+  return { stations, error };
+}
+
+// Same-tab writes don't fire "storage", so choose() announces them itself.
+const CHOICE_EVENT = "racewx-choice-change";
+
+function subscribeChoice(cb: () => void) {
+  window.addEventListener("storage", cb);
+  window.addEventListener(CHOICE_EVENT, cb);
+  return () => {
+    window.removeEventListener("storage", cb);
+    window.removeEventListener(CHOICE_EVENT, cb);
+  };
+}
+
+/**
+ * A string choice remembered in localStorage and shared live between every
+ * component using the same key. `ready` is false during server render.
+ */
+export function useStoredChoice(storageKey: string) {
+  const stored = useSyncExternalStore(
+    subscribeChoice,
+    () => {
+      try {
+        return localStorage.getItem(storageKey) ?? "";
+      } catch {
+        return "";
+      }
+    },
+    () => null
+  );
+
+  function choose(next: string) {
+    try {
+      localStorage.setItem(storageKey, next);
+    } catch {}
+    window.dispatchEvent(new Event(CHOICE_EVENT));
+  }
+
+  return { value: stored ?? "", setValue: choose, ready: stored !== null };
+}
+
+/**
+ * The station this browser is looking at, remembered across reloads.
+ * `storageKey` lets other views (e.g. compare) keep their own picks.
+ */
+export function useSelectedStation(storageKey = STATION_KEY) {
+  const { value, setValue, ready } = useStoredChoice(storageKey);
+  return { station: value, setStation: setValue, ready };
+}
+
+export function stationLabel(stations: StationInfo[], id: string): string {
+  if (!id) return "Default station";
+  const s = stations.find((x) => String(x.station_id) === id);
+  return s ? s.station_name : `Station ${id}`;
+}
+
+export function StationPicker({
+  stations,
+  value,
+  onChange,
+  allowDefault = true,
+}: {
+  stations: StationInfo[];
+  value: string;
+  onChange: (id: string) => void;
+  allowDefault?: boolean;
+}) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      style={{
+        border: "1px solid #e5e7eb",
+        borderRadius: 8,
+        padding: "6px 10px",
+        background: "white",
+        fontSize: 13,
+      }}
+    >
+      {allowDefault && <option value="">Default station</option>}
+      {stations.map((s) => (
+        <option key={String(s.station_id)} value={String(s.station_id)}>
+          {s.station_name} ({s.station_id})
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,223 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { DISPLAY_FIELDS, type DisplayField, type Reading } from "@/lib/reading";
+import { seriesFor, splitOnGaps, type TrendPoint } from "@/lib/trend";
+import { fmt } from "@/lib/format";
+import { fieldUnit, toDisplayUnits, type UnitPrefs } from "@/lib/units";
+import { useUnitPrefs } from "@/app/components/Units";
+
+export type TrendWindow = "1h" | "6h" | "today" | "event";
+
+const WINDOWS: { key: TrendWindow; label: string }[] = [
+  { key: "1h", label: "1 h" },
+  { key: "6h", label: "6 h" },
+  { key: "today", label: "Today" },
+  { key: "event", label: "Event" },
+];
+
+const inputStyle = { border: "1px solid #e5e7eb", borderRadius: 8, padding: "6px 8px", fontSize: 13 } as const;
+
+const W = 800;
+const H = 220;
+const PAD = { left: 56, right: 12, top: 10, bottom: 24 };
+
+// The run log is the only record of events so far: an event spans its passes
+async function eventRange(event: string): Promise<{ from: number; to: number } | null> {
+  const res = await fetch(`/api/runs?event=${encodeURIComponent(event)}`, { cache: "no-store" });
+  const json = await res.json();
+  if (!res.ok) throw new Error(json?.error ?? `Request failed (${res.status})`);
+  const times = (json.runs ?? [])
+    .map((r: { runAt: string }) => Date.parse(r.runAt))
+    .filter(Number.isFinite) as number[];
+  if (!times.length) return null;
+  return { from: Math.min(...times) - 3_600_000, to: Math.max(...times) + 30 * 60_000 };
+}
+
+async function windowRange(win: TrendWindow, event: string): Promise<{ from: number; to?: number } | null> {
+  const now = Date.now();
+  if (win === "1h") return { from: now - 3_600_000 };
+  if (win === "6h") return { from: now - 6 * 3_600_000 };
+  if (win === "today") {
+    const d = new Date(now);
+    return { from: new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime() };
+  }
+  return event ? eventRange(event) : null;
+}
+
+function timeLabel(ms: number, spanMs: number) {
+  const d = new Date(ms);
+  const opts: Intl.DateTimeFormatOptions =
+    spanMs > 24 * 3_600_000
+      ? { month: "numeric", day: "numeric", hour: "numeric" }
+      : { hour: "numeric", minute: "2-digit" };
+  return d.toLocaleString(undefined, opts);
+}
+
+function Chart({
+  points: stored,
+  field,
+  from,
+  to,
+  units,
+}: {
+  points: TrendPoint[];
+  field: DisplayField;
+  from: number;
+  to: number;
+  units: UnitPrefs;
+}) {
+  const { decimals, unit } = fieldUnit(field, units);
+  const points = stored.map((p) => ({ ms: p.ms, value: toDisplayUnits(field, p.value, units) }));
+  if (!points.length) {
+    return <div style={{ opacity: 0.7, fontSize: 13, padding: 20 }}>No readings in this window.</div>;
+  }
+
+  let lo = Math.min(...points.map((p) => p.value));
+  let hi = Math.max(...points.map((p) => p.value));
+  if (lo === hi) {
+    lo -= 1;
+    hi += 1;
+  }
+  const x = (ms: number) => PAD.left + ((ms - from) / (to - from || 1)) * (W - PAD.left - PAD.right);
+  const y = (v: number) => PAD.top + (1 - (v - lo) / (hi - lo)) * (H - PAD.top - PAD.bottom);
+
+  const segments = splitOnGaps(points);
+  const ticks = [0, 0.25, 0.5, 0.75, 1].map((f) => from + f * (to - from));
+
+  return (
+    <svg viewBox={`0 0 ${W} ${H}`} style={{ width: "100%", height: "auto", display: "block" }}>
+      {[lo, (lo + hi) / 2, hi].map((v) => (
+        <g key={v}>
+          <line x1={PAD.left} x2={W - PAD.right} y1={y(v)} y2={y(v)} stroke="#f3f4f6" />
+          <text x={PAD.left - 6} y={y(v) + 4} fontSize={11} textAnchor="end" fill="#6b7280">
+            {fmt(v, decimals)}
+          </text>
+        </g>
+      ))}
+      {ticks.map((t) => (
+        <text key={t} x={x(t)} y={H - 6} fontSize={11} textAnchor="middle" fill="#6b7280">
+          {timeLabel(t, to - from)}
+        </text>
+      ))}
+
+      {/* Gaps split the series: each segment is its own line, lone points are dots */}
+      {segments.map((seg) =>
+        seg.length === 1 ? (
+          <circle key={seg[0].ms} cx={x(seg[0].ms)} cy={y(seg[0].value)} r={2.5} fill="#2563eb" />
+        ) : (
+          <polyline
+            key={seg[0].ms}
+            fill="none"
+            stroke="#2563eb"
+            strokeWidth={1.5}
+            points={seg.map((p) => `${x(p.ms)},${y(p.value)}`).join(" ")}
+          />
+        )
+      )}
+      {unit && (
+        <text x={PAD.left} y={PAD.top + 10} fontSize={11} fill="#6b7280" dx={4}>
+          {unit}
+        </text>
+      )}
+    </svg>
+  );
+}
+
+/**
+ * Chart any display field over a preset window. Re-fetches when `refreshKey`
+ * changes (pass the latest reading ts).
+ */
+export function TrendPanel({ station, refreshKey }: { station: string; refreshKey?: unknown }) {
+  const [field, setField] = useState<DisplayField>("densityAltFt");
+  const [win, setWin] = useState<TrendWindow>("1h");
+  const [event, setEvent] = useState("");
+  const [events, setEvents] = useState<string[]>([]);
+  const [points, setPoints] = useState<TrendPoint[]>([]);
+  const [range, setRange] = useState<{ from: number; to: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { units } = useUnitPrefs();
+
+  useEffect(() => {
+    fetch("/api/runs", { cache: "no-store" })
+      .then((res) => res.json())
+      .then((json) => setEvents(json.events ?? []))
+      .catch(() => undefined);
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const r = await windowRange(win, event);
+        if (!r) {
+          if (!cancelled) {
+            setPoints([]);
+            setRange(null);
+          }
+          return;
+        }
+        const qs = new URLSearchParams({ station, from: String(r.from), limit: "5000" });
+        if (r.to) qs.set("to", String(r.to));
+        const res = await fetch(`/api/history?${qs}`, { cache: "no-store" });
+        const json = await res.json();
+        if (!res.ok) throw new Error(json?.error ?? `Request failed (${res.status})`);
+        if (cancelled) return;
+        setPoints(seriesFor(json.readings as Reading[], field));
+        setRange({ from: r.from, to: r.to ?? Date.now() });
+        setError(null);
+      } catch (e: unknown) {
+        if (!cancelled) setError((e as Error)?.message ?? "Failed to load trend.");
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [station, field, win, event, refreshKey]);
+
+  return (
+    <div style={{ border: "1px solid #e5e7eb", borderRadius: 12, padding: 12 }}>
+      <div style={{ display: "flex", gap: 10, flexWrap: "wrap", alignItems: "center", fontSize: 13 }}>
+        <select value={field} onChange={(e) => setField(e.target.value as DisplayField)} style={inputStyle}>
+          {(Object.keys(DISPLAY_FIELDS) as DisplayField[]).map((k) => (
+            <option key={k} value={k}>
+              {DISPLAY_FIELDS[k].label}
+            </option>
+          ))}
+        </select>
+        <div style={{ display: "flex", gap: 4 }}>
+          {WINDOWS.map((w) => (
+            <button
+              key={w.key}
+              onClick={() => setWin(w.key)}
+              style={{ ...inputStyle, cursor: "pointer", background: w.key === win ? "#f3f4f6" : "white" }}
+            >
+              {w.label}
+            </button>
+          ))}
+        </div>
+        {win === "event" && (
+          <select value={event} onChange={(e) => setEvent(e.target.value)} style={inputStyle}>
+            <option value="">Pick an event…</option>
+            {events.map((ev) => (
+              <option key={ev} value={ev}>
+                {ev}
+              </option>
+            ))}
+          </select>
+        )}
+        {error && <span style={{ color: "#991b1b" }}>{error}</span>}
+      </div>
+
+      <div style={{ marginTop: 10 }}>
+        {range ? (
+          <Chart points={points} field={field} from={range.from} to={range.to} units={units} />
+        ) : (
+          <div style={{ opacity: 0.7, fontSize: 13, padding: 20 }}>
+            {win === "event" ? "Pick an event from the run log." : "No readings in this window."}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
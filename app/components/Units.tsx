@@ -0,0 +1,60 @@
+"use client";
+
+import { useMemo } from "react";
+import { useStoredChoice } from "@/app/components/StationPicker";
+import {
+  encodeUnitPrefs,
+  parseUnitPrefs,
+  QUANTITY_UNITS,
+  UNITS,
+  type Quantity,
+  type Unit,
+  type UnitPrefs,
+} from "@/lib/units";
+
+// Per browser, so each crew member keeps their own units
+const UNITS_KEY = "racewx_units_v1";
+
+/**
+ * Display units this browser picked (imperial until changed).
+ */
+export function useUnitPrefs() {
+  const { value, setValue } = useStoredChoice(UNITS_KEY);
+  const units = useMemo(() => parseUnitPrefs(value), [value]);
+  return {
+    units,
+    // Same string the APIs take as ?units=
+    unitsParam: encodeUnitPrefs(units),
+    setUnits: (next: UnitPrefs) => setValue(encodeUnitPrefs(next)),
+  };
+}
+
+export function UnitPicker({ value, onChange }: { value: UnitPrefs; onChange: (next: UnitPrefs) => void }) {
+  const selectStyle = {
+    border: "1px solid #e5e7eb",
+    borderRadius: 8,
+    padding: "6px 8px",
+    background: "white",
+    fontSize: 13,
+  } as const;
+
+  return (
+    <span style={{ display: "inline-flex", gap: 4 }} title="Display and export units">
+      {(Object.keys(QUANTITY_UNITS) as Quantity[]).map((q) => (
+        <select
+          key={q}
+          value={value[q]}
+          onChange={(e) => onChange({ ...value, [q]: e.target.value as Unit })}
+          aria-label={QUANTITY_UNITS[q].label}
+          style={selectStyle}
+        >
+          {QUANTITY_UNITS[q].units.map((u) => (
+            <option key={u} value={u}>
+              {UNITS[u].label}
+            </option>
+          ))}
+        </select>
+      ))}
+    </span>
+  );
+}
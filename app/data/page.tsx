@@ -0,0 +1,253 @@
+"use client";
+
+import Link from "next/link";
+import { useState } from "react";
+import { stationLabel, useStations, useStoredChoice } from "@/app/components/StationPicker";
+import { useUnitPrefs } from "@/app/components/Units";
+import {
+  DEFAULT_EXPORT_COLUMNS,
+  EXPORT_COLUMNS,
+  EXPORT_FORMATS,
+  EXPORT_GROUPS,
+  isExportFormat,
+  type ExportFormat,
+  type ExportGroup,
+  type ImportIssue,
+} from "@/lib/historyTransfer";
+import { fmt } from "@/lib/format";
+
+const COLUMNS_KEY = "racewx_export_columns_v1";
+const FORMAT_KEY = "racewx_export_format_v1";
+
+type ImportResult = { added: number; skipped: number; invalid: number; issues: ImportIssue[]; total: number };
+
+type PendingFile = { name: string; text: string; format: "csv" | "json" };
+
+const buttonStyle = {
+  border: "1px solid #e5e7eb",
+  borderRadius: 8,
+  padding: "6px 10px",
+  background: "white",
+  cursor: "pointer",
+  fontSize: 13,
+} as const;
+
+const inputStyle = { border: "1px solid #e5e7eb", borderRadius: 8, padding: "6px 8px", fontSize: 13 } as const;
+
+const sectionStyle = { border: "1px solid #e5e7eb", borderRadius: 12, padding: 12, marginTop: 16 } as const;
+
+// datetime-local values are in the browser's zone; the API wants an instant
+function localToIso(v: string): string | null {
+  const ms = Date.parse(v);
+  return Number.isFinite(ms) ? new Date(ms).toISOString() : null;
+}
+
+async function postImport(file: PendingFile, station: string, dryRun: boolean): Promise<ImportResult> {
+  const res = await fetch("/api/history", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ text: file.text, format: file.format, station, dryRun }),
+  });
+  const json = await res.json();
+  if (!res.ok) throw new Error(json?.error ?? `Request failed (${res.status})`);
+  return json;
+}
+
+export default function DataPage() {
+  const { stations } = useStations();
+  const { unitsParam } = useUnitPrefs();
+  const { value: storedColumns, setValue: setStoredColumns } = useStoredChoice(COLUMNS_KEY);
+  const { value: storedFormat, setValue: setFormat } = useStoredChoice(FORMAT_KEY);
+  const [station, setStation] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [pending, setPending] = useState<PendingFile | null>(null);
+  const [preview, setPreview] = useState<ImportResult | null>(null);
+  const [imported, setImported] = useState<ImportResult | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const format: ExportFormat = isExportFormat(storedFormat) ? storedFormat : "csv";
+  const picked = new Set(storedColumns ? storedColumns.split(",") : DEFAULT_EXPORT_COLUMNS);
+  const toggleColumn = (id: string) => {
+    const next = new Set(picked);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    // Keep the column-list order so the file matches the picker
+    setStoredColumns(EXPORT_COLUMNS.filter((c) => next.has(c.id)).map((c) => c.id).join(","));
+  };
+
+  const exportQs = new URLSearchParams({ format, units: unitsParam, columns: [...picked].join(",") });
+  if (station) exportQs.set("station", station);
+  const fromIso = localToIso(from);
+  const toIso = localToIso(to);
+  if (fromIso) exportQs.set("from", fromIso);
+  if (toIso) exportQs.set("to", toIso);
+
+  async function pickFile(file: File | undefined) {
+    setError(null);
+    setPreview(null);
+    setImported(null);
+    setPending(null);
+    if (!file) return;
+    const next: PendingFile = {
+      name: file.name,
+      text: await file.text(),
+      format: /\.json$/i.test(file.name) ? "json" : "csv",
+    };
+    setBusy(true);
+    try {
+      setPreview(await postImport(next, station, true));
+      setPending(next);
+    } catch (e: unknown) {
+      setError((e as Error)?.message ?? "Could not read the file.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function runImport() {
+    if (!pending) return;
+    setBusy(true);
+    try {
+      setError(null);
+      setImported(await postImport(pending, station, false));
+      setPending(null);
+      setPreview(null);
+    } catch (e: unknown) {
+      setError((e as Error)?.message ?? "Import failed.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const result = imported ?? preview;
+
+  return (
+    <main style={{ padding: 16, fontFamily: "system-ui, sans-serif" }}>
+      <div style={{ display: "flex", alignItems: "baseline", gap: 12, flexWrap: "wrap" }}>
+        <h1 style={{ marginBottom: 12 }}>Export &amp; import</h1>
+        <Link href="/" style={{ fontSize: 13 }}>
+          Back to dashboard
+        </Link>
+      </div>
+
+      {error && (
+        <div
+          style={{
+            background: "#fee2e2",
+            border: "1px solid #ef4444",
+            color: "#991b1b",
+            padding: 12,
+            borderRadius: 8,
+            marginBottom: 12,
+          }}
+        >
+          {error}
+        </div>
+      )}
+
+      {/* ---- Export ---- */}
+      <section style={sectionStyle}>
+        <h2 style={{ margin: "0 0 8px", fontSize: 16 }}>Export a range</h2>
+        <div style={{ display: "flex", gap: 10, flexWrap: "wrap", alignItems: "center", fontSize: 13 }}>
+          <select value={station} onChange={(e) => setStation(e.target.value)} style={inputStyle}>
+            <option value="">All stations</option>
+            {stations.map((s) => (
+              <option key={String(s.station_id)} value={String(s.station_id)}>
+                {s.station_name} ({s.station_id})
+              </option>
+            ))}
+          </select>
+          <label>
+            From{" "}
+            <input type="datetime-local" value={from} onChange={(e) => setFrom(e.target.value)} style={inputStyle} />
+          </label>
+          <label>
+            to <input type="datetime-local" value={to} onChange={(e) => setTo(e.target.value)} style={inputStyle} />
+          </label>
+          <select value={format} onChange={(e) => setFormat(e.target.value)} style={inputStyle}>
+            {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((f) => (
+              <option key={f} value={f}>
+                {EXPORT_FORMATS[f].label}
+              </option>
+            ))}
+          </select>
+          <a href={`/api/history?${exportQs}`} style={{ ...buttonStyle, color: "inherit", textDecoration: "none" }}>
+            Download
+          </a>
+          <span style={{ opacity: 0.7 }}>Leave a date empty for no limit on that side.</span>
+        </div>
+
+        <div style={{ display: "flex", gap: 24, flexWrap: "wrap", marginTop: 12, fontSize: 13 }}>
+          {(Object.keys(EXPORT_GROUPS) as ExportGroup[]).map((group) => (
+            <fieldset key={group} style={{ border: "1px solid #f3f4f6", borderRadius: 8, padding: "6px 10px" }}>
+              <legend style={{ fontWeight: 600 }}>{EXPORT_GROUPS[group]}</legend>
+              {EXPORT_COLUMNS.filter((c) => c.group === group).map((c) => (
+                <label key={c.id} style={{ display: "block", lineHeight: 1.7 }}>
+                  <input type="checkbox" checked={picked.has(c.id)} onChange={() => toggleColumn(c.id)} /> {c.label}
+                </label>
+              ))}
+            </fieldset>
+          ))}
+        </div>
+        <div style={{ marginTop: 8, display: "flex", gap: 8 }}>
+          <button onClick={() => setStoredColumns("")} style={buttonStyle}>
+            Default columns
+          </button>
+          <button onClick={() => setStoredColumns(EXPORT_COLUMNS.map((c) => c.id).join(","))} style={buttonStyle}>
+            All columns
+          </button>
+        </div>
+      </section>
+
+      {/* ---- Import ---- */}
+      <section style={sectionStyle}>
+        <h2 style={{ margin: "0 0 8px", fontSize: 16 }}>Import a file</h2>
+        <div style={{ fontSize: 13, opacity: 0.8, marginBottom: 8 }}>
+          CSV or JSON as exported above (any units), or your own sheet with ts, temp, humidity and pressure
+          columns. Rows are recomputed with the current calc settings; timestamps already stored for that station are
+          skipped. Rows without a stationId go to {station ? stationLabel(stations, station) : "the default station"}.
+        </div>
+        <input
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          disabled={busy}
+          onChange={(e) => pickFile(e.target.files?.[0])}
+          style={{ fontSize: 13 }}
+        />
+
+        {result && (
+          <div style={{ marginTop: 10, fontSize: 13 }}>
+            <div>
+              {imported ? "Imported" : `${pending?.name ?? "File"}:`} {fmt(result.total)} rows ·{" "}
+              {fmt(result.added)} {imported ? "added" : "new"} · {fmt(result.skipped)} already stored ·{" "}
+              {fmt(result.invalid)} invalid
+            </div>
+            {result.issues.length > 0 && (
+              <ul style={{ margin: "6px 0", paddingLeft: 18, color: "#991b1b" }}>
+                {result.issues.map((i) => (
+                  <li key={i.row}>
+                    Row {i.row}: {i.error}
+                  </li>
+                ))}
+                {result.invalid > result.issues.length && (
+                  <li>…and {fmt(result.invalid - result.issues.length)} more</li>
+                )}
+              </ul>
+            )}
+            {pending && preview && (
+              <button
+                onClick={runImport}
+                disabled={busy || preview.added === 0}
+                style={{ ...buttonStyle, marginTop: 6 }}
+              >
+                Import {fmt(preview.added)} readings
+              </button>
+            )}
+          </div>
+        )}
+      </section>
+    </main>
+  );
+}
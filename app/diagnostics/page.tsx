@@ -0,0 +1,432 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useState } from "react";
+import type { SensorDiagnostics, StationDiagnostics } from "@/lib/diagnostics";
+import type { InputSource } from "@/lib/reading";
+import { DISPLAY_FIELDS, roundTo } from "@/lib/reading";
+import { formatAge, formatTs12Hour } from "@/lib/format";
+import { StationPicker, useStations } from "@/app/components/StationPicker";
+import { useUnitPrefs } from "@/app/components/Units";
+import { useSettings } from "@/app/components/Settings";
+import { PRESSURE_TYPES } from "@/lib/pressure";
+import { PINNABLE_INPUTS, SENSOR_ROLES, type InputKey } from "@/lib/weatherlinkPayload";
+import {
+  MAX_WINDOW,
+  MIN_WINDOW,
+  QUALITY_INPUTS,
+  SMOOTHING_METHODS,
+  type QualityInput,
+  type SmoothingMethod,
+} from "@/lib/quality";
+import { deltaToDisplayUnits, fieldLabel, formatField, formatQuantity, UNITS } from "@/lib/units";
+
+const buttonStyle = {
+  border: "1px solid #e5e7eb",
+  borderRadius: 8,
+  padding: "6px 10px",
+  background: "white",
+  cursor: "pointer",
+  fontSize: 13,
+} as const;
+
+const inputStyle = { border: "1px solid #e5e7eb", borderRadius: 8, padding: "6px 8px", fontSize: 13 } as const;
+
+const STATE_COLORS: Record<SensorDiagnostics["state"], { bg: string; fg: string }> = {
+  LIVE: { bg: "#dcfce7", fg: "#065f46" },
+  STALE: { bg: "#fef9c3", fg: "#854d0e" },
+  OFFLINE: { bg: "#fee2e2", fg: "#991b1b" },
+};
+
+function inputLabel(input: InputSource["input"]): string {
+  return DISPLAY_FIELDS[input].label;
+}
+
+function sensorLabel(s: { lsid: number | null; sensorType: number | null }): string {
+  if (s.lsid === null) return "—";
+  return `lsid ${s.lsid}${s.sensorType !== null ? ` · type ${s.sensorType}` : ""}`;
+}
+
+export default function DiagnosticsPage() {
+  const { stations } = useStations();
+  const [station, setStation] = useState("");
+  const [diag, setDiag] = useState<StationDiagnostics | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  // Typed in the user's altitude unit
+  const [elevation, setElevation] = useState("");
+  const { units, unitsParam } = useUnitPrefs();
+  const altUnit = UNITS[units.altitude];
+  const { settings, update: updateSettings, error: settingsError } = useSettings();
+
+  // Step limits are edited per minute in the user's units, stored imperial
+  const stepPerUnit = (input: QualityInput) => deltaToDisplayUnits(input, 1, units);
+  function saveStep(input: QualityInput, typed: string) {
+    const n = Number(typed);
+    if (!typed.trim() || !Number.isFinite(n)) return;
+    const maxStepPerMin = { ...settings.quality.maxStepPerMin, [input]: n / stepPerUnit(input) };
+    updateSettings({ quality: { maxStepPerMin } });
+  }
+
+  const load = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const qs = station ? `?station=${encodeURIComponent(station)}` : "";
+      const res = await fetch(`/api/diagnostics${qs}`, { cache: "no-store" });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json?.error ?? `Request failed (${res.status})`);
+      setDiag(json);
+      const ft = (json as StationDiagnostics).config.elevationFt;
+      setElevation(ft === null ? "" : String(Math.round(altUnit.fromImperial(ft))));
+    } catch (e: unknown) {
+      setError((e as Error)?.message ?? "Failed to load diagnostics.");
+    } finally {
+      setLoading(false);
+    }
+  }, [station, altUnit]);
+
+  async function saveElevation() {
+    if (!diag) return;
+    try {
+      setError(null);
+      const typed = elevation.trim();
+      const res = await fetch("/api/stations", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          stationId: diag.stationId,
+          elevationFt: typed ? altUnit.toImperial(Number(typed)) : null,
+        }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json?.error ?? `Request failed (${res.status})`);
+      await load();
+    } catch (e: unknown) {
+      setError((e as Error)?.message ?? "Failed to save elevation.");
+    }
+  }
+
+  // "" goes back to picking the sensor by role
+  async function saveLsid(input: InputKey, lsid: string) {
+    if (!diag) return;
+    try {
+      setError(null);
+      const res = await fetch("/api/stations", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ stationId: diag.stationId, lsids: { [input]: lsid ? Number(lsid) : null } }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json?.error ?? `Request failed (${res.status})`);
+      await load();
+    } catch (e: unknown) {
+      setError((e as Error)?.message ?? "Failed to save sensor choice.");
+    }
+  }
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const cell = { padding: "8px 10px", borderBottom: "1px solid #f3f4f6", whiteSpace: "nowrap" } as const;
+  const head = { ...cell, textAlign: "left", fontSize: 12, borderBottom: "1px solid #e5e7eb" } as const;
+
+  return (
+    <main style={{ padding: 16, fontFamily: "system-ui, sans-serif" }}>
+      <div style={{ display: "flex", alignItems: "baseline", gap: 12, flexWrap: "wrap" }}>
+        <h1 style={{ marginBottom: 12 }}>Station diagnostics</h1>
+        <Link href="/" style={{ fontSize: 13 }}>
+          Back to dashboard
+        </Link>
+      </div>
+
+      <div style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap", fontSize: 13 }}>
+        <StationPicker stations={stations} value={station} onChange={setStation} />
+        <button onClick={load} disabled={loading} style={buttonStyle}>
+          {loading ? "Checking…" : "Refresh"}
+        </button>
+        {diag && (
+          <span style={{ opacity: 0.7 }}>
+            {diag.provider} · checked {formatTs12Hour(diag.checkedAt)}
+          </span>
+        )}
+      </div>
+
+      {(error || settingsError || diag?.fetchError) && (
+        <div
+          style={{
+            background: "#fee2e2",
+            border: "1px solid #ef4444",
+            color: "#991b1b",
+            padding: 12,
+            borderRadius: 8,
+            marginTop: 12,
+          }}
+        >
+          {error ?? settingsError ?? diag?.fetchError}
+        </div>
+      )}
+
+      {diag && (
+        <>
+          <h2 style={{ fontSize: 16, marginTop: 20 }}>Station setup</h2>
+          <div style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap", fontSize: 13 }}>
+            <label>
+              Elevation ({altUnit.label}){" "}
+              <input
+                type="number"
+                step="any"
+                value={elevation}
+                onChange={(e) => setElevation(e.target.value)}
+                placeholder="not set"
+                style={{ ...inputStyle, width: 100 }}
+              />
+            </label>
+            <button onClick={saveElevation} style={buttonStyle}>
+              Save
+            </button>
+            <span style={{ opacity: 0.7 }}>
+              Needed to turn sea-level or altimeter pressure into absolute, and to sanity-check absolute
+              pressure.
+            </span>
+          </div>
+          {diag.provider === "weatherlink" && (
+            <div
+              style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap", fontSize: 13, marginTop: 10 }}
+            >
+              <span style={{ opacity: 0.7 }}>Sensor for:</span>
+              {PINNABLE_INPUTS.map((input) => {
+                const pinned = diag.config.lsids[input];
+                const missing = pinned !== undefined && !diag.sensors.some((s) => s.lsid === pinned);
+                return (
+                  <label key={input}>
+                    {inputLabel(input)}{" "}
+                    <select
+                      value={pinned ?? ""}
+                      onChange={(e) => saveLsid(input, e.target.value)}
+                      style={{ ...inputStyle, background: "white" }}
+                    >
+                      <option value="">Automatic (by sensor role)</option>
+                      {diag.sensors
+                        .filter((s) => s.lsid !== null)
+                        .map((s) => (
+                          <option key={s.lsid} value={s.lsid!}>
+                            lsid {s.lsid} · {SENSOR_ROLES[s.role].label}
+                          </option>
+                        ))}
+                      {missing && <option value={pinned}>lsid {pinned} (not in payload)</option>}
+                    </select>
+                  </label>
+                );
+              })}
+            </div>
+          )}
+          {diag.latest.pressure && (
+            <div style={{ fontSize: 13, display: "grid", gap: 4, marginTop: 10 }}>
+              <div>
+                Last reading used <strong>{PRESSURE_TYPES[diag.latest.pressure.type].label}</strong> pressure:{" "}
+                {formatQuantity("pressure", diag.latest.pressure.reportedInHg, units)}
+                {diag.latest.pressure.type !== "absolute" &&
+                  ` (derived at ${formatQuantity("altitude", diag.latest.pressure.elevationFt, units)})`}
+              </div>
+              {diag.latest.pressure.elevationFt !== null && (
+                <div style={{ opacity: 0.7 }}>
+                  Sea-level {formatQuantity("pressure", diag.latest.pressure.seaLevelInHg, units)} · altimeter{" "}
+                  {formatQuantity("pressure", diag.latest.pressure.altimeterInHg, units)} · expected absolute ~
+                  {formatQuantity("pressure", diag.latest.pressure.expectedInHg, units)}
+                </div>
+              )}
+              {diag.latest.pressure.warning && (
+                <div style={{ color: "#854d0e" }}>{diag.latest.pressure.warning}</div>
+              )}
+            </div>
+          )}
+
+          <h2 style={{ fontSize: 16, marginTop: 20 }}>Data quality</h2>
+          {/* Keyed on the saved values so the uncontrolled inputs pick up server changes */}
+          <div
+            key={`${JSON.stringify(settings.quality)}-${unitsParam}`}
+            style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap", fontSize: 13 }}
+          >
+            <select
+              value={settings.quality.smoothing}
+              onChange={(e) => updateSettings({ quality: { smoothing: e.target.value as SmoothingMethod } })}
+              style={{ ...inputStyle, background: "white" }}
+            >
+              {(Object.keys(SMOOTHING_METHODS) as SmoothingMethod[]).map((m) => (
+                <option key={m} value={m}>
+                  {SMOOTHING_METHODS[m].label}
+                </option>
+              ))}
+            </select>
+            <label>
+              over{" "}
+              <input
+                type="number"
+                min={MIN_WINDOW}
+                max={MAX_WINDOW}
+                defaultValue={settings.quality.window}
+                disabled={settings.quality.smoothing === "off"}
+                onBlur={(e) => {
+                  const n = Number(e.target.value);
+                  if (n !== settings.quality.window) updateSettings({ quality: { window: n } });
+                }}
+                style={{ ...inputStyle, width: 60 }}
+              />{" "}
+              readings
+            </label>
+            <span style={{ opacity: 0.7 }}>Reject jumps over (per min):</span>
+            {QUALITY_INPUTS.map((input) => (
+              <label key={input}>
+                {fieldLabel(input, units)}{" "}
+                <input
+                  type="number"
+                  step="any"
+                  min={0}
+                  defaultValue={roundTo(settings.quality.maxStepPerMin[input] * stepPerUnit(input), 3)}
+                  onBlur={(e) => saveStep(input, e.target.value)}
+                  style={{ ...inputStyle, width: 70 }}
+                />
+              </label>
+            ))}
+          </div>
+          {diag.latest.quality && diag.latest.inputs && (
+            <div style={{ fontSize: 13, display: "grid", gap: 4, marginTop: 10 }}>
+              <div>
+                Last reading was <strong>{diag.latest.quality.flag}</strong>
+                {diag.latest.quality.smoothing &&
+                  ` (${SMOOTHING_METHODS[diag.latest.quality.smoothing.method].label.toLowerCase()} of ${
+                    diag.latest.quality.smoothing.window
+                  })`}
+                :{" "}
+                {QUALITY_INPUTS.map((input) => {
+                  const raw = formatField(input, diag.latest.quality!.raw[input], units);
+                  const used = formatField(input, diag.latest.inputs![input], units);
+                  return `${fieldLabel(input, units)} raw ${raw} → used ${used}`;
+                }).join(" · ")}
+              </div>
+              {diag.latest.quality.issues.map((i) => (
+                <div key={i.input} style={{ color: "#854d0e" }}>
+                  {i.detail}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <h2 style={{ fontSize: 16, marginTop: 20 }}>Sensors</h2>
+          <div style={{ overflowX: "auto" }}>
+            <table style={{ borderCollapse: "collapse", fontSize: 13 }}>
+              <thead>
+                <tr>
+                  <th style={head}>Sensor</th>
+                  <th style={head}>Structure</th>
+                  <th style={head}>Role</th>
+                  <th style={head}>Last report</th>
+                  <th style={head}>Age</th>
+                  <th style={head}>Feeds</th>
+                  <th style={head}>Battery / reception</th>
+                </tr>
+              </thead>
+              <tbody>
+                {diag.sensors.map((s, idx) => (
+                  <tr key={`${s.lsid ?? "device"}-${idx}`}>
+                    <td style={cell}>{sensorLabel(s)}</td>
+                    <td style={cell}>{s.dataStructureType ?? "—"}</td>
+                    <td style={cell}>{SENSOR_ROLES[s.role].label}</td>
+                    <td style={cell}>{s.lastReportAt ? formatTs12Hour(s.lastReportAt) : "—"}</td>
+                    <td style={cell}>
+                      <span
+                        style={{
+                          padding: "2px 6px",
+                          borderRadius: 6,
+                          background: STATE_COLORS[s.state].bg,
+                          color: STATE_COLORS[s.state].fg,
+                        }}
+                      >
+                        {s.ageSec !== null ? formatAge(Math.max(0, s.ageSec)) : "—"}
+                      </span>
+                    </td>
+                    <td style={cell}>{s.feeds.length ? s.feeds.map(inputLabel).join(", ") : "—"}</td>
+                    <td style={{ ...cell, whiteSpace: "normal", fontFamily: "ui-monospace, monospace" }}>
+                      {Object.keys(s.health).length
+                        ? Object.entries(s.health)
+                            .map(([k, v]) => `${k}=${JSON.stringify(v)}`)
+                            .join("  ")
+                        : "—"}
+                    </td>
+                  </tr>
+                ))}
+                {!diag.sensors.length && (
+                  <tr>
+                    <td style={cell} colSpan={7}>
+                      No sensor records.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          <h2 style={{ fontSize: 16, marginTop: 20 }}>Input sources</h2>
+          <table style={{ borderCollapse: "collapse", fontSize: 13 }}>
+            <thead>
+              <tr>
+                <th style={head}>Input</th>
+                <th style={head}>Field</th>
+                <th style={head}>Live record</th>
+                <th style={head}>Picked by</th>
+                <th style={head}>Record ts</th>
+                <th style={head}>Last stored reading</th>
+              </tr>
+            </thead>
+            <tbody>
+              {diag.sources.map((src) => {
+                const stored = diag.latest.sources?.find((x) => x.input === src.input);
+                return (
+                  <tr key={src.input}>
+                    <td style={cell}>{inputLabel(src.input)}</td>
+                    <td style={cell}>{src.field}</td>
+                    <td style={cell}>{sensorLabel(src)}</td>
+                    <td style={cell}>
+                      {src.pinned ? "Pinned lsid" : src.role ? `Role: ${SENSOR_ROLES[src.role].label}` : "—"}
+                    </td>
+                    <td style={cell}>{src.ts ? formatTs12Hour(src.ts) : "—"}</td>
+                    <td style={cell}>{stored ? `${sensorLabel(stored)} · ${stored.field}` : "—"}</td>
+                  </tr>
+                );
+              })}
+              {!diag.sources.length && (
+                <tr>
+                  <td style={cell} colSpan={6}>
+                    This source doesn&apos;t report per-sensor records.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+
+          <h2 style={{ fontSize: 16, marginTop: 20 }}>Latest reading</h2>
+          <div style={{ fontSize: 13, display: "grid", gap: 4 }}>
+            <div>Sensor time: {diag.latest.sensorTs ? formatTs12Hour(diag.latest.sensorTs) : "—"}</div>
+            <div>Captured: {diag.latest.capturedAt ? formatTs12Hour(diag.latest.capturedAt) : "—"}</div>
+            {diag.ingest && (
+              <>
+                <div>
+                  Poller: {diag.ingest.totalSuccesses} ok · {diag.ingest.totalFailures} failed ·{" "}
+                  {diag.ingest.duplicatesSkipped} unchanged
+                </div>
+                {diag.ingest.lastError && (
+                  <div>
+                    Last error ({diag.ingest.lastErrorAt ? formatTs12Hour(diag.ingest.lastErrorAt) : "—"}):{" "}
+                    {diag.ingest.lastError}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </>
+      )}
+    </main>
+  );
+}
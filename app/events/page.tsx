@@ -0,0 +1,393 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useState } from "react";
+import type { RaceEvent, RaceSession, ReadingsSummary, SessionKind } from "@/lib/events";
+import { SESSION_KINDS, SUMMARY_FIELDS } from "@/lib/events";
+import type { Reading } from "@/lib/reading";
+import { fmt, formatTs12Hour } from "@/lib/format";
+import { useStations } from "@/app/components/StationPicker";
+import { useUnitPrefs } from "@/app/components/Units";
+import { fieldLabel, formatField } from "@/lib/units";
+
+type EventDetail = {
+  event: RaceEvent;
+  session: RaceSession | null;
+  summary: ReadingsSummary;
+  readings: Reading[];
+  total: number;
+};
+
+type Draft = Record<"track" | "location" | "timezone" | "startDate" | "endDate" | "stationId", string>;
+
+const EMPTY_DRAFT: Draft = { track: "", location: "", timezone: "", startDate: "", endDate: "", stationId: "" };
+
+const buttonStyle = {
+  border: "1px solid #e5e7eb",
+  borderRadius: 8,
+  padding: "6px 10px",
+  background: "white",
+  cursor: "pointer",
+  fontSize: 13,
+} as const;
+
+const inputStyle = { border: "1px solid #e5e7eb", borderRadius: 8, padding: "6px 8px", fontSize: 13 } as const;
+
+async function postEvents(body: Record<string, unknown>) {
+  const res = await fetch("/api/events", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  const json = await res.json();
+  if (!res.ok) throw new Error(json?.error ?? `Request failed (${res.status})`);
+  return json;
+}
+
+export default function EventsPage() {
+  const { stations } = useStations();
+  const { units, unitsParam } = useUnitPrefs();
+  const [events, setEvents] = useState<RaceEvent[]>([]);
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [selectedId, setSelectedId] = useState("");
+  const [sessionId, setSessionId] = useState("");
+  const [detail, setDetail] = useState<EventDetail | null>(null);
+  const [kind, setKind] = useState<SessionKind>("qualifying");
+  const [error, setError] = useState<string | null>(null);
+
+  const loadEvents = useCallback(async () => {
+    try {
+      const res = await fetch("/api/events", { cache: "no-store" });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json?.error ?? `Request failed (${res.status})`);
+      setEvents(json.events ?? []);
+    } catch (e: unknown) {
+      setError((e as Error)?.message ?? "Failed to load events.");
+    }
+  }, []);
+
+  const loadDetail = useCallback(async () => {
+    if (!selectedId) return;
+    try {
+      const qs = new URLSearchParams({ id: selectedId });
+      if (sessionId) qs.set("session", sessionId);
+      const res = await fetch(`/api/events?${qs}`, { cache: "no-store" });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json?.error ?? `Request failed (${res.status})`);
+      setDetail(json);
+    } catch (e: unknown) {
+      setError((e as Error)?.message ?? "Failed to load event.");
+    }
+  }, [selectedId, sessionId]);
+
+  useEffect(() => {
+    loadEvents();
+  }, [loadEvents]);
+
+  useEffect(() => {
+    loadDetail();
+  }, [loadDetail]);
+
+  async function run(action: () => Promise<unknown>) {
+    try {
+      setError(null);
+      await action();
+      await loadEvents();
+      await loadDetail();
+    } catch (e: unknown) {
+      setError((e as Error)?.message ?? "Request failed.");
+    }
+  }
+
+  const createEvent = () =>
+    run(async () => {
+      const { event } = await postEvents({ action: "create", ...draft });
+      setDraft(EMPTY_DRAFT);
+      setSessionId("");
+      setSelectedId(event.id);
+    });
+
+  const startSession = () => run(() => postEvents({ action: "start", eventId: selectedId, kind }));
+  const endSession = () => run(() => postEvents({ action: "end", eventId: selectedId }));
+
+  const removeEvent = (ev: RaceEvent) =>
+    run(async () => {
+      if (!confirm(`Delete ${ev.track} (${ev.startDate})? Its readings are kept.`)) return;
+      const res = await fetch(`/api/events?id=${encodeURIComponent(ev.id)}`, { method: "DELETE" });
+      if (!res.ok) throw new Error(`Delete failed (${res.status})`);
+      if (ev.id === selectedId) {
+        setSelectedId("");
+        setDetail(null);
+      }
+    });
+
+  const removeSession = (s: RaceSession) =>
+    run(async () => {
+      if (!confirm(`Delete session ${s.label}? Its readings stay with the event.`)) return;
+      const qs = new URLSearchParams({ id: selectedId, session: s.id });
+      const res = await fetch(`/api/events?${qs}`, { method: "DELETE" });
+      if (!res.ok) throw new Error(`Delete failed (${res.status})`);
+      if (s.id === sessionId) setSessionId("");
+    });
+
+  const setField = (k: keyof Draft) => (e: { target: { value: string } }) =>
+    setDraft((prev) => ({ ...prev, [k]: e.target.value }));
+
+  const event = detail?.event.id === selectedId ? detail.event : null;
+  const tz = event?.timezone;
+  const running = event?.sessions.find((s) => s.endedAt === null) ?? null;
+  const exportQs = new URLSearchParams({ id: selectedId, format: "csv", units: unitsParam });
+  if (sessionId) exportQs.set("session", sessionId);
+
+  const cell = { padding: "8px 10px", borderBottom: "1px solid #f3f4f6", whiteSpace: "nowrap" } as const;
+  const head = { ...cell, textAlign: "left", fontSize: 12, borderBottom: "1px solid #e5e7eb" } as const;
+  const chip = (active: boolean) =>
+    ({ ...buttonStyle, background: active ? "#111827" : "white", color: active ? "white" : "inherit" }) as const;
+
+  return (
+    <main style={{ padding: 16, fontFamily: "system-ui, sans-serif" }}>
+      <div style={{ display: "flex", alignItems: "baseline", gap: 12, flexWrap: "wrap" }}>
+        <h1 style={{ marginBottom: 12 }}>Events</h1>
+        <Link href="/" style={{ fontSize: 13 }}>
+          Back to dashboard
+        </Link>
+      </div>
+
+      {error && (
+        <div
+          style={{
+            background: "#fee2e2",
+            border: "1px solid #ef4444",
+            color: "#991b1b",
+            padding: 12,
+            borderRadius: 8,
+            marginBottom: 12,
+          }}
+        >
+          {error}
+        </div>
+      )}
+
+      {/* ---- New event ---- */}
+      <section
+        style={{
+          border: "1px solid #e5e7eb",
+          borderRadius: 12,
+          padding: 12,
+          display: "flex",
+          gap: 10,
+          flexWrap: "wrap",
+          alignItems: "center",
+          fontSize: 13,
+        }}
+      >
+        <input placeholder="Track" value={draft.track} onChange={setField("track")} style={inputStyle} />
+        <input placeholder="Location" value={draft.location} onChange={setField("location")} style={inputStyle} />
+        <input
+          placeholder="Timezone (America/Chicago)"
+          value={draft.timezone}
+          onChange={setField("timezone")}
+          style={{ ...inputStyle, width: 190 }}
+        />
+        <label>
+          From <input type="date" value={draft.startDate} onChange={setField("startDate")} style={inputStyle} />
+        </label>
+        <label>
+          to <input type="date" value={draft.endDate} onChange={setField("endDate")} style={inputStyle} />
+        </label>
+        <select value={draft.stationId} onChange={setField("stationId")} style={inputStyle}>
+          <option value="">All stations</option>
+          {stations.map((s) => (
+            <option key={String(s.station_id)} value={String(s.station_id)}>
+              {s.station_name} ({s.station_id})
+            </option>
+          ))}
+        </select>
+        <button onClick={createEvent} style={buttonStyle}>
+          Add event
+        </button>
+      </section>
+
+      {/* ---- Event list ---- */}
+      <div style={{ marginTop: 16, border: "1px solid #e5e7eb", borderRadius: 10, overflow: "auto" }}>
+        <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 13 }}>
+          <thead>
+            <tr>
+              <th style={head}>Track</th>
+              <th style={head}>Location</th>
+              <th style={head}>Dates</th>
+              <th style={head}>Timezone</th>
+              <th style={head}>Sessions</th>
+              <th style={head}></th>
+            </tr>
+          </thead>
+          <tbody>
+            {events.length === 0 ? (
+              <tr>
+                <td colSpan={6} style={{ padding: 12, opacity: 0.7 }}>
+                  No events yet.
+                </td>
+              </tr>
+            ) : (
+              events.map((ev) => (
+                <tr key={ev.id} style={{ background: ev.id === selectedId ? "#f9fafb" : undefined }}>
+                  <td style={cell}>{ev.track}</td>
+                  <td style={cell}>{ev.location || "—"}</td>
+                  <td style={cell}>
+                    {ev.startDate}
+                    {ev.endDate !== ev.startDate ? ` – ${ev.endDate}` : ""}
+                  </td>
+                  <td style={cell}>{ev.timezone}</td>
+                  <td style={cell}>{ev.sessions.map((s) => s.label).join(", ") || "—"}</td>
+                  <td style={{ ...cell, display: "flex", gap: 6 }}>
+                    <button
+                      onClick={() => {
+                        setSelectedId(ev.id);
+                        setSessionId("");
+                      }}
+                      style={buttonStyle}
+                    >
+                      Open
+                    </button>
+                    <button onClick={() => removeEvent(ev)} style={buttonStyle}>
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* ---- One event ---- */}
+      {event && detail && (
+        <section style={{ marginTop: 20 }}>
+          <h2 style={{ margin: "0 0 8px" }}>
+            {event.track}
+            {event.location ? ` · ${event.location}` : ""}
+          </h2>
+
+          <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center", fontSize: 13 }}>
+            <button onClick={() => setSessionId("")} style={chip(!sessionId)}>
+              Whole event
+            </button>
+            {event.sessions.map((s) => (
+              <span key={s.id} style={{ display: "inline-flex", gap: 2 }}>
+                <button
+                  onClick={() => setSessionId(s.id)}
+                  style={chip(s.id === sessionId)}
+                  title={`${formatTs12Hour(s.startedAt, tz)} – ${
+                    s.endedAt ? formatTs12Hour(s.endedAt, tz) : "running"
+                  }`}
+                >
+                  {s.label}
+                  {s.endedAt === null ? " ●" : ""}
+                </button>
+                <button onClick={() => removeSession(s)} style={buttonStyle} title={`Delete ${s.label}`}>
+                  ×
+                </button>
+              </span>
+            ))}
+            <span style={{ marginLeft: 12 }}>
+              <select value={kind} onChange={(e) => setKind(e.target.value as SessionKind)} style={inputStyle}>
+                {(Object.keys(SESSION_KINDS) as SessionKind[]).map((k) => (
+                  <option key={k} value={k}>
+                    {SESSION_KINDS[k].label}
+                  </option>
+                ))}
+              </select>{" "}
+              <button onClick={startSession} style={buttonStyle}>
+                Start session
+              </button>
+            </span>
+            {running && (
+              <button onClick={endSession} style={buttonStyle}>
+                End {running.label}
+              </button>
+            )}
+            <a href={`/api/events?${exportQs}`} style={{ marginLeft: 12 }}>
+              Export CSV
+            </a>
+          </div>
+
+          <div style={{ fontSize: 13, marginTop: 10, opacity: 0.8 }}>
+            {detail.summary.count} readings
+            {detail.summary.firstTs &&
+              ` · ${formatTs12Hour(detail.summary.firstTs, tz)} – ${formatTs12Hour(detail.summary.lastTs, tz)}`}
+            {" · times at the track ("}
+            {event.timezone})
+          </div>
+
+          <table style={{ borderCollapse: "collapse", fontSize: 13, marginTop: 10 }}>
+            <thead>
+              <tr>
+                <th style={head}></th>
+                <th style={head}>Min</th>
+                <th style={head}>Mean</th>
+                <th style={head}>Max</th>
+              </tr>
+            </thead>
+            <tbody>
+              {SUMMARY_FIELDS.map((f) => {
+                const s = detail.summary.fields[f];
+                return (
+                  <tr key={f}>
+                    <td style={cell}>{fieldLabel(f, units)}</td>
+                    <td style={cell}>{formatField(f, s?.min, units)}</td>
+                    <td style={cell}>{formatField(f, s?.mean, units)}</td>
+                    <td style={cell}>{formatField(f, s?.max, units)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          <div
+            style={{ marginTop: 16, border: "1px solid #e5e7eb", borderRadius: 10, overflow: "auto", maxHeight: 480 }}
+          >
+            <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 13 }}>
+              <thead>
+                <tr>
+                  <th style={head}>Time ({event.timezone})</th>
+                  <th style={head}>Session</th>
+                  {SUMMARY_FIELDS.map((f) => (
+                    <th key={f} style={head}>
+                      {fieldLabel(f, units)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {detail.readings.length === 0 ? (
+                  <tr>
+                    <td colSpan={SUMMARY_FIELDS.length + 2} style={{ padding: 12, opacity: 0.7 }}>
+                      No readings tagged yet.
+                    </td>
+                  </tr>
+                ) : (
+                  detail.readings.map((r, idx) => (
+                    <tr key={`${r.display.ts}-${idx}`}>
+                      <td style={cell}>{formatTs12Hour(r.display.ts, tz)}</td>
+                      <td style={cell}>{r.event?.session ?? "—"}</td>
+                      {SUMMARY_FIELDS.map((f) => (
+                        <td key={f} style={cell}>
+                          {formatField(f, r.display[f] as number | null, units)}
+                        </td>
+                      ))}
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+          {detail.total > detail.readings.length && (
+            <div style={{ fontSize: 13, opacity: 0.7, marginTop: 6 }}>
+              Showing the newest {detail.readings.length} of {fmt(detail.total)}; the CSV has them all.
+            </div>
+          )}
+        </section>
+      )}
+    </main>
+  );
+}
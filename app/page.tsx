@@ -1,63 +1,98 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
-
-type ApiResult = {
-  inputs: {
-    tempF: number;
-    humidityPct: number;
-    absPressureInHg: number;
-  };
-  display: {
-    ts: string;
-
-    tempF: number;
-    humidityPct: number;
-    absPressureInHg: number;
-
-    vaporPressureInHg: number;
-    dewPointF: number;
-    humidityGrains: number;
-
-    adr: number;
-    adr2: number;
-    densityAltFt: number;
-    uvIndex: number | null;
-    correction: number;
-  };
-};
-
-function fmt(value: unknown, decimals?: number) {
-  if (value === null || value === undefined) return "—";
-  if (typeof value === "number") {
-    if (Number.isNaN(value)) return "—";
-    return decimals !== undefined ? value.toFixed(decimals) : String(value);
-  }
-  return String(value);
-}
+import Link from "next/link";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { DISPLAY_FIELDS, roundTo, type DisplayField, type Reading } from "@/lib/reading";
+import { formatRate, rateOfChange, seriesFor } from "@/lib/trend";
+import { fmt, formatAge, formatTs12Hour } from "@/lib/format";
+import { csvEscape } from "@/lib/csv";
+import {
+  StationPicker,
+  stationLabel,
+  useSelectedStation,
+  useStations,
+  useStoredChoice,
+} from "@/app/components/StationPicker";
+import { usePrediction } from "@/app/components/ModelQuality";
+import { TrendPanel } from "@/app/components/TrendChart";
+import { ProjectionPanel } from "@/app/components/ProjectionPanel";
+import { AlertNotifier } from "@/app/components/AlertNotifier";
+import { staleStateForAge } from "@/lib/staleness";
+import { CorrectionStandardPicker, useSettings } from "@/app/components/Settings";
+import { CORRECTION_STANDARDS } from "@/lib/weatherCalc";
+import {
+  fieldExportKey,
+  fieldLabel,
+  fieldQuantity,
+  fieldUnit,
+  formatField,
+  formatQuantity,
+  toDisplayUnits,
+} from "@/lib/units";
+import { UnitPicker, useUnitPrefs } from "@/app/components/Units";
+import { PRESSURE_TYPES } from "@/lib/pressure";
+import { useLiveStream, type StreamMode } from "@/app/components/LiveStream";
+
+type ApiResult = Reading;
 
 /* =========================
-   History persistence
+   History (server-side store via /api/history)
 ========================= */
-const HISTORY_KEY = "racewx_history_v1";
-const HISTORY_MAX = 2000;
+const HISTORY_PAGE = 500;
 
-function loadHistoryFromStorage(): ApiResult[] {
+// Pre-server history lived here; imported into the store once, then removed.
+const LEGACY_HISTORY_KEY = "racewx_history_v1";
+
+type HistoryPage = { readings: ApiResult[]; total: number };
+
+async function fetchHistoryPage(
+  params: { station?: string; from?: number; to?: number; before?: number; limit?: number; offset?: number } = {}
+): Promise<HistoryPage> {
+  const qs = new URLSearchParams();
+  for (const [k, v] of Object.entries(params)) {
+    // station is always sent: "" asks the server for its default station
+    if (v !== undefined) qs.set(k, String(v));
+  }
+  const res = await fetch(`/api/history?${qs}`, { cache: "no-store" });
+  const json = await res.json();
+  if (!res.ok) throw new Error(json?.error ?? `History request failed (${res.status})`);
+  return json as HistoryPage;
+}
+
+async function importLegacyHistory(): Promise<number> {
+  let parsed: unknown;
   try {
-    const raw = localStorage.getItem(HISTORY_KEY);
-    if (!raw) return [];
-    const parsed = JSON.parse(raw);
-    if (!Array.isArray(parsed)) return [];
-    return parsed.filter((x) => x?.display?.ts);
+    const raw = localStorage.getItem(LEGACY_HISTORY_KEY);
+    if (!raw) return 0;
+    parsed = JSON.parse(raw);
   } catch {
-    return [];
+    return 0;
+  }
+
+  if (Array.isArray(parsed) && parsed.length) {
+    const res = await fetch("/api/history", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ readings: parsed }),
+    });
+    if (!res.ok) return 0; // keep it in localStorage and try again next load
   }
+
+  localStorage.removeItem(LEGACY_HISTORY_KEY);
+  return Array.isArray(parsed) ? parsed.length : 0;
 }
 
-function saveHistoryToStorage(history: ApiResult[]) {
-  try {
-    localStorage.setItem(HISTORY_KEY, JSON.stringify(history));
-  } catch {}
+const STREAM_LABELS: Record<StreamMode, string> = {
+  connecting: "Connecting…",
+  streaming: "Streaming",
+  polling: "Polling every 60 s",
+};
+
+// Union of two newest-first lists, one entry per timestamp
+function mergeNewestFirst(a: ApiResult[], b: ApiResult[]): ApiResult[] {
+  const byTs = new Map<string, ApiResult>();
+  for (const r of [...a, ...b]) if (!byTs.has(r.display.ts)) byTs.set(r.display.ts, r);
+  return [...byTs.values()].sort((x, y) => Date.parse(y.display.ts) - Date.parse(x.display.ts));
 }
 
 /* =========================
@@ -68,31 +103,6 @@ function parseTsToMs(ts: string): number | null {
   return Number.isFinite(ms) ? ms : null;
 }
 
-function formatAge(seconds: number): string {
-  if (!Number.isFinite(seconds) || seconds < 0) return "—";
-  if (seconds < 60) return `${Math.round(seconds)}s`;
-  const m = Math.floor(seconds / 60);
-  const s = Math.round(seconds % 60);
-  return `${m}m ${s}s`;
-}
-
-function formatTs12Hour(ts: string | null | undefined): string {
-  if (!ts) return "—";
-
-  const d = new Date(ts);
-  if (isNaN(d.getTime())) return ts;
-
-  return d.toLocaleString(undefined, {
-    year: "numeric",
-    month: "2-digit",
-    day: "2-digit",
-    hour: "numeric",
-    minute: "2-digit",
-
-    hour12: true,
-  });
-}
-
 /* =========================
    CSV export helpers
 ========================= */
@@ -103,13 +113,6 @@ function toYMDLocal(d: Date): string {
   return `${y}-${m}-${day}`;
 }
 
-function csvEscape(value: unknown): string {
-  if (value === null || value === undefined) return "";
-  const s = String(value);
-  if (/[",\n]/.test(s)) return `"${s.replace(/"/g, '""')}"`;
-  return s;
-}
-
 function downloadTextFile(filename: string, text: string) {
   const blob = new Blob([text], { type: "text/csv;charset=utf-8" });
   const url = URL.createObjectURL(blob);
@@ -125,16 +128,101 @@ function downloadTextFile(filename: string, text: string) {
 export default function Home() {
   const [data, setData] = useState<ApiResult | null>(null);
   const [history, setHistory] = useState<ApiResult[]>([]);
+  const [historyTotal, setHistoryTotal] = useState(0);
   const [error, setError] = useState<string | null>(null);
+  // Set from the stream while the server's polls of this station are failing
+  const [sourceDown, setSourceDown] = useState<string | null>(null);
+  const lastLiveTsRef = useRef<string | null>(null);
+
+  const { stations } = useStations();
+  const { station, setStation, ready: stationReady } = useSelectedStation();
+  const stationRef = useRef(station);
+
+  // Predicted next pass for the car picked on the run-log page
+  const { value: car } = useStoredChoice("racewx_car_v1");
+  const { result: prediction } = usePrediction(car, station, "quarter", data?.display.ts);
+  const predEt = prediction?.et?.prediction ?? null;
+  const predMph = prediction?.mph?.prediction ?? null;
+
+  const tune = (data ?? history[0])?.tune ?? [];
+
+  // Every reading carries all standards, so switching shows the new one at once
+  const { settings, update: updateSettings } = useSettings();
+  const { correctionStandard } = settings;
+  const correctionStd = CORRECTION_STANDARDS[correctionStandard];
+  const correctionValue = data ? (data.display[correctionStd.key] ?? data.display.correction) : null;
+
+  // This browser's display/export units (stored values stay imperial)
+  const { units, setUnits } = useUnitPrefs();
+
+  // "↓ −120 ft/hr" under each tile, from the last half hour of history
+  const trends = useMemo(() => {
+    const out: Partial<Record<DisplayField, string>> = {};
+    for (const field of Object.keys(DISPLAY_FIELDS) as DisplayField[]) {
+      out[field] = formatRate(rateOfChange(seriesFor(history, field), field), field, units);
+    }
+    return out;
+  }, [history, units]);
+
+  const unitTile = (field: DisplayField) => ({
+    label: fieldLabel(field, units),
+    value: data ? formatField(field, data.display[field] as number | null, units) : "—",
+    sub: trends[field],
+  });
 
   // for staleness ticking (updates the badge every second)
   const [nowMs, setNowMs] = useState<number>(() => Date.now());
 
-  /* hydrate history on load */
+  /* hydrate history on load / station change (importing any old localStorage history first) */
   useEffect(() => {
-    const existing = loadHistoryFromStorage();
-    if (existing.length) setHistory(existing);
-  }, []);
+    if (!stationReady) return;
+    stationRef.current = station;
+    lastLiveTsRef.current = null;
+    setData(null);
+    setSourceDown(null);
+    setHistory([]);
+    setHistoryTotal(0);
+
+    (async () => {
+      try {
+        await importLegacyHistory();
+        const page = await fetchHistoryPage({ station, limit: HISTORY_PAGE });
+        if (stationRef.current !== station) return;
+        // The stream may already have delivered a reading or two
+        setHistory((prev) => mergeNewestFirst(page.readings, prev));
+        setHistoryTotal(page.total);
+      } catch (e: unknown) {
+        setError((e as Error)?.message ?? "Failed to load history.");
+      }
+    })();
+  }, [station, stationReady]);
+
+  async function loadMoreHistory() {
+    // Page from the oldest reading shown: live readings arriving meanwhile would skew an offset
+    const oldest = history.length ? parseTsToMs(history[history.length - 1].display.ts) : null;
+    try {
+      const page = await fetchHistoryPage({ station, limit: HISTORY_PAGE, before: oldest ?? undefined });
+      setHistory((prev) => mergeNewestFirst(prev, page.readings));
+      setHistoryTotal(page.total);
+    } catch (e: unknown) {
+      setError((e as Error)?.message ?? "Failed to load history.");
+    }
+  }
+
+  async function clearHistory() {
+    const name = stationLabel(stations, station);
+    if (!confirm(`Delete all stored readings for ${name} on every screen?`)) return;
+    try {
+      const res = await fetch(`/api/history?station=${encodeURIComponent(station)}`, {
+        method: "DELETE",
+      });
+      if (!res.ok) throw new Error(`Clear failed (${res.status})`);
+      setHistory([]);
+      setHistoryTotal(0);
+    } catch (e: unknown) {
+      setError((e as Error)?.message ?? "Failed to clear history.");
+    }
+  }
 
   // tick every 1s so "age" updates live
   useEffect(() => {
@@ -142,36 +230,48 @@ export default function Home() {
     return () => clearInterval(id);
   }, []);
 
-  async function fetchLive() {
+  async function fetchLive(forStation: string) {
     try {
       setError(null);
-      const res = await fetch("/api/live", { cache: "no-store" });
+      const qs = forStation ? `?station=${encodeURIComponent(forStation)}` : "";
+      const res = await fetch(`/api/live${qs}`, { cache: "no-store" });
       const json = (await res.json()) as ApiResult | { error: string };
+      if (stationRef.current !== forStation) return; // switched stations mid-request
 
       if (!res.ok) {
         throw new Error((json as any)?.error ?? `Request failed (${res.status})`);
       }
 
-      const ok = json as ApiResult;
-      setData(ok);
-
-      setHistory((prev) => {
-        if (prev[0]?.display?.ts === ok.display.ts) return prev;
-        const next = [ok, ...prev].slice(0, HISTORY_MAX);
-        saveHistoryToStorage(next);
-        return next;
-      });
+      showReading(json as ApiResult);
     } catch (e: any) {
       setError(e?.message ?? "Failed to load live weather.");
     }
   }
 
-  useEffect(() => {
-    fetchLive();
-    const id = setInterval(fetchLive, 60_000);
-    return () => clearInterval(id);
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  // Already stored server-side (by /api/live or the poller); just mirror it locally
+  function showReading(r: ApiResult) {
+    const ms = Date.parse(r.display.ts);
+    const lastMs = lastLiveTsRef.current ? Date.parse(lastLiveTsRef.current) : -Infinity;
+    if (ms >= lastMs) {
+      lastLiveTsRef.current = r.display.ts;
+      setData(r);
+    }
+    if (!history.some((h) => h.display.ts === r.display.ts)) {
+      setHistory((prev) => mergeNewestFirst([r], prev));
+      setHistoryTotal((n) => n + 1);
+    }
+  }
+
+  // New readings arrive over the stream; /api/live is only polled when streaming is unavailable
+  const streamMode = useLiveStream(station, stationReady, {
+    onReading: (r) => {
+      if (stationRef.current !== station) return;
+      setError(null);
+      showReading(r);
+    },
+    onStatus: (s) => setSourceDown(s.ok ? null : (s.lastError ?? "polls are failing")),
+    poll: () => fetchLive(station),
+  });
 
   /* =========================
      COLUMN ORDER (LOCKED)
@@ -208,12 +308,7 @@ export default function Home() {
   const lastMs = lastTs ? parseTsToMs(lastTs) : null;
   const ageSec = lastMs ? (nowMs - lastMs) / 1000 : Infinity;
 
-  const staleState = (() => {
-    if (!lastTs || !Number.isFinite(ageSec)) return "OFFLINE" as const;
-    if (ageSec <= 90) return "LIVE" as const;
-    if (ageSec <= 180) return "STALE" as const;
-    return "OFFLINE" as const;
-  })();
+  const staleState = staleStateForAge(ageSec);
 
   const staleBadge = (() => {
     let bg = "#e5e7eb";
@@ -241,28 +336,45 @@ export default function Home() {
     return { bg, border, fg, text };
   })();
 
-  function exportTodayCsv() {
-    const todayYMD = toYMDLocal(new Date());
+  async function exportTodayCsv() {
+    const now = new Date();
+    const todayYMD = toYMDLocal(now);
+    const startOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
 
-    const todays = history.filter((r) => {
-      const ms = Date.parse(r.display.ts);
-      if (!Number.isFinite(ms)) return false;
-      return toYMDLocal(new Date(ms)) === todayYMD;
-    });
+    let todays: ApiResult[];
+    try {
+      todays = (await fetchHistoryPage({ station, from: startOfDay, limit: 5000 })).readings;
+    } catch (e: unknown) {
+      setError((e as Error)?.message ?? "Failed to load today's readings.");
+      return;
+    }
 
     if (todays.length === 0) {
       alert("No readings for today yet.");
       return;
     }
 
+    // Converted columns are renamed (tempF → tempC) and rounded to that unit's precision
     const keys = columns.map((c) => c.key);
-    const header = keys.map(csvEscape).join(",");
+    const header = [
+      ...keys.map((k) => csvEscape(k === "ts" ? k : fieldExportKey(k as DisplayField, units))),
+      "quality",
+    ].join(",");
     const lines = todays.map((r) =>
-      keys.map((k) => csvEscape((r.display as any)[k])).join(",")
+      keys
+        .map((k) => {
+          const v = (r.display as any)[k];
+          if (k === "ts" || typeof v !== "number" || !fieldQuantity(k as DisplayField)) return csvEscape(v);
+          const field = k as DisplayField;
+          return csvEscape(roundTo(toDisplayUnits(field, v, units), fieldUnit(field, units).decimals));
+        })
+        .concat(csvEscape(r.quality?.flag ?? ""))
+        .join(",")
     );
 
     const csv = [header, ...lines].join("\n");
-    downloadTextFile(`EliteTrackWeather_${todayYMD}.csv`, csv);
+    const suffix = station ? `_${station}` : "";
+    downloadTextFile(`EliteTrackWeather_${todayYMD}${suffix}.csv`, csv);
   }
 
   return (
@@ -276,7 +388,43 @@ export default function Home() {
           flexWrap: "wrap",
         }}
       >
-        <h1 style={{ marginBottom: 12 }}>Race Weather</h1>
+        <div style={{ display: "flex", alignItems: "baseline", gap: 12, flexWrap: "wrap" }}>
+          <h1 style={{ marginBottom: 12 }}>Race Weather</h1>
+          <StationPicker stations={stations} value={station} onChange={setStation} />
+          <CorrectionStandardPicker
+            value={correctionStandard}
+            onChange={(std) => updateSettings({ correctionStandard: std })}
+          />
+          <UnitPicker value={units} onChange={setUnits} />
+          <Link href="/compare" style={{ fontSize: 13 }}>
+            Compare stations
+          </Link>
+          <Link href="/calculator" style={{ fontSize: 13 }}>
+            What-if calculator
+          </Link>
+          <Link href="/calibration" style={{ fontSize: 13 }}>
+            Calibration
+          </Link>
+          <Link href="/tune" style={{ fontSize: 13 }}>
+            Tune tables
+          </Link>
+          <Link href="/alerts" style={{ fontSize: 13 }}>
+            Alerts
+          </Link>
+          <Link href="/runs" style={{ fontSize: 13 }}>
+            Run log
+          </Link>
+          <Link href="/diagnostics" style={{ fontSize: 13 }}>
+            Diagnostics
+          </Link>
+          <Link href="/events" style={{ fontSize: 13 }}>
+            {data?.event?.session ? `Events · ${data.event.session}` : "Events"}
+          </Link>
+          <Link href="/data" style={{ fontSize: 13 }}>
+            Export &amp; import
+          </Link>
+          <AlertNotifier />
+        </div>
 
         {/* Stale indicator */}
         <div
@@ -292,9 +440,12 @@ export default function Home() {
             fontSize: 13,
             whiteSpace: "nowrap",
           }}
-          title={lastTs ? `Last ts: ${lastTs}` : "No timestamp yet"}
+          title={lastTs ? `Sensor time: ${lastTs}` : "No timestamp yet"}
         >
           <strong>{staleBadge.text}</strong>
+          <span style={{ opacity: 0.85 }} title="How this screen gets new readings">
+            {STREAM_LABELS[streamMode]}
+          </span>
           <span style={{ opacity: 0.85 }}>
             Last: {lastTs ?? "—"} · Age:{" "}
             {Number.isFinite(ageSec) ? formatAge(ageSec) : "—"}
@@ -317,6 +468,53 @@ export default function Home() {
         </div>
       )}
 
+      {data?.pressure?.warning && (
+        <div
+          style={{
+            background: "#fef9c3",
+            border: "1px solid #eab308",
+            color: "#854d0e",
+            padding: 12,
+            borderRadius: 8,
+            marginBottom: 12,
+          }}
+        >
+          {data.pressure.warning} <Link href="/diagnostics">Station setup</Link>
+        </div>
+      )}
+
+      {(data?.stale || sourceDown) && (
+        <div
+          style={{
+            background: "#fef9c3",
+            border: "1px solid #eab308",
+            color: "#854d0e",
+            padding: 12,
+            borderRadius: 8,
+            marginBottom: 12,
+          }}
+        >
+          Weather source unavailable ({data?.stale?.reason ?? sourceDown}). Showing the last good reading
+          {data?.stale ? ` (fetched ${formatTs12Hour(data.stale.fetchedAt)})` : ""}; it updates once the source is
+          back.
+        </div>
+      )}
+
+      {data?.quality?.flag === "filtered" && (
+        <div
+          style={{
+            background: "#fef9c3",
+            border: "1px solid #eab308",
+            color: "#854d0e",
+            padding: 12,
+            borderRadius: 8,
+            marginBottom: 12,
+          }}
+        >
+          Filtered: {data.quality.issues.map((i) => i.detail).join("; ")}. The last good value was used instead.
+        </div>
+      )}
+
       {/* ---- Tiles ---- */}
       <section
         style={{
@@ -325,21 +523,91 @@ export default function Home() {
           gap: 12,
         }}
       >
-        <Tile label="Temp (F)" value={data ? fmt(data.display.tempF, 1) : "—"} />
-        <Tile label="ADR" value={data ? fmt(data.display.adr, 2) : "—"} />
-        <Tile label="Humidity (%)" value={data ? fmt(data.display.humidityPct, 1) : "—"} />
-        <Tile label="Grains" value={data ? fmt(data.display.humidityGrains, 1) : "—"} />
-        <Tile label="DA (ft)" value={data ? fmt(data.display.densityAltFt, 0) : "—"} />
-        <Tile label="ADR2" value={data ? fmt(data.display.adr2, 5) : "—"} />
-        <Tile label="Correction" value={data ? fmt(data.display.correction, 5) : "—"} />
-        <Tile label="Vapor P (inHg)" value={data ? fmt(data.display.vaporPressureInHg, 4) : "—"} />
-        <Tile label="Abs Press (inHg)" value={data ? fmt(data.display.absPressureInHg, 3) : "—"} />
-        <Tile label="UV Index" value={data ? fmt(data.display.uvIndex, 1) : "—"} />
-        <Tile  label="Dew Pt (F)" value={data ? fmt(data.display.dewPointF, 1) : "—"} />
+        <Tile {...unitTile("tempF")} />
+        <Tile label="ADR" value={data ? fmt(data.display.adr, 2) : "—"} sub={trends.adr} />
+        <Tile label="Humidity (%)" value={data ? fmt(data.display.humidityPct, 1) : "—"} sub={trends.humidityPct} />
+        <Tile {...unitTile("humidityGrains")} />
+        <Tile {...unitTile("densityAltFt")} />
+        <Tile label="ADR2" value={data ? fmt(data.display.adr2, 5) : "—"} sub={trends.adr2} />
+        <Tile
+          label={`Correction (${correctionStd.label})`}
+          value={correctionValue !== null ? fmt(correctionValue, 5) : "—"}
+          sub={trends[correctionStd.key]}
+        />
+        <Tile {...unitTile("vaporPressureInHg")} />
+        <Tile {...unitTile("absPressureInHg")} />
+        <Tile
+          label="Pressure source"
+          value={data?.pressure ? PRESSURE_TYPES[data.pressure.type].label : "—"}
+          sub={
+            data?.pressure && data.pressure.type !== "absolute"
+              ? `${formatQuantity("pressure", data.pressure.reportedInHg, units)} @ ${formatQuantity(
+                  "altitude",
+                  data.pressure.elevationFt,
+                  units
+                )}`
+              : undefined
+          }
+        />
+        <Tile label="UV Index" value={data ? fmt(data.display.uvIndex, 1) : "—"} sub={trends.uvIndex} />
+        <Tile {...unitTile("dewPointF")} />
         <Tile label="Timestamp" value={data ? formatTs12Hour(data.display.ts) : "—"} />
+        <Tile
+          label={`Pred 1/4 ET${car ? ` (${car})` : ""}`}
+          value={predEt ? fmt(predEt.value, 3) : "—"}
+          sub={predEt ? `${fmt(predEt.low, 3)}–${fmt(predEt.high, 3)}` : "Log passes to train"}
+        />
+        <Tile
+          label={`Pred 1/4 MPH${car ? ` (${car})` : ""}`}
+          value={predMph ? fmt(predMph.value, 2) : "—"}
+          sub={predMph ? `${fmt(predMph.low, 2)}–${fmt(predMph.high, 2)}` : undefined}
+        />
 
       </section>
 
+      {/* ---- Recommended settings (tune tables, stamped on the reading server-side) ---- */}
+      {tune.length > 0 && (
+        <section style={{ marginTop: 16 }}>
+          <h2 style={{ margin: "0 0 8px" }}>Recommended settings</h2>
+          <div
+            style={{
+              display: "grid",
+              gridTemplateColumns: "repeat(5, minmax(0, 1fr))",
+              gap: 12,
+            }}
+          >
+            {tune.flatMap((t) =>
+              Object.entries(t.values).map(([col, v]) => (
+                <Tile
+                  key={`${t.tableId}:${col}`}
+                  label={`${col} (${t.name})`}
+                  value={fmt(roundTo(v, 2))}
+                  sub={`v${t.version} @ ${t.keyField} ${fmt(t.key)}${
+                    t.clamped ? ` · ${t.clamped} chart` : ""
+                  }`}
+                />
+              ))
+            )}
+          </div>
+        </section>
+      )}
+
+      {/* ---- Trends ---- */}
+      {stationReady && (
+        <section style={{ marginTop: 20 }}>
+          <h2 style={{ margin: "0 0 8px" }}>Trends</h2>
+          <TrendPanel station={station} refreshKey={data?.display.ts} />
+        </section>
+      )}
+
+      {/* ---- Projection to a round time ---- */}
+      {stationReady && (
+        <section style={{ marginTop: 20 }}>
+          <h2 style={{ margin: "0 0 8px" }}>Projection</h2>
+          <ProjectionPanel station={station} />
+        </section>
+      )}
+
       {/* ---- History table ---- */}
       <section style={{ marginTop: 20 }}>
         <div
@@ -355,7 +623,7 @@ export default function Home() {
 
           <div style={{ display: "flex", alignItems: "center", gap: 10 }}>
             <div style={{ opacity: 0.7, fontSize: 13 }}>
-              {history.length} stored
+              {historyTotal} stored
             </div>
 
             <button
@@ -373,10 +641,7 @@ export default function Home() {
             </button>
 
             <button
-              onClick={() => {
-                setHistory([]);
-                localStorage.removeItem(HISTORY_KEY);
-              }}
+              onClick={clearHistory}
               style={{
                 border: "1px solid #e5e7eb",
                 borderRadius: 8,
@@ -425,15 +690,17 @@ export default function Home() {
                     {c.key === "ts"
                       ? "Date & Time Stamp"
                       : c.key === "tempF"
-                      ? "Temp"
+                      ? `Temp (${fieldUnit("tempF", units).unit})`
                       : c.key === "humidityPct"
                       ? "Humidity"
                       : c.key === "absPressureInHg"
-                      ? "Pressure"
+                      ? `Pressure (${fieldUnit("absPressureInHg", units).unit})`
                       : c.key === "correction"
                       ? "Correction Factor"
                       : c.key === "adr"
                       ? "ADR"
+                      : fieldQuantity(c.key as DisplayField)
+                      ? `${c.label} (${fieldUnit(c.key as DisplayField, units).unit})`
                       : c.label}
                   </th>
                 ))}
@@ -454,21 +721,26 @@ export default function Home() {
                 history.map((r, idx) => (
                   <tr
                     key={`${r.display.ts}-${idx}`}
-                    style={{ borderBottom: "1px solid #f3f4f6" }}
+                    style={{
+                      borderBottom: "1px solid #f3f4f6",
+                      background: r.quality?.flag === "filtered" ? "#fefce8" : undefined,
+                    }}
+                    title={r.quality?.issues.length ? r.quality.issues.map((i) => i.detail).join("\n") : undefined}
                   >
                     {columns.map((c) => {
                       const key = c.key as keyof ApiResult["display"];
                       const value = r.display?.[key];
 
                       let out = "—";
-                      if (c.key === "ts") out = formatTs12Hour(value as string);
-                      else if (c.key === "tempF") out = fmt(value, 1);
+                      if (c.key === "ts")
+                        out =
+                          formatTs12Hour(value as string) +
+                          (r.backfilled ? " (backfill)" : "") +
+                          (r.imported ? " (import)" : "") +
+                          (r.quality && r.quality.flag !== "ok" ? ` (${r.quality.flag})` : "");
+                      else if (fieldQuantity(c.key as DisplayField))
+                        out = formatField(c.key as DisplayField, value as number | null, units);
                       else if (c.key === "humidityPct") out = fmt(value, 2);
-                      else if (c.key === "absPressureInHg") out = fmt(value, 3);
-                      else if (c.key === "vaporPressureInHg") out = fmt(value, 4);
-                      else if (c.key === "dewPointF") out = fmt(value, 1);
-                      else if (c.key === "humidityGrains") out = fmt(value, 1);
-                      else if (c.key === "densityAltFt") out = fmt(value, 0);
                       else if (c.key === "correction") out = fmt(value, 4);
                       else if (c.key === "adr") out = fmt(value, 2);
                       else if (c.key === "adr2") out = fmt(value, 4);
@@ -492,12 +764,30 @@ export default function Home() {
             </tbody>
           </table>
         </div>
+
+        {history.length < historyTotal && (
+          <div style={{ marginTop: 10, textAlign: "center" }}>
+            <button
+              onClick={loadMoreHistory}
+              style={{
+                border: "1px solid #e5e7eb",
+                borderRadius: 8,
+                padding: "6px 10px",
+                background: "white",
+                cursor: "pointer",
+                fontSize: 13,
+              }}
+            >
+              Load older readings ({historyTotal - history.length} more)
+            </button>
+          </div>
+        )}
       </section>
     </main>
   );
 }
 
-function Tile({ label, value }: { label: string; value: string }) {
+function Tile({ label, value, sub }: { label: string; value: string; sub?: string }) {
   return (
     <div
       style={{
@@ -511,6 +801,7 @@ function Tile({ label, value }: { label: string; value: string }) {
       <div style={{ fontSize: 20, fontWeight: 650, marginTop: 6 }}>
         {value}
       </div>
+      {sub && <div style={{ fontSize: 12, opacity: 0.6, marginTop: 2 }}>{sub}</div>}
     </div>
   );
 }
@@ -0,0 +1,385 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import type { Run, RunTimes } from "@/lib/runStore";
+import { fmt, formatAge, formatTs12Hour } from "@/lib/format";
+import { useSelectedStation, useStoredChoice } from "@/app/components/StationPicker";
+import { ModelQuality } from "@/app/components/ModelQuality";
+import { useUnitPrefs } from "@/app/components/Units";
+import { fieldUnit, formatField, fromDisplayUnits } from "@/lib/units";
+
+const TIME_FIELDS: { key: keyof RunTimes; label: string; decimals: number }[] = [
+  { key: "sixtyFt", label: "60'", decimals: 3 },
+  { key: "threeThirty", label: "330'", decimals: 3 },
+  { key: "eighthEt", label: "1/8 ET", decimals: 3 },
+  { key: "eighthMph", label: "1/8 MPH", decimals: 2 },
+  { key: "quarterEt", label: "1/4 ET", decimals: 3 },
+  { key: "quarterMph", label: "1/4 MPH", decimals: 2 },
+];
+
+type Draft = Record<
+  keyof RunTimes | "runAt" | "event" | "car" | "lane" | "trackTempF" | "notes" | "tuneUp",
+  string
+>;
+
+const EMPTY_DRAFT: Draft = {
+  runAt: "",
+  event: "",
+  car: "",
+  lane: "",
+  trackTempF: "",
+  notes: "",
+  tuneUp: "",
+  sixtyFt: "",
+  threeThirty: "",
+  eighthEt: "",
+  eighthMph: "",
+  quarterEt: "",
+  quarterMph: "",
+};
+
+const buttonStyle = {
+  border: "1px solid #e5e7eb",
+  borderRadius: 8,
+  padding: "6px 10px",
+  background: "white",
+  cursor: "pointer",
+  fontSize: 13,
+} as const;
+
+const inputStyle = { border: "1px solid #e5e7eb", borderRadius: 8, padding: "6px 8px", fontSize: 13 } as const;
+
+// "how old was the weather when the car left"
+function weatherAge(ageSec: number): string {
+  if (ageSec < 0) return `${formatAge(-ageSec)} after`;
+  return `${formatAge(ageSec)} old`;
+}
+
+export default function RunsPage() {
+  const [runs, setRuns] = useState<Run[]>([]);
+  const [events, setEvents] = useState<string[]>([]);
+  const [cars, setCars] = useState<string[]>([]);
+  const [q, setQ] = useState("");
+  const [eventFilter, setEventFilter] = useState("");
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [error, setError] = useState<string | null>(null);
+
+  const { station } = useSelectedStation();
+  const { units, unitsParam } = useUnitPrefs();
+  const { value: modelCar, setValue: setModelCar } = useStoredChoice("racewx_car_v1");
+  const [modelVersion, setModelVersion] = useState(0);
+
+  function runsQuery(extra: Record<string, string> = {}) {
+    const qs = new URLSearchParams(extra);
+    if (q.trim()) qs.set("q", q.trim());
+    if (eventFilter) qs.set("event", eventFilter);
+    return qs.toString();
+  }
+
+  async function loadRuns() {
+    try {
+      const res = await fetch(`/api/runs?${runsQuery()}`, { cache: "no-store" });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json?.error ?? `Request failed (${res.status})`);
+      setRuns(json.runs ?? []);
+      setEvents(json.events ?? []);
+      setCars(json.cars ?? []);
+    } catch (e: unknown) {
+      setError((e as Error)?.message ?? "Failed to load runs.");
+    }
+  }
+
+  useEffect(() => {
+    const id = setTimeout(loadRuns, 250); // debounce typing in the search box
+    return () => clearTimeout(id);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [q, eventFilter]);
+
+  async function saveRun() {
+    try {
+      setError(null);
+      const trackTemp = Number(draft.trackTempF);
+      const body = {
+        ...draft,
+        // Typed in the user's temperature unit; runs store °F
+        trackTempF:
+          draft.trackTempF.trim() && Number.isFinite(trackTemp)
+            ? fromDisplayUnits("tempF", trackTemp, units)
+            : draft.trackTempF,
+        stationId: station,
+        runAt: draft.runAt ? new Date(draft.runAt).toISOString() : undefined,
+      };
+      const res = await fetch("/api/runs", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json?.error ?? `Request failed (${res.status})`);
+      // keep event / car / lane for the next pass of the same weekend
+      setDraft({ ...EMPTY_DRAFT, event: draft.event, car: draft.car, lane: draft.lane });
+      await loadRuns();
+      setModelVersion((v) => v + 1);
+    } catch (e: unknown) {
+      setError((e as Error)?.message ?? "Failed to save run.");
+    }
+  }
+
+  async function setExcluded(id: string, excluded: boolean) {
+    try {
+      const res = await fetch("/api/runs", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id, excluded }),
+      });
+      if (!res.ok) throw new Error(`Update failed (${res.status})`);
+      setRuns((prev) => prev.map((r) => (r.id === id ? { ...r, excluded } : r)));
+      setModelVersion((v) => v + 1);
+    } catch (e: unknown) {
+      setError((e as Error)?.message ?? "Failed to update run.");
+    }
+  }
+
+  async function removeRun(id: string) {
+    if (!confirm("Delete this run?")) return;
+    try {
+      const res = await fetch(`/api/runs?id=${encodeURIComponent(id)}`, { method: "DELETE" });
+      if (!res.ok) throw new Error(`Delete failed (${res.status})`);
+      setRuns((prev) => prev.filter((r) => r.id !== id));
+      setModelVersion((v) => v + 1);
+    } catch (e: unknown) {
+      setError((e as Error)?.message ?? "Failed to delete run.");
+    }
+  }
+
+  const setField = (k: keyof Draft) => (e: { target: { value: string } }) =>
+    setDraft((prev) => ({ ...prev, [k]: e.target.value }));
+
+  const cell = { padding: "8px 10px", borderBottom: "1px solid #f3f4f6", whiteSpace: "nowrap" } as const;
+  const head = { ...cell, textAlign: "left", fontSize: 12, borderBottom: "1px solid #e5e7eb" } as const;
+
+  return (
+    <main style={{ padding: 16, fontFamily: "system-ui, sans-serif" }}>
+      <div style={{ display: "flex", alignItems: "baseline", gap: 12, flexWrap: "wrap" }}>
+        <h1 style={{ marginBottom: 12 }}>Run log</h1>
+        <Link href="/" style={{ fontSize: 13 }}>
+          Back to dashboard
+        </Link>
+      </div>
+
+      {error && (
+        <div
+          style={{
+            background: "#fee2e2",
+            border: "1px solid #ef4444",
+            color: "#991b1b",
+            padding: 12,
+            borderRadius: 8,
+            marginBottom: 12,
+          }}
+        >
+          {error}
+        </div>
+      )}
+
+      {/* ---- New pass ---- */}
+      <section
+        style={{
+          border: "1px solid #e5e7eb",
+          borderRadius: 12,
+          padding: 12,
+          display: "grid",
+          gap: 10,
+        }}
+      >
+        <div style={{ display: "flex", gap: 10, flexWrap: "wrap", alignItems: "center", fontSize: 13 }}>
+          <label>
+            Event{" "}
+            <input list="run-events" value={draft.event} onChange={setField("event")} style={inputStyle} />
+            <datalist id="run-events">
+              {events.map((ev) => (
+                <option key={ev} value={ev} />
+              ))}
+            </datalist>
+          </label>
+          <label>
+            Car{" "}
+            <input list="run-cars" value={draft.car} onChange={setField("car")} style={inputStyle} />
+            <datalist id="run-cars">
+              {cars.map((c) => (
+                <option key={c} value={c} />
+              ))}
+            </datalist>
+          </label>
+          <label>
+            Lane{" "}
+            <select value={draft.lane} onChange={setField("lane")} style={inputStyle}>
+              <option value="">—</option>
+              <option value="left">Left</option>
+              <option value="right">Right</option>
+            </select>
+          </label>
+          <label>
+            Left at{" "}
+            <input type="datetime-local" value={draft.runAt} onChange={setField("runAt")} style={inputStyle} />
+          </label>
+          <span style={{ opacity: 0.6 }}>(blank = now)</span>
+        </div>
+
+        <div style={{ display: "flex", gap: 10, flexWrap: "wrap", fontSize: 13 }}>
+          {TIME_FIELDS.map((f) => (
+            <label key={f.key} style={{ display: "grid", gap: 4 }}>
+              <span style={{ opacity: 0.7 }}>{f.label}</span>
+              <input
+                type="number"
+                step="any"
+                value={draft[f.key]}
+                onChange={setField(f.key)}
+                style={{ ...inputStyle, width: 90 }}
+              />
+            </label>
+          ))}
+          <label style={{ display: "grid", gap: 4 }}>
+            <span style={{ opacity: 0.7 }}>Track temp ({fieldUnit("tempF", units).unit})</span>
+            <input
+              type="number"
+              step="any"
+              value={draft.trackTempF}
+              onChange={setField("trackTempF")}
+              style={{ ...inputStyle, width: 90 }}
+            />
+          </label>
+        </div>
+
+        <div style={{ display: "flex", gap: 10, flexWrap: "wrap", fontSize: 13 }}>
+          <textarea
+            placeholder="Notes"
+            value={draft.notes}
+            onChange={setField("notes")}
+            rows={2}
+            style={{ ...inputStyle, flex: 1, minWidth: 240 }}
+          />
+          <textarea
+            placeholder="Tune-up changes"
+            value={draft.tuneUp}
+            onChange={setField("tuneUp")}
+            rows={2}
+            style={{ ...inputStyle, flex: 1, minWidth: 240 }}
+          />
+        </div>
+
+        <div>
+          <button onClick={saveRun} style={buttonStyle}>
+            Log pass
+          </button>
+        </div>
+      </section>
+
+      {/* ---- Log ---- */}
+      <section style={{ marginTop: 20 }}>
+        <div style={{ display: "flex", alignItems: "baseline", gap: 10, flexWrap: "wrap" }}>
+          <h2 style={{ margin: 0 }}>Passes</h2>
+          <input placeholder="Search notes / tune-up" value={q} onChange={(e) => setQ(e.target.value)} style={inputStyle} />
+          <select value={eventFilter} onChange={(e) => setEventFilter(e.target.value)} style={inputStyle}>
+            <option value="">All events</option>
+            {events.map((ev) => (
+              <option key={ev} value={ev}>
+                {ev}
+              </option>
+            ))}
+          </select>
+          <a href={`/api/runs?${runsQuery({ format: "csv", units: unitsParam })}`} style={{ fontSize: 13 }}>
+            Export CSV
+          </a>
+          <span style={{ opacity: 0.7, fontSize: 13 }}>{runs.length} shown</span>
+        </div>
+
+        <div style={{ marginTop: 10, border: "1px solid #e5e7eb", borderRadius: 10, overflow: "auto" }}>
+          <table style={{ width: "100%", borderCollapse: "collapse", minWidth: 1200 }}>
+            <thead>
+              <tr>
+                <th style={head}>Left at</th>
+                <th style={head}>Event</th>
+                <th style={head}>Car</th>
+                <th style={head}>Lane</th>
+                {TIME_FIELDS.map((f) => (
+                  <th key={f.key} style={head}>
+                    {f.label}
+                  </th>
+                ))}
+                <th style={head}>ADR</th>
+                <th style={head}>ADR2</th>
+                <th style={head}>DA ({fieldUnit("densityAltFt", units).unit})</th>
+                <th style={head}>Correction</th>
+                <th style={head}>Grains ({fieldUnit("humidityGrains", units).unit})</th>
+                <th style={head}>Weather</th>
+                <th style={head}>Notes</th>
+                <th style={head}>Tune-up</th>
+                <th style={head} title="Use this pass to train the prediction model">
+                  Train
+                </th>
+                <th style={head}></th>
+              </tr>
+            </thead>
+            <tbody>
+              {runs.length === 0 ? (
+                <tr>
+                  <td colSpan={19} style={{ padding: 12, opacity: 0.7 }}>
+                    No passes logged.
+                  </td>
+                </tr>
+              ) : (
+                runs.map((r) => (
+                  <tr key={r.id}>
+                    <td style={cell}>{formatTs12Hour(r.runAt)}</td>
+                    <td style={cell}>{r.event || "—"}</td>
+                    <td style={cell}>{r.car || "—"}</td>
+                    <td style={cell}>{r.lane || "—"}</td>
+                    {TIME_FIELDS.map((f) => (
+                      <td key={f.key} style={cell}>
+                        {fmt(r[f.key], f.decimals)}
+                      </td>
+                    ))}
+                    <td style={cell}>{fmt(r.weather?.adr, 2)}</td>
+                    <td style={cell}>{fmt(r.weather?.adr2, 4)}</td>
+                    <td style={cell}>{formatField("densityAltFt", r.weather?.densityAltFt, units)}</td>
+                    <td style={cell}>{fmt(r.weather?.correction, 4)}</td>
+                    <td style={cell}>{formatField("humidityGrains", r.weather?.humidityGrains, units)}</td>
+                    <td style={cell} title={r.weather?.readingTs}>
+                      {r.weather ? weatherAge(r.weather.ageSec) : "no reading"}
+                    </td>
+                    <td style={{ ...cell, whiteSpace: "pre-wrap" }}>{r.notes}</td>
+                    <td style={{ ...cell, whiteSpace: "pre-wrap" }}>{r.tuneUp}</td>
+                    <td style={cell}>
+                      <input
+                        type="checkbox"
+                        checked={!r.excluded}
+                        onChange={(e) => setExcluded(r.id, !e.target.checked)}
+                      />
+                    </td>
+                    <td style={cell}>
+                      <button onClick={() => removeRun(r.id)} style={buttonStyle}>
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </section>
+
+      {/* ---- Prediction model quality ---- */}
+      <ModelQuality
+        cars={cars}
+        car={modelCar}
+        onCarChange={setModelCar}
+        station={station}
+        refreshKey={modelVersion}
+        onExclude={(id) => setExcluded(id, true)}
+      />
+    </main>
+  );
+}
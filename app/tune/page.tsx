@@ -0,0 +1,233 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import type { TuneTable } from "@/lib/tuneTables";
+import { fmt, formatTs12Hour } from "@/lib/format";
+
+const buttonStyle = {
+  border: "1px solid #e5e7eb",
+  borderRadius: 8,
+  padding: "6px 10px",
+  background: "white",
+  cursor: "pointer",
+  fontSize: 13,
+} as const;
+
+const inputStyle = { border: "1px solid #e5e7eb", borderRadius: 8, padding: "6px 8px", fontSize: 13 } as const;
+
+const CSV_PLACEHOLDER = `adr,main_jet,timing_deg
+85,74,34
+95,76,33
+105,78,32`;
+
+export default function TunePage() {
+  const [tables, setTables] = useState<TuneTable[]>([]);
+  const [selectedId, setSelectedId] = useState("");
+  const [versions, setVersions] = useState<TuneTable[]>([]);
+  const [versionNo, setVersionNo] = useState<number | null>(null);
+  const [name, setName] = useState("");
+  const [csv, setCsv] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  async function loadTables() {
+    try {
+      const res = await fetch("/api/tune", { cache: "no-store" });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json?.error ?? `Request failed (${res.status})`);
+      setTables(json.tables ?? []);
+    } catch (e: unknown) {
+      setError((e as Error)?.message ?? "Failed to load tables.");
+    }
+  }
+
+  useEffect(() => {
+    loadTables();
+  }, []);
+
+  async function selectTable(id: string) {
+    setSelectedId(id);
+    setVersions([]);
+    setVersionNo(null);
+    if (!id) return;
+    try {
+      const res = await fetch(`/api/tune?id=${encodeURIComponent(id)}`, { cache: "no-store" });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json?.error ?? `Request failed (${res.status})`);
+      setVersions(json.versions ?? []);
+      setVersionNo(json.versions?.[0]?.version ?? null);
+      setName(json.versions?.[0]?.name ?? "");
+    } catch (e: unknown) {
+      setError((e as Error)?.message ?? "Failed to load table.");
+    }
+  }
+
+  async function saveCsv(asNewVersion: boolean) {
+    try {
+      setError(null);
+      const res = await fetch("/api/tune", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: asNewVersion ? selectedId : undefined, name, csv }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json?.error ?? `Request failed (${res.status})`);
+      setCsv("");
+      await loadTables();
+      await selectTable(json.table.id);
+    } catch (e: unknown) {
+      setError((e as Error)?.message ?? "Failed to save table.");
+    }
+  }
+
+  async function loadFile(file: File | undefined) {
+    if (!file) return;
+    setCsv(await file.text());
+    if (!name) setName(file.name.replace(/\.csv$/i, ""));
+  }
+
+  async function removeTable(id: string) {
+    if (!confirm("Retire this table? Old readings keep the values they were stamped with.")) return;
+    try {
+      const res = await fetch(`/api/tune?id=${encodeURIComponent(id)}`, { method: "DELETE" });
+      if (!res.ok) throw new Error(`Delete failed (${res.status})`);
+      await loadTables();
+      await selectTable("");
+    } catch (e: unknown) {
+      setError((e as Error)?.message ?? "Failed to delete table.");
+    }
+  }
+
+  const shown = versions.find((v) => v.version === versionNo) ?? null;
+
+  const cell = { padding: "6px 10px", borderBottom: "1px solid #f3f4f6", whiteSpace: "nowrap" } as const;
+  const head = { ...cell, textAlign: "left", fontSize: 12, borderBottom: "1px solid #e5e7eb" } as const;
+
+  return (
+    <main style={{ padding: 16, fontFamily: "system-ui, sans-serif" }}>
+      <div style={{ display: "flex", alignItems: "baseline", gap: 12, flexWrap: "wrap" }}>
+        <h1 style={{ marginBottom: 12 }}>Tune-up tables</h1>
+        <Link href="/" style={{ fontSize: 13 }}>
+          Back to dashboard
+        </Link>
+      </div>
+
+      {error && (
+        <div
+          style={{
+            background: "#fee2e2",
+            border: "1px solid #ef4444",
+            color: "#991b1b",
+            padding: 12,
+            borderRadius: 8,
+            marginBottom: 12,
+          }}
+        >
+          {error}
+        </div>
+      )}
+
+      {/* ---- Tables in effect ---- */}
+      <section style={{ display: "flex", gap: 8, flexWrap: "wrap", marginBottom: 16 }}>
+        {tables.length === 0 && <div style={{ opacity: 0.7, fontSize: 13 }}>No tables yet.</div>}
+        {tables.map((t) => (
+          <button
+            key={t.id}
+            onClick={() => selectTable(t.id)}
+            style={{ ...buttonStyle, background: t.id === selectedId ? "#f3f4f6" : "white" }}
+          >
+            {t.name} <span style={{ opacity: 0.6 }}>v{t.version} · {t.keyField}</span>
+          </button>
+        ))}
+        <button onClick={() => selectTable("")} style={buttonStyle}>
+          + New table
+        </button>
+      </section>
+
+      {/* ---- Selected table ---- */}
+      {shown && (
+        <section style={{ border: "1px solid #e5e7eb", borderRadius: 12, padding: 12, marginBottom: 16 }}>
+          <div style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap", fontSize: 13 }}>
+            <strong>{shown.name}</strong>
+            <label>
+              Version{" "}
+              <select
+                value={versionNo ?? ""}
+                onChange={(e) => setVersionNo(Number(e.target.value))}
+                style={inputStyle}
+              >
+                {versions.map((v) => (
+                  <option key={v.version} value={v.version}>
+                    v{v.version} — from {formatTs12Hour(v.effectiveFrom)}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <a href={`/api/tune?id=${encodeURIComponent(shown.id)}&format=csv&version=${shown.version}`}>
+              Export CSV
+            </a>
+            <button onClick={() => removeTable(shown.id)} style={buttonStyle}>
+              Retire
+            </button>
+          </div>
+
+          <table style={{ borderCollapse: "collapse", marginTop: 10, fontSize: 13 }}>
+            <thead>
+              <tr>
+                <th style={head}>{shown.keyField}</th>
+                {shown.columns.map((c) => (
+                  <th key={c} style={head}>
+                    {c}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {shown.rows.map((r) => (
+                <tr key={r.key}>
+                  <td style={cell}>{r.key}</td>
+                  {shown.columns.map((c) => (
+                    <td key={c} style={cell}>
+                      {fmt(r.values[c])}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      )}
+
+      {/* ---- Import ---- */}
+      <section style={{ border: "1px solid #e5e7eb", borderRadius: 12, padding: 12, display: "grid", gap: 10 }}>
+        <div style={{ fontSize: 13, opacity: 0.7 }}>
+          First column is what the chart is keyed on (adr, adr2, densityAltFt or correction); every other
+          column is a setting. Values between rows are interpolated.
+        </div>
+        <div style={{ display: "flex", gap: 10, flexWrap: "wrap", alignItems: "center", fontSize: 13 }}>
+          <label>
+            Name <input value={name} onChange={(e) => setName(e.target.value)} style={inputStyle} />
+          </label>
+          <input type="file" accept=".csv,text/csv" onChange={(e) => loadFile(e.target.files?.[0])} />
+        </div>
+        <textarea
+          value={csv}
+          onChange={(e) => setCsv(e.target.value)}
+          placeholder={CSV_PLACEHOLDER}
+          rows={8}
+          style={{ ...inputStyle, fontFamily: "ui-monospace, monospace" }}
+        />
+        <div style={{ display: "flex", gap: 8 }}>
+          <button onClick={() => saveCsv(false)} disabled={!name.trim() || !csv.trim()} style={buttonStyle}>
+            Save as new table
+          </button>
+          {selectedId && (
+            <button onClick={() => saveCsv(true)} disabled={!csv.trim()} style={buttonStyle}>
+              Save as new version of {shown?.name ?? "table"}
+            </button>
+          )}
+        </div>
+      </section>
+    </main>
+  );
+}
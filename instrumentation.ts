@@ -0,0 +1,14 @@
+// Next.js calls register() once when the server boots.
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+
+  // Background ingest: on by default when the weather source is configured.
+  // Set RACEWX_INGEST=off to rely on browser polling only.
+  if (process.env.RACEWX_INGEST === "off") return;
+
+  const { getProvider } = await import("./lib/providers");
+  if (!getProvider().configured()) return;
+
+  const { startIngest } = await import("./lib/ingest");
+  startIngest();
+}
@@ -0,0 +1,153 @@
+// ==============================
+// Alert rules and fired-alert history (server side)
+// ==============================
+
+import { newId, readJson, updateJson } from "@/lib/fileStore";
+import { DISPLAY_FIELDS, type DisplayField } from "@/lib/reading";
+
+const RULES = "alert-rules";
+const FIRED = "alert-history";
+const FIRED_MAX = 1000;
+
+export type AlertCondition =
+  // |latest − oldest reading in the window| > delta
+  | { kind: "change"; field: DisplayField; windowMin: number; delta: number }
+  | { kind: "threshold"; field: DisplayField; op: "above" | "below"; value: number }
+  // OFFLINE (see lib/staleness) for at least this long
+  | { kind: "offline"; minutes: number };
+
+export type AlertRule = {
+  id: string;
+  name: string;
+  // "" = the provider's default station
+  stationId: string;
+  enabled: boolean;
+  condition: AlertCondition;
+  // Minimum time between two firings of the same rule
+  cooldownMin: number;
+  // Overrides RACEWX_ALERT_WEBHOOK_URL for this rule
+  webhookUrl: string;
+  createdAt: string;
+  // Condition was true at the last evaluation; a rule fires once per episode
+  firing: boolean;
+  lastFiredAt: string | null;
+};
+
+export type FiredAlert = {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  stationId: string;
+  at: string;
+  message: string;
+  value: number | null;
+  // "sent", "none" (no webhook configured) or the delivery error
+  webhook: string;
+};
+
+function isField(x: unknown): x is DisplayField {
+  return typeof x === "string" && Object.hasOwn(DISPLAY_FIELDS, x);
+}
+
+function positive(x: unknown, what: string): number {
+  const n = Number(x);
+  if (!Number.isFinite(n) || n <= 0) throw new Error(`${what} must be a positive number.`);
+  return n;
+}
+
+export function parseCondition(x: unknown): AlertCondition {
+  const c = (x ?? {}) as Record<string, unknown>;
+  if (c.kind === "offline") return { kind: "offline", minutes: positive(c.minutes, "minutes") };
+
+  if (!isField(c.field)) throw new Error(`field must be one of: ${Object.keys(DISPLAY_FIELDS).join(", ")}`);
+  if (c.kind === "change") {
+    return {
+      kind: "change",
+      field: c.field,
+      windowMin: positive(c.windowMin, "windowMin"),
+      delta: positive(c.delta, "delta"),
+    };
+  }
+  if (c.kind === "threshold") {
+    const value = Number(c.value);
+    if (!Number.isFinite(value)) throw new Error("value must be a number.");
+    if (c.op !== "above" && c.op !== "below") throw new Error('op must be "above" or "below".');
+    return { kind: "threshold", field: c.field, op: c.op, value };
+  }
+  throw new Error('kind must be "change", "threshold" or "offline".');
+}
+
+export async function listAlertRules(): Promise<AlertRule[]> {
+  const list = await readJson<AlertRule[]>(RULES, []);
+  return Array.isArray(list) ? list : [];
+}
+
+export type AlertRuleInput = {
+  name?: unknown;
+  stationId?: unknown;
+  enabled?: unknown;
+  condition?: unknown;
+  cooldownMin?: unknown;
+  webhookUrl?: unknown;
+};
+
+export async function addAlertRule(input: AlertRuleInput): Promise<AlertRule> {
+  const name = String(input.name ?? "").trim();
+  if (!name) throw new Error("Rule needs a name.");
+
+  const rule: AlertRule = {
+    id: newId("al"),
+    name,
+    stationId: String(input.stationId ?? ""),
+    enabled: input.enabled !== false,
+    condition: parseCondition(input.condition),
+    cooldownMin: Number.isFinite(Number(input.cooldownMin)) ? Math.max(0, Number(input.cooldownMin)) : 15,
+    webhookUrl: String(input.webhookUrl ?? "").trim(),
+    createdAt: new Date().toISOString(),
+    firing: false,
+    lastFiredAt: null,
+  };
+
+  return updateJson(RULES, [] as AlertRule[], (list) => ({
+    value: [...(Array.isArray(list) ? list : []), rule],
+    result: rule,
+  }));
+}
+
+/**
+ * Patch a rule. Used by the UI (enable/disable) and by the evaluator (firing state).
+ */
+export function updateAlertRule(
+  id: string,
+  patch: Partial<Pick<AlertRule, "enabled" | "firing" | "lastFiredAt">>
+): Promise<AlertRule | null> {
+  return updateJson(RULES, [] as AlertRule[], (list) => {
+    const all = Array.isArray(list) ? list : [];
+    const rule = all.find((r) => r.id === id) ?? null;
+    if (rule) Object.assign(rule, patch);
+    return { value: all, result: rule };
+  });
+}
+
+export function deleteAlertRule(id: string): Promise<{ deleted: number }> {
+  return updateJson(RULES, [] as AlertRule[], (list) => {
+    const all = Array.isArray(list) ? list : [];
+    const kept = all.filter((r) => r.id !== id);
+    return { value: kept, result: { deleted: all.length - kept.length } };
+  });
+}
+
+export async function readFiredAlerts(opts: { since?: number | null; limit?: number } = {}): Promise<FiredAlert[]> {
+  const list = await readJson<FiredAlert[]>(FIRED, []);
+  const all = Array.isArray(list) ? list : [];
+  const since = opts.since;
+  const filtered = since != null ? all.filter((a) => Date.parse(a.at) > since) : all;
+  return filtered.slice(0, opts.limit ?? 100);
+}
+
+export function appendFiredAlert(alert: FiredAlert) {
+  return updateJson(FIRED, [] as FiredAlert[], (list) => ({
+    value: [alert, ...(Array.isArray(list) ? list : [])].slice(0, FIRED_MAX),
+    result: alert,
+  }));
+}
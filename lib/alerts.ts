@@ -0,0 +1,138 @@
+// ==============================
+// Alert evaluation + delivery (server only)
+// ==============================
+//
+// Run by the ingest poller after every station poll, so rules keep firing with
+// no browser open. Browsers pick fired alerts up from /api/alerts.
+
+import { getProvider } from "@/lib/providers";
+import { latestReading, queryHistory } from "@/lib/historyStore";
+import { DISPLAY_FIELDS, fieldValue, type Reading } from "@/lib/reading";
+import { offlineForSec } from "@/lib/staleness";
+import {
+  appendFiredAlert,
+  listAlertRules,
+  updateAlertRule,
+  type AlertRule,
+  type FiredAlert,
+} from "@/lib/alertStore";
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+type Check = { met: boolean; value: number | null; message: string };
+
+function fieldText(field: keyof typeof DISPLAY_FIELDS, value: number) {
+  const { label, unit, decimals } = DISPLAY_FIELDS[field];
+  return { label, text: `${value.toFixed(decimals)}${unit ? ` ${unit}` : ""}` };
+}
+
+async function check(rule: AlertRule, stationId: string, latest: Reading | null, nowMs: number): Promise<Check> {
+  const c = rule.condition;
+
+  if (c.kind === "offline") {
+    const ageSec = latest ? (nowMs - Date.parse(latest.display.ts)) / 1000 : Infinity;
+    const offSec = offlineForSec(ageSec);
+    // A station we've never heard from has no "since" to report; leave it alone
+    const met = !!latest && offSec >= c.minutes * 60;
+    return {
+      met,
+      value: Number.isFinite(offSec) ? Math.round(offSec / 60) : null,
+      message: `Station ${stationId} OFFLINE for ${Math.round(offSec / 60)} min`,
+    };
+  }
+
+  if (!latest) return { met: false, value: null, message: "" };
+  // Both ends in the latest reading's standard, even if it changed in between
+  const standard = latest.correctionStandard ?? "sheet";
+  const now = fieldValue(latest, c.field, standard);
+  if (typeof now !== "number") return { met: false, value: null, message: "" };
+
+  if (c.kind === "threshold") {
+    const met = c.op === "above" ? now > c.value : now < c.value;
+    const { label, text } = fieldText(c.field, now);
+    return { met, value: now, message: `${label} ${c.op} ${c.value}: ${text}` };
+  }
+
+  const { readings } = await queryHistory({
+    station: stationId,
+    from: nowMs - c.windowMin * 60_000,
+    limit: 5000,
+  });
+  const oldest = readings[readings.length - 1];
+  const then = oldest && fieldValue(oldest, c.field, standard);
+  if (readings.length < 2 || typeof then !== "number") return { met: false, value: null, message: "" };
+
+  const change = now - then;
+  const { label, text } = fieldText(c.field, Math.abs(change));
+  return {
+    met: Math.abs(change) > c.delta,
+    value: change,
+    message: `${label} ${change < 0 ? "fell" : "rose"} ${text} in ${c.windowMin} min`,
+  };
+}
+
+async function postWebhook(url: string, alert: FiredAlert, rule: AlertRule): Promise<string> {
+  try {
+    const res = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        alert: { ...alert, webhook: undefined },
+        rule: { id: rule.id, name: rule.name, condition: rule.condition },
+      }),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+    return res.ok ? "sent" : `HTTP ${res.status}`;
+  } catch (err: unknown) {
+    return (err as Error)?.message ?? "Unknown error";
+  }
+}
+
+/**
+ * Evaluate every enabled rule that watches `stationId`. A rule fires when its
+ * condition turns true (and its cooldown has passed), then stays quiet until
+ * the condition clears.
+ */
+export async function evaluateAlerts(stationId: string, nowMs = Date.now()): Promise<FiredAlert[]> {
+  const defaultStation = getProvider().defaultStationId();
+  const rules = (await listAlertRules()).filter(
+    (r) => r.enabled && (r.stationId || defaultStation) === stationId
+  );
+  if (!rules.length) return [];
+
+  const latest = await latestReading(stationId);
+  const fired: FiredAlert[] = [];
+
+  for (const rule of rules) {
+    const result = await check(rule, stationId, latest, nowMs);
+
+    if (!result.met) {
+      if (rule.firing) await updateAlertRule(rule.id, { firing: false });
+      continue;
+    }
+    if (rule.firing) continue;
+
+    const lastMs = rule.lastFiredAt ? Date.parse(rule.lastFiredAt) : -Infinity;
+    if (nowMs - lastMs < rule.cooldownMin * 60_000) continue;
+
+    const alert: FiredAlert = {
+      id: `fa_${nowMs.toString(36)}_${rule.id}`,
+      ruleId: rule.id,
+      ruleName: rule.name,
+      stationId,
+      at: new Date(nowMs).toISOString(),
+      message: result.message,
+      value: result.value,
+      webhook: "none",
+    };
+
+    const url = rule.webhookUrl || process.env.RACEWX_ALERT_WEBHOOK_URL || "";
+    if (url) alert.webhook = await postWebhook(url, alert, rule);
+
+    await appendFiredAlert(alert);
+    await updateAlertRule(rule.id, { firing: true, lastFiredAt: alert.at });
+    fired.push(alert);
+  }
+
+  return fired;
+}
@@ -0,0 +1,164 @@
+// ==============================
+// Public read API, version 1 (/api/v1/*)
+// ==============================
+//
+// A fixed shape for other tools (overlays, bots, printer scripts) so the
+// internal Reading can keep changing. Every value is imperial, rounded to
+// the decimals listed in V1_FIELDS, and null when the reading doesn't have
+// it. Adding a field is fine; renaming, removing or changing the unit of one
+// needs a /api/v2. The OpenAPI document (lib/openapiV1) is built from the
+// same tables.
+
+import { NextResponse } from "next/server";
+import { DISPLAY_FIELDS, roundTo, type DisplayField, type Reading } from "@/lib/reading";
+import type { CorrectionStandard } from "@/lib/weatherCalc";
+import type { QualityFlag } from "@/lib/quality";
+
+export const API_V1_VERSION = "1.0.0";
+
+// Page size for /readings
+export const V1_READINGS_LIMIT = { default: 100, max: 1000 };
+
+export type V1Field = DisplayField;
+
+// Order here is the order in responses and in the docs
+export const V1_FIELDS: Record<V1Field, { unit: string; description: string }> = {
+  tempF: { unit: "degF", description: "Air temperature" },
+  humidityPct: { unit: "percent", description: "Relative humidity" },
+  absPressureInHg: { unit: "inHg", description: "Absolute (station) pressure, not corrected to sea level" },
+  uvIndex: { unit: "index", description: "UV index; null when the station has no UV sensor" },
+  vaporPressureInHg: { unit: "inHg", description: "Water vapor pressure" },
+  dewPointF: { unit: "degF", description: "Dew point" },
+  humidityGrains: { unit: "grains/lb", description: "Water vapor per pound of dry air" },
+  adr: { unit: "percent", description: "Air density ratio against standard air" },
+  adr2: { unit: "ratio", description: "ADR correction averaged with the sheet correction factor" },
+  densityAltFt: { unit: "ft", description: "Density altitude" },
+  correction: { unit: "ratio", description: "Correction factor of the reading's correctionStandard" },
+  corrSheet: { unit: "ratio", description: "Correction factor, sheet formula (tf·hf·bf)" },
+  corrSaeJ1349: { unit: "ratio", description: "Correction factor, SAE J1349" },
+  corrSaeJ607: { unit: "ratio", description: "Correction factor, SAE J607" },
+  corrDin70020: { unit: "ratio", description: "Correction factor, DIN 70020" },
+  corrNhraOld: { unit: "ratio", description: "Correction factor, old NHRA" },
+};
+
+export const V1_FIELD_KEYS = Object.keys(V1_FIELDS) as V1Field[];
+
+export function v1Decimals(field: V1Field): number {
+  return DISPLAY_FIELDS[field].decimals;
+}
+
+export type V1Values = Record<V1Field, number | null>;
+
+export type V1Reading = {
+  stationId: string;
+  provider: string;
+  // Sensor observation time (ISO); also the reading's id
+  observedAt: string;
+  // Server fetch time (ISO); null on readings from before it was recorded
+  capturedAt: string | null;
+  values: V1Values;
+  correctionStandard: CorrectionStandard;
+  calibrationProfileId: string | null;
+  // ok / smoothed / filtered (see the quality stage); null on older readings
+  quality: QualityFlag | null;
+  // "live", or how a stored reading got in
+  origin: "live" | "backfill" | "import";
+  // Set on /current when the source is down and this is its last good data
+  stale: { reason: string; fetchedAt: string } | null;
+  // Race event (and session, e.g. "Q2") it was captured during
+  event: { id: string; sessionId: string | null; session: string | null } | null;
+};
+
+export function toV1Values(display: Partial<Record<V1Field, number | null>>): V1Values {
+  return Object.fromEntries(
+    V1_FIELD_KEYS.map((k) => {
+      const v = display[k];
+      return [k, typeof v === "number" && Number.isFinite(v) ? roundTo(v, v1Decimals(k)) : null];
+    })
+  ) as V1Values;
+}
+
+export function toV1Reading(r: Reading, stationId: string): V1Reading {
+  return {
+    stationId,
+    provider: r.provider ?? "weatherlink",
+    observedAt: r.display.ts,
+    capturedAt: r.capturedAt ?? null,
+    values: toV1Values(r.display),
+    correctionStandard: r.correctionStandard ?? "sheet",
+    calibrationProfileId: r.calibrationProfileId ?? null,
+    quality: r.quality?.flag ?? null,
+    origin: r.backfilled ? "backfill" : r.imported ? "import" : "live",
+    stale: r.stale ?? null,
+    event: r.event ? { id: r.event.eventId, sessionId: r.event.sessionId, session: r.event.session } : null,
+  };
+}
+
+// ------------------------------
+// Errors
+// ------------------------------
+
+export type V1ErrorCode = "invalid_parameter" | "not_found" | "source_unavailable" | "internal";
+
+export const V1_ERROR_STATUS: Record<V1ErrorCode, number> = {
+  invalid_parameter: 400,
+  not_found: 404,
+  source_unavailable: 502,
+  internal: 500,
+};
+
+export type V1Error = { error: { code: V1ErrorCode; message: string; param?: string } };
+
+export function v1Error(code: V1ErrorCode, message: string, param?: string) {
+  const body: V1Error = { error: { code, message, ...(param ? { param } : {}) } };
+  return NextResponse.json(body, { status: V1_ERROR_STATUS[code] });
+}
+
+// Thrown by the param parsers below; routes turn it into an invalid_parameter response
+export function invalidParam(param: string, message: string): Error {
+  return Object.assign(new Error(message), { param });
+}
+
+/**
+ * Response for anything a v1 handler threw: bad params become 400, the rest
+ * `fallback` (the weather source for /current, internal otherwise).
+ */
+export function v1Failure(err: unknown, fallback: V1ErrorCode = "internal") {
+  const { message, param } = (err ?? {}) as { message?: string; param?: string };
+  if (param) return v1Error("invalid_parameter", message ?? "Invalid parameter", param);
+  return v1Error(fallback, message || "Unknown error");
+}
+
+// ------------------------------
+// Query params
+// ------------------------------
+
+// ISO 8601 or unix ms; absent/empty is null
+export function parseV1Time(sp: URLSearchParams, param: string): number | null {
+  const v = sp.get(param);
+  if (!v) return null;
+  const ms = /^\d+$/.test(v) ? Number(v) : Date.parse(v);
+  if (!Number.isFinite(ms)) throw invalidParam(param, `${param} must be an ISO 8601 time or unix milliseconds`);
+  return ms;
+}
+
+export function parseV1Int(sp: URLSearchParams, param: string, def: number, min: number, max: number): number {
+  const v = sp.get(param);
+  if (v === null || v === "") return def;
+  const n = Number(v);
+  if (!Number.isInteger(n) || n < min || n > max) {
+    const range = max === Infinity ? `${min} or more` : `from ${min} to ${max}`;
+    throw invalidParam(param, `${param} must be a whole number ${range}`);
+  }
+  return n;
+}
+
+export function parseV1Number(sp: URLSearchParams, param: string, min: number, max: number): number {
+  const v = sp.get(param);
+  if (v === null || v === "") throw invalidParam(param, `${param} is required`);
+  const n = Number(v);
+  if (!Number.isFinite(n) || n < min || n > max) {
+    throw invalidParam(param, `${param} must be a number from ${min} to ${max}`);
+  }
+  return n;
+}
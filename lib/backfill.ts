@@ -0,0 +1,210 @@
+// ==============================
+// Historic backfill jobs (server only)
+// ==============================
+//
+// Recovers readings for a window when ingest was down. The window is split
+// into chunks no longer than WeatherLink's historic limit; each chunk's
+// outcome is saved as it finishes so a failed job can be resumed and only
+// re-fetches what it is missing.
+
+import { computeRacingWeather } from "@/lib/weatherCalc";
+import { buildDisplay, type Reading } from "@/lib/reading";
+import { addReadings, queryHistory } from "@/lib/historyStore";
+import { newId, readJson, updateJson } from "@/lib/fileStore";
+import { getComputeOptions } from "@/lib/settingsStore";
+import { getStationConfig } from "@/lib/stationConfigStore";
+import { tagReadings } from "@/lib/eventStore";
+import { defaultStationId, fetchWeatherLinkHistoric, HISTORIC_MAX_WINDOW_SEC } from "@/lib/weatherlink";
+import { extractArchiveInputs } from "@/lib/weatherlinkPayload";
+
+const COLLECTION = "backfill-jobs";
+const JOBS_MAX = 50;
+
+// Longest window one job may cover.
+export const BACKFILL_MAX_DAYS = 31;
+
+// Archive rows this close to an existing reading are already covered.
+const MERGE_WINDOW_MS = 150_000;
+
+export type BackfillChunk = {
+  startSec: number;
+  endSec: number;
+  status: "pending" | "done" | "failed";
+  error?: string;
+  records?: number;
+  added?: number;
+};
+
+export type BackfillJob = {
+  id: string;
+  stationId: string;
+  createdAt: string;
+  updatedAt: string;
+  from: string;
+  to: string;
+  status: "running" | "done" | "partial";
+  added: number;
+  chunks: BackfillChunk[];
+};
+
+// Jobs currently executing in this process (dev hot-reload safe).
+const g = globalThis as unknown as { __racewxBackfillActive?: Set<string> };
+const active = (g.__racewxBackfillActive ??= new Set());
+
+function splitWindow(fromSec: number, toSec: number): BackfillChunk[] {
+  const chunks: BackfillChunk[] = [];
+  for (let start = fromSec; start < toSec; start += HISTORIC_MAX_WINDOW_SEC) {
+    chunks.push({
+      startSec: start,
+      endSec: Math.min(start + HISTORIC_MAX_WINDOW_SEC, toSec),
+      status: "pending",
+    });
+  }
+  return chunks;
+}
+
+export async function listBackfillJobs(): Promise<BackfillJob[]> {
+  const list = await readJson<BackfillJob[]>(COLLECTION, []);
+  return Array.isArray(list) ? list : [];
+}
+
+export async function getBackfillJob(id: string): Promise<BackfillJob | null> {
+  return (await listBackfillJobs()).find((j) => j.id === id) ?? null;
+}
+
+function saveJob(job: BackfillJob) {
+  job.updatedAt = new Date().toISOString();
+  return updateJson(COLLECTION, [] as BackfillJob[], (list) => {
+    const others = (Array.isArray(list) ? list : []).filter((j) => j.id !== job.id);
+    return { value: [job, ...others].slice(0, JOBS_MAX), result: undefined };
+  });
+}
+
+async function backfillChunk(stationId: string, chunk: BackfillChunk): Promise<void> {
+  const payload = await fetchWeatherLinkHistoric(chunk.startSec, chunk.endSec, stationId);
+  // Same sensors as live polling: by role, or the station's pinned lsids
+  const rows = extractArchiveInputs(payload, (await getStationConfig(stationId)).lsids);
+
+  const existing = await queryHistory({
+    station: stationId,
+    from: chunk.startSec * 1000 - MERGE_WINDOW_MS,
+    to: chunk.endSec * 1000 + MERGE_WINDOW_MS,
+    limit: 5000,
+  });
+  const existingMs = existing.readings.map((r) => Date.parse(r.display.ts));
+  const calc = await getComputeOptions();
+
+  const readings: Reading[] = rows
+    .filter((row) => !existingMs.some((ms) => Math.abs(ms - row.tsMs) < MERGE_WINDOW_MS))
+    .map((row) => {
+      const raw = computeRacingWeather(
+        {
+          tempF: row.tempF,
+          humidityPct: row.humidityPct,
+          absPressureInHg: row.absPressureInHg,
+        },
+        calc
+      );
+      const ts = new Date(row.tsMs).toISOString();
+      return {
+        stationId,
+        inputs: {
+          tempF: row.tempF,
+          humidityPct: row.humidityPct,
+          absPressureInHg: row.absPressureInHg,
+          uvIndex: row.uvIndex,
+        },
+        display: buildDisplay(raw, ts, row.uvIndex),
+        sensorTs: ts,
+        backfilled: true,
+        correctionStandard: raw.correctionStandard,
+        calibrationProfileId: calc.calibrationProfileId,
+      };
+    });
+
+  const { added } = await addReadings(await tagReadings(readings));
+  chunk.records = rows.length;
+  chunk.added = added;
+}
+
+async function runJob(job: BackfillJob): Promise<BackfillJob> {
+  if (active.has(job.id)) return job;
+  active.add(job.id);
+
+  try {
+    job.status = "running";
+    await saveJob(job);
+
+    for (const chunk of job.chunks) {
+      if (chunk.status === "done") continue;
+      try {
+        await backfillChunk(job.stationId, chunk);
+        chunk.status = "done";
+        delete chunk.error;
+      } catch (err: unknown) {
+        chunk.status = "failed";
+        chunk.error = (err as Error)?.message ?? "Unknown error";
+      }
+      job.added = job.chunks.reduce((n, c) => n + (c.added ?? 0), 0);
+      await saveJob(job);
+    }
+
+    job.status = job.chunks.every((c) => c.status === "done") ? "done" : "partial";
+    await saveJob(job);
+    return job;
+  } finally {
+    active.delete(job.id);
+  }
+}
+
+// Thrown for a window the caller got wrong (not a WeatherLink or store failure)
+function invalidWindow(message: string): Error {
+  return Object.assign(new Error(message), { invalidWindow: true });
+}
+
+export function isInvalidWindow(err: unknown): boolean {
+  return !!(err as { invalidWindow?: boolean } | null)?.invalidWindow;
+}
+
+/**
+ * Create a job for [fromMs, toMs] on one station and start it in the background.
+ */
+export async function startBackfill(
+  fromMs: number,
+  toMs: number,
+  stationId = defaultStationId()
+): Promise<BackfillJob> {
+  if (!(toMs > fromMs)) throw invalidWindow("Backfill window must end after it starts.");
+  if (toMs - fromMs > BACKFILL_MAX_DAYS * 86_400_000) {
+    throw invalidWindow(`Backfill window is limited to ${BACKFILL_MAX_DAYS} days.`);
+  }
+
+  const now = new Date().toISOString();
+  const job: BackfillJob = {
+    id: newId("bf"),
+    stationId,
+    createdAt: now,
+    updatedAt: now,
+    from: new Date(fromMs).toISOString(),
+    to: new Date(toMs).toISOString(),
+    status: "running",
+    added: 0,
+    chunks: splitWindow(Math.floor(fromMs / 1000), Math.ceil(toMs / 1000)),
+  };
+
+  await saveJob(job);
+  void runJob(job);
+  return job;
+}
+
+/**
+ * Re-run the chunks of a job that failed or never finished. null when there's
+ * no job with that id.
+ */
+export async function resumeBackfill(id: string): Promise<BackfillJob | null> {
+  const job = await getBackfillJob(id);
+  if (!job) return null;
+  if (job.status === "done") return job;
+  if (!active.has(id)) void runJob(job);
+  return job;
+}
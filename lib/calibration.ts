@@ -0,0 +1,159 @@
+// ==============================
+// Calibration against reference data
+// ==============================
+//
+// Reference rows are inputs plus whatever outputs the sheet / reference
+// instrument gave for them. We recompute each row, report the deviations, and
+// refit the two DA constants by least squares: DA = a · isaAltitude + b.
+
+import { parseCsv } from "@/lib/csv";
+import {
+  computeRacingWeather,
+  isaAltitudeFt,
+  type ComputeOptions,
+  type DaConstants,
+  type Inputs,
+  type RawOutput,
+} from "@/lib/weatherCalc";
+
+export type CalibrationField = Exclude<keyof RawOutput, keyof Inputs | "correctionStandard">;
+
+export const CALIBRATION_FIELDS: CalibrationField[] = [
+  "adrPct",
+  "adr2",
+  "densityAltFt",
+  "correction",
+  "humidityGrains",
+  "dewPointF",
+  "vaporPressureInHg",
+  "pdValue",
+  "tf",
+  "hf",
+  "bf",
+  "adrCorr",
+  "adrCalc",
+  "corrSheet",
+  "corrSaeJ1349",
+  "corrSaeJ607",
+  "corrDin70020",
+  "corrNhraOld",
+];
+
+// History / export column names that mean the same thing
+const HEADER_ALIASES: Record<string, string> = {
+  adr: "adrPct",
+  grains: "humidityGrains",
+  da: "densityAltFt",
+};
+
+export type ReferenceRow = {
+  line: number;
+  inputs: Inputs;
+  expected: Partial<Record<CalibrationField, number>>;
+};
+
+export type FieldStats = {
+  n: number;
+  meanError: number;
+  meanAbsError: number;
+  rmse: number;
+  maxAbsError: number;
+};
+
+export type RowDeviation = {
+  line: number;
+  inputs: Inputs;
+  fields: Partial<Record<CalibrationField, { expected: number; actual: number; diff: number }>>;
+};
+
+export type CalibrationReport = {
+  rows: RowDeviation[];
+  stats: Partial<Record<CalibrationField, FieldStats>>;
+};
+
+/**
+ * Header must include tempF, humidityPct and absPressureInHg; every other
+ * recognised column is treated as an expected output. Blank cells are skipped.
+ */
+export function parseReferenceCsv(csv: string): ReferenceRow[] {
+  const [header, ...body] = parseCsv(csv);
+  if (!header) throw new Error("CSV is empty.");
+  const cols = header.map((h) => HEADER_ALIASES[h.trim()] ?? h.trim());
+
+  for (const k of ["tempF", "humidityPct", "absPressureInHg"]) {
+    if (!cols.includes(k)) throw new Error(`CSV needs a ${k} column.`);
+  }
+  const outputs = cols.filter((c): c is CalibrationField => CALIBRATION_FIELDS.includes(c as CalibrationField));
+  if (!outputs.length) {
+    throw new Error(`CSV needs at least one expected output column (${CALIBRATION_FIELDS.join(", ")}).`);
+  }
+
+  return body.map((cells, i) => {
+    const num = (col: string) => {
+      const raw = cells[cols.indexOf(col)]?.trim() ?? "";
+      return raw === "" ? NaN : Number(raw);
+    };
+    const inputs = { tempF: num("tempF"), humidityPct: num("humidityPct"), absPressureInHg: num("absPressureInHg") };
+    if (!Object.values(inputs).every(Number.isFinite)) {
+      throw new Error(`Row ${i + 2}: tempF, humidityPct and absPressureInHg must be numbers.`);
+    }
+    const expected: ReferenceRow["expected"] = {};
+    for (const f of outputs) {
+      const v = num(f);
+      if (Number.isFinite(v)) expected[f] = v;
+    }
+    return { line: i + 2, inputs, expected };
+  });
+}
+
+export function evaluateCalibration(rows: ReferenceRow[], opts: ComputeOptions = {}): CalibrationReport {
+  const diffs: Partial<Record<CalibrationField, number[]>> = {};
+
+  const out = rows.map((row) => {
+    const raw = computeRacingWeather(row.inputs, opts);
+    const fields: RowDeviation["fields"] = {};
+    for (const [f, expected] of Object.entries(row.expected) as [CalibrationField, number][]) {
+      const actual = raw[f];
+      fields[f] = { expected, actual, diff: actual - expected };
+      (diffs[f] ??= []).push(actual - expected);
+    }
+    return { line: row.line, inputs: row.inputs, fields };
+  });
+
+  const stats: CalibrationReport["stats"] = {};
+  for (const [f, d] of Object.entries(diffs) as [CalibrationField, number[]][]) {
+    const n = d.length;
+    stats[f] = {
+      n,
+      meanError: d.reduce((s, x) => s + x, 0) / n,
+      meanAbsError: d.reduce((s, x) => s + Math.abs(x), 0) / n,
+      rmse: Math.sqrt(d.reduce((s, x) => s + x * x, 0) / n),
+      maxAbsError: Math.max(...d.map(Math.abs)),
+    };
+  }
+  return { rows: out, stats };
+}
+
+/**
+ * Least-squares DA constants from rows that have an expected densityAltFt.
+ * Null with fewer than two such rows (or if they all have the same air).
+ */
+export function fitDaConstants(rows: ReferenceRow[], opts: ComputeOptions = {}): DaConstants | null {
+  const pts = rows
+    .filter((r) => Number.isFinite(r.expected.densityAltFt))
+    .map((r) => ({ x: isaAltitudeFt(computeRacingWeather(r.inputs, opts).adrPct), y: r.expected.densityAltFt! }));
+  if (pts.length < 2) return null;
+
+  const mx = pts.reduce((s, p) => s + p.x, 0) / pts.length;
+  const my = pts.reduce((s, p) => s + p.y, 0) / pts.length;
+  let sxy = 0;
+  let sxx = 0;
+  for (const p of pts) {
+    sxy += (p.x - mx) * (p.y - my);
+    sxx += (p.x - mx) ** 2;
+  }
+  if (sxx === 0) return null;
+
+  const daA = sxy / sxx;
+  return { daA, daB: my - daA * mx };
+}
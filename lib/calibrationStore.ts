@@ -0,0 +1,74 @@
+// ==============================
+// Named calibration profiles (server side)
+// ==============================
+
+import { newId, readJson, updateJson } from "@/lib/fileStore";
+import type { DaConstants } from "@/lib/weatherCalc";
+
+const COLLECTION = "calibration-profiles";
+
+export type CalibrationProfile = DaConstants & {
+  id: string;
+  name: string;
+  createdAt: string;
+  // How the fit looked against the reference data it came from
+  fit: { n: number; rmseBefore: number | null; rmseAfter: number | null } | null;
+};
+
+export async function listCalibrationProfiles(): Promise<CalibrationProfile[]> {
+  const list = await readJson<CalibrationProfile[]>(COLLECTION, []);
+  return Array.isArray(list) ? list : [];
+}
+
+export async function getCalibrationProfile(id: string | null | undefined): Promise<CalibrationProfile | null> {
+  if (!id) return null;
+  return (await listCalibrationProfiles()).find((p) => p.id === id) ?? null;
+}
+
+// The fit as sent by the calibration page: a row count and two RMSEs (null when
+// there was nothing to compare). Anything else is refused rather than stored.
+function checkFit(fit: unknown): CalibrationProfile["fit"] {
+  if (fit === null || fit === undefined) return null;
+  const { n, rmseBefore, rmseAfter } = (typeof fit === "object" ? fit : {}) as Record<string, unknown>;
+  const rmse = (v: unknown): v is number | null =>
+    v === null || (typeof v === "number" && Number.isFinite(v) && v >= 0);
+  if (typeof n !== "number" || !Number.isInteger(n) || n < 0 || !rmse(rmseBefore) || !rmse(rmseAfter)) {
+    throw new Error("fit must be { n, rmseBefore, rmseAfter } with a row count and numbers (or null).");
+  }
+  return { n, rmseBefore, rmseAfter };
+}
+
+export async function saveCalibrationProfile(
+  name: string,
+  constants: DaConstants,
+  fit: unknown = null
+): Promise<CalibrationProfile> {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error("Profile needs a name.");
+  if (!Number.isFinite(constants?.daA) || !Number.isFinite(constants?.daB)) {
+    throw new Error("Profile needs numeric daA and daB.");
+  }
+  const checkedFit = checkFit(fit);
+
+  const profile: CalibrationProfile = {
+    id: newId("cal"),
+    name: trimmed,
+    createdAt: new Date().toISOString(),
+    daA: constants.daA,
+    daB: constants.daB,
+    fit: checkedFit,
+  };
+
+  return updateJson(COLLECTION, [] as CalibrationProfile[], (list) => ({
+    value: [profile, ...(Array.isArray(list) ? list : [])],
+    result: profile,
+  }));
+}
+
+export function deleteCalibrationProfile(id: string): Promise<{ deleted: number }> {
+  return updateJson(COLLECTION, [] as CalibrationProfile[], (list) => {
+    const all = Array.isArray(list) ? list : [];
+    const kept = all.filter((p) => p.id !== id);
+    return { value: kept, result: { deleted: all.length - kept.length } };
+  });
+}
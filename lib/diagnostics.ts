@@ -0,0 +1,160 @@
+// ==============================
+// Per-sensor diagnostics (server only)
+// ==============================
+//
+// What /api/peek shows as raw keys, turned into something you can read at
+// the track: each sensor's type, when it last reported, its battery /
+// reception fields, what role the parser gave it and which record fed each
+// calc input.
+
+import type { InputSource, Reading } from "@/lib/reading";
+import { latestReading } from "@/lib/historyStore";
+import { getIngestStatus, type StationIngestStatus } from "@/lib/ingest";
+import { getProvider } from "@/lib/providers";
+import { getStationConfig, type StationConfig } from "@/lib/stationConfigStore";
+import { staleStateForAge, type StaleState } from "@/lib/staleness";
+import { fetchWeatherLinkCurrent } from "@/lib/weatherlink";
+import {
+  HEALTH_FIELD,
+  inputSources,
+  recordTsMs,
+  sensorRole,
+  type SensorRole,
+  type WeatherLinkPayload,
+  type WeatherLinkRecord,
+} from "@/lib/weatherlinkPayload";
+
+export type SensorDiagnostics = {
+  lsid: number | null;
+  sensorType: number | null;
+  dataStructureType: number | null;
+  role: SensorRole;
+  lastReportAt: string | null;
+  ageSec: number | null;
+  state: StaleState;
+  health: Record<string, unknown>;
+  // Calc inputs taken from this sensor
+  feeds: InputSource["input"][];
+};
+
+export type StationDiagnostics = {
+  stationId: string;
+  provider: string;
+  checkedAt: string;
+  sensors: SensorDiagnostics[];
+  sources: InputSource[];
+  // Set when the live fetch failed; the stored reading/ingest status still show
+  fetchError: string | null;
+  latest: Pick<Reading, "sensorTs" | "capturedAt" | "sources" | "pressure" | "quality"> & {
+    ts: string | null;
+    inputs: Reading["inputs"] | null;
+  };
+  ingest: StationIngestStatus | null;
+  config: StationConfig;
+};
+
+function healthFields(rec: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(rec).filter(([k]) => HEALTH_FIELD.test(k)));
+}
+
+/**
+ * Summarize every sensor record in a WeatherLink v2 current payload.
+ * `sources` says which sensor fed which input (see inputSources).
+ */
+export function summarizeSensors(
+  payload: WeatherLinkPayload,
+  sources: InputSource[],
+  nowMs = Date.now()
+): SensorDiagnostics[] {
+  return payload.sensors.map((s) => {
+    const records = s.data;
+    const newest = records.reduce<{ rec: WeatherLinkRecord | null; ms: number | null }>(
+      (best, rec) => {
+        const ms = recordTsMs(rec);
+        return ms !== null && (best.ms === null || ms > best.ms) ? { rec, ms } : best;
+      },
+      { rec: records[0] ?? null, ms: null }
+    );
+    const ageSec = newest.ms !== null ? Math.round((nowMs - newest.ms) / 1000) : null;
+
+    return {
+      lsid: s.lsid,
+      sensorType: s.sensor_type,
+      dataStructureType: s.data_structure_type,
+      role: sensorRole(s),
+      lastReportAt: newest.ms !== null ? new Date(newest.ms).toISOString() : null,
+      ageSec,
+      state: staleStateForAge(ageSec ?? Infinity),
+      health: newest.rec ? healthFields(newest.rec) : {},
+      feeds: sources.filter((src) => src.lsid === s.lsid).map((src) => src.input),
+    };
+  });
+}
+
+export async function stationDiagnostics(stationId?: string): Promise<StationDiagnostics> {
+  const provider = getProvider();
+  const station = stationId || provider.defaultStationId();
+  const nowMs = Date.now();
+  const config = await getStationConfig(station);
+
+  let sensors: SensorDiagnostics[] = [];
+  let sources: InputSource[] = [];
+  let fetchError: string | null = null;
+  try {
+    if (provider.id === "weatherlink") {
+      const payload = await fetchWeatherLinkCurrent(station);
+      // A pinned lsid that's gone shouldn't hide the sensor list it's picked from
+      try {
+        sources = inputSources(payload, config.lsids);
+      } catch (err: unknown) {
+        fetchError = (err as Error)?.message ?? "Unknown error";
+      }
+      sensors = summarizeSensors(payload, sources, nowMs);
+    } else {
+      // Single-device sources: one "sensor" with the provider's own ts
+      const { sensorTsMs, sources: provided, meta } = await provider.fetchCurrent(station);
+      const ageSec = sensorTsMs !== null ? Math.round((nowMs - sensorTsMs) / 1000) : null;
+      const extra = Object.fromEntries(
+        Object.entries(meta).filter(([k]) => k !== "provider" && k !== "stationId")
+      );
+      sensors = [
+        {
+          lsid: null,
+          sensorType: null,
+          dataStructureType: null,
+          role: "other",
+          lastReportAt: sensorTsMs !== null ? new Date(sensorTsMs).toISOString() : null,
+          ageSec,
+          state: staleStateForAge(ageSec ?? Infinity),
+          health: extra,
+          feeds: ["tempF", "humidityPct", "absPressureInHg"],
+        },
+      ];
+      sources = provided ?? [];
+    }
+  } catch (err: unknown) {
+    fetchError = (err as Error)?.message ?? "Unknown error";
+  }
+
+  const latest = await latestReading(station);
+
+  return {
+    stationId: station,
+    provider: provider.id,
+    checkedAt: new Date(nowMs).toISOString(),
+    sensors,
+    sources,
+    fetchError,
+    latest: {
+      ts: latest?.display.ts ?? null,
+      sensorTs: latest?.sensorTs ?? null,
+      capturedAt: latest?.capturedAt,
+      sources: latest?.sources,
+      pressure: latest?.pressure,
+      quality: latest?.quality,
+      inputs: latest?.inputs ?? null,
+    },
+    ingest: getIngestStatus().stations[station] ?? null,
+    config,
+  };
+}
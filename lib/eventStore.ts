@@ -0,0 +1,235 @@
+// ==============================
+// Race events and their sessions (server side)
+// ==============================
+//
+// An event is a race weekend at one track; its sessions (test, Q1–Q4, E1…)
+// are started and ended as the day runs. Each reading (polled, backfilled or
+// imported) is tagged with the event whose dates it falls in (in the track's
+// timezone) and with the session running at the time, so history can be
+// browsed per weekend.
+
+import { newId, readJson, updateJson } from "@/lib/fileStore";
+import { findReadings, readingStation, retagReadings } from "@/lib/historyStore";
+import { toCsv } from "@/lib/csv";
+import { isTimeZone, localTimeInZone } from "@/lib/format";
+import { fieldValue, latestCorrectionStandard, roundTo, type DisplayField, type Reading } from "@/lib/reading";
+import {
+  coversStation,
+  isSessionKind,
+  onEventDay,
+  sessionAt,
+  sessionLabel,
+  SESSION_KINDS,
+  type EventTag,
+  type RaceEvent,
+  type RaceSession,
+} from "@/lib/events";
+import { fieldExportKey, fieldUnit, IMPERIAL_UNITS, toDisplayUnits, type UnitPrefs } from "@/lib/units";
+
+const COLLECTION = "events";
+
+export type EventInput = Partial<
+  Pick<RaceEvent, "track" | "location" | "timezone" | "startDate" | "endDate" | "stationId">
+>;
+
+const YMD = /^\d{4}-\d{2}-\d{2}$/;
+
+async function loadAll(): Promise<RaceEvent[]> {
+  const list = await readJson<RaceEvent[]>(COLLECTION, []);
+  return Array.isArray(list) ? list : [];
+}
+
+export async function listEvents(): Promise<RaceEvent[]> {
+  return (await loadAll()).sort((a, b) => b.startDate.localeCompare(a.startDate));
+}
+
+export async function getEvent(id: string): Promise<RaceEvent | null> {
+  return (await loadAll()).find((e) => e.id === id) ?? null;
+}
+
+/**
+ * Event / session a reading at `ms` from `stationId` belongs to, if any. A
+ * running session wins over an event that's merely on that day.
+ */
+export async function eventTagAt(stationId: string, ms: number): Promise<EventTag | null> {
+  return tagFrom(await loadAll(), stationId, ms);
+}
+
+function tagFrom(all: RaceEvent[], stationId: string, ms: number): EventTag | null {
+  const events = all.filter((e) => coversStation(e, stationId) && onEventDay(e, ms));
+  for (const event of events) {
+    const session = sessionAt(event, ms);
+    if (session) return { eventId: event.id, sessionId: session.id, session: session.label };
+  }
+  return events[0] ? { eventId: events[0].id, sessionId: null, session: null } : null;
+}
+
+/**
+ * Backfilled and imported readings get the tag eventTagAt gives live ones.
+ * Readings that already carry a tag (e.g. a history backup) keep it.
+ */
+export async function tagReadings(readings: Reading[]): Promise<Reading[]> {
+  const all = await loadAll();
+  return readings.map((r) => {
+    if (r.event) return r;
+    const event = tagFrom(all, readingStation(r), Date.parse(r.display.ts));
+    return event ? { ...r, event } : r;
+  });
+}
+
+export async function createEvent(input: EventInput): Promise<RaceEvent> {
+  const track = String(input.track ?? "").trim();
+  if (!track) throw new Error("Event needs a track name.");
+  if (!isTimeZone(input.timezone)) throw new Error(`Unknown timezone: ${String(input.timezone ?? "")}`);
+  const startDate = String(input.startDate ?? "");
+  const endDate = String(input.endDate || startDate);
+  if (!YMD.test(startDate) || !YMD.test(endDate)) throw new Error("Dates must be YYYY-MM-DD.");
+  if (endDate < startDate) throw new Error("End date is before the start date.");
+
+  const event: RaceEvent = {
+    id: newId("ev"),
+    track,
+    location: String(input.location ?? "").trim(),
+    timezone: input.timezone,
+    startDate,
+    endDate,
+    stationId: String(input.stationId ?? "").trim(),
+    createdAt: new Date().toISOString(),
+    sessions: [],
+  };
+
+  await updateJson(COLLECTION, [] as RaceEvent[], (list) => ({
+    value: [event, ...(Array.isArray(list) ? list : [])],
+    result: undefined,
+  }));
+
+  // Readings already captured on those days (e.g. before the event was set up) join it too
+  await retagReadings(
+    (r) => !r.event && coversStation(event, readingStation(r)) && onEventDay(event, Date.parse(r.display.ts)),
+    { eventId: event.id, sessionId: null, session: null }
+  );
+  return event;
+}
+
+/**
+ * Start a session now (ending whichever one was running). `number` defaults
+ * to the next one of that kind, so repeated "qualifying" gives Q1, Q2…
+ */
+export async function startSession(eventId: string, kind: unknown, number?: unknown): Promise<RaceSession> {
+  if (!isSessionKind(kind)) throw new Error(`Unknown session kind: ${String(kind)}`);
+  const now = new Date().toISOString();
+
+  return updateJson(COLLECTION, [] as RaceEvent[], (list) => {
+    const all = Array.isArray(list) ? list : [];
+    const event = all.find((e) => e.id === eventId);
+    if (!event) throw new Error(`No event ${eventId}`);
+
+    const used = event.sessions.filter((s) => s.kind === kind).map((s) => s.number);
+    const n = number === undefined || number === null || number === "" ? Math.max(0, ...used) + 1 : Number(number);
+    const { label, maxNumber } = SESSION_KINDS[kind];
+    if (!Number.isInteger(n) || n < 1 || n > maxNumber) {
+      throw new Error(`${label} sessions are numbered 1–${maxNumber}.`);
+    }
+    if (used.includes(n)) throw new Error(`${sessionLabel(kind, n)} already exists.`);
+
+    for (const s of event.sessions) if (s.endedAt === null) s.endedAt = now;
+    const session: RaceSession = {
+      id: newId("se"),
+      kind,
+      number: n,
+      label: sessionLabel(kind, n),
+      startedAt: now,
+      endedAt: null,
+    };
+    event.sessions.push(session);
+    return { value: all, result: session };
+  });
+}
+
+export function endSession(eventId: string): Promise<RaceSession | null> {
+  return updateJson(COLLECTION, [] as RaceEvent[], (list) => {
+    const all = Array.isArray(list) ? list : [];
+    const running = all.find((e) => e.id === eventId)?.sessions.find((s) => s.endedAt === null) ?? null;
+    if (running) running.endedAt = new Date().toISOString();
+    return { value: all, result: running };
+  });
+}
+
+export async function deleteSession(eventId: string, sessionId: string): Promise<{ deleted: number }> {
+  const result = await updateJson(COLLECTION, [] as RaceEvent[], (list) => {
+    const all = Array.isArray(list) ? list : [];
+    const event = all.find((e) => e.id === eventId);
+    const before = event?.sessions.length ?? 0;
+    if (event) event.sessions = event.sessions.filter((s) => s.id !== sessionId);
+    return { value: all, result: { deleted: before - (event?.sessions.length ?? 0) } };
+  });
+  // Its readings stay with the event
+  await retagReadings((r) => r.event?.sessionId === sessionId, { eventId, sessionId: null, session: null });
+  return result;
+}
+
+export async function deleteEvent(id: string): Promise<{ deleted: number }> {
+  const result = await updateJson(COLLECTION, [] as RaceEvent[], (list) => {
+    const all = Array.isArray(list) ? list : [];
+    const kept = all.filter((e) => e.id !== id);
+    return { value: kept, result: { deleted: all.length - kept.length } };
+  });
+  await retagReadings((r) => r.event?.eventId === id, null);
+  return result;
+}
+
+/**
+ * Readings tagged to an event (or one of its sessions), newest first.
+ */
+export async function eventReadings(eventId: string, sessionId?: string | null): Promise<Reading[]> {
+  return findReadings((r) => r.event?.eventId === eventId && (!sessionId || r.event.sessionId === sessionId));
+}
+
+const CSV_FIELDS: DisplayField[] = [
+  "tempF",
+  "humidityPct",
+  "absPressureInHg",
+  "vaporPressureInHg",
+  "dewPointF",
+  "humidityGrains",
+  "adr",
+  "adr2",
+  "densityAltFt",
+  "correction",
+  "uvIndex",
+];
+
+/**
+ * Event readings as CSV, oldest first, with the track's local time next to
+ * the UTC timestamp. Converted columns follow `units` like the other exports.
+ */
+export function eventReadingsToCsv(
+  event: RaceEvent,
+  readings: Reading[],
+  units: UnitPrefs = IMPERIAL_UNITS
+): string {
+  const header = [
+    "localTime",
+    "ts",
+    "session",
+    "stationId",
+    ...CSV_FIELDS.map((f) => fieldExportKey(f, units)),
+    "quality",
+  ];
+  // One standard for the whole correction column
+  const standard = latestCorrectionStandard(readings);
+  const rows = [...readings]
+    .sort((a, b) => Date.parse(a.display.ts) - Date.parse(b.display.ts))
+    .map((r) => [
+      localTimeInZone(Date.parse(r.display.ts), event.timezone),
+      r.display.ts,
+      r.event?.session ?? "",
+      readingStation(r),
+      ...CSV_FIELDS.map((f) => {
+        const v = fieldValue(r, f, standard);
+        return typeof v === "number" ? roundTo(toDisplayUnits(f, v, units), fieldUnit(f, units).decimals) : v;
+      }),
+      r.quality?.flag ?? "",
+    ]);
+  return toCsv(header, rows);
+}
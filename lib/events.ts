@@ -0,0 +1,109 @@
+// ==============================
+// Race events and sessions: shapes, labels and summaries (shared by server and pages)
+// ==============================
+
+import { ymdInZone } from "@/lib/format";
+import { fieldValue, latestCorrectionStandard, type DisplayField, type Reading } from "@/lib/reading";
+
+export type SessionKind = "test" | "qualifying" | "elimination";
+
+export const SESSION_KINDS: Record<SessionKind, { label: string; maxNumber: number }> = {
+  test: { label: "Test", maxNumber: 99 },
+  qualifying: { label: "Qualifying", maxNumber: 4 },
+  elimination: { label: "Elimination", maxNumber: 99 },
+};
+
+export type RaceSession = {
+  id: string;
+  kind: SessionKind;
+  number: number;
+  // "Test 1", "Q2", "E3"
+  label: string;
+  startedAt: string;
+  // null while it's running
+  endedAt: string | null;
+};
+
+export type RaceEvent = {
+  id: string;
+  track: string;
+  location: string;
+  // IANA zone of the track; dates, exports and the browse view use it
+  timezone: string;
+  // Inclusive local calendar days at the track (YYYY-MM-DD)
+  startDate: string;
+  endDate: string;
+  // Station that covers the event; "" = every station
+  stationId: string;
+  createdAt: string;
+  sessions: RaceSession[];
+};
+
+// Stamped on readings by the poller
+export type EventTag = { eventId: string; sessionId: string | null; session: string | null };
+
+export function sessionLabel(kind: SessionKind, n: number): string {
+  if (kind === "qualifying") return `Q${n}`;
+  if (kind === "elimination") return `E${n}`;
+  return `Test ${n}`;
+}
+
+export function isSessionKind(x: unknown): x is SessionKind {
+  return typeof x === "string" && Object.hasOwn(SESSION_KINDS, x);
+}
+
+export function coversStation(event: RaceEvent, stationId: string): boolean {
+  return !event.stationId || event.stationId === stationId;
+}
+
+export function onEventDay(event: RaceEvent, ms: number): boolean {
+  const day = ymdInZone(ms, event.timezone);
+  return day >= event.startDate && day <= event.endDate;
+}
+
+export function sessionAt(event: RaceEvent, ms: number): RaceSession | null {
+  return (
+    event.sessions.find(
+      (s) => Date.parse(s.startedAt) <= ms && (s.endedAt === null || ms <= Date.parse(s.endedAt))
+    ) ?? null
+  );
+}
+
+// Fields the per-event / per-session summary covers
+export const SUMMARY_FIELDS: DisplayField[] = [
+  "tempF",
+  "humidityPct",
+  "absPressureInHg",
+  "humidityGrains",
+  "densityAltFt",
+  "adr",
+  "correction",
+];
+
+export type FieldSummary = { min: number; max: number; mean: number };
+
+export type ReadingsSummary = {
+  count: number;
+  firstTs: string | null;
+  lastTs: string | null;
+  fields: Partial<Record<DisplayField, FieldSummary>>;
+};
+
+export function summarizeReadings(readings: Reading[]): ReadingsSummary {
+  const fields: ReadingsSummary["fields"] = {};
+  const standard = latestCorrectionStandard(readings);
+  for (const field of SUMMARY_FIELDS) {
+    const values = readings
+      .map((r) => fieldValue(r, field, standard))
+      .filter((v): v is number => typeof v === "number" && Number.isFinite(v));
+    if (!values.length) continue;
+    // A weekend can be thousands of readings; too many to spread into Math.min
+    fields[field] = {
+      min: values.reduce((a, b) => Math.min(a, b)),
+      max: values.reduce((a, b) => Math.max(a, b)),
+      mean: values.reduce((a, b) => a + b, 0) / values.length,
+    };
+  }
+  const times = readings.map((r) => r.display.ts).sort();
+  return { count: readings.length, firstTs: times[0] ?? null, lastTs: times[times.length - 1] ?? null, fields };
+}
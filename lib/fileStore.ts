@@ -0,0 +1,73 @@
+// ==============================
+// Tiny embedded JSON-file store (server only)
+// ==============================
+//
+// Each "collection" is one JSON file under RACEWX_DATA_DIR (default ./data).
+// Writes go to a temp file and are renamed into place so a crash never leaves
+// half a file behind, and every update for a file is queued so concurrent
+// requests can't clobber each other.
+
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+function dataDir(): string {
+  return process.env.RACEWX_DATA_DIR || path.join(process.cwd(), "data");
+}
+
+function filePath(name: string): string {
+  return path.join(dataDir(), `${name}.json`);
+}
+
+// Per-file write queue. Kept on globalThis so dev hot-reloads share it.
+const g = globalThis as unknown as { __racewxFileQueues?: Map<string, Promise<unknown>> };
+const queues = (g.__racewxFileQueues ??= new Map());
+
+export async function readJson<T>(name: string, fallback: T): Promise<T> {
+  try {
+    const txt = await fs.readFile(filePath(name), "utf8");
+    return JSON.parse(txt) as T;
+  } catch (err: unknown) {
+    if ((err as NodeJS.ErrnoException)?.code === "ENOENT") return fallback;
+    throw err;
+  }
+}
+
+async function writeJson<T>(name: string, value: T): Promise<void> {
+  const target = filePath(name);
+  await fs.mkdir(path.dirname(target), { recursive: true });
+  const tmp = `${target}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(value), "utf8");
+  await fs.rename(tmp, target);
+}
+
+/**
+ * Read-modify-write a collection. `fn` returns the new value plus whatever
+ * the caller wants back; updates to the same file run one at a time.
+ */
+export function updateJson<T, R>(
+  name: string,
+  fallback: T,
+  fn: (current: T) => { value: T; result: R }
+): Promise<R> {
+  const prev = queues.get(name) ?? Promise.resolve();
+  const next = prev
+    .catch(() => undefined)
+    .then(async () => {
+      const current = await readJson(name, fallback);
+      const { value, result } = fn(current);
+      await writeJson(name, value);
+      return result;
+    });
+  queues.set(name, next);
+  return next;
+}
+
+/**
+ * Id for a new record, e.g. run_m5x2k1a4c3f9e2b7. The time part keeps ids in
+ * roughly creation order; the random part keeps two records made in the same
+ * millisecond apart.
+ */
+export function newId(prefix: string): string {
+  return `${prefix}_${Date.now().toString(36)}${randomUUID().slice(0, 8)}`;
+}
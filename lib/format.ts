@@ -0,0 +1,79 @@
+// ==============================
+// Display formatting shared by the pages
+// ==============================
+
+export function fmt(value: unknown, decimals?: number) {
+  if (value === null || value === undefined) return "—";
+  if (typeof value === "number") {
+    if (Number.isNaN(value)) return "—";
+    return decimals !== undefined ? value.toFixed(decimals) : String(value);
+  }
+  return String(value);
+}
+
+export function formatAge(seconds: number): string {
+  if (!Number.isFinite(seconds) || seconds < 0) return "—";
+  if (seconds < 60) return `${Math.round(seconds)}s`;
+  const m = Math.floor(seconds / 60);
+  const s = Math.round(seconds % 60);
+  return `${m}m ${s}s`;
+}
+
+// Pass a timeZone (e.g. the track's) to show that zone's wall clock instead of the viewer's
+export function formatTs12Hour(ts: string | null | undefined, timeZone?: string): string {
+  if (!ts) return "—";
+
+  const d = new Date(ts);
+  if (isNaN(d.getTime())) return ts;
+
+  return d.toLocaleString(undefined, {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "numeric",
+    minute: "2-digit",
+
+    hour12: true,
+    ...(timeZone ? { timeZone, timeZoneName: "short" } : {}),
+  });
+}
+
+export function isTimeZone(tz: unknown): tz is string {
+  if (typeof tz !== "string" || !tz) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function zoneParts(ms: number, timeZone: string): Record<string, string> {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(ms);
+  return Object.fromEntries(parts.map((p) => [p.type, p.value]));
+}
+
+/**
+ * Calendar day (YYYY-MM-DD) of an instant in the given zone.
+ */
+export function ymdInZone(ms: number, timeZone: string): string {
+  const p = zoneParts(ms, timeZone);
+  return `${p.year}-${p.month}-${p.day}`;
+}
+
+/**
+ * "YYYY-MM-DD HH:mm:ss" wall-clock time in the given zone (for exports).
+ */
+export function localTimeInZone(ms: number, timeZone: string): string {
+  const p = zoneParts(ms, timeZone);
+  return `${p.year}-${p.month}-${p.day} ${p.hour}:${p.minute}:${p.second}`;
+}
@@ -0,0 +1,196 @@
+// ==============================
+// Server-side reading history
+// ==============================
+
+import { isReading, type Reading } from "@/lib/reading";
+import type { EventTag } from "@/lib/events";
+import { readJson, updateJson } from "@/lib/fileStore";
+import { defaultStationId } from "@/lib/weatherlink";
+
+const COLLECTION = "history";
+
+// Server keeps far more than the old per-browser cap (2000) – roughly a
+// month of one-minute readings.
+export const HISTORY_MAX = 50_000;
+
+export type HistoryQuery = {
+  station?: string | null; // omit for every station
+  from?: number | null; // ms, inclusive
+  to?: number | null; // ms, inclusive
+  // ms, exclusive: the page below the oldest reading a client already has
+  before?: number | null;
+  limit?: number;
+  offset?: number;
+};
+
+export type HistoryPage = {
+  readings: Reading[];
+  // Matching readings, not counting `before`
+  total: number;
+  offset: number;
+  limit: number;
+};
+
+function tsMs(r: Reading): number {
+  return Date.parse(r.display.ts);
+}
+
+export function readingStation(r: Reading): string {
+  return r.stationId ?? defaultStationId();
+}
+
+function inRange(r: Reading, from?: number | null, to?: number | null, station?: string | null) {
+  if (station && readingStation(r) !== station) return false;
+  const ms = tsMs(r);
+  if (from != null && ms < from) return false;
+  if (to != null && ms > to) return false;
+  return true;
+}
+
+// Newest first, same as the page has always shown it.
+function sortNewestFirst(list: Reading[]): Reading[] {
+  return list.sort((a, b) => tsMs(b) - tsMs(a));
+}
+
+async function loadAll(): Promise<Reading[]> {
+  const list = await readJson<Reading[]>(COLLECTION, []);
+  return Array.isArray(list) ? list : [];
+}
+
+export async function latestReading(station?: string | null): Promise<Reading | null> {
+  return (await loadAll()).find((r) => inRange(r, null, null, station)) ?? null;
+}
+
+/**
+ * Reading closest in time to `ms` for a station, if any lies within `maxDiffMs`.
+ */
+export async function nearestReading(
+  ms: number,
+  station?: string | null,
+  maxDiffMs = 6 * 60 * 60_000
+): Promise<Reading | null> {
+  let best: Reading | null = null;
+  let bestDiff = Infinity;
+  for (const r of await loadAll()) {
+    if (!inRange(r, ms - maxDiffMs, ms + maxDiffMs, station)) continue;
+    const diff = Math.abs(tsMs(r) - ms);
+    if (diff < bestDiff) {
+      best = r;
+      bestDiff = diff;
+    }
+  }
+  return best;
+}
+
+export async function queryHistory(q: HistoryQuery = {}): Promise<HistoryPage> {
+  const limit = Math.max(1, Math.min(q.limit ?? 200, 5000));
+  const offset = Math.max(0, q.offset ?? 0);
+
+  const matching = (await loadAll()).filter((r) => inRange(r, q.from, q.to, q.station));
+  const { before } = q;
+  // Readings stored since the client's first page don't shift a before-cursor the way they shift an offset
+  const older = before != null ? matching.filter((r) => tsMs(r) < before) : matching;
+  return {
+    readings: older.slice(offset, offset + limit),
+    total: matching.length,
+    offset,
+    limit,
+  };
+}
+
+/**
+ * Every stored reading that matches, newest first (no paging cap).
+ */
+export async function findReadings(match: (r: Reading) => boolean): Promise<Reading[]> {
+  return (await loadAll()).filter(match);
+}
+
+/**
+ * Every reading in [from, to] (optionally for one station), newest first, no paging cap.
+ */
+export async function rangeReadings(
+  from?: number | null,
+  to?: number | null,
+  station?: string | null
+): Promise<Reading[]> {
+  return (await loadAll()).filter((r) => inRange(r, from, to, station));
+}
+
+/**
+ * Set (or with null, clear) the event tag on matching readings.
+ */
+export function retagReadings(match: (r: Reading) => boolean, tag: EventTag | null): Promise<{ tagged: number }> {
+  return updateJson(COLLECTION, [] as Reading[], (current) => {
+    const list = Array.isArray(current) ? current : [];
+    let tagged = 0;
+    for (const r of list) {
+      if (!match(r)) continue;
+      if (tag) r.event = tag;
+      else delete r.event;
+      tagged++;
+    }
+    return { value: list, result: { tagged } };
+  });
+}
+
+// Push the new ones onto `list`, skipping any whose timestamp (or sensor
+// timestamp) is already there for that station
+function mergeReadings(list: Reading[], incoming: unknown[]): { added: number; skipped: number } {
+  const key = (r: Reading, ts: string) => `${readingStation(r)}|${ts}`;
+  const seen = new Set(list.map((r) => key(r, r.display.ts)));
+  const seenSensor = new Set(list.filter((r) => r.sensorTs).map((r) => key(r, r.sensorTs!)));
+
+  let added = 0;
+  let skipped = 0;
+  for (const r of incoming) {
+    if (!isReading(r) || seen.has(key(r, r.display.ts)) || (r.sensorTs && seenSensor.has(key(r, r.sensorTs)))) {
+      skipped++;
+      continue;
+    }
+    seen.add(key(r, r.display.ts));
+    if (r.sensorTs) seenSensor.add(key(r, r.sensorTs));
+    list.push(r);
+    added++;
+  }
+  return { added, skipped };
+}
+
+/**
+ * Merge readings into the store, skipping any whose timestamp (or sensor
+ * timestamp) is already stored for that station. Returns how many were
+ * actually added.
+ */
+export function addReadings(incoming: unknown[]): Promise<{ added: number; skipped: number }> {
+  return updateJson(COLLECTION, [] as Reading[], (current) => {
+    const list = Array.isArray(current) ? current : [];
+    const result = mergeReadings(list, incoming);
+    return { value: sortNewestFirst(list).slice(0, HISTORY_MAX), result };
+  });
+}
+
+/**
+ * What addReadings would do, without writing anything.
+ */
+export async function previewReadings(incoming: unknown[]): Promise<{ added: number; skipped: number }> {
+  return mergeReadings(await loadAll(), incoming);
+}
+
+export function addReading(r: Reading) {
+  return addReadings([r]);
+}
+
+/**
+ * Delete readings in [from, to] (optionally for one station). With no
+ * bounds, clears everything.
+ */
+export function deleteHistory(
+  from?: number | null,
+  to?: number | null,
+  station?: string | null
+): Promise<{ deleted: number }> {
+  return updateJson(COLLECTION, [] as Reading[], (current) => {
+    const list = Array.isArray(current) ? current : [];
+    const kept = list.filter((r) => !inRange(r, from, to, station));
+    return { value: kept, result: { deleted: list.length - kept.length } };
+  });
+}
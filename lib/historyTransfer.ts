@@ -0,0 +1,328 @@
+// ==============================
+// History export columns and file import (shared by the server and the data page)
+// ==============================
+//
+// One column list drives the column picker, CSV / JSON / XLSX exports and the
+// import that reads those files back. Columns that hold a unit quantity are
+// renamed and converted per the user's units (tempF → tempC) so a file always
+// says what it holds, and the import recognizes every such name.
+
+import { parseCsv } from "@/lib/csv";
+import {
+  buildDisplay,
+  DISPLAY_FIELDS,
+  isReading,
+  rebuildReading,
+  roundTo,
+  type DisplayField,
+  type Reading,
+} from "@/lib/reading";
+import { computeRacingWeather, type ComputeOptions, type DaConstants, type RawOutput } from "@/lib/weatherCalc";
+import { QUALITY_INPUTS, VALID_RANGES, type QualityInput } from "@/lib/quality";
+import {
+  fieldExportKey,
+  fieldQuantity,
+  fieldUnit,
+  IMPERIAL_UNITS,
+  QUANTITY_UNITS,
+  UNITS,
+  type UnitPrefs,
+} from "@/lib/units";
+
+export type ExportFormat = "csv" | "json" | "xlsx";
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; ext: string; mime: string }> = {
+  csv: { label: "CSV", ext: "csv", mime: "text/csv; charset=utf-8" },
+  json: { label: "JSON", ext: "json", mime: "application/json" },
+  xlsx: {
+    label: "Excel (.xlsx)",
+    ext: "xlsx",
+    mime: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  },
+};
+
+export function isExportFormat(x: unknown): x is ExportFormat {
+  return typeof x === "string" && Object.hasOwn(EXPORT_FORMATS, x);
+}
+
+export type ExportGroup = "reading" | "sensor" | "display" | "calc";
+
+export const EXPORT_GROUPS: Record<ExportGroup, string> = {
+  reading: "Reading",
+  sensor: "Raw sensor values",
+  display: "Results",
+  calc: "Calc breakdown",
+};
+
+export type ExportColumn = {
+  id: string;
+  label: string;
+  group: ExportGroup;
+  // Converted like this display field; the header follows the units (rawTempF → rawTempC)
+  unitOf?: DisplayField;
+  value: (r: Reading, raw: RawOutput | null) => unknown;
+};
+
+function sensorValue(r: Reading, input: QualityInput): number {
+  return r.quality ? r.quality.raw[input] : r.inputs[input];
+}
+
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  { id: "ts", label: "Timestamp (UTC)", group: "reading", value: (r) => r.display.ts },
+  { id: "stationId", label: "Station", group: "reading", value: (r) => r.stationId ?? "" },
+  { id: "provider", label: "Source", group: "reading", value: (r) => r.provider ?? "" },
+  { id: "capturedAt", label: "Captured at", group: "reading", value: (r) => r.capturedAt ?? "" },
+  { id: "session", label: "Event session", group: "reading", value: (r) => r.event?.session ?? "" },
+  { id: "quality", label: "Quality flag", group: "reading", value: (r) => r.quality?.flag ?? "" },
+  { id: "backfilled", label: "Backfilled", group: "reading", value: (r) => r.backfilled === true },
+  { id: "imported", label: "Imported", group: "reading", value: (r) => r.imported === true },
+  {
+    id: "correctionStandard",
+    label: "Correction standard",
+    group: "reading",
+    value: (r) => r.correctionStandard ?? "sheet",
+  },
+  {
+    id: "calibrationProfileId",
+    label: "Calibration profile",
+    group: "reading",
+    value: (r) => r.calibrationProfileId ?? "",
+  },
+
+  { id: "rawTemp", label: "Sensor temp", group: "sensor", unitOf: "tempF", value: (r) => sensorValue(r, "tempF") },
+  { id: "rawHumidityPct", label: "Sensor humidity", group: "sensor", value: (r) => sensorValue(r, "humidityPct") },
+  {
+    id: "rawAbsPressure",
+    label: "Sensor pressure",
+    group: "sensor",
+    unitOf: "absPressureInHg",
+    value: (r) => sensorValue(r, "absPressureInHg"),
+  },
+
+  ...(Object.keys(DISPLAY_FIELDS) as DisplayField[]).map<ExportColumn>((field) => ({
+    id: field,
+    label: DISPLAY_FIELDS[field].label,
+    group: "display",
+    ...(fieldQuantity(field) ? { unitOf: field } : {}),
+    value: (r) => r.display[field] ?? null,
+  })),
+
+  { id: "pdValue", label: "PD value", group: "calc", unitOf: "vaporPressureInHg", value: (_r, raw) => raw?.pdValue },
+  { id: "tf", label: "Temp factor", group: "calc", value: (_r, raw) => raw?.tf },
+  { id: "hf", label: "Humidity factor", group: "calc", value: (_r, raw) => raw?.hf },
+  { id: "bf", label: "Baro factor", group: "calc", value: (_r, raw) => raw?.bf },
+  { id: "adrPct", label: "ADR (unrounded)", group: "calc", value: (_r, raw) => raw?.adrPct },
+  { id: "adrCorr", label: "ADR corr", group: "calc", value: (_r, raw) => raw?.adrCorr },
+  { id: "adrCalc", label: "ADR calc", group: "calc", value: (_r, raw) => raw?.adrCalc },
+];
+
+// What the dashboard table shows, plus the calc breakdown
+export const DEFAULT_EXPORT_COLUMNS = [
+  "ts",
+  "stationId",
+  "tempF",
+  "humidityPct",
+  "absPressureInHg",
+  "vaporPressureInHg",
+  "dewPointF",
+  "humidityGrains",
+  "adr",
+  "adr2",
+  "densityAltFt",
+  "correction",
+  "pdValue",
+  "tf",
+  "hf",
+  "bf",
+  "adrCorr",
+  "adrCalc",
+];
+
+const BY_ID = new Map(EXPORT_COLUMNS.map((c) => [c.id, c]));
+
+/**
+ * Picked ids in column-list order; unknown ids are dropped, nothing picked means the defaults.
+ */
+export function resolveColumns(ids: string[] | null | undefined): ExportColumn[] {
+  const picked = new Set((ids ?? []).filter((id) => BY_ID.has(id)));
+  if (!picked.size) return DEFAULT_EXPORT_COLUMNS.map((id) => BY_ID.get(id)!);
+  return EXPORT_COLUMNS.filter((c) => picked.has(c.id));
+}
+
+// Display fields keep their established export keys; other columns put the unit suffix on their id
+export function columnHeader(col: ExportColumn, units: UnitPrefs): string {
+  if (!col.unitOf) return col.id;
+  if (col.id === col.unitOf) return fieldExportKey(col.unitOf, units);
+  return `${col.id}${UNITS[units[fieldQuantity(col.unitOf)!]].suffix}`;
+}
+
+function cellValue(col: ExportColumn, r: Reading, raw: RawOutput | null, units: UnitPrefs): unknown {
+  const v = col.value(r, raw);
+  if (!col.unitOf || typeof v !== "number") return v ?? null;
+  const q = fieldQuantity(col.unitOf)!;
+  // Stored (imperial) values go out as stored; converted ones at that unit's precision
+  if (units[q] === IMPERIAL_UNITS[q]) return v;
+  return roundTo(UNITS[units[q]].fromImperial(v), fieldUnit(col.unitOf, units).decimals);
+}
+
+/**
+ * Header and rows for the picked columns, oldest reading first. `rawFor`
+ * re-runs the calc for the breakdown columns (readings only store results).
+ */
+export function exportTable(
+  readings: Reading[],
+  columns: ExportColumn[],
+  units: UnitPrefs,
+  rawFor: (r: Reading) => RawOutput | null
+): { header: string[]; rows: unknown[][] } {
+  const needsRaw = columns.some((c) => c.group === "calc");
+  const rows = [...readings]
+    .sort((a, b) => Date.parse(a.display.ts) - Date.parse(b.display.ts))
+    .map((r) => {
+      const raw = needsRaw ? rawFor(r) : null;
+      return columns.map((c) => cellValue(c, r, raw, units));
+    });
+  return { header: columns.map((c) => columnHeader(c, units)), rows };
+}
+
+/* =========================
+   Import
+   ========================= */
+
+export type ImportIssue = { row: number; error: string };
+
+type InputHeader = { input: QualityInput; toImperial: (v: number) => number };
+
+// Every header a calc input can arrive under, with the conversion back to imperial
+function inputHeaders(columnFor: (input: QualityInput) => ExportColumn): Map<string, InputHeader> {
+  const map = new Map<string, InputHeader>();
+  for (const input of QUALITY_INPUTS) {
+    const q = fieldQuantity(input);
+    const col = columnFor(input);
+    if (!q) {
+      map.set(col.id, { input, toImperial: (v) => v });
+      continue;
+    }
+    for (const unit of QUANTITY_UNITS[q].units) {
+      // Converted values come back at the stored precision, not as 28.927571416…
+      const toImperial =
+        unit === IMPERIAL_UNITS[q]
+          ? (v: number) => v
+          : (v: number) => roundTo(UNITS[unit].toImperial(v), DISPLAY_FIELDS[input].decimals);
+      map.set(columnHeader(col, { ...IMPERIAL_UNITS, [q]: unit }), { input, toImperial });
+    }
+  }
+  return map;
+}
+
+// Results are what the calc used, so they win over the raw sensor columns when both are present
+const RESULT_HEADERS = inputHeaders((input) => BY_ID.get(input)!);
+const SENSOR_HEADERS = inputHeaders(
+  (input) => BY_ID.get({ tempF: "rawTemp", humidityPct: "rawHumidityPct", absPressureInHg: "rawAbsPressure" }[input])!
+);
+
+function rowInputs(row: Record<string, unknown>): Partial<Record<QualityInput, number>> {
+  const out: Partial<Record<QualityInput, number>> = {};
+  for (const headers of [RESULT_HEADERS, SENSOR_HEADERS]) {
+    for (const [header, { input, toImperial }] of headers) {
+      const v = row[header];
+      if (out[input] !== undefined || v === null || v === undefined || v === "") continue;
+      out[input] = toImperial(Number(v));
+    }
+  }
+  return out;
+}
+
+/**
+ * A row from an exported file (or hand-made sheet) as a reading, recomputed
+ * with today's calc settings. Needs ts plus temp, humidity and pressure in
+ * any of the unit spellings the exports use.
+ */
+export function readingFromRow(
+  row: Record<string, unknown>,
+  opts: { station: string; calc: ComputeOptions & { calibrationProfileId?: string | null } }
+): Reading {
+  const ms = typeof row.ts === "number" ? row.ts : Date.parse(String(row.ts ?? ""));
+  if (!Number.isFinite(ms)) throw new Error(`bad or missing ts "${String(row.ts ?? "")}"`);
+
+  const found = rowInputs(row);
+  for (const input of QUALITY_INPUTS) {
+    const v = found[input];
+    const range = VALID_RANGES[input];
+    if (v === undefined) throw new Error(`missing ${input}`);
+    if (!Number.isFinite(v) || v < range.min || v > range.max) {
+      throw new Error(`${input} ${v} is outside ${range.min}–${range.max}`);
+    }
+  }
+  const inputs = { tempF: found.tempF!, humidityPct: found.humidityPct!, absPressureInHg: found.absPressureInHg! };
+  const uv = row.uvIndex === null || row.uvIndex === undefined || row.uvIndex === "" ? null : Number(row.uvIndex);
+
+  const raw = computeRacingWeather(inputs, opts.calc);
+  return {
+    stationId: String(row.stationId || opts.station),
+    inputs: { ...inputs, uvIndex: Number.isFinite(uv) ? uv : null },
+    display: buildDisplay(raw, new Date(ms).toISOString(), Number.isFinite(uv) ? uv : null),
+    correctionStandard: raw.correctionStandard,
+    calibrationProfileId: opts.calc.calibrationProfileId ?? null,
+    imported: true,
+  };
+}
+
+/**
+ * Parse an import file into readings plus per-row problems. JSON may be our
+ * export ({ rows }), a bare array of rows, or full readings ({ readings }).
+ * `profiles` are the calibration profiles full readings may name.
+ */
+export function parseImport(
+  text: string,
+  format: "csv" | "json",
+  opts: Parameters<typeof readingFromRow>[1] & { profiles: ReadonlyMap<string, DaConstants> }
+): { readings: Reading[]; issues: ImportIssue[]; total: number } {
+  let rows: unknown[];
+  if (format === "csv") {
+    const [header, ...lines] = parseCsv(text);
+    if (!header) throw new Error("The file is empty.");
+    const keys = header.map((h) => h.trim());
+    rows = lines.map((line) => Object.fromEntries(keys.map((k, i) => [k, line[i] ?? ""])));
+  } else {
+    let json: unknown;
+    try {
+      json = JSON.parse(text);
+    } catch {
+      throw new Error("The file isn't valid JSON.");
+    }
+    const obj = json as { rows?: unknown; readings?: unknown } | null;
+    rows = Array.isArray(json)
+      ? json
+      : Array.isArray(obj?.rows)
+      ? obj.rows
+      : Array.isArray(obj?.readings)
+      ? obj.readings
+      : [];
+    if (!rows.length) throw new Error("No rows found (expected an array, { rows } or { readings }).");
+  }
+
+  const readings: Reading[] = [];
+  const issues: ImportIssue[] = [];
+  rows.forEach((row, idx) => {
+    // Header is row 1 in a CSV, so data starts at 2
+    const rowNo = format === "csv" ? idx + 2 : idx + 1;
+    try {
+      if (!row || typeof row !== "object") throw new Error("not an object");
+      // Full readings (e.g. a history backup) keep their time, standard and profile, rebuilt from the inputs
+      const full = row as Partial<Reading>;
+      if (full.display && full.inputs && typeof full.inputs === "object") {
+        const bad = QUALITY_INPUTS.find((k) => !Number.isFinite(full.inputs?.[k]));
+        if (bad) throw new Error(`inputs.${bad} is not a number`);
+        if (!isReading(full)) throw new Error("display.ts is not a valid time");
+        const rebuilt = rebuildReading(full, opts.profiles);
+        readings.push({ ...rebuilt, stationId: rebuilt.stationId ?? opts.station, imported: true });
+      } else {
+        readings.push(readingFromRow(row as Record<string, unknown>, opts));
+      }
+    } catch (e: unknown) {
+      issues.push({ row: rowNo, error: (e as Error)?.message ?? "invalid row" });
+    }
+  });
+  return { readings, issues, total: rows.length };
+}
@@ -0,0 +1,359 @@
+// ==============================
+// Background ingest poller (server only)
+// ==============================
+//
+// Captures readings on the server so history keeps filling even when no
+// browser has the dashboard open. Started from instrumentation.ts.
+
+import { computeRacingWeather } from "@/lib/weatherCalc";
+import { buildDisplay, type Reading } from "@/lib/reading";
+import { addReading, latestReading, queryHistory } from "@/lib/historyStore";
+import { readJson, updateJson } from "@/lib/fileStore";
+import { getProvider } from "@/lib/providers";
+import { listTuneTables } from "@/lib/tuneStore";
+import { recommend } from "@/lib/tuneTables";
+import { evaluateAlerts } from "@/lib/alerts";
+import { getComputeOptions, getSettings } from "@/lib/settingsStore";
+import { getStationConfig } from "@/lib/stationConfigStore";
+import { resolvePressure } from "@/lib/pressure";
+import { applyQuality, MAX_WINDOW } from "@/lib/quality";
+import { eventTagAt } from "@/lib/eventStore";
+import { publishLive, type LiveStatus } from "@/lib/liveBus";
+
+const LOG_COLLECTION = "ingest-log";
+const LOG_MAX = 500;
+
+const DEFAULT_INTERVAL_SEC = 60;
+const MIN_INTERVAL_SEC = 10;
+
+// A sensor-time jump bigger than this many intervals is logged as a gap.
+const GAP_FACTOR = 2.5;
+
+export type IngestLogEntry =
+  | { type: "failure"; stationId: string; at: string; error: string }
+  | { type: "gap"; stationId: string; at: string; from: string; to: string; minutes: number };
+
+export type StationIngestStatus = {
+  lastAttemptAt: string | null;
+  lastSuccessAt: string | null;
+  lastReadingTs: string | null;
+  lastSensorTs: string | null;
+  lastErrorAt: string | null;
+  lastError: string | null;
+  consecutiveFailures: number;
+  totalSuccesses: number;
+  totalFailures: number;
+  duplicatesSkipped: number;
+};
+
+export type IngestStatus = {
+  running: boolean;
+  intervalSec: number;
+  startedAt: string | null;
+  stations: Record<string, StationIngestStatus>;
+};
+
+type IngestRuntime = {
+  timer: ReturnType<typeof setTimeout> | null;
+  inFlight: Promise<void> | null;
+  // Open streams per station, and the timer that polls for them when the poller is off
+  watchers: Map<string, number>;
+  watchTimer: ReturnType<typeof setTimeout> | null;
+  // Bumped whenever the watch loop stops or restarts; an older loop that was
+  // mid-poll at the time sees the change and doesn't reschedule itself
+  watchGeneration: number;
+  // Same idea for the background poller's loop across stop/start
+  pollerGeneration: number;
+};
+
+export function ingestIntervalSec(): number {
+  const n = Number(process.env.RACEWX_INGEST_INTERVAL_SEC);
+  if (!Number.isFinite(n) || n <= 0) return DEFAULT_INTERVAL_SEC;
+  return Math.max(MIN_INTERVAL_SEC, n);
+}
+
+// Kept on globalThis so dev hot-reloads don't spawn a second poller.
+const g = globalThis as unknown as {
+  __racewxIngest?: IngestStatus;
+  __racewxIngestRuntime?: IngestRuntime;
+};
+const state: IngestStatus = (g.__racewxIngest ??= {
+  running: false,
+  intervalSec: ingestIntervalSec(),
+  startedAt: null,
+  stations: {},
+});
+const runtime: IngestRuntime = (g.__racewxIngestRuntime ??= {
+  timer: null,
+  inFlight: null,
+  watchers: new Map(),
+  watchTimer: null,
+  watchGeneration: 0,
+  pollerGeneration: 0,
+});
+
+function stationState(stationId: string): StationIngestStatus {
+  return (state.stations[stationId] ??= {
+    lastAttemptAt: null,
+    lastSuccessAt: null,
+    lastReadingTs: null,
+    lastSensorTs: null,
+    lastErrorAt: null,
+    lastError: null,
+    consecutiveFailures: 0,
+    totalSuccesses: 0,
+    totalFailures: 0,
+    duplicatesSkipped: 0,
+  });
+}
+
+function appendLog(entry: IngestLogEntry) {
+  return updateJson(LOG_COLLECTION, [] as IngestLogEntry[], (list) => ({
+    value: [entry, ...(Array.isArray(list) ? list : [])].slice(0, LOG_MAX),
+    result: undefined,
+  }));
+}
+
+export async function readIngestLog(limit = 100): Promise<IngestLogEntry[]> {
+  const list = await readJson<IngestLogEntry[]>(LOG_COLLECTION, []);
+  return (Array.isArray(list) ? list : []).slice(0, limit);
+}
+
+/**
+ * One pass of the live pipeline: provider fetch → compute → store.
+ * Shared by /api/live and the poller so both dedupe the same way.
+ */
+export async function captureCurrentReading(
+  stationId?: string
+): Promise<{ reading: Reading; stored: boolean }> {
+  const provider = getProvider();
+  const station = stationId || provider.defaultStationId();
+  const {
+    inputs: provided,
+    pressure: reported,
+    sensorTsMs,
+    sources,
+    meta,
+    stale,
+  } = await provider.fetchCurrent(station);
+  const capturedAt = new Date().toISOString();
+  const sensorTs = sensorTsMs ? new Date(sensorTsMs).toISOString() : null;
+  // Sources that pick "whatever is reporting" (Tempest UDP) name the device in meta
+  const readingStationId = station || meta.stationId;
+
+  // Sea-level / altimeter sources become absolute via the station's elevation
+  const { elevationFt } = await getStationConfig(readingStationId);
+  const { absPressureInHg, info: pressure } = resolvePressure(reported, { elevationFt, tempF: provided.tempF });
+
+  // Range / spike checks and smoothing against this station's recent history
+  const recent = (await queryHistory({ station: readingStationId, limit: MAX_WINDOW + 1 })).readings.filter(
+    (r) => !sensorTs || r.sensorTs !== sensorTs
+  );
+  const { values, quality } = applyQuality(
+    { tempF: provided.tempF, humidityPct: provided.humidityPct, absPressureInHg },
+    recent,
+    (await getSettings()).quality,
+    Date.parse(sensorTs ?? capturedAt)
+  );
+  const inputs = { ...provided, ...values };
+
+  const calc = await getComputeOptions();
+  const raw = computeRacingWeather(
+    {
+      tempF: inputs.tempF,
+      humidityPct: inputs.humidityPct,
+      absPressureInHg: inputs.absPressureInHg,
+    },
+    calc
+  );
+
+  // Stamp with the sensor's own time so age/staleness reflect the observation, not the poll
+  const display = buildDisplay(raw, sensorTs ?? capturedAt, inputs.uvIndex);
+  const tables = await listTuneTables();
+  const event = await eventTagAt(readingStationId, Date.parse(display.ts));
+
+  const reading: Reading = {
+    stationId: readingStationId,
+    provider: provider.id,
+    inputs,
+    display,
+    pressure,
+    quality,
+    ...(event ? { event } : {}),
+    sensorTs,
+    capturedAt,
+    ...(sources?.length ? { sources } : {}),
+    correctionStandard: raw.correctionStandard,
+    calibrationProfileId: calc.calibrationProfileId,
+    ...(tables.length ? { tune: recommend(tables, display) } : {}),
+  };
+
+  // Last good data served while the source is down: shown, never stored again
+  if (stale) return { reading: { ...reading, stale }, stored: false };
+
+  const { added } = await addReading(reading);
+  // Every open stream gets it once, however it was captured
+  if (added > 0) publishLive({ type: "reading", reading });
+  return { reading, stored: added > 0 };
+}
+
+async function previousSensorMs(stationId: string): Promise<number | null> {
+  const prevIso =
+    stationState(stationId).lastSensorTs ?? (await latestReading(stationId))?.sensorTs ?? null;
+  const ms = prevIso ? Date.parse(prevIso) : NaN;
+  return Number.isFinite(ms) ? ms : null;
+}
+
+/**
+ * A station's health as the stream reports it.
+ */
+export function liveStatus(stationId: string): LiveStatus {
+  const st = stationState(stationId);
+  return {
+    stationId,
+    ok: st.consecutiveFailures === 0,
+    lastError: st.lastError,
+    lastSuccessAt: st.lastSuccessAt,
+    consecutiveFailures: st.consecutiveFailures,
+    polling: state.running || runtime.watchers.has(stationId),
+  };
+}
+
+async function pollStation(stationId: string): Promise<void> {
+  const st = stationState(stationId);
+  const wasOk = st.lastAttemptAt === null ? null : st.consecutiveFailures === 0;
+  st.lastAttemptAt = new Date().toISOString();
+  try {
+    const prevMs = await previousSensorMs(stationId);
+    const { reading, stored } = await captureCurrentReading(stationId);
+    // For the poller an outage is a failure, even though viewers are shown the last good data
+    if (reading.stale) throw new Error(reading.stale.reason);
+
+    st.lastSuccessAt = new Date().toISOString();
+    st.consecutiveFailures = 0;
+    st.lastError = null;
+    st.totalSuccesses++;
+
+    if (!stored) {
+      st.duplicatesSkipped++;
+      return;
+    }
+
+    st.lastReadingTs = reading.display.ts;
+
+    const curMs = reading.sensorTs ? Date.parse(reading.sensorTs) : NaN;
+    if (Number.isFinite(curMs)) {
+      if (prevMs !== null && curMs - prevMs > state.intervalSec * 1000 * GAP_FACTOR) {
+        await appendLog({
+          type: "gap",
+          stationId,
+          at: st.lastSuccessAt,
+          from: new Date(prevMs).toISOString(),
+          to: new Date(curMs).toISOString(),
+          minutes: Math.round((curMs - prevMs) / 60_000),
+        });
+      }
+      st.lastSensorTs = reading.sensorTs ?? null;
+    }
+  } catch (err: unknown) {
+    const message = (err as Error)?.message ?? "Unknown error";
+    st.lastErrorAt = new Date().toISOString();
+    st.lastError = message;
+    st.consecutiveFailures++;
+    st.totalFailures++;
+    await appendLog({ type: "failure", stationId, at: st.lastErrorAt, error: message }).catch(() => undefined);
+  }
+
+  // Streams hear about the first poll and every flip between working and failing
+  if (wasOk !== (st.consecutiveFailures === 0)) publishLive({ type: "status", status: liveStatus(stationId) });
+
+  // After success *and* failure: OFFLINE rules need to see the failed polls too
+  await evaluateAlerts(stationId).catch(() => undefined);
+}
+
+async function pollOnce(): Promise<void> {
+  // One station at a time keeps us well inside the WeatherLink rate limit
+  for (const stationId of getProvider().stationIds()) {
+    await pollStation(stationId);
+  }
+}
+
+function scheduleNext(generation: number) {
+  // Stopped, or stopped and started again while this loop's poll was running
+  if (!state.running || generation !== runtime.pollerGeneration) return;
+  runtime.timer = setTimeout(async () => {
+    await runIngestNow();
+    scheduleNext(generation);
+  }, state.intervalSec * 1000);
+}
+
+/**
+ * Run a poll immediately (or join the one already in progress).
+ */
+export function runIngestNow(): Promise<void> {
+  if (!runtime.inFlight) {
+    runtime.inFlight = pollOnce().finally(() => {
+      runtime.inFlight = null;
+    });
+  }
+  return runtime.inFlight;
+}
+
+export function startIngest(intervalSec = ingestIntervalSec()) {
+  if (state.running) return;
+  state.running = true;
+  state.intervalSec = intervalSec;
+  state.startedAt = new Date().toISOString();
+  const generation = ++runtime.pollerGeneration;
+  runIngestNow().finally(() => scheduleNext(generation));
+}
+
+export function stopIngest() {
+  state.running = false;
+  runtime.pollerGeneration++;
+  if (runtime.timer) clearTimeout(runtime.timer);
+  runtime.timer = null;
+}
+
+function scheduleWatched(delayMs: number, generation = ++runtime.watchGeneration) {
+  runtime.watchTimer = setTimeout(async () => {
+    // The background poller already covers these when it's running
+    if (!state.running) {
+      for (const stationId of [...runtime.watchers.keys()]) {
+        if (generation !== runtime.watchGeneration) return;
+        await pollStation(stationId);
+      }
+    }
+    if (generation !== runtime.watchGeneration) return;
+    if (runtime.watchers.size) scheduleWatched(state.intervalSec * 1000, generation);
+    else runtime.watchTimer = null;
+  }, delayMs);
+}
+
+/**
+ * Keep a station polled while an open stream is watching it. Only does
+ * anything when the background poller is off (RACEWX_INGEST=off), and then
+ * polls once per interval however many tabs are watching. Returns the unwatch.
+ */
+export function watchStation(stationId: string): () => void {
+  runtime.watchers.set(stationId, (runtime.watchers.get(stationId) ?? 0) + 1);
+  if (!runtime.watchTimer) scheduleWatched(0);
+
+  let done = false;
+  return () => {
+    if (done) return;
+    done = true;
+    const left = (runtime.watchers.get(stationId) ?? 1) - 1;
+    if (left > 0) runtime.watchers.set(stationId, left);
+    else runtime.watchers.delete(stationId);
+    if (!runtime.watchers.size && runtime.watchTimer) {
+      clearTimeout(runtime.watchTimer);
+      runtime.watchTimer = null;
+      runtime.watchGeneration++;
+    }
+  };
+}
+
+export function getIngestStatus(): IngestStatus {
+  return { ...state, stations: { ...state.stations } };
+}
@@ -0,0 +1,44 @@
+// ==============================
+// In-process broadcast of new readings and station status (server only)
+// ==============================
+//
+// The capture pipeline publishes here once per stored reading; every open
+// /api/stream connection is a subscriber. Listeners live on globalThis so the
+// route and the poller share them across dev hot-reloads.
+
+import type { Reading } from "@/lib/reading";
+
+export type LiveStatus = {
+  stationId: string;
+  // False while the latest poll of this station failed
+  ok: boolean;
+  lastError: string | null;
+  lastSuccessAt: string | null;
+  consecutiveFailures: number;
+  // Something (the background poller or an open stream) is polling this station
+  polling: boolean;
+};
+
+export type LiveEvent = { type: "reading"; reading: Reading } | { type: "status"; status: LiveStatus };
+
+type Listener = (event: LiveEvent) => void;
+
+const g = globalThis as unknown as { __racewxLiveListeners?: Set<Listener> };
+const listeners: Set<Listener> = (g.__racewxLiveListeners ??= new Set());
+
+export function subscribeLive(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function publishLive(event: LiveEvent) {
+  for (const listener of listeners) {
+    try {
+      listener(event);
+    } catch {
+      // One broken connection mustn't stop the others
+    }
+  }
+}
@@ -0,0 +1,263 @@
+// ==============================
+// OpenAPI 3.1 description of /api/v1 (served at /api/v1/openapi.json)
+// ==============================
+//
+// Field units, precision and error codes come from lib/apiV1, so the
+// document can't drift from what the handlers return.
+
+import {
+  API_V1_VERSION,
+  V1_ERROR_STATUS,
+  V1_FIELD_KEYS,
+  V1_FIELDS,
+  V1_READINGS_LIMIT,
+  v1Decimals,
+  type V1ErrorCode,
+} from "@/lib/apiV1";
+import { CORRECTION_STANDARDS } from "@/lib/weatherCalc";
+import { QUALITY_INPUTS, VALID_RANGES } from "@/lib/quality";
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+const nullable = (schema: object) => ({ oneOf: [schema, { type: "null" }] });
+
+const isoTime = { type: "string", format: "date-time" };
+
+const stationParam = {
+  name: "station",
+  in: "query",
+  required: false,
+  description: "Station id; defaults to the configured default station.",
+  schema: { type: "string" },
+};
+
+function timeParam(name: string, description: string) {
+  return {
+    name,
+    in: "query",
+    required: false,
+    description: `${description} ISO 8601 or unix milliseconds, inclusive.`,
+    schema: { type: "string" },
+  };
+}
+
+function errorResponses(...codes: V1ErrorCode[]) {
+  return Object.fromEntries(
+    codes.map((code) => [
+      String(V1_ERROR_STATUS[code]),
+      {
+        description: `\`${code}\``,
+        content: { "application/json": { schema: ref("Error") } },
+      },
+    ])
+  );
+}
+
+function okResponse(description: string, schema: object) {
+  return { "200": { description, content: { "application/json": { schema } } } };
+}
+
+function valuesSchema() {
+  return {
+    type: "object",
+    description: "Imperial values, rounded to each field's x-decimals. null when the reading doesn't have it.",
+    required: V1_FIELD_KEYS,
+    additionalProperties: false,
+    properties: Object.fromEntries(
+      V1_FIELD_KEYS.map((k) => [
+        k,
+        {
+          type: ["number", "null"],
+          description: `${V1_FIELDS[k].description} (${V1_FIELDS[k].unit}, ${v1Decimals(k)} decimals)`,
+          "x-unit": V1_FIELDS[k].unit,
+          "x-decimals": v1Decimals(k),
+        },
+      ])
+    ),
+  };
+}
+
+const correctionStandard = { type: "string", enum: Object.keys(CORRECTION_STANDARDS) };
+
+export function openApiV1Document() {
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "RaceWx public API",
+      version: API_V1_VERSION,
+      description:
+        "Stable read API for tools outside the app. Fields may be added within v1; " +
+        "none are renamed, removed or change unit. Every error is an Error object with a machine-readable code.",
+    },
+    paths: {
+      "/api/v1/current": {
+        get: {
+          operationId: "getCurrent",
+          summary: "Capture and return the station's current reading",
+          parameters: [stationParam],
+          responses: {
+            ...okResponse("Current reading", {
+              type: "object",
+              required: ["reading"],
+              properties: { reading: ref("Reading") },
+            }),
+            ...errorResponses("source_unavailable"),
+          },
+        },
+      },
+      "/api/v1/readings": {
+        get: {
+          operationId: "listReadings",
+          summary: "Stored readings for a station, newest first",
+          parameters: [
+            stationParam,
+            timeParam("from", "Oldest observation time to include."),
+            timeParam("to", "Newest observation time to include."),
+            {
+              name: "limit",
+              in: "query",
+              required: false,
+              schema: {
+                type: "integer",
+                minimum: 1,
+                maximum: V1_READINGS_LIMIT.max,
+                default: V1_READINGS_LIMIT.default,
+              },
+            },
+            { name: "offset", in: "query", required: false, schema: { type: "integer", minimum: 0, default: 0 } },
+          ],
+          responses: {
+            ...okResponse("One page of readings", {
+              type: "object",
+              required: ["readings", "total", "offset", "limit"],
+              properties: {
+                readings: { type: "array", items: ref("Reading") },
+                total: { type: "integer", description: "Readings matching the filter, across all pages" },
+                offset: { type: "integer" },
+                limit: { type: "integer" },
+              },
+            }),
+            ...errorResponses("invalid_parameter", "internal"),
+          },
+        },
+      },
+      "/api/v1/calc": {
+        get: {
+          operationId: "calc",
+          summary: "Run the racing-weather calc on given inputs",
+          description: "Uses the app's calibration profile. Nothing is stored.",
+          parameters: [
+            ...QUALITY_INPUTS.map((k) => ({
+              name: k,
+              in: "query",
+              required: true,
+              description: `${V1_FIELDS[k].description} (${V1_FIELDS[k].unit})`,
+              schema: { type: "number", minimum: VALID_RANGES[k].min, maximum: VALID_RANGES[k].max },
+            })),
+            {
+              name: "standard",
+              in: "query",
+              required: false,
+              description: "Correction standard behind values.correction; defaults to the app's setting.",
+              schema: correctionStandard,
+            },
+          ],
+          responses: {
+            ...okResponse("Calc result", {
+              type: "object",
+              required: ["result"],
+              properties: {
+                result: {
+                  type: "object",
+                  required: ["inputs", "values", "correctionStandard", "calibrationProfileId"],
+                  properties: {
+                    inputs: {
+                      type: "object",
+                      properties: Object.fromEntries(QUALITY_INPUTS.map((k) => [k, { type: "number" }])),
+                    },
+                    values: ref("Values"),
+                    correctionStandard,
+                    calibrationProfileId: nullable({ type: "string" }),
+                  },
+                },
+              },
+            }),
+            ...errorResponses("invalid_parameter", "internal"),
+          },
+        },
+      },
+      "/api/v1/openapi.json": {
+        get: {
+          operationId: "getOpenApi",
+          summary: "This document",
+          responses: okResponse("OpenAPI document", { type: "object" }),
+        },
+      },
+    },
+    components: {
+      schemas: {
+        Values: valuesSchema(),
+        Reading: {
+          type: "object",
+          required: [
+            "stationId",
+            "provider",
+            "observedAt",
+            "capturedAt",
+            "values",
+            "correctionStandard",
+            "calibrationProfileId",
+            "quality",
+            "origin",
+            "stale",
+            "event",
+          ],
+          properties: {
+            stationId: { type: "string" },
+            provider: { type: "string", description: "Weather source, e.g. weatherlink, ambient, tempest" },
+            observedAt: { ...isoTime, description: "Sensor observation time; unique per station" },
+            capturedAt: nullable({ ...isoTime, description: "Server fetch time" }),
+            values: ref("Values"),
+            correctionStandard,
+            calibrationProfileId: nullable({ type: "string" }),
+            quality: nullable({
+              type: "string",
+              enum: ["ok", "smoothed", "filtered"],
+              description: "filtered = an input was out of range or jumped and was replaced",
+            }),
+            origin: { type: "string", enum: ["live", "backfill", "import"] },
+            stale: nullable({
+              type: "object",
+              description: "Only on /current: the source is down and this is its last good data",
+              required: ["reason", "fetchedAt"],
+              properties: { reason: { type: "string" }, fetchedAt: isoTime },
+            }),
+            event: nullable({
+              type: "object",
+              required: ["id", "sessionId", "session"],
+              properties: {
+                id: { type: "string" },
+                sessionId: nullable({ type: "string" }),
+                session: nullable({ type: "string", description: "Session label, e.g. Q2" }),
+              },
+            }),
+          },
+        },
+        Error: {
+          type: "object",
+          required: ["error"],
+          properties: {
+            error: {
+              type: "object",
+              required: ["code", "message"],
+              properties: {
+                code: { type: "string", enum: Object.keys(V1_ERROR_STATUS) },
+                message: { type: "string", description: "Human-readable; may change" },
+                param: { type: "string", description: "Query parameter at fault (invalid_parameter only)" },
+              },
+            },
+          },
+        },
+      },
+    },
+  };
+}
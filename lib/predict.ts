@@ -0,0 +1,158 @@
+// ==============================
+// ET / MPH prediction from logged passes
+// ==============================
+//
+// Ordinary least squares with a touch of ridge: ADR, DA and correction all
+// move together, so plain normal equations get unstable with few passes.
+// Features are standardized before fitting so the ridge term treats them
+// evenly.
+
+import type { Run } from "@/lib/runStore";
+
+export type ModelFeature = "adr" | "densityAltFt" | "correction" | "humidityGrains" | "trackTempF";
+export type ModelTarget = "et" | "mph";
+export type ModelDistance = "quarter" | "eighth";
+
+export const BASE_FEATURES: ModelFeature[] = ["adr", "densityAltFt", "correction", "humidityGrains"];
+
+const RIDGE_LAMBDA = 0.05;
+// Prediction band: ±2σ (≈95%) scaled by leverage
+const BAND_SIGMAS = 2;
+
+export type ModelConditions = Partial<Record<ModelFeature, number | null>>;
+
+export type Residual = { runId: string; runAt: string; actual: number; predicted: number; residual: number };
+
+export type FittedModel = {
+  target: ModelTarget;
+  distance: ModelDistance;
+  features: ModelFeature[];
+  n: number;
+  r2: number;
+  sigma: number;
+  means: number[];
+  scales: number[];
+  coef: number[]; // [intercept, ...standardized feature weights]
+  xtxInv: number[][];
+  residuals: Residual[];
+};
+
+export type Prediction = { value: number; low: number; high: number };
+
+function targetValue(run: Run, target: ModelTarget, distance: ModelDistance): number | null {
+  if (distance === "quarter") return target === "et" ? run.quarterEt : run.quarterMph;
+  return target === "et" ? run.eighthEt : run.eighthMph;
+}
+
+function featureValue(run: Run, f: ModelFeature): number | null {
+  if (f === "trackTempF") return run.trackTempF ?? null;
+  const v = run.weather?.[f];
+  return typeof v === "number" && Number.isFinite(v) ? v : null;
+}
+
+// Gauss-Jordan inverse; matrices here are at most 6×6
+function invert(m: number[][]): number[][] | null {
+  const n = m.length;
+  const a = m.map((row, i) => [...row, ...Array.from({ length: n }, (_, j) => (i === j ? 1 : 0))]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) if (Math.abs(a[r][col]) > Math.abs(a[pivot][col])) pivot = r;
+    if (Math.abs(a[pivot][col]) < 1e-12) return null;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+
+    const p = a[col][col];
+    for (let j = 0; j < 2 * n; j++) a[col][j] /= p;
+    for (let r = 0; r < n; r++) {
+      if (r === col) continue;
+      const factor = a[r][col];
+      for (let j = 0; j < 2 * n; j++) a[r][j] -= factor * a[col][j];
+    }
+  }
+  return a.map((row) => row.slice(n));
+}
+
+function designRow(x: number[], means: number[], scales: number[]): number[] {
+  return [1, ...x.map((v, i) => (v - means[i]) / scales[i])];
+}
+
+/**
+ * Fit one target (ET or MPH) for the given runs. Runs flagged `excluded` or
+ * missing the target / any feature are skipped. Returns null when there are
+ * too few usable passes.
+ */
+export function fitModel(
+  runs: Run[],
+  target: ModelTarget,
+  distance: ModelDistance,
+  features: ModelFeature[] = BASE_FEATURES
+): FittedModel | null {
+  const rows: { run: Run; x: number[]; y: number }[] = [];
+  for (const run of runs) {
+    if (run.excluded) continue;
+    const y = targetValue(run, target, distance);
+    const x = features.map((f) => featureValue(run, f));
+    if (y === null || x.some((v) => v === null)) continue;
+    rows.push({ run, x: x as number[], y });
+  }
+
+  const k = features.length;
+  if (rows.length < k + 2) return null;
+
+  const means = features.map((_, i) => rows.reduce((s, r) => s + r.x[i], 0) / rows.length);
+  const scales = features.map((_, i) => {
+    const v = rows.reduce((s, r) => s + (r.x[i] - means[i]) ** 2, 0) / rows.length;
+    return Math.sqrt(v) || 1;
+  });
+
+  // (XᵀX + λI) β = Xᵀy, intercept not penalized
+  const X = rows.map((r) => designRow(r.x, means, scales));
+  const xtx = Array.from({ length: k + 1 }, (_, i) =>
+    Array.from({ length: k + 1 }, (_, j) => X.reduce((s, row) => s + row[i] * row[j], 0))
+  );
+  for (let i = 1; i <= k; i++) xtx[i][i] += RIDGE_LAMBDA * rows.length;
+  const xtxInv = invert(xtx);
+  if (!xtxInv) return null;
+
+  const xty = Array.from({ length: k + 1 }, (_, i) => X.reduce((s, row, n) => s + row[i] * rows[n].y, 0));
+  const coef = xtxInv.map((row) => row.reduce((s, v, j) => s + v * xty[j], 0));
+
+  const predicted = X.map((row) => row.reduce((s, v, j) => s + v * coef[j], 0));
+  const meanY = rows.reduce((s, r) => s + r.y, 0) / rows.length;
+  const ssRes = rows.reduce((s, r, i) => s + (r.y - predicted[i]) ** 2, 0);
+  const ssTot = rows.reduce((s, r) => s + (r.y - meanY) ** 2, 0);
+
+  return {
+    target,
+    distance,
+    features,
+    n: rows.length,
+    r2: ssTot > 0 ? 1 - ssRes / ssTot : 0,
+    sigma: Math.sqrt(ssRes / Math.max(1, rows.length - k - 1)),
+    means,
+    scales,
+    coef,
+    xtxInv,
+    residuals: rows.map((r, i) => ({
+      runId: r.run.id,
+      runAt: r.run.runAt,
+      actual: r.y,
+      predicted: predicted[i],
+      residual: r.y - predicted[i],
+    })),
+  };
+}
+
+export function predict(model: FittedModel, conditions: ModelConditions): Prediction | null {
+  const x = model.features.map((f) => conditions[f]);
+  if (x.some((v) => typeof v !== "number" || !Number.isFinite(v))) return null;
+
+  const row = designRow(x as number[], model.means, model.scales);
+  const value = row.reduce((s, v, j) => s + v * model.coef[j], 0);
+
+  // leverage h = xᵀ (XᵀX)⁻¹ x widens the band away from the training data
+  const h = row.reduce((s, vi, i) => s + vi * row.reduce((t, vj, j) => t + model.xtxInv[i][j] * vj, 0), 0);
+  const half = BAND_SIGMAS * model.sigma * Math.sqrt(1 + Math.max(0, h));
+
+  return { value, low: value - half, high: value + half };
+}
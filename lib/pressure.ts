@@ -0,0 +1,120 @@
+// ==============================
+// Absolute / sea-level / altimeter pressure
+// ==============================
+//
+// The calc wants absolute (station) pressure. Many sources only give a
+// sea-level reduction or an altimeter setting, which can be turned back into
+// station pressure once the station's elevation is known.
+
+import { HPA_PER_INHG, M_PER_FT } from "@/lib/units";
+
+export type PressureType = "absolute" | "seaLevel" | "altimeter";
+
+export const PRESSURE_TYPES: Record<PressureType, { label: string }> = {
+  absolute: { label: "Absolute (station)" },
+  seaLevel: { label: "Sea-level" },
+  altimeter: { label: "Altimeter setting" },
+};
+
+export function isPressureType(x: unknown): x is PressureType {
+  return typeof x === "string" && Object.hasOwn(PRESSURE_TYPES, x);
+}
+
+// What a source reported, before any conversion
+export type ReportedPressure = { type: PressureType; inHg: number };
+
+// Stamped on the reading so the UI can say what the calc was fed
+export type PressureInfo = {
+  type: PressureType;
+  reportedInHg: number;
+  elevationFt: number | null;
+  // Equivalents of the absolute pressure (null without an elevation)
+  seaLevelInHg: number | null;
+  altimeterInHg: number | null;
+  // ISA pressure at the elevation, for the plausibility check
+  expectedInHg: number | null;
+  warning: string | null;
+};
+
+// Weather moves station pressure about ±1 inHg around ISA at the extremes
+export const PLAUSIBLE_DEVIATION_INHG = 1.0;
+
+// NWS altimeter-setting constants (hPa, m)
+const ALT_N = 0.190284;
+const ALT_K = (1013.25 ** ALT_N * 0.0065) / 288.15;
+
+export function isaPressureInHg(elevationFt: number): number {
+  return 29.92126 * (1 - 6.8755856e-6 * elevationFt) ** 5.2558797;
+}
+
+export function altimeterToStationInHg(altInHg: number, elevationFt: number): number {
+  const a = altInHg * HPA_PER_INHG;
+  const h = elevationFt * M_PER_FT;
+  return ((a ** ALT_N - ALT_K * h) ** (1 / ALT_N) + 0.3) / HPA_PER_INHG;
+}
+
+export function stationToAltimeterInHg(stationInHg: number, elevationFt: number): number {
+  const p = stationInHg * HPA_PER_INHG - 0.3;
+  const h = elevationFt * M_PER_FT;
+  return (p * (1 + (ALT_K * h) / p ** ALT_N) ** (1 / ALT_N)) / HPA_PER_INHG;
+}
+
+// Sea-level reduction uses the station temperature (same form most consoles use)
+function seaLevelRatio(elevationFt: number, tempF: number): number {
+  const h = elevationFt * M_PER_FT;
+  const tC = (tempF - 32) * (5 / 9);
+  return (1 - (0.0065 * h) / (tC + 0.0065 * h + 273.15)) ** 5.257;
+}
+
+export function seaLevelToStationInHg(slpInHg: number, elevationFt: number, tempF: number): number {
+  return slpInHg * seaLevelRatio(elevationFt, tempF);
+}
+
+export function stationToSeaLevelInHg(stationInHg: number, elevationFt: number, tempF: number): number {
+  return stationInHg / seaLevelRatio(elevationFt, tempF);
+}
+
+/**
+ * Absolute pressure for the calc from whatever the source reported, plus the
+ * details to stamp on the reading. Throws when a sea-level or altimeter value
+ * arrives for a station with no elevation configured.
+ */
+export function resolvePressure(
+  reported: ReportedPressure,
+  { elevationFt, tempF }: { elevationFt: number | null; tempF: number }
+): { absPressureInHg: number; info: PressureInfo } {
+  if (reported.type !== "absolute" && elevationFt === null) {
+    throw new Error(
+      `Source reports ${PRESSURE_TYPES[reported.type].label.toLowerCase()} pressure; set the station elevation to derive absolute pressure.`
+    );
+  }
+
+  const abs =
+    reported.type === "seaLevel"
+      ? seaLevelToStationInHg(reported.inHg, elevationFt!, tempF)
+      : reported.type === "altimeter"
+      ? altimeterToStationInHg(reported.inHg, elevationFt!)
+      : reported.inHg;
+
+  const expected = elevationFt !== null ? isaPressureInHg(elevationFt) : null;
+  const off = expected !== null ? abs - expected : 0;
+  const warning =
+    expected !== null && Math.abs(off) > PLAUSIBLE_DEVIATION_INHG
+      ? `Absolute pressure ${abs.toFixed(2)} inHg is ${Math.abs(off).toFixed(2)} inHg ${
+          off > 0 ? "above" : "below"
+        } the ~${expected.toFixed(2)} inHg expected at ${Math.round(elevationFt!)} ft. Check the station elevation and pressure type.`
+      : null;
+
+  return {
+    absPressureInHg: abs,
+    info: {
+      type: reported.type,
+      reportedInHg: reported.inHg,
+      elevationFt,
+      seaLevelInHg: elevationFt !== null ? stationToSeaLevelInHg(abs, elevationFt, tempF) : null,
+      altimeterInHg: elevationFt !== null ? stationToAltimeterInHg(abs, elevationFt) : null,
+      expectedInHg: expected,
+      warning,
+    },
+  };
+}
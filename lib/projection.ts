@@ -0,0 +1,133 @@
+// ==============================
+// Short-term projection of conditions to a target time
+// ==============================
+//
+// Straight-line trend of each input over the recent lookback, extrapolated to
+// the target and run through computeRacingWeather. The band is the ±2σ
+// prediction interval of each trend line (it widens the further out you go);
+// output bands come from the corners of the input bands, which bound them
+// because every output is monotonic in each input.
+
+import { computeRacingWeather, type ComputeOptions, type Inputs } from "@/lib/weatherCalc";
+import type { Reading } from "@/lib/reading";
+import { linearFit, seriesFor } from "@/lib/trend";
+
+export const DEFAULT_LOOKBACK_MIN = 90;
+export const MAX_HORIZON_HOURS = 12;
+const MIN_POINTS = 5;
+const BAND_SIGMAS = 2;
+
+// Sensor resolution: never claim a tighter band than the station can measure
+const MIN_HALF_BAND: Inputs = { tempF: 0.5, humidityPct: 1, absPressureInHg: 0.005 };
+
+const INPUT_KEYS = ["tempF", "humidityPct", "absPressureInHg"] as const;
+export const PROJECTED_OUTPUTS = ["adr", "adr2", "densityAltFt", "correction"] as const;
+
+export type Band = { value: number; low: number; high: number };
+export type ProjectedOutput = (typeof PROJECTED_OUTPUTS)[number];
+
+export type Projection = {
+  stationId: string;
+  createdAt: string;
+  targetAt: string;
+  lookbackMin: number;
+  basis: { n: number; fromTs: string; toTs: string };
+  inputs: Record<keyof Inputs, Band & { perHour: number }>;
+  outputs: Record<ProjectedOutput, Band>;
+};
+
+function outputsFor(inputs: Inputs, calc?: ComputeOptions): Record<ProjectedOutput, number> {
+  const raw = computeRacingWeather(inputs, calc);
+  return { adr: raw.adrPct, adr2: raw.adr2, densityAltFt: raw.densityAltFt, correction: raw.correction };
+}
+
+function clampInput(key: keyof Inputs, v: number): number {
+  return key === "humidityPct" ? Math.min(100, Math.max(0, v)) : v;
+}
+
+/**
+ * Project `readings` (any order, one station) to `targetMs`. Throws with a
+ * user-facing message when there isn't enough recent data.
+ */
+export function projectConditions(
+  readings: Reading[],
+  targetMs: number,
+  opts: { stationId: string; lookbackMin?: number; nowMs?: number; calc?: ComputeOptions }
+): Projection {
+  const nowMs = opts.nowMs ?? Date.now();
+  const lookbackMin = opts.lookbackMin ?? DEFAULT_LOOKBACK_MIN;
+
+  if (!Number.isFinite(targetMs)) throw new Error("Target time is invalid.");
+  if (targetMs - nowMs > MAX_HORIZON_HOURS * 3_600_000) {
+    throw new Error(`Projections are limited to ${MAX_HORIZON_HOURS} hours ahead.`);
+  }
+
+  const recent = readings.filter((r) => Date.parse(r.display.ts) >= nowMs - lookbackMin * 60_000);
+  if (recent.length < MIN_POINTS) {
+    throw new Error(`Need at least ${MIN_POINTS} readings in the last ${lookbackMin} min to project.`);
+  }
+
+  const inputs = {} as Projection["inputs"];
+  for (const key of INPUT_KEYS) {
+    const points = seriesFor(recent, key);
+    const fit = linearFit(points);
+    if (!fit) throw new Error("Readings span no time; can't fit a trend.");
+
+    const dx = targetMs - fit.meanMs;
+    const value = fit.intercept + fit.slope * dx;
+    const se = fit.sigma * Math.sqrt(1 + 1 / fit.n + (dx * dx) / fit.sxx);
+    const half = Math.max(BAND_SIGMAS * se, MIN_HALF_BAND[key]);
+
+    inputs[key] = {
+      value: clampInput(key, value),
+      low: clampInput(key, value - half),
+      high: clampInput(key, value + half),
+      perHour: fit.slope * 3_600_000,
+    };
+  }
+
+  const central = outputsFor(
+    {
+      tempF: inputs.tempF.value,
+      humidityPct: inputs.humidityPct.value,
+      absPressureInHg: inputs.absPressureInHg.value,
+    },
+    opts.calc
+  );
+  const outputs = {} as Projection["outputs"];
+  for (const k of PROJECTED_OUTPUTS) outputs[k] = { value: central[k], low: central[k], high: central[k] };
+
+  for (const t of ["low", "high"] as const) {
+    for (const h of ["low", "high"] as const) {
+      for (const p of ["low", "high"] as const) {
+        const corner = outputsFor(
+          {
+            tempF: inputs.tempF[t],
+            humidityPct: inputs.humidityPct[h],
+            absPressureInHg: inputs.absPressureInHg[p],
+          },
+          opts.calc
+        );
+        for (const k of PROJECTED_OUTPUTS) {
+          outputs[k].low = Math.min(outputs[k].low, corner[k]);
+          outputs[k].high = Math.max(outputs[k].high, corner[k]);
+        }
+      }
+    }
+  }
+
+  const times = recent.map((r) => Date.parse(r.display.ts));
+  return {
+    stationId: opts.stationId,
+    createdAt: new Date(nowMs).toISOString(),
+    targetAt: new Date(targetMs).toISOString(),
+    lookbackMin,
+    basis: {
+      n: recent.length,
+      fromTs: new Date(Math.min(...times)).toISOString(),
+      toTs: new Date(Math.max(...times)).toISOString(),
+    },
+    inputs,
+    outputs,
+  };
+}
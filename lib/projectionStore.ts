@@ -0,0 +1,125 @@
+// ==============================
+// Saved projections, scored against what actually happened
+// ==============================
+
+import { newId, readJson, updateJson } from "@/lib/fileStore";
+import { nearestReading, queryHistory } from "@/lib/historyStore";
+import { getComputeOptions } from "@/lib/settingsStore";
+import {
+  DEFAULT_LOOKBACK_MIN,
+  PROJECTED_OUTPUTS,
+  projectConditions,
+  type ProjectedOutput,
+  type Projection,
+} from "@/lib/projection";
+
+const COLLECTION = "projections";
+const PROJECTIONS_MAX = 500;
+
+// The reading used as "actual" must be this close to the target time
+const ACTUAL_MAX_DIFF_MS = 10 * 60_000;
+
+export type SavedProjection = Projection & {
+  id: string;
+  // Filled in once the target time has passed (null if no reading was close enough)
+  actual: ({ readingTs: string } & Record<ProjectedOutput, number>) | null;
+  checkedAt: string | null;
+};
+
+export type ProjectionAccuracy = Record<
+  ProjectedOutput,
+  { n: number; meanAbsError: number | null; meanError: number | null; withinBandPct: number | null }
+>;
+
+/**
+ * Compute a projection for a station from its stored history.
+ */
+export async function makeProjection(
+  stationId: string,
+  targetMs: number,
+  lookbackMin?: number
+): Promise<Projection> {
+  const nowMs = Date.now();
+  const { readings } = await queryHistory({
+    station: stationId,
+    from: nowMs - (lookbackMin ?? DEFAULT_LOOKBACK_MIN) * 60_000,
+    limit: 5000,
+  });
+  const calc = await getComputeOptions();
+  return projectConditions(readings, targetMs, { stationId, lookbackMin, nowMs, calc });
+}
+
+export function saveProjection(p: Projection): Promise<SavedProjection> {
+  const saved: SavedProjection = { ...p, id: newId("pj"), actual: null, checkedAt: null };
+  return updateJson(COLLECTION, [] as SavedProjection[], (list) => ({
+    value: [saved, ...(Array.isArray(list) ? list : [])].slice(0, PROJECTIONS_MAX),
+    result: saved,
+  }));
+}
+
+/**
+ * Look up the actual reading for projections whose target has passed. Each
+ * projection is checked once.
+ */
+async function resolveActuals(list: SavedProjection[], nowMs: number): Promise<boolean> {
+  let changed = false;
+  for (const p of list) {
+    if (p.checkedAt) continue;
+    const targetMs = Date.parse(p.targetAt);
+    if (nowMs < targetMs + ACTUAL_MAX_DIFF_MS) continue;
+
+    const r = await nearestReading(targetMs, p.stationId || null, ACTUAL_MAX_DIFF_MS);
+    p.actual = r
+      ? {
+          readingTs: r.display.ts,
+          adr: r.display.adr,
+          adr2: r.display.adr2,
+          densityAltFt: r.display.densityAltFt,
+          correction: r.display.correction,
+        }
+      : null;
+    p.checkedAt = new Date(nowMs).toISOString();
+    changed = true;
+  }
+  return changed;
+}
+
+export async function listProjections(station?: string | null): Promise<SavedProjection[]> {
+  const raw = await readJson<SavedProjection[]>(COLLECTION, []);
+  const list = Array.isArray(raw) ? raw : [];
+
+  if (await resolveActuals(list, Date.now())) {
+    const byId = new Map(list.map((p) => [p.id, p]));
+    await updateJson(COLLECTION, [] as SavedProjection[], (current) => ({
+      value: (Array.isArray(current) ? current : []).map((p) => byId.get(p.id) ?? p),
+      result: undefined,
+    }));
+  }
+
+  return station ? list.filter((p) => p.stationId === station) : list;
+}
+
+export function projectionAccuracy(list: SavedProjection[]): ProjectionAccuracy {
+  const out = {} as ProjectionAccuracy;
+  for (const k of PROJECTED_OUTPUTS) {
+    const scored = list.filter((p) => p.actual);
+    const errors = scored.map((p) => p.actual![k] - p.outputs[k].value);
+    const within = scored.filter((p) => p.actual![k] >= p.outputs[k].low && p.actual![k] <= p.outputs[k].high);
+    const n = scored.length;
+    out[k] = {
+      n,
+      meanAbsError: n ? errors.reduce((s, e) => s + Math.abs(e), 0) / n : null,
+      meanError: n ? errors.reduce((s, e) => s + e, 0) / n : null,
+      withinBandPct: n ? (within.length / n) * 100 : null,
+    };
+  }
+  return out;
+}
+
+export function deleteProjection(id: string): Promise<{ deleted: number }> {
+  return updateJson(COLLECTION, [] as SavedProjection[], (list) => {
+    const all = Array.isArray(list) ? list : [];
+    const kept = all.filter((p) => p.id !== id);
+    return { value: kept, result: { deleted: all.length - kept.length } };
+  });
+}
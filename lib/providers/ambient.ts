@@ -0,0 +1,109 @@
+// Ambient Weather Network REST API:
+// https://rt.ambientweather.net/v1/devices?applicationKey=...&apiKey=...
+// Station id is the device MAC address.
+
+import type { ProviderReading, WeatherProvider } from "@/lib/providers/types";
+
+export type AmbientDevice = {
+  macAddress: string;
+  info?: { name?: string; location?: string };
+  lastData?: Record<string, unknown>;
+};
+
+function ambientBaseUrl(): string {
+  return (process.env.AMBIENT_BASE_URL || "https://rt.ambientweather.net").replace(/\/+$/, "");
+}
+
+function num(v: unknown): number | null {
+  return typeof v === "number" && Number.isFinite(v) ? v : null;
+}
+
+async function fetchAmbientDevices(): Promise<AmbientDevice[]> {
+  const apiKey = process.env.AMBIENT_API_KEY;
+  const appKey = process.env.AMBIENT_APPLICATION_KEY;
+
+  if (!apiKey || !appKey) {
+    throw new Error("Missing AMBIENT_API_KEY or AMBIENT_APPLICATION_KEY in .env.local");
+  }
+
+  const url = `${ambientBaseUrl()}/v1/devices?applicationKey=${appKey}&apiKey=${apiKey}`;
+  const res = await fetch(url, { cache: "no-store" });
+
+  if (!res.ok) {
+    const txt = await res.text();
+    throw new Error(`Ambient HTTP ${res.status}: ${txt}`);
+  }
+
+  const json = await res.json();
+  return Array.isArray(json) ? json : [];
+}
+
+/**
+ * Map one device's `lastData` to calc inputs. Ambient reports °F, %, inHg
+ * and `dateutc` in ms.
+ */
+export function parseAmbientDevice(device: AmbientDevice): ProviderReading {
+  const d = device.lastData ?? {};
+
+  const tempF = num(d.tempf);
+  const humidityPct = num(d.humidity);
+  // Absolute when the console has it, else the relative (sea-level) reading
+  const absPressureInHg = num(d.baromabsin);
+  const relPressureInHg = num(d.baromrelin);
+
+  if (tempF === null || humidityPct === null) {
+    throw new Error(`Ambient device ${device.macAddress} has no outdoor temp/humidity (tempf/humidity).`);
+  }
+  if (absPressureInHg === null && relPressureInHg === null) {
+    throw new Error(`Ambient device ${device.macAddress} has no pressure (baromabsin/baromrelin).`);
+  }
+
+  return {
+    inputs: { tempF, humidityPct, uvIndex: num(d.uv) },
+    pressure:
+      absPressureInHg !== null
+        ? { type: "absolute", inHg: absPressureInHg }
+        : { type: "seaLevel", inHg: relPressureInHg! },
+    sensorTsMs: num(d.dateutc),
+    meta: {
+      provider: "ambient",
+      stationId: device.macAddress,
+      deviceName: device.info?.name ?? null,
+    },
+  };
+}
+
+export const ambientProvider: WeatherProvider = {
+  id: "ambient",
+  label: "Ambient Weather Network",
+
+  configured() {
+    return !!process.env.AMBIENT_API_KEY && !!process.env.AMBIENT_APPLICATION_KEY;
+  },
+
+  defaultStationId() {
+    return process.env.AMBIENT_MAC_ADDRESS ?? "";
+  },
+
+  stationIds() {
+    const id = this.defaultStationId();
+    return id ? [id] : [];
+  },
+
+  async fetchCurrent(stationId) {
+    const devices = await fetchAmbientDevices();
+    const device = stationId
+      ? devices.find((d) => d.macAddress.toLowerCase() === stationId.toLowerCase())
+      : devices[0];
+    if (!device) throw new Error(`No Ambient device ${stationId || "on this account"}.`);
+    return parseAmbientDevice(device);
+  },
+
+  async listStations() {
+    const devices = await fetchAmbientDevices();
+    return devices.map((d) => ({
+      station_id: d.macAddress,
+      station_name: d.info?.name ?? d.macAddress,
+    }));
+  },
+};
@@ -0,0 +1,136 @@
+// Generic HTTP JSON source: fetch any URL and pull the inputs out by path.
+// Good for a Kestrel relay, a track's own feed, or a handheld bridge.
+//
+//   RACEWX_HTTP_JSON_URL=http://kestrel-bridge.local/latest
+//   RACEWX_HTTP_JSON_MAP={"tempF":"data.temp","tempUnit":"C","humidityPct":"data.rh",
+//                         "absPressureInHg":"data.station_p","pressureUnit":"hPa","ts":"data.time"}
+//
+// Feeds that give sea-level or altimeter pressure add "pressureType":"seaLevel"
+// (or "altimeter"); the station's elevation then turns it into absolute.
+
+import { cToF, hPaToInHg } from "@/lib/units";
+import type { ProviderReading, WeatherProvider } from "@/lib/providers/types";
+import { isPressureType, type PressureType } from "@/lib/pressure";
+
+export type HttpJsonMapping = {
+  // Dot paths into the response; array indices allowed ("obs.0.temp")
+  tempF: string;
+  humidityPct: string;
+  absPressureInHg: string;
+  uvIndex?: string;
+  ts?: string;
+
+  tempUnit?: "F" | "C";
+  pressureUnit?: "inHg" | "hPa" | "mb";
+  // What the absPressureInHg path actually holds (default absolute)
+  pressureType?: PressureType;
+  // "s" / "ms" for epoch numbers; anything else is parsed as a date string
+  tsUnit?: "s" | "ms" | "iso";
+};
+
+export function getPath(obj: unknown, path: string): unknown {
+  let cur: unknown = obj;
+  for (const part of path.split(".")) {
+    if (cur === null || cur === undefined) return undefined;
+    cur = (cur as Record<string, unknown>)[part];
+  }
+  return cur;
+}
+
+function num(v: unknown): number | null {
+  const n = typeof v === "number" ? v : typeof v === "string" && v.trim() !== "" ? Number(v) : NaN;
+  return Number.isFinite(n) ? n : null;
+}
+
+export function parseHttpJsonMapping(raw: string | undefined): HttpJsonMapping {
+  if (!raw) throw new Error("Missing RACEWX_HTTP_JSON_MAP in .env.local");
+
+  let m: Partial<HttpJsonMapping>;
+  try {
+    m = JSON.parse(raw);
+  } catch {
+    throw new Error("RACEWX_HTTP_JSON_MAP is not valid JSON.");
+  }
+
+  for (const k of ["tempF", "humidityPct", "absPressureInHg"] as const) {
+    if (typeof m[k] !== "string" || !m[k]) {
+      throw new Error(`RACEWX_HTTP_JSON_MAP needs a "${k}" path.`);
+    }
+  }
+  if (m.pressureType !== undefined && !isPressureType(m.pressureType)) {
+    throw new Error(`RACEWX_HTTP_JSON_MAP pressureType must be absolute, seaLevel or altimeter.`);
+  }
+  return m as HttpJsonMapping;
+}
+
+/**
+ * Apply a mapping to a response body.
+ */
+export function extractMappedReading(
+  payload: unknown,
+  map: HttpJsonMapping,
+  stationId = "http-json"
+): ProviderReading {
+  const t = num(getPath(payload, map.tempF));
+  const rh = num(getPath(payload, map.humidityPct));
+  const p = num(getPath(payload, map.absPressureInHg));
+
+  if (t === null) throw new Error(`No numeric temperature at "${map.tempF}".`);
+  if (rh === null) throw new Error(`No numeric humidity at "${map.humidityPct}".`);
+  if (p === null) throw new Error(`No numeric pressure at "${map.absPressureInHg}".`);
+
+  let sensorTsMs: number | null = null;
+  if (map.ts) {
+    const raw = getPath(payload, map.ts);
+    const n = num(raw);
+    if (map.tsUnit === "s" && n !== null) sensorTsMs = n * 1000;
+    else if (map.tsUnit === "ms" && n !== null) sensorTsMs = n;
+    else if (typeof raw === "string" && Number.isFinite(Date.parse(raw))) sensorTsMs = Date.parse(raw);
+    else if (n !== null) sensorTsMs = n < 10_000_000_000 ? n * 1000 : n; // seconds vs ms safeguard
+  }
+
+  return {
+    inputs: {
+      tempF: map.tempUnit === "C" ? cToF(t) : t,
+      humidityPct: rh,
+      uvIndex: map.uvIndex ? num(getPath(payload, map.uvIndex)) : null,
+    },
+    pressure: {
+      type: map.pressureType ?? "absolute",
+      inHg: map.pressureUnit === "hPa" || map.pressureUnit === "mb" ? hPaToInHg(p) : p,
+    },
+    sensorTsMs,
+    meta: { provider: "http-json", stationId },
+  };
+}
+
+export const httpJsonProvider: WeatherProvider = {
+  id: "http-json",
+  label: "HTTP JSON feed",
+
+  configured() {
+    return !!process.env.RACEWX_HTTP_JSON_URL && !!process.env.RACEWX_HTTP_JSON_MAP;
+  },
+
+  defaultStationId() {
+    return "http-json";
+  },
+
+  stationIds() {
+    return ["http-json"];
+  },
+
+  async fetchCurrent(stationId) {
+    const url = process.env.RACEWX_HTTP_JSON_URL;
+    if (!url) throw new Error("Missing RACEWX_HTTP_JSON_URL in .env.local");
+    const map = parseHttpJsonMapping(process.env.RACEWX_HTTP_JSON_MAP);
+
+    const res = await fetch(url, { cache: "no-store" });
+    if (!res.ok) {
+      const txt = await res.text();
+      throw new Error(`HTTP JSON source ${res.status}: ${txt}`);
+    }
+
+    return extractMappedReading(await res.json(), map, stationId);
+  },
+};
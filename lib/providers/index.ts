@@ -0,0 +1,28 @@
+// ==============================
+// Provider selection (RACEWX_PROVIDER, default "weatherlink")
+// ==============================
+
+import type { ProviderId, WeatherProvider } from "@/lib/providers/types";
+import { weatherLinkProvider } from "@/lib/providers/weatherlink";
+import { ambientProvider } from "@/lib/providers/ambient";
+import { tempestProvider } from "@/lib/providers/tempest";
+import { httpJsonProvider } from "@/lib/providers/httpJson";
+
+export type { ProviderId, ProviderReading, ProviderStation, WeatherProvider } from "@/lib/providers/types";
+
+const PROVIDERS: Record<ProviderId, WeatherProvider> = {
+  weatherlink: weatherLinkProvider,
+  ambient: ambientProvider,
+  tempest: tempestProvider,
+  "http-json": httpJsonProvider,
+};
+
+export function getProvider(): WeatherProvider {
+  const id = process.env.RACEWX_PROVIDER || "weatherlink";
+  if (!Object.hasOwn(PROVIDERS, id)) {
+    throw new Error(
+      `Unknown RACEWX_PROVIDER "${id}". Use one of: ${Object.keys(PROVIDERS).join(", ")}.`
+    );
+  }
+  return PROVIDERS[id as ProviderId];
+}
@@ -0,0 +1,205 @@
+// WeatherFlow Tempest, two ways in:
+//   - local UDP: the hub broadcasts JSON "obs_st" messages on port 50222
+//     (no internet needed at the track). Station id is the device serial;
+//     without TEMPEST_STATION_ID, the first device heard is the station.
+//   - REST JSON: https://swd.weatherflow.com/swd/rest/observations/station/{id}?token=...
+//     used when TEMPEST_TOKEN is set. Station id is the WeatherFlow station id.
+
+import dgram from "dgram";
+import { cToF, hPaToInHg } from "@/lib/units";
+import type { ProviderReading, WeatherProvider } from "@/lib/providers/types";
+
+// A UDP observation older than this is treated as "station not reporting".
+const UDP_MAX_AGE_MS = 5 * 60_000;
+
+// obs_st field positions (WeatherFlow UDP API v171)
+const OBS_TIME = 0;
+const OBS_PRESSURE_MB = 6;
+const OBS_TEMP_C = 7;
+const OBS_RH = 8;
+const OBS_UV = 10;
+
+function num(v: unknown): number | null {
+  return typeof v === "number" && Number.isFinite(v) ? v : null;
+}
+
+function toReading(
+  stationId: string,
+  values: { epochSec: unknown; tempC: unknown; rh: unknown; pressureMb: unknown; uv: unknown },
+  meta: Record<string, unknown> = {}
+): ProviderReading {
+  const tempC = num(values.tempC);
+  const rh = num(values.rh);
+  const mb = num(values.pressureMb);
+  const epoch = num(values.epochSec);
+
+  if (tempC === null || rh === null) {
+    throw new Error(`Tempest ${stationId} has no air temperature / humidity.`);
+  }
+  if (mb === null) {
+    throw new Error(`Tempest ${stationId} has no station pressure.`);
+  }
+
+  return {
+    inputs: {
+      tempF: cToF(tempC),
+      humidityPct: rh,
+      uvIndex: num(values.uv),
+    },
+    pressure: { type: "absolute", inHg: hPaToInHg(mb) }, // station_pressure is absolute, in mb
+    sensorTsMs: epoch !== null ? epoch * 1000 : null,
+    meta: { provider: "tempest", stationId, ...meta },
+  };
+}
+
+/**
+ * Parse one UDP broadcast. Returns null for anything that isn't an obs_st.
+ */
+export function parseTempestUdpMessage(msg: unknown): ProviderReading | null {
+  const m = msg as { type?: string; serial_number?: string; hub_sn?: string; obs?: unknown[][] };
+  if (m?.type !== "obs_st" || !Array.isArray(m.obs) || !Array.isArray(m.obs[0])) return null;
+
+  const o = m.obs[0];
+  return toReading(
+    m.serial_number ?? "",
+    {
+      epochSec: o[OBS_TIME],
+      tempC: o[OBS_TEMP_C],
+      rh: o[OBS_RH],
+      pressureMb: o[OBS_PRESSURE_MB],
+      uv: o[OBS_UV],
+    },
+    { hubSerial: m.hub_sn ?? null }
+  );
+}
+
+/**
+ * Parse the REST observations/station response.
+ */
+export function parseTempestRestObservation(payload: unknown): ProviderReading {
+  const p = payload as { station_id?: number; station_name?: string; obs?: Record<string, unknown>[] };
+  const o = p?.obs?.[0];
+  if (!o) throw new Error("Tempest REST response has no observations.");
+
+  return toReading(
+    String(p.station_id ?? ""),
+    {
+      epochSec: o.timestamp,
+      tempC: o.air_temperature,
+      rh: o.relative_humidity,
+      pressureMb: o.station_pressure,
+      uv: o.uv,
+    },
+    { stationName: p.station_name ?? null }
+  );
+}
+
+// ---- UDP listener (one per server process) ----
+
+type UdpState = {
+  socket: dgram.Socket | null;
+  latest: Map<string, ProviderReading>;
+  error: string | null;
+  // Serial of the first device heard (the station when none is configured)
+  first?: string;
+};
+const g = globalThis as unknown as { __racewxTempestUdp?: UdpState };
+const udp: UdpState = (g.__racewxTempestUdp ??= { socket: null, latest: new Map(), error: null });
+
+function ensureUdpListener() {
+  if (udp.socket) return;
+
+  const port = Number(process.env.TEMPEST_UDP_PORT || 50222);
+  const socket = dgram.createSocket({ type: "udp4", reuseAddr: true });
+
+  socket.on("message", (buf) => {
+    try {
+      const reading = parseTempestUdpMessage(JSON.parse(buf.toString("utf8")));
+      if (!reading) return;
+      udp.latest.set(reading.meta.stationId, reading);
+      if (reading.meta.stationId) udp.first ??= reading.meta.stationId;
+    } catch {
+      // rapid_wind / hub_status / malformed packets – ignore
+    }
+  });
+  socket.on("error", (err) => {
+    udp.error = err.message;
+    socket.close();
+    udp.socket = null;
+  });
+
+  socket.bind(port);
+  udp.socket = socket;
+  udp.error = null;
+}
+
+async function fetchTempestRest(stationId: string): Promise<ProviderReading> {
+  const token = process.env.TEMPEST_TOKEN;
+  if (!token) throw new Error("Missing TEMPEST_TOKEN in .env.local");
+  if (!stationId) throw new Error("Missing TEMPEST_STATION_ID in .env.local");
+
+  const base = (process.env.TEMPEST_BASE_URL || "https://swd.weatherflow.com").replace(/\/+$/, "");
+  const url = `${base}/swd/rest/observations/station/${encodeURIComponent(stationId)}?token=${token}`;
+  const res = await fetch(url, { cache: "no-store" });
+
+  if (!res.ok) {
+    const txt = await res.text();
+    throw new Error(`Tempest HTTP ${res.status}: ${txt}`);
+  }
+
+  return parseTempestRestObservation(await res.json());
+}
+
+function latestUdp(stationId: string): ProviderReading {
+  ensureUdpListener();
+  if (udp.error) throw new Error(`Tempest UDP listener failed: ${udp.error}`);
+
+  const reading = stationId
+    ? udp.latest.get(stationId)
+    : [...udp.latest.values()].sort((a, b) => (b.sensorTsMs ?? 0) - (a.sensorTsMs ?? 0))[0];
+
+  if (!reading) {
+    throw new Error(`No Tempest obs_st broadcast received yet${stationId ? ` from ${stationId}` : ""}.`);
+  }
+  if (reading.sensorTsMs !== null && Date.now() - reading.sensorTsMs > UDP_MAX_AGE_MS) {
+    throw new Error(`Tempest ${reading.meta.stationId} has not broadcast for over 5 minutes.`);
+  }
+  return reading;
+}
+
+export const tempestProvider: WeatherProvider = {
+  id: "tempest",
+  label: "WeatherFlow Tempest",
+
+  // UDP needs no credentials (or station: see defaultStationId); REST needs token + station
+  configured() {
+    return !process.env.TEMPEST_TOKEN || !!process.env.TEMPEST_STATION_ID;
+  },
+
+  defaultStationId() {
+    if (process.env.TEMPEST_STATION_ID || process.env.TEMPEST_TOKEN) return process.env.TEMPEST_STATION_ID ?? "";
+    // UDP with no station set: the first device on the network, once one has broadcast
+    ensureUdpListener();
+    return udp.first ?? "";
+  },
+
+  stationIds() {
+    const id = this.defaultStationId();
+    return id ? [id] : [];
+  },
+
+  async fetchCurrent(stationId) {
+    if (process.env.TEMPEST_TOKEN) return fetchTempestRest(stationId);
+    return latestUdp(stationId);
+  },
+
+  async listStations() {
+    if (process.env.TEMPEST_TOKEN) {
+      const id = this.defaultStationId();
+      return id ? [{ station_id: id, station_name: `Tempest ${id}` }] : [];
+    }
+    // Every device heard on the local network so far
+    ensureUdpListener();
+    return [...udp.latest.keys()].map((sn) => ({ station_id: sn, station_name: `Tempest ${sn}` }));
+  },
+};
@@ -0,0 +1,49 @@
+// ==============================
+// Weather-source provider interface
+// ==============================
+
+import type { InputSource, ReadingInputs } from "@/lib/reading";
+import type { ReportedPressure } from "@/lib/pressure";
+
+export type ProviderId = "weatherlink" | "ambient" | "tempest" | "http-json";
+
+export type ProviderStation = {
+  station_id: string;
+  station_name: string;
+  station_id_uuid?: string;
+};
+
+/**
+ * What every provider hands back: the calc inputs plus where/when they came from.
+ */
+export type ProviderReading = {
+  inputs: Omit<ReadingInputs, "absPressureInHg"> & { uvIndex: number | null };
+  // Pressure as the source reports it (absolute, sea-level or altimeter);
+  // ingest turns it into absolute using the station's elevation
+  pressure: ReportedPressure;
+  // Sensor's own observation time (ms), null if the source doesn't report one
+  sensorTsMs: number | null;
+  // Record each input came from, for sources with several sensors per payload
+  sources?: InputSource[];
+  // The source couldn't be reached and this is the last good payload, fetched at `fetchedAt`
+  stale?: { reason: string; fetchedAt: string };
+  meta: {
+    provider: ProviderId;
+    stationId: string;
+    // Anything source-specific worth keeping (device name, firmware, ...)
+    [key: string]: unknown;
+  };
+};
+
+export interface WeatherProvider {
+  id: ProviderId;
+  label: string;
+  // Enough env config present to try fetching
+  configured(): boolean;
+  // Station used when a request doesn't name one
+  defaultStationId(): string;
+  // Stations the background poller records
+  stationIds(): string[];
+  fetchCurrent(stationId: string): Promise<ProviderReading>;
+  listStations?(): Promise<ProviderStation[]>;
+}
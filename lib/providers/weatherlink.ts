@@ -0,0 +1,46 @@
+import type { WeatherProvider } from "@/lib/providers/types";
+import {
+  configuredStationIds,
+  defaultStationId,
+  fetchWeatherLinkCurrentOrStale,
+  fetchWeatherLinkStations,
+} from "@/lib/weatherlink";
+import { extractInputs, inputSources, inputsSensorTimestampMs } from "@/lib/weatherlinkPayload";
+import { getStationConfig } from "@/lib/stationConfigStore";
+
+export const weatherLinkProvider: WeatherProvider = {
+  id: "weatherlink",
+  label: "Davis WeatherLink v2",
+  defaultStationId,
+  stationIds: configuredStationIds,
+
+  configured() {
+    return !!process.env.WEATHERLINK_API_KEY && configuredStationIds().length > 0;
+  },
+
+  async fetchCurrent(stationId) {
+    // Falls back to the last good payload (marked stale) while WeatherLink is failing
+    const { payload, stale } = await fetchWeatherLinkCurrentOrStale(stationId);
+    // Inputs the station pins to a particular sensor (Diagnostics → Station setup)
+    const { lsids } = await getStationConfig(stationId || defaultStationId());
+    const { pressure, ...inputs } = extractInputs(payload, lsids);
+    return {
+      inputs,
+      pressure,
+      // Oldest of the records actually used, so a silent ISS reads as stale
+      sensorTsMs: inputsSensorTimestampMs(payload, lsids),
+      sources: inputSources(payload, lsids),
+      meta: { provider: "weatherlink", stationId },
+      ...(stale ? { stale } : {}),
+    };
+  },
+
+  async listStations() {
+    const stations = (await fetchWeatherLinkStations()).stations ?? [];
+    return stations.map((s) => ({
+      station_id: String(s.station_id),
+      station_name: s.station_name,
+      station_id_uuid: s.station_id_uuid, // also acceptable for /current
+    }));
+  },
+};
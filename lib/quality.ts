@@ -0,0 +1,231 @@
+// ==============================
+// Input quality: range checks, spike rejection and optional smoothing
+// ==============================
+//
+// Sits between the provider's inputs and computeRacingWeather. Reading.inputs
+// holds the values the calc was given; what the sensor actually reported is
+// kept in Reading.quality.raw.
+
+import type { Reading } from "@/lib/reading";
+
+export const QUALITY_INPUTS = ["tempF", "humidityPct", "absPressureInHg"] as const;
+export type QualityInput = (typeof QUALITY_INPUTS)[number];
+export type QualityValues = Record<QualityInput, number>;
+
+export type SmoothingMethod = "off" | "mean" | "median";
+
+export const SMOOTHING_METHODS: Record<SmoothingMethod, { label: string }> = {
+  off: { label: "No smoothing" },
+  mean: { label: "Rolling average" },
+  median: { label: "Rolling median" },
+};
+
+export type QualitySettings = {
+  smoothing: SmoothingMethod;
+  // Readings in the rolling window, the new one included
+  window: number;
+  // Largest believable change per minute of sensor time
+  maxStepPerMin: QualityValues;
+};
+
+export const DEFAULT_QUALITY: QualitySettings = {
+  smoothing: "off",
+  window: 5,
+  maxStepPerMin: { tempF: 3, humidityPct: 10, absPressureInHg: 0.03 },
+};
+
+export const MIN_WINDOW = 2;
+export const MAX_WINDOW = 30;
+
+// Anything outside these is a sensor fault, not weather
+export const VALID_RANGES: Record<QualityInput, { min: number; max: number }> = {
+  tempF: { min: -40, max: 140 },
+  humidityPct: { min: 0, max: 100 },
+  absPressureInHg: { min: 15, max: 32.5 },
+};
+
+const INPUT_LABELS: Record<QualityInput, string> = {
+  tempF: "Temp",
+  humidityPct: "Humidity",
+  absPressureInHg: "Pressure",
+};
+
+// Older history is too far back to judge a step or smooth with
+const LOOKBACK_MIN = 30;
+
+export type QualityIssue = {
+  input: QualityInput;
+  kind: "range" | "step";
+  value: number;
+  // Value the calc used instead
+  replacedWith: number;
+  detail: string;
+};
+
+// ok = used as reported; smoothed = averaged only; filtered = something was rejected
+export type QualityFlag = "ok" | "smoothed" | "filtered";
+
+export type ReadingQuality = {
+  flag: QualityFlag;
+  raw: QualityValues;
+  issues: QualityIssue[];
+  // Set when the rolling window actually had more than one value
+  smoothing: { method: Exclude<SmoothingMethod, "off">; window: number } | null;
+};
+
+function isSmoothingMethod(x: unknown): x is SmoothingMethod {
+  return typeof x === "string" && Object.hasOwn(SMOOTHING_METHODS, x);
+}
+
+/**
+ * Stored settings with anything missing or invalid taken from the defaults.
+ */
+export function normalizeQualitySettings(x: unknown): QualitySettings {
+  const q = (x && typeof x === "object" ? x : {}) as Partial<QualitySettings>;
+  const window = Math.round(Number(q.window));
+  const steps = (q.maxStepPerMin && typeof q.maxStepPerMin === "object" ? q.maxStepPerMin : {}) as Partial<
+    Record<QualityInput, unknown>
+  >;
+  const maxStepPerMin = { ...DEFAULT_QUALITY.maxStepPerMin };
+  for (const input of QUALITY_INPUTS) {
+    const n = Number(steps[input]);
+    if (Number.isFinite(n) && n > 0) maxStepPerMin[input] = n;
+  }
+  return {
+    smoothing: isSmoothingMethod(q.smoothing) ? q.smoothing : DEFAULT_QUALITY.smoothing,
+    window: Number.isFinite(window) && window >= MIN_WINDOW && window <= MAX_WINDOW ? window : DEFAULT_QUALITY.window,
+    maxStepPerMin,
+  };
+}
+
+/**
+ * Apply a PATCH to the current settings; throws on values that would be
+ * silently dropped by normalizeQualitySettings.
+ */
+export function mergeQualitySettings(current: QualitySettings, patch: unknown): QualitySettings {
+  if (!patch || typeof patch !== "object") throw new Error("quality must be an object.");
+  const p = patch as Record<string, unknown>;
+  if ("smoothing" in p && !isSmoothingMethod(p.smoothing)) {
+    throw new Error(`Unknown smoothing method: ${String(p.smoothing)}`);
+  }
+  if ("window" in p) {
+    const w = Number(p.window);
+    if (!Number.isInteger(w) || w < MIN_WINDOW || w > MAX_WINDOW) {
+      throw new Error(`Smoothing window must be a whole number from ${MIN_WINDOW} to ${MAX_WINDOW}.`);
+    }
+  }
+  const steps = (p.maxStepPerMin ?? {}) as Record<string, unknown>;
+  for (const [k, v] of Object.entries(steps)) {
+    if (!(QUALITY_INPUTS as readonly string[]).includes(k)) throw new Error(`Unknown step limit: ${k}`);
+    if (!(Number(v) > 0)) throw new Error(`Step limit for ${k} must be a positive number.`);
+  }
+  return normalizeQualitySettings({
+    ...current,
+    ...p,
+    maxStepPerMin: { ...current.maxStepPerMin, ...steps },
+  });
+}
+
+function readingMs(r: Reading): number {
+  return Date.parse(r.display.ts);
+}
+
+// What a stored reading reported, whether or not it was used
+function reportedValue(r: Reading, input: QualityInput): number {
+  return r.quality ? r.quality.raw[input] : r.inputs[input];
+}
+
+// A stored reading's value if it passed the checks (older readings always did)
+function acceptedValue(r: Reading, input: QualityInput): number | null {
+  if (r.quality?.issues.some((i) => i.input === input)) return null;
+  return reportedValue(r, input);
+}
+
+function aggregate(values: number[], method: SmoothingMethod): number {
+  if (method === "mean") return values.reduce((a, b) => a + b, 0) / values.length;
+  if (method === "median") {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+  }
+  return values[0];
+}
+
+/**
+ * Check and (optionally) smooth one set of inputs. `recent` is the station's
+ * history, newest first, without the reading being checked.
+ *
+ * A value outside VALID_RANGES is always replaced. A value that jumps from the
+ * last good one faster than maxStepPerMin is held at the last good value,
+ * unless the previous reading had already jumped to the same level — two
+ * readings in a row that agree are a real change, not a glitch. Throws when a
+ * value has to be replaced and there's no earlier reading to fall back on.
+ */
+export function applyQuality(
+  raw: QualityValues,
+  recent: Reading[],
+  settings: QualitySettings,
+  atMs: number
+): { values: QualityValues; quality: ReadingQuality } {
+  const window = recent.filter((r) => {
+    const ms = readingMs(r);
+    return ms < atMs && atMs - ms <= LOOKBACK_MIN * 60_000;
+  });
+  const prev = window[0] ?? null;
+
+  const issues: QualityIssue[] = [];
+  const values = { ...raw };
+  let smoothed = false;
+
+  for (const input of QUALITY_INPUTS) {
+    const value = raw[input];
+    const label = INPUT_LABELS[input];
+    const range = VALID_RANGES[input];
+    const lastGood = window.find((r) => acceptedValue(r, input) !== null) ?? null;
+
+    let kind: QualityIssue["kind"] | null = null;
+    let detail = "";
+    if (!Number.isFinite(value) || value < range.min || value > range.max) {
+      kind = "range";
+      detail = `${label} ${value} is outside ${range.min}–${range.max}`;
+    } else if (lastGood) {
+      const limit = settings.maxStepPerMin[input];
+      const minutes = Math.max(1, (atMs - readingMs(lastGood)) / 60_000);
+      const step = Math.abs(value - acceptedValue(lastGood, input)!);
+      const confirmed =
+        prev !== null &&
+        prev !== lastGood &&
+        Math.abs(value - reportedValue(prev, input)) <= limit * Math.max(1, (atMs - readingMs(prev)) / 60_000);
+      if (step > limit * minutes && !confirmed) {
+        kind = "step";
+        detail = `${label} jumped ${step.toFixed(2)} in ${minutes.toFixed(1)} min (limit ${limit}/min)`;
+      }
+    }
+
+    const history = window
+      .map((r) => acceptedValue(r, input))
+      .filter((v): v is number => v !== null);
+    const series = kind ? history : [value, ...history];
+    if (!series.length) {
+      throw new Error(`${detail}; no earlier reading to fall back on.`);
+    }
+    const used =
+      settings.smoothing === "off" ? series[0] : aggregate(series.slice(0, settings.window), settings.smoothing);
+    if (settings.smoothing !== "off" && Math.min(series.length, settings.window) > 1) smoothed = true;
+
+    values[input] = used;
+    if (kind) issues.push({ input, kind, value, replacedWith: used, detail });
+  }
+
+  const changed = QUALITY_INPUTS.some((k) => Math.abs(values[k] - raw[k]) > 1e-9);
+  return {
+    values,
+    quality: {
+      flag: issues.length ? "filtered" : changed ? "smoothed" : "ok",
+      raw,
+      issues,
+      smoothing:
+        smoothed && settings.smoothing !== "off" ? { method: settings.smoothing, window: settings.window } : null,
+    },
+  };
+}
@@ -0,0 +1,245 @@
+// ==============================
+// Reading shape shared by the API routes, the store and the page
+// ==============================
+
+import {
+  computeRacingWeather,
+  CORRECTION_STANDARDS,
+  isCorrectionStandard,
+  type CorrectionStandard,
+  type DaConstants,
+  type RawOutput,
+} from "@/lib/weatherCalc";
+import type { TuneRecommendation } from "@/lib/tuneTables";
+import type { PressureInfo } from "@/lib/pressure";
+import type { ReadingQuality } from "@/lib/quality";
+import type { EventTag } from "@/lib/events";
+import type { SensorRole } from "@/lib/weatherlinkPayload";
+
+export type ReadingInputs = {
+  tempF: number;
+  humidityPct: number;
+  absPressureInHg: number;
+  uvIndex?: number | null;
+};
+
+/**
+ * Which sensor record an input was read from (WeatherLink: lsid / sensor_type).
+ */
+export type InputSource = {
+  input: keyof ReadingInputs;
+  // Payload field the value came from (bar_absolute, temp, ...)
+  field: string;
+  lsid: number | null;
+  sensorType: number | null;
+  dataStructureType: number | null;
+  // That record's own "ts" (ISO)
+  ts: string | null;
+  // What kind of sensor it was, and whether the station pins this input to it (absent on older readings)
+  role?: SensorRole;
+  pinned?: boolean;
+};
+
+export type ReadingDisplay = {
+  ts: string;
+
+  tempF: number;
+  humidityPct: number;
+  absPressureInHg: number;
+
+  vaporPressureInHg: number;
+  dewPointF: number;
+  humidityGrains: number;
+
+  adr: number;
+  adr2: number;
+  densityAltFt: number;
+  uvIndex: number | null;
+  // Value of whichever standard was selected when captured (see Reading.correctionStandard)
+  correction: number;
+
+  // Every correction standard side by side (absent on readings from before they existed)
+  corrSheet?: number;
+  corrSaeJ1349?: number;
+  corrSaeJ607?: number;
+  corrDin70020?: number;
+  corrNhraOld?: number;
+};
+
+export type DisplayField = Exclude<keyof ReadingDisplay, "ts">;
+
+// Labels / units / decimals for every numeric display field (charts, trends)
+export const DISPLAY_FIELDS: Record<DisplayField, { label: string; unit: string; decimals: number }> = {
+  tempF: { label: "Temp", unit: "°F", decimals: 1 },
+  humidityPct: { label: "Humidity", unit: "%", decimals: 1 },
+  absPressureInHg: { label: "Abs Press", unit: "inHg", decimals: 3 },
+  vaporPressureInHg: { label: "Vapor P", unit: "inHg", decimals: 4 },
+  dewPointF: { label: "Dew Pt", unit: "°F", decimals: 1 },
+  humidityGrains: { label: "Grains", unit: "gr", decimals: 1 },
+  adr: { label: "ADR", unit: "%", decimals: 2 },
+  adr2: { label: "ADR2", unit: "", decimals: 5 },
+  densityAltFt: { label: "DA", unit: "ft", decimals: 0 },
+  uvIndex: { label: "UV Index", unit: "", decimals: 1 },
+  correction: { label: "Correction", unit: "", decimals: 5 },
+  corrSheet: { label: "Corr (sheet)", unit: "", decimals: 5 },
+  corrSaeJ1349: { label: "Corr SAE J1349", unit: "", decimals: 5 },
+  corrSaeJ607: { label: "Corr SAE J607", unit: "", decimals: 5 },
+  corrDin70020: { label: "Corr DIN 70020", unit: "", decimals: 5 },
+  corrNhraOld: { label: "Corr old NHRA", unit: "", decimals: 5 },
+};
+
+export type Reading = {
+  // WeatherLink station id; readings from before multi-station have none
+  // and belong to the default station
+  stationId?: string;
+  // Weather source that produced it (see lib/providers); absent means WeatherLink
+  provider?: string;
+  // Values the calc was given (after any filtering / smoothing, see quality)
+  inputs: ReadingInputs;
+  // display.ts is the sensor's observation time when the source reports one
+  display: ReadingDisplay;
+  // Sensor "ts" of the records the inputs came from (ISO); used to skip re-polls of the same data
+  sensorTs?: string | null;
+  // Server time the reading was fetched (absent on readings from before sensor stamping)
+  capturedAt?: string;
+  // Record each input was taken from, when the provider can tell
+  sources?: InputSource[];
+  // Pressure type the source gave and how absolute was derived (absent on older readings)
+  pressure?: PressureInfo;
+  // Raw sensor values and what the quality stage did to them (absent on older readings)
+  quality?: ReadingQuality;
+  // Race event (and session) it was captured during
+  event?: EventTag;
+  // True when recovered from the WeatherLink archive rather than captured live
+  backfilled?: boolean;
+  // True when it came in through a file import (/api/history POST { text })
+  imported?: boolean;
+  // Only on a live response: the source was unreachable, so this is its last good data (never stored)
+  stale?: { reason: string; fetchedAt: string };
+  // Standard behind display.correction; absent means the original sheet formula
+  correctionStandard?: CorrectionStandard;
+  // Calibration profile behind densityAltFt; absent means the built-in constants
+  calibrationProfileId?: string | null;
+  // Tune-up chart values (and chart version) in effect when it was captured
+  tune?: TuneRecommendation[];
+};
+
+export function roundTo(value: number, decimals: number) {
+  const p = Math.pow(10, decimals);
+  return Math.round(value * p) / p;
+}
+
+/**
+ * Round a raw calc result into the fields shown on the tiles / history table.
+ */
+export function buildDisplay(
+  raw: RawOutput,
+  ts: string,
+  uvIndex: number | null
+): ReadingDisplay {
+  return {
+    ts,
+
+    tempF: raw.tempF,
+    humidityPct: raw.humidityPct,
+    absPressureInHg: raw.absPressureInHg,
+
+    vaporPressureInHg: roundTo(raw.vaporPressureInHg, 3),
+    dewPointF: roundTo(raw.dewPointF, 1),
+    humidityGrains: roundTo(raw.humidityGrains, 1),
+
+    // Keep your ADR/correction formatting decisions as-is (client now formats ADR to 2 decimals)
+    adr: roundTo(raw.adrPct, 2),
+    densityAltFt: Math.round(raw.densityAltFt),
+
+    correction: Number(roundTo(raw.correction, 5).toFixed(5)),
+    corrSheet: roundTo(raw.corrSheet, 5),
+    corrSaeJ1349: roundTo(raw.corrSaeJ1349, 5),
+    corrSaeJ607: roundTo(raw.corrSaeJ607, 5),
+    corrDin70020: roundTo(raw.corrDin70020, 5),
+    corrNhraOld: roundTo(raw.corrNhraOld, 5),
+
+    uvIndex,
+    adr2: Number(roundTo(raw.adr2, 5).toFixed(5)),
+  };
+}
+
+/**
+ * A display field of a reading, with "correction" taken under `standard`.
+ * display.correction is whichever standard was selected at capture, so
+ * anything comparing it across readings (trends, alerts, tune charts, run
+ * logs) reads one standard's own column instead. Readings from before those
+ * columns only have display.correction, which was always the sheet formula.
+ */
+export function fieldValue(
+  r: Pick<Reading, "display">,
+  field: DisplayField,
+  standard: CorrectionStandard
+): number | null | undefined {
+  if (field !== "correction") return r.display[field];
+  return r.display[CORRECTION_STANDARDS[standard].key] ?? (standard === "sheet" ? r.display.correction : undefined);
+}
+
+// Standard of the newest reading: what a series of corrections is shown in
+export function latestCorrectionStandard(readings: Reading[]): CorrectionStandard {
+  let newest: Reading | null = null;
+  for (const r of readings) if (!newest || r.display.ts > newest.display.ts) newest = r;
+  return newest?.correctionStandard ?? "sheet";
+}
+
+/**
+ * Check used when accepting readings from outside (imports, old localStorage):
+ * a timestamp, plus the inputs everything else is recomputed from.
+ */
+export function isReading(x: unknown): x is Reading {
+  const r = x as Reading | null;
+  return (
+    !!r &&
+    typeof r === "object" &&
+    !!r.display &&
+    typeof r.display.ts === "string" &&
+    Number.isFinite(Date.parse(r.display.ts)) &&
+    !!r.inputs &&
+    typeof r.inputs === "object" &&
+    Number.isFinite(r.inputs.tempF) &&
+    Number.isFinite(r.inputs.humidityPct) &&
+    Number.isFinite(r.inputs.absPressureInHg)
+  );
+}
+
+/**
+ * A reading accepted from outside, rebuilt from its inputs: display is
+ * recomputed under the reading's own standard and calibration profile (when
+ * that profile exists here), and only plain fields that check out are kept.
+ * What the sender could have made up and the server can't verify (sources,
+ * quality, pressure, tune, event) is dropped. Call after isReading.
+ */
+export function rebuildReading(r: Reading, profiles: ReadonlyMap<string, DaConstants>): Reading {
+  const text = (v: unknown) => (typeof v === "string" && v ? v : undefined);
+  const time = (v: unknown) =>
+    typeof v === "string" && Number.isFinite(Date.parse(v)) ? new Date(v).toISOString() : undefined;
+  const uvIn = r.inputs.uvIndex ?? r.display.uvIndex;
+  const uvIndex = typeof uvIn === "number" && Number.isFinite(uvIn) ? uvIn : null;
+  const { tempF, humidityPct, absPressureInHg } = r.inputs;
+  const inputs = { tempF, humidityPct, absPressureInHg };
+  const profileId = text(r.calibrationProfileId);
+  const calibration = profileId ? profiles.get(profileId) : undefined;
+
+  const raw = computeRacingWeather(inputs, {
+    correctionStandard: isCorrectionStandard(r.correctionStandard) ? r.correctionStandard : undefined,
+    calibration,
+  });
+  const out: Reading = {
+    stationId: text(r.stationId),
+    provider: text(r.provider),
+    inputs: { ...inputs, uvIndex },
+    display: buildDisplay(raw, new Date(r.display.ts).toISOString(), uvIndex),
+    sensorTs: time(r.sensorTs),
+    capturedAt: time(r.capturedAt),
+    correctionStandard: raw.correctionStandard,
+    calibrationProfileId: calibration ? profileId : null,
+    backfilled: r.backfilled === true || undefined,
+    imported: r.imported === true || undefined,
+  };
+  return Object.fromEntries(Object.entries(out).filter(([, v]) => v !== undefined)) as Reading;
+}
@@ -0,0 +1,224 @@
+// ==============================
+// Run logbook (server side)
+// ==============================
+//
+// Each pass is stamped with the stored reading nearest to when the car left,
+// so the weather it ran in travels with the time slip.
+
+import { newId, readJson, updateJson } from "@/lib/fileStore";
+import { nearestReading, readingStation } from "@/lib/historyStore";
+import { toCsv } from "@/lib/csv";
+import { getProvider } from "@/lib/providers";
+import { roundTo, type DisplayField } from "@/lib/reading";
+import { fieldExportKey, fieldUnit, IMPERIAL_UNITS, toDisplayUnits, type UnitPrefs } from "@/lib/units";
+
+const COLLECTION = "runs";
+
+export type RunWeather = {
+  readingTs: string;
+  stationId: string;
+  // Seconds between the reading and the run (positive = reading was older)
+  ageSec: number;
+  tempF: number;
+  humidityPct: number;
+  absPressureInHg: number;
+  adr: number;
+  adr2: number;
+  densityAltFt: number;
+  correction: number;
+  humidityGrains: number;
+};
+
+export type RunTimes = {
+  sixtyFt: number | null;
+  threeThirty: number | null;
+  eighthEt: number | null;
+  eighthMph: number | null;
+  quarterEt: number | null;
+  quarterMph: number | null;
+};
+
+export type Run = RunTimes & {
+  id: string;
+  runAt: string;
+  createdAt: string;
+  event: string;
+  car: string;
+  lane: "left" | "right" | "";
+  // Optional; used by the prediction model when every training pass has it
+  trackTempF: number | null;
+  // Left out of prediction-model training (outlier, broke, pedalled it...)
+  excluded: boolean;
+  notes: string;
+  tuneUp: string;
+  weather: RunWeather | null;
+};
+
+export type RunInput = Partial<Omit<Run, "id" | "createdAt" | "weather">> & { stationId?: string };
+
+const TIME_KEYS: (keyof RunTimes)[] = [
+  "sixtyFt",
+  "threeThirty",
+  "eighthEt",
+  "eighthMph",
+  "quarterEt",
+  "quarterMph",
+];
+
+function numOrNull(v: unknown): number | null {
+  if (v === null || v === undefined || v === "") return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+async function stampWeather(runMs: number, stationId?: string): Promise<RunWeather | null> {
+  const r = await nearestReading(runMs, stationId || null);
+  if (!r) return null;
+  return {
+    readingTs: r.display.ts,
+    stationId: readingStation(r),
+    ageSec: Math.round((runMs - Date.parse(r.display.ts)) / 1000),
+    tempF: r.display.tempF,
+    humidityPct: r.display.humidityPct,
+    absPressureInHg: r.display.absPressureInHg,
+    adr: r.display.adr,
+    adr2: r.display.adr2,
+    densityAltFt: r.display.densityAltFt,
+    // Sheet formula, so runs logged under different standards stay comparable
+    correction: r.display.corrSheet ?? r.display.correction,
+    humidityGrains: r.display.humidityGrains,
+  };
+}
+
+export async function addRun(input: RunInput): Promise<Run> {
+  const runMs = input.runAt ? Date.parse(input.runAt) : Date.now();
+  if (!Number.isFinite(runMs)) throw new Error(`Invalid runAt: ${input.runAt}`);
+
+  const run: Run = {
+    id: newId("run"),
+    runAt: new Date(runMs).toISOString(),
+    createdAt: new Date().toISOString(),
+    event: String(input.event ?? "").trim(),
+    car: String(input.car ?? "").trim(),
+    lane: input.lane === "left" || input.lane === "right" ? input.lane : "",
+    notes: String(input.notes ?? ""),
+    tuneUp: String(input.tuneUp ?? ""),
+    trackTempF: numOrNull(input.trackTempF),
+    excluded: input.excluded === true,
+    sixtyFt: null,
+    threeThirty: null,
+    eighthEt: null,
+    eighthMph: null,
+    quarterEt: null,
+    quarterMph: null,
+    weather: await stampWeather(runMs, input.stationId || getProvider().defaultStationId()),
+  };
+  for (const k of TIME_KEYS) run[k] = numOrNull(input[k]);
+
+  return updateJson(COLLECTION, [] as Run[], (list) => ({
+    value: [run, ...(Array.isArray(list) ? list : [])],
+    result: run,
+  }));
+}
+
+/**
+ * Toggle a run in/out of model training.
+ */
+export function setRunExcluded(id: string, excluded: boolean): Promise<Run | null> {
+  return updateJson(COLLECTION, [] as Run[], (list) => {
+    const all = Array.isArray(list) ? list : [];
+    const run = all.find((r) => r.id === id) ?? null;
+    if (run) run.excluded = excluded;
+    return { value: all, result: run };
+  });
+}
+
+export function deleteRun(id: string): Promise<{ deleted: number }> {
+  return updateJson(COLLECTION, [] as Run[], (list) => {
+    const all = Array.isArray(list) ? list : [];
+    const kept = all.filter((r) => r.id !== id);
+    return { value: kept, result: { deleted: all.length - kept.length } };
+  });
+}
+
+export type RunQuery = { q?: string | null; event?: string | null; car?: string | null };
+
+export async function listRuns(query: RunQuery = {}): Promise<Run[]> {
+  const list = await readJson<Run[]>(COLLECTION, []);
+  const q = query.q?.trim().toLowerCase();
+
+  return (Array.isArray(list) ? list : [])
+    .filter((r) => !query.event || r.event === query.event)
+    .filter((r) => !query.car || (r.car ?? "") === query.car)
+    .filter(
+      (r) =>
+        !q || [r.event, r.car ?? "", r.lane, r.notes, r.tuneUp].some((s) => s.toLowerCase().includes(q))
+    )
+    .sort((a, b) => Date.parse(b.runAt) - Date.parse(a.runAt));
+}
+
+export async function listRunEvents(): Promise<string[]> {
+  const list = await readJson<Run[]>(COLLECTION, []);
+  return [...new Set((Array.isArray(list) ? list : []).map((r) => r.event).filter(Boolean))].sort();
+}
+
+export async function listRunCars(): Promise<string[]> {
+  const list = await readJson<Run[]>(COLLECTION, []);
+  return [...new Set((Array.isArray(list) ? list : []).map((r) => r.car).filter(Boolean))].sort();
+}
+
+/**
+ * Run log as CSV. Weather columns (and track temp) follow `units`; converted
+ * columns are renamed (tempF → tempC) and rounded to that unit's precision.
+ */
+export function runsToCsv(runs: Run[], units: UnitPrefs = IMPERIAL_UNITS): string {
+  const col = (field: DisplayField) => fieldExportKey(field, units);
+  const val = (field: DisplayField, v: number | null | undefined) =>
+    typeof v === "number" ? roundTo(toDisplayUnits(field, v, units), fieldUnit(field, units).decimals) : v;
+
+  const header = [
+    "runAt",
+    "event",
+    "car",
+    "lane",
+    ...TIME_KEYS,
+    units.temperature === "F" ? "trackTempF" : "trackTempC",
+    "excluded",
+    "notes",
+    "tuneUp",
+    "weatherTs",
+    "weatherAgeSec",
+    "stationId",
+    col("tempF"),
+    "humidityPct",
+    col("absPressureInHg"),
+    "adr",
+    "adr2",
+    col("densityAltFt"),
+    "correction",
+    col("humidityGrains"),
+  ];
+  const rows = runs.map((r) => [
+    r.runAt,
+    r.event,
+    r.car,
+    r.lane,
+    ...TIME_KEYS.map((k) => r[k]),
+    val("tempF", r.trackTempF),
+    r.excluded,
+    r.notes,
+    r.tuneUp,
+    r.weather?.readingTs,
+    r.weather?.ageSec,
+    r.weather?.stationId,
+    val("tempF", r.weather?.tempF),
+    r.weather?.humidityPct,
+    val("absPressureInHg", r.weather?.absPressureInHg),
+    r.weather?.adr,
+    r.weather?.adr2,
+    val("densityAltFt", r.weather?.densityAltFt),
+    r.weather?.correction,
+    val("humidityGrains", r.weather?.humidityGrains),
+  ]);
+  return toCsv(header, rows);
+}
@@ -0,0 +1,61 @@
+// ==============================
+// Saved what-if scenarios (server side, shared by every screen)
+// ==============================
+
+import type { Inputs } from "@/lib/weatherCalc";
+import { newId, readJson, updateJson } from "@/lib/fileStore";
+
+const COLLECTION = "scenarios";
+const SCENARIOS_MAX = 200;
+
+export type Scenario = {
+  id: string;
+  name: string;
+  createdAt: string;
+  inputs: Inputs;
+};
+
+function isFiniteInputs(x: unknown): x is Inputs {
+  const i = x as Inputs | null;
+  return (
+    !!i &&
+    Number.isFinite(i.tempF) &&
+    Number.isFinite(i.humidityPct) &&
+    Number.isFinite(i.absPressureInHg)
+  );
+}
+
+export async function listScenarios(): Promise<Scenario[]> {
+  const list = await readJson<Scenario[]>(COLLECTION, []);
+  return Array.isArray(list) ? list : [];
+}
+
+export async function saveScenario(name: string, inputs: unknown): Promise<Scenario> {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error("Scenario needs a name.");
+  if (!isFiniteInputs(inputs)) throw new Error("Scenario needs numeric tempF, humidityPct and absPressureInHg.");
+
+  const scenario: Scenario = {
+    id: newId("sc"),
+    name: trimmed,
+    createdAt: new Date().toISOString(),
+    inputs: {
+      tempF: inputs.tempF,
+      humidityPct: inputs.humidityPct,
+      absPressureInHg: inputs.absPressureInHg,
+    },
+  };
+
+  return updateJson(COLLECTION, [] as Scenario[], (list) => ({
+    value: [scenario, ...(Array.isArray(list) ? list : [])].slice(0, SCENARIOS_MAX),
+    result: scenario,
+  }));
+}
+
+export function deleteScenario(id: string): Promise<{ deleted: number }> {
+  return updateJson(COLLECTION, [] as Scenario[], (list) => {
+    const all = Array.isArray(list) ? list : [];
+    const kept = all.filter((s) => s.id !== id);
+    return { value: kept, result: { deleted: all.length - kept.length } };
+  });
+}
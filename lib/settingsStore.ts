@@ -0,0 +1,81 @@
+// ==============================
+// App-wide settings (server side, shared by the poller and every screen)
+// ==============================
+
+import { readJson, updateJson } from "@/lib/fileStore";
+import { getCalibrationProfile } from "@/lib/calibrationStore";
+import {
+  DEFAULT_QUALITY,
+  mergeQualitySettings,
+  normalizeQualitySettings,
+  type QualitySettings,
+} from "@/lib/quality";
+import {
+  DEFAULT_CORRECTION_STANDARD,
+  isCorrectionStandard,
+  type ComputeOptions,
+  type CorrectionStandard,
+} from "@/lib/weatherCalc";
+
+const COLLECTION = "settings";
+
+export type Settings = {
+  // Which correction standard fills the `correction` column / tile
+  correctionStandard: CorrectionStandard;
+  // Calibration profile whose DA constants computeRacingWeather uses (null = built-in)
+  calibrationProfileId: string | null;
+  // Range / step checks and smoothing applied to inputs before the calc
+  quality: QualitySettings;
+};
+
+export const DEFAULT_SETTINGS: Settings = {
+  correctionStandard: DEFAULT_CORRECTION_STANDARD,
+  calibrationProfileId: null,
+  quality: DEFAULT_QUALITY,
+};
+
+function normalize(x: Partial<Settings> | null | undefined): Settings {
+  return {
+    correctionStandard: isCorrectionStandard(x?.correctionStandard)
+      ? x.correctionStandard
+      : DEFAULT_SETTINGS.correctionStandard,
+    calibrationProfileId:
+      typeof x?.calibrationProfileId === "string" && x.calibrationProfileId ? x.calibrationProfileId : null,
+    quality: normalizeQualitySettings(x?.quality),
+  };
+}
+
+export async function getSettings(): Promise<Settings> {
+  return normalize(await readJson<Partial<Settings>>(COLLECTION, DEFAULT_SETTINGS));
+}
+
+export async function updateSettings(patch: Record<string, unknown>): Promise<Settings> {
+  if ("correctionStandard" in patch && !isCorrectionStandard(patch.correctionStandard)) {
+    throw new Error(`Unknown correction standard: ${String(patch.correctionStandard)}`);
+  }
+  const profileId = patch.calibrationProfileId;
+  if (profileId && !(await getCalibrationProfile(String(profileId)))) {
+    throw new Error(`Unknown calibration profile: ${String(profileId)}`);
+  }
+  return updateJson(COLLECTION, DEFAULT_SETTINGS, (current) => {
+    const base = normalize(current);
+    // Partial quality patches keep the limits they don't mention
+    const quality = "quality" in patch ? mergeQualitySettings(base.quality, patch.quality) : base.quality;
+    const next = normalize({ ...base, ...patch, quality });
+    return { value: next, result: next };
+  });
+}
+
+/**
+ * Settings resolved into computeRacingWeather options, plus the profile id to
+ * stamp on readings. A deleted profile falls back to the built-in constants.
+ */
+export async function getComputeOptions(): Promise<ComputeOptions & { calibrationProfileId: string | null }> {
+  const settings = await getSettings();
+  const profile = await getCalibrationProfile(settings.calibrationProfileId);
+  return {
+    correctionStandard: settings.correctionStandard,
+    calibration: profile ? { daA: profile.daA, daB: profile.daB } : undefined,
+    calibrationProfileId: profile?.id ?? null,
+  };
+}
@@ -0,0 +1,28 @@
+// ==============================
+// LIVE / STALE / OFFLINE from the age of the newest reading
+// ==============================
+//
+// Age is measured from display.ts, which is the sensor's own observation time
+// (see captureCurrentReading), so a console that keeps answering with an old
+// ISS record still goes STALE. Shared by the dashboard badge and the server-side alert rules so both agree
+// on when a station has gone quiet.
+
+export type StaleState = "LIVE" | "STALE" | "OFFLINE";
+
+export const LIVE_MAX_AGE_SEC = 90;
+export const STALE_MAX_AGE_SEC = 180;
+
+export function staleStateForAge(ageSec: number): StaleState {
+  if (!Number.isFinite(ageSec)) return "OFFLINE";
+  if (ageSec <= LIVE_MAX_AGE_SEC) return "LIVE";
+  if (ageSec <= STALE_MAX_AGE_SEC) return "STALE";
+  return "OFFLINE";
+}
+
+/**
+ * Seconds the station has been OFFLINE (0 while LIVE or STALE).
+ */
+export function offlineForSec(ageSec: number): number {
+  if (!Number.isFinite(ageSec)) return Infinity;
+  return Math.max(0, ageSec - STALE_MAX_AGE_SEC);
+}
@@ -0,0 +1,82 @@
+// ==============================
+// Per-station setup (server side): elevation for pressure conversions and
+// which WeatherLink sensor feeds each input
+// ==============================
+
+import { readJson, updateJson } from "@/lib/fileStore";
+import { PINNABLE_INPUTS, type InputKey, type InputLsids } from "@/lib/weatherlinkPayload";
+
+const COLLECTION = "station-config";
+
+// Dead Sea to the highest tracks with room to spare
+const MIN_ELEVATION_FT = -1500;
+const MAX_ELEVATION_FT = 15000;
+
+export type StationConfig = {
+  // Station elevation (ft); null = not configured
+  elevationFt: number | null;
+  // WeatherLink lsid pinned per input; inputs left out are picked by sensor role
+  lsids: InputLsids;
+  updatedAt: string | null;
+};
+
+const EMPTY: StationConfig = { elevationFt: null, lsids: {}, updatedAt: null };
+
+type ConfigMap = Record<string, StationConfig>;
+
+async function readAll(): Promise<ConfigMap> {
+  const map = await readJson<ConfigMap>(COLLECTION, {});
+  return map && typeof map === "object" && !Array.isArray(map) ? map : {};
+}
+
+export async function listStationConfig(): Promise<ConfigMap> {
+  return readAll();
+}
+
+export async function getStationConfig(stationId: string): Promise<StationConfig> {
+  // Configs saved before lsids existed
+  return { ...EMPTY, ...(await readAll())[stationId] };
+}
+
+export async function setStationElevation(stationId: string, elevationFt: unknown): Promise<StationConfig> {
+  if (!stationId) throw new Error("stationId is required.");
+  const ft = elevationFt === null || elevationFt === "" ? null : Number(elevationFt);
+  if (ft !== null && (!Number.isFinite(ft) || ft < MIN_ELEVATION_FT || ft > MAX_ELEVATION_FT)) {
+    throw new Error(`Elevation must be between ${MIN_ELEVATION_FT} and ${MAX_ELEVATION_FT} ft.`);
+  }
+
+  return updateJson(COLLECTION, {} as ConfigMap, (map) => {
+    const all = map && typeof map === "object" && !Array.isArray(map) ? map : {};
+    const next: StationConfig = { ...(all[stationId] ?? EMPTY), elevationFt: ft, updatedAt: new Date().toISOString() };
+    return { value: { ...all, [stationId]: next }, result: next };
+  });
+}
+
+/**
+ * Pin inputs to lsids ({ tempF: 1001 }); null or "" unpins. Inputs not
+ * mentioned keep their setting.
+ */
+export async function setStationLsids(stationId: string, patch: unknown): Promise<StationConfig> {
+  if (!stationId) throw new Error("stationId is required.");
+  if (!patch || typeof patch !== "object" || Array.isArray(patch)) throw new Error("lsids must be an object.");
+  const changes = Object.entries(patch as Record<string, unknown>).map(([input, v]) => {
+    if (!(PINNABLE_INPUTS as string[]).includes(input)) throw new Error(`Unknown input: ${input}`);
+    const lsid = v === null || v === "" ? null : Number(v);
+    if (lsid !== null && (!Number.isInteger(lsid) || lsid <= 0)) {
+      throw new Error(`lsid for ${input} must be a positive whole number.`);
+    }
+    return [input as InputKey, lsid] as const;
+  });
+
+  return updateJson(COLLECTION, {} as ConfigMap, (map) => {
+    const all = map && typeof map === "object" && !Array.isArray(map) ? map : {};
+    const current = { ...EMPTY, ...all[stationId] };
+    const lsids = { ...current.lsids };
+    for (const [input, lsid] of changes) {
+      if (lsid === null) delete lsids[input];
+      else lsids[input] = lsid;
+    }
+    const next: StationConfig = { ...current, lsids, updatedAt: new Date().toISOString() };
+    return { value: { ...all, [stationId]: next }, result: next };
+  });
+}
@@ -0,0 +1,138 @@
+// ==============================
+// Time-series helpers for charts and rate-of-change
+// ==============================
+
+import {
+  DISPLAY_FIELDS,
+  fieldValue,
+  latestCorrectionStandard,
+  roundTo,
+  type DisplayField,
+  type Reading,
+} from "@/lib/reading";
+import { deltaToDisplayUnits, fieldUnit, IMPERIAL_UNITS, type UnitPrefs } from "@/lib/units";
+
+export type TrendPoint = { ms: number; value: number };
+
+// Rate of change is the least-squares slope over this much recent history
+export const RATE_WINDOW_MS = 30 * 60_000;
+const RATE_MIN_POINTS = 3;
+const RATE_MIN_SPAN_MS = 5 * 60_000;
+
+// Never join two points further apart than this, whatever the cadence
+const MIN_GAP_MS = 5 * 60_000;
+
+/**
+ * Oldest-first points for one field, skipping readings without a value.
+ * Corrections are all taken in the newest reading's standard.
+ */
+export function seriesFor(readings: Reading[], field: DisplayField): TrendPoint[] {
+  const points: TrendPoint[] = [];
+  const standard = latestCorrectionStandard(readings.filter((r) => r.display));
+  for (const r of readings) {
+    const ms = Date.parse(r.display?.ts);
+    const value = r.display && fieldValue(r, field, standard);
+    if (Number.isFinite(ms) && typeof value === "number" && Number.isFinite(value)) {
+      points.push({ ms, value });
+    }
+  }
+  return points.sort((a, b) => a.ms - b.ms);
+}
+
+/**
+ * Split a series wherever the spacing jumps well past its usual cadence, so a
+ * chart can draw separate lines instead of bridging missing data.
+ */
+export function splitOnGaps(points: TrendPoint[]): TrendPoint[][] {
+  if (points.length < 2) return points.length ? [points] : [];
+
+  const steps = points
+    .slice(1)
+    .map((p, i) => p.ms - points[i].ms)
+    .sort((a, b) => a - b);
+  const median = steps[Math.floor(steps.length / 2)];
+  const maxGap = Math.max(MIN_GAP_MS, median * 3);
+
+  const segments: TrendPoint[][] = [[points[0]]];
+  for (let i = 1; i < points.length; i++) {
+    if (points[i].ms - points[i - 1].ms > maxGap) segments.push([]);
+    segments[segments.length - 1].push(points[i]);
+  }
+  return segments;
+}
+
+export type LinearFit = {
+  slope: number; // units per ms
+  intercept: number; // value at ms = meanMs
+  meanMs: number;
+  sxx: number;
+  sigma: number; // residual standard deviation
+  n: number;
+};
+
+/**
+ * Least-squares line through the points (x = ms). Null when every point has
+ * the same time.
+ */
+export function linearFit(points: TrendPoint[]): LinearFit | null {
+  const n = points.length;
+  if (n < 2) return null;
+  const meanMs = points.reduce((s, p) => s + p.ms, 0) / n;
+  const meanY = points.reduce((s, p) => s + p.value, 0) / n;
+  let sxy = 0;
+  let sxx = 0;
+  for (const p of points) {
+    sxy += (p.ms - meanMs) * (p.value - meanY);
+    sxx += (p.ms - meanMs) ** 2;
+  }
+  if (sxx === 0) return null;
+
+  const slope = sxy / sxx;
+  const sse = points.reduce((s, p) => s + (p.value - (meanY + slope * (p.ms - meanMs))) ** 2, 0);
+  return { slope, intercept: meanY, meanMs, sxx, sigma: n > 2 ? Math.sqrt(sse / (n - 2)) : 0, n };
+}
+
+export type RateOfChange = {
+  perHour: number;
+  direction: "up" | "down" | "steady";
+  n: number;
+};
+
+/**
+ * Slope (units per hour) over the last RATE_WINDOW_MS of the series, or null
+ * when there isn't enough recent data to say.
+ */
+export function rateOfChange(points: TrendPoint[], field: DisplayField): RateOfChange | null {
+  if (!points.length) return null;
+  const end = points[points.length - 1].ms;
+  const recent = points.filter((p) => p.ms >= end - RATE_WINDOW_MS);
+  if (recent.length < RATE_MIN_POINTS || end - recent[0].ms < RATE_MIN_SPAN_MS) return null;
+
+  const fit = linearFit(recent);
+  if (!fit) return null;
+
+  const perHour = fit.slope * 3_600_000;
+  const shown = roundTo(perHour, DISPLAY_FIELDS[field].decimals);
+  return {
+    perHour,
+    direction: shown > 0 ? "up" : shown < 0 ? "down" : "steady",
+    n: recent.length,
+  };
+}
+
+/**
+ * "↓ −120 ft/hr" style label for a tile.
+ */
+export function formatRate(
+  rate: RateOfChange | null,
+  field: DisplayField,
+  units: UnitPrefs = IMPERIAL_UNITS
+): string | undefined {
+  if (!rate) return undefined;
+  if (rate.direction === "steady") return "→ steady";
+  const { unit, decimals } = fieldUnit(field, units);
+  const perHour = deltaToDisplayUnits(field, rate.perHour, units);
+  const arrow = rate.direction === "up" ? "↑" : "↓";
+  const sign = perHour > 0 ? "+" : "−";
+  return `${arrow} ${sign}${Math.abs(perHour).toFixed(decimals)}${unit ? ` ${unit}` : ""}/hr`;
+}
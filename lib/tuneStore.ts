@@ -0,0 +1,133 @@
+// ==============================
+// Tune table storage (server side)
+// ==============================
+//
+// Every save is a new immutable version, and deleting only records when the
+// table was retired, so the chart that was in effect on any given day can
+// still be looked up.
+
+import { newId, readJson, updateJson } from "@/lib/fileStore";
+import { TUNE_KEY_FIELDS, type TuneTable } from "@/lib/tuneTables";
+
+const COLLECTION = "tune-tables";
+
+// When a table was deleted; saving it again later brings it back from then on
+type Deletion = { id: string; at: string };
+
+type Stored = { versions: TuneTable[]; deleted: Deletion[] };
+
+const EMPTY: Stored = { versions: [], deleted: [] };
+
+// Deletions used to be bare ids with no time; those stay hidden at every time
+const LEGACY_DELETED_AT = new Date(0).toISOString();
+
+function normalize(raw: { versions?: TuneTable[]; deleted?: (Deletion | string)[] } | null): Stored {
+  return {
+    versions: raw?.versions ?? [],
+    deleted: (raw?.deleted ?? []).map((d) => (typeof d === "string" ? { id: d, at: LEGACY_DELETED_AT } : d)),
+  };
+}
+
+async function load(): Promise<Stored> {
+  return normalize(await readJson<Stored>(COLLECTION, EMPTY));
+}
+
+function latestPerTable(versions: TuneTable[], atMs = Infinity): TuneTable[] {
+  const best = new Map<string, TuneTable>();
+  for (const v of versions) {
+    if (Date.parse(v.effectiveFrom) > atMs) continue;
+    const cur = best.get(v.id);
+    if (!cur || v.version > cur.version) best.set(v.id, v);
+  }
+  return [...best.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Deleted at `atMs`: retired after the version then in effect was saved
+function deletedAt(s: Stored, table: TuneTable, atMs: number): boolean {
+  return s.deleted.some((d) => {
+    if (d.id !== table.id) return false;
+    if (d.at === LEGACY_DELETED_AT) return true;
+    const ms = Date.parse(d.at);
+    return ms <= atMs && ms >= Date.parse(table.effectiveFrom);
+  });
+}
+
+/**
+ * Tables (at the version in effect at `atMs`, default now).
+ */
+export async function listTuneTables(atMs = Date.now()): Promise<TuneTable[]> {
+  const s = await load();
+  return latestPerTable(s.versions, atMs).filter((t) => !deletedAt(s, t, atMs));
+}
+
+export async function tuneTableVersions(id: string): Promise<TuneTable[]> {
+  const s = await load();
+  return s.versions.filter((v) => v.id === id).sort((a, b) => b.version - a.version);
+}
+
+export type TuneTableInput = Pick<TuneTable, "name" | "keyField" | "columns" | "rows"> & { id?: string };
+
+function validate(t: TuneTableInput) {
+  if (!t.name?.trim()) throw new Error("Table needs a name.");
+  if (!TUNE_KEY_FIELDS.includes(t.keyField)) {
+    throw new Error(`keyField must be one of: ${TUNE_KEY_FIELDS.join(", ")}`);
+  }
+  if (!Array.isArray(t.columns) || !t.columns.length) throw new Error("Table needs at least one column.");
+  if (!Array.isArray(t.rows) || !t.rows.length) throw new Error("Table needs at least one row.");
+  const keys = new Set<number>();
+  for (const r of t.rows) {
+    if (!Number.isFinite(r?.key)) throw new Error("Every row needs a numeric key.");
+    if (keys.has(r.key)) throw new Error(`Duplicate row key ${r.key}.`);
+    keys.add(r.key);
+    // Same rule as a CSV upload: every cell is a number
+    const bad = t.columns.find((c) => typeof r.values?.[c] !== "number" || !Number.isFinite(r.values[c]));
+    if (bad !== undefined) throw new Error(`Row ${r.key}: "${bad}" must be a number.`);
+  }
+}
+
+/**
+ * Save a new table, or a new version of an existing one when `id` is given.
+ */
+export async function saveTuneTable(input: TuneTableInput): Promise<TuneTable> {
+  validate(input);
+
+  return updateJson(COLLECTION, EMPTY, (raw) => {
+    const s = normalize(raw);
+    const id = input.id || newId("tt");
+    const prev = s.versions.filter((v) => v.id === id);
+
+    const table: TuneTable = {
+      id,
+      name: input.name.trim(),
+      keyField: input.keyField,
+      columns: input.columns,
+      rows: [...input.rows]
+        .map((r) => ({ key: r.key, values: Object.fromEntries(input.columns.map((c) => [c, r.values[c]])) }))
+        .sort((a, b) => a.key - b.key),
+      version: prev.reduce((n, v) => Math.max(n, v.version), 0) + 1,
+      effectiveFrom: new Date().toISOString(),
+    };
+
+    // A bare-id deletion has no time to compare the new version against
+    const deleted = s.deleted.filter((d) => d.id !== id || d.at !== LEGACY_DELETED_AT);
+    return { value: { versions: [...s.versions, table], deleted }, result: table };
+  });
+}
+
+/**
+ * Retire a table from now on. Its versions stay on file, and ?at= before now
+ * still lists it, for looking up old readings.
+ */
+export function deleteTuneTable(id: string): Promise<{ deleted: boolean }> {
+  return updateJson(COLLECTION, EMPTY, (raw) => {
+    const s = normalize(raw);
+    const now = Date.now();
+    const current = latestPerTable(s.versions.filter((v) => v.id === id), now)[0];
+    const exists = s.versions.some((v) => v.id === id);
+    const live = !!current && !deletedAt(s, current, now);
+    return {
+      value: live ? { ...s, deleted: [...s.deleted, { id, at: new Date(now).toISOString() }] } : s,
+      result: { deleted: exists },
+    };
+  });
+}
@@ -0,0 +1,111 @@
+// ==============================
+// Tune-up lookup tables (jetting / timing / clutch charts)
+// ==============================
+//
+// Rows are keyed on one air measurement; every other column is a setting.
+// Between rows we interpolate linearly; outside the chart we hold the end
+// row and say so.
+
+import { parseCsv, toCsv } from "@/lib/csv";
+import { fieldValue, type ReadingDisplay } from "@/lib/reading";
+
+export type TuneKeyField = "adr" | "adr2" | "densityAltFt" | "correction";
+
+export const TUNE_KEY_FIELDS: TuneKeyField[] = ["adr", "adr2", "densityAltFt", "correction"];
+
+export type TuneRow = { key: number; values: Record<string, number> };
+
+export type TuneTable = {
+  id: string;
+  name: string;
+  keyField: TuneKeyField;
+  columns: string[];
+  rows: TuneRow[];
+  version: number;
+  // When this version took effect (and the previous one stopped)
+  effectiveFrom: string;
+};
+
+export type TuneRecommendation = {
+  tableId: string;
+  name: string;
+  version: number;
+  keyField: TuneKeyField;
+  key: number;
+  // "below"/"above" when the air is off the end of the chart
+  clamped: "below" | "above" | null;
+  values: Record<string, number>;
+};
+
+export function interpolateTable(table: TuneTable, x: number): TuneRecommendation | null {
+  const rows = [...table.rows].sort((a, b) => a.key - b.key);
+  if (!rows.length || !Number.isFinite(x)) return null;
+
+  const base = {
+    tableId: table.id,
+    name: table.name,
+    version: table.version,
+    keyField: table.keyField,
+    key: x,
+  };
+
+  if (x <= rows[0].key) return { ...base, clamped: x < rows[0].key ? "below" : null, values: { ...rows[0].values } };
+  const last = rows[rows.length - 1];
+  if (x >= last.key) return { ...base, clamped: x > last.key ? "above" : null, values: { ...last.values } };
+
+  let i = 0;
+  while (rows[i + 1].key < x) i++;
+  const lo = rows[i];
+  const hi = rows[i + 1];
+  const t = (x - lo.key) / (hi.key - lo.key);
+
+  const values: Record<string, number> = {};
+  for (const c of table.columns) {
+    const a = lo.values[c];
+    const b = hi.values[c];
+    if (Number.isFinite(a) && Number.isFinite(b)) values[c] = a + (b - a) * t;
+  }
+  return { ...base, clamped: null, values };
+}
+
+// Charts keyed on correction are in the sheet formula, whatever the app's standard
+export function recommend(tables: TuneTable[], display: ReadingDisplay): TuneRecommendation[] {
+  return tables
+    .map((t) => interpolateTable(t, fieldValue({ display }, t.keyField, "sheet") ?? NaN))
+    .filter((r): r is TuneRecommendation => r !== null);
+}
+
+/**
+ * Header is `<keyField>,<column>,...`; every cell must be numeric.
+ */
+export function tableFromCsv(csv: string): Pick<TuneTable, "keyField" | "columns" | "rows"> {
+  const [header, ...body] = parseCsv(csv);
+  if (!header || header.length < 2) throw new Error("CSV needs a header row: keyField,column1,...");
+
+  const keyField = header[0].trim() as TuneKeyField;
+  if (!TUNE_KEY_FIELDS.includes(keyField)) {
+    throw new Error(`First column must be one of: ${TUNE_KEY_FIELDS.join(", ")}`);
+  }
+  const columns = header.slice(1).map((c) => c.trim());
+
+  const rows = body.map((cells, n) => {
+    const nums = cells.map((c) => Number(c.trim()));
+    if (nums.length !== header.length || nums.some((v) => !Number.isFinite(v))) {
+      throw new Error(`Row ${n + 2}: expected ${header.length} numeric values.`);
+    }
+    return {
+      key: nums[0],
+      values: Object.fromEntries(columns.map((c, i) => [c, nums[i + 1]])),
+    };
+  });
+
+  if (rows.length < 1) throw new Error("CSV has no data rows.");
+  return { keyField, columns, rows };
+}
+
+export function tableToCsv(table: TuneTable): string {
+  const rows = [...table.rows]
+    .sort((a, b) => a.key - b.key)
+    .map((r) => [r.key, ...table.columns.map((c) => r.values[c])]);
+  return toCsv([table.keyField, ...table.columns], rows);
+}
@@ -0,0 +1,242 @@
+// ==============================
+// Unit conversions + per-user display units
+// ==============================
+//
+// The calc, the store and every API keep imperial values (°F, inHg, ft,
+// grains). Conversion happens at the edges: inputs typed in other units go
+// through fromDisplayUnits(), and the UI and exports go
+// through the display helpers with the user's UnitPrefs, which can mix
+// systems (°F with hPa is common).
+
+import { DISPLAY_FIELDS, type DisplayField } from "@/lib/reading";
+
+export const HPA_PER_INHG = 33.8638866667;
+export const M_PER_FT = 0.3048;
+// 7000 grains to the pound: gr/lb → g/kg
+export const GRAINS_PER_G_PER_KG = 7;
+
+export function cToF(c: number): number {
+  return c * (9 / 5) + 32;
+}
+
+export function fToC(f: number): number {
+  return (f - 32) * (5 / 9);
+}
+
+export function hPaToInHg(hPa: number): number {
+  return hPa / HPA_PER_INHG;
+}
+
+export type Quantity = "temperature" | "pressure" | "altitude" | "moisture";
+
+export type UnitPrefs = {
+  temperature: "F" | "C";
+  pressure: "inHg" | "hPa" | "mbar";
+  altitude: "ft" | "m";
+  moisture: "gr" | "gkg";
+};
+
+export type Unit = UnitPrefs[Quantity];
+
+type UnitDef = {
+  quantity: Quantity;
+  label: string;
+  // Suffix replacing the imperial one in export column names (tempF → tempC)
+  suffix: string;
+  // Decimals for ordinary values; fine fields (vapor pressure) get one more
+  decimals: number;
+  // Multiplier for differences / rates (no offset)
+  scale: number;
+  fromImperial: (v: number) => number;
+  toImperial: (v: number) => number;
+};
+
+export const UNITS: Record<Unit, UnitDef> = {
+  F: {
+    quantity: "temperature",
+    label: "°F",
+    suffix: "F",
+    decimals: 1,
+    scale: 1,
+    fromImperial: (v) => v,
+    toImperial: (v) => v,
+  },
+  C: {
+    quantity: "temperature",
+    label: "°C",
+    suffix: "C",
+    decimals: 1,
+    scale: 5 / 9,
+    fromImperial: fToC,
+    toImperial: cToF,
+  },
+  inHg: {
+    quantity: "pressure",
+    label: "inHg",
+    suffix: "InHg",
+    decimals: 3,
+    scale: 1,
+    fromImperial: (v) => v,
+    toImperial: (v) => v,
+  },
+  hPa: {
+    quantity: "pressure",
+    label: "hPa",
+    suffix: "HPa",
+    decimals: 1,
+    scale: HPA_PER_INHG,
+    fromImperial: (v) => v * HPA_PER_INHG,
+    toImperial: hPaToInHg,
+  },
+  mbar: {
+    quantity: "pressure",
+    label: "mbar",
+    suffix: "Mbar",
+    decimals: 1,
+    scale: HPA_PER_INHG,
+    fromImperial: (v) => v * HPA_PER_INHG,
+    toImperial: hPaToInHg,
+  },
+  ft: {
+    quantity: "altitude",
+    label: "ft",
+    suffix: "Ft",
+    decimals: 0,
+    scale: 1,
+    fromImperial: (v) => v,
+    toImperial: (v) => v,
+  },
+  m: {
+    quantity: "altitude",
+    label: "m",
+    suffix: "M",
+    decimals: 0,
+    scale: M_PER_FT,
+    fromImperial: (v) => v * M_PER_FT,
+    toImperial: (v) => v / M_PER_FT,
+  },
+  gr: {
+    quantity: "moisture",
+    label: "gr",
+    suffix: "Grains",
+    decimals: 1,
+    scale: 1,
+    fromImperial: (v) => v,
+    toImperial: (v) => v,
+  },
+  gkg: {
+    quantity: "moisture",
+    label: "g/kg",
+    suffix: "GPerKg",
+    decimals: 2,
+    scale: 1 / GRAINS_PER_G_PER_KG,
+    fromImperial: (v) => v / GRAINS_PER_G_PER_KG,
+    toImperial: (v) => v * GRAINS_PER_G_PER_KG,
+  },
+};
+
+export const QUANTITY_UNITS: Record<Quantity, { label: string; units: Unit[] }> = {
+  temperature: { label: "Temperature", units: ["F", "C"] },
+  pressure: { label: "Pressure", units: ["inHg", "hPa", "mbar"] },
+  altitude: { label: "Altitude", units: ["ft", "m"] },
+  moisture: { label: "Moisture", units: ["gr", "gkg"] },
+};
+
+export const IMPERIAL_UNITS: UnitPrefs = { temperature: "F", pressure: "inHg", altitude: "ft", moisture: "gr" };
+export const METRIC_UNITS: UnitPrefs = { temperature: "C", pressure: "hPa", altitude: "m", moisture: "gkg" };
+
+/**
+ * "metric", "imperial" or a comma list of unit ids in any order ("F,hPa").
+ * Anything not named stays imperial. Used for ?units= and localStorage.
+ */
+export function parseUnitPrefs(raw: string | null | undefined): UnitPrefs {
+  const text = (raw ?? "").trim();
+  if (text === "metric") return { ...METRIC_UNITS };
+  const prefs: UnitPrefs = { ...IMPERIAL_UNITS };
+  for (const part of text.split(",")) {
+    const unit = part.trim() as Unit;
+    if (Object.hasOwn(UNITS, unit)) (prefs as Record<Quantity, Unit>)[UNITS[unit].quantity] = unit;
+  }
+  return prefs;
+}
+
+export function encodeUnitPrefs(prefs: UnitPrefs): string {
+  return [prefs.temperature, prefs.pressure, prefs.altitude, prefs.moisture].join(",");
+}
+
+// Display fields that carry a convertible quantity (the rest are unitless or %)
+const FIELD_QUANTITY: Partial<Record<DisplayField, { quantity: Quantity; stem: string; fine?: boolean }>> = {
+  tempF: { quantity: "temperature", stem: "temp" },
+  dewPointF: { quantity: "temperature", stem: "dewPoint" },
+  absPressureInHg: { quantity: "pressure", stem: "absPressure" },
+  vaporPressureInHg: { quantity: "pressure", stem: "vaporPressure", fine: true },
+  densityAltFt: { quantity: "altitude", stem: "densityAlt" },
+  humidityGrains: { quantity: "moisture", stem: "humidity" },
+};
+
+export function fieldQuantity(field: DisplayField): Quantity | null {
+  return FIELD_QUANTITY[field]?.quantity ?? null;
+}
+
+/**
+ * Unit label and decimals a field is shown with under these prefs.
+ */
+export function fieldUnit(field: DisplayField, prefs: UnitPrefs): { unit: string; decimals: number } {
+  const q = FIELD_QUANTITY[field];
+  if (!q) return { unit: DISPLAY_FIELDS[field].unit, decimals: DISPLAY_FIELDS[field].decimals };
+  const def = UNITS[prefs[q.quantity]];
+  return { unit: def.label, decimals: def.decimals + (q.fine ? 1 : 0) };
+}
+
+export function toDisplayUnits(field: DisplayField, value: number, prefs: UnitPrefs): number {
+  const q = FIELD_QUANTITY[field];
+  return q ? UNITS[prefs[q.quantity]].fromImperial(value) : value;
+}
+
+// For rates, deltas and error bands
+export function deltaToDisplayUnits(field: DisplayField, delta: number, prefs: UnitPrefs): number {
+  const q = FIELD_QUANTITY[field];
+  return q ? delta * UNITS[prefs[q.quantity]].scale : delta;
+}
+
+export function fromDisplayUnits(field: DisplayField, value: number, prefs: UnitPrefs): number {
+  const q = FIELD_QUANTITY[field];
+  return q ? UNITS[prefs[q.quantity]].toImperial(value) : value;
+}
+
+/**
+ * Value in the user's unit at that unit's precision, "—" when missing.
+ */
+export function formatField(field: DisplayField, value: number | null | undefined, prefs: UnitPrefs): string {
+  if (value === null || value === undefined || !Number.isFinite(value)) return "—";
+  return toDisplayUnits(field, value, prefs).toFixed(fieldUnit(field, prefs).decimals);
+}
+
+/**
+ * A value that isn't a display field (station elevation, a reported pressure)
+ * in the user's unit, with the unit: "305 m".
+ */
+export function formatQuantity(quantity: Quantity, value: number | null | undefined, prefs: UnitPrefs): string {
+  if (value === null || value === undefined || !Number.isFinite(value)) return "—";
+  const def = UNITS[prefs[quantity]];
+  return `${def.fromImperial(value).toFixed(def.decimals)} ${def.label}`;
+}
+
+/**
+ * "Temp (°C)" style label.
+ */
+export function fieldLabel(field: DisplayField, prefs: UnitPrefs): string {
+  const { unit } = fieldUnit(field, prefs);
+  return unit ? `${DISPLAY_FIELDS[field].label} (${unit})` : DISPLAY_FIELDS[field].label;
+}
+
+/**
+ * Export column name: the imperial key, or its metric twin (tempF → tempC,
+ * absPressureInHg → absPressureHPa) so a file always says what it holds.
+ */
+export function fieldExportKey(field: DisplayField, prefs: UnitPrefs): string {
+  const q = FIELD_QUANTITY[field];
+  const unit = q ? prefs[q.quantity] : null;
+  if (!q || !unit || unit === IMPERIAL_UNITS[q.quantity]) return field;
+  return `${q.stem}${UNITS[unit].suffix}`;
+}
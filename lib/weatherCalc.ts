@@ -25,7 +25,16 @@ export type RawOutput = {
   tf: number;
   hf: number;
   bf: number;
+  // Value of the selected standard (see correctionStandard)
   correction: number;
+  correctionStandard: CorrectionStandard;
+
+  // Every standard side by side
+  corrSheet: number;
+  corrSaeJ1349: number;
+  corrSaeJ607: number;
+  corrDin70020: number;
+  corrNhraOld: number;
 
   adrCorr: number;
   adrCalc: number;
@@ -77,10 +86,17 @@ function adrPercent(tempF: number, P: number, e: number): number {
 }
 
 // --- Density Altitude (calibrated to your sheet) ---
-const DA_A = 0.9877786024779986;
-const DA_B = 15.819058349071335;
+// DA = DA_A · (ISA altitude for this air density) + DA_B. A calibration
+// profile (see lib/calibration) can replace both constants.
+export const DA_A = 0.9877786024779986;
+export const DA_B = 15.819058349071335;
+
+export type DaConstants = { daA: number; daB: number };
 
-function densityAltitudeFt(adrPct: number): number {
+/**
+ * Uncalibrated ISA altitude (ft) with the same air density ratio.
+ */
+export function isaAltitudeFt(adrPct: number): number {
   const ratio = adrPct / 100;
 
   const T0 = 288.15;
@@ -90,7 +106,11 @@ function densityAltitudeFt(adrPct: number): number {
 
   const exp = g / (R * L) - 1;
   const h_m = (T0 / L) * (1 - Math.pow(ratio, 1 / exp));
-  return DA_A * (h_m * 3.28084) + DA_B;
+  return h_m * 3.28084;
+}
+
+function densityAltitudeFt(adrPct: number, k: DaConstants = { daA: DA_A, daB: DA_B }): number {
+  return k.daA * isaAltitudeFt(adrPct) + k.daB;
 }
 
 // --- Standard Correction ---
@@ -101,11 +121,103 @@ function standardCorrection(tempF: number, P: number, e: number) {
   return { tf, hf, bf, correction: tf * hf * bf };
 }
 
+// --- Named correction standards ---
+//
+// Each corrects observed power to a reference day: (Pref / P) · (T / Tref)^k,
+// where P is either the dry-air part of the barometer (P − e) or the whole
+// barometer. SAE J1349 then applies its 85% mechanical-efficiency split
+// (1.18·cf − 0.18). "sheet" is the original tf·hf·bf product above.
+
+export type CorrectionStandard = "sheet" | "saeJ1349" | "saeJ607" | "din70020" | "nhraOld";
+
+type CorrectionKey = "corrSheet" | "corrSaeJ1349" | "corrSaeJ607" | "corrDin70020" | "corrNhraOld";
+
+export const DEFAULT_CORRECTION_STANDARD: CorrectionStandard = "sheet";
+
+export const CORRECTION_STANDARDS: Record<
+  CorrectionStandard,
+  {
+    label: string;
+    key: CorrectionKey;
+    refTempF: number;
+    refPressureInHg: number;
+    pressure: "dry" | "total";
+    tempExponent: number;
+    mechanicalEfficiency: boolean;
+  }
+> = {
+  sheet: {
+    label: "Sheet (tf·hf·bf)",
+    key: "corrSheet",
+    refTempF: 60,
+    refPressureInHg: 29.92,
+    pressure: "dry",
+    tempExponent: 0.50317,
+    mechanicalEfficiency: false,
+  },
+  saeJ1349: {
+    label: "SAE J1349",
+    key: "corrSaeJ1349",
+    refTempF: 77,
+    refPressureInHg: 29.235, // 99 kPa dry
+    pressure: "dry",
+    tempExponent: 0.5,
+    mechanicalEfficiency: true,
+  },
+  saeJ607: {
+    label: "SAE J607",
+    key: "corrSaeJ607",
+    refTempF: 60,
+    refPressureInHg: 29.92,
+    pressure: "dry",
+    tempExponent: 0.5,
+    mechanicalEfficiency: false,
+  },
+  din70020: {
+    label: "DIN 70020",
+    key: "corrDin70020",
+    refTempF: 68, // 20 °C
+    refPressureInHg: 29.92, // 1013 mbar
+    pressure: "total",
+    tempExponent: 0.5,
+    mechanicalEfficiency: false,
+  },
+  nhraOld: {
+    label: "Old NHRA",
+    key: "corrNhraOld",
+    refTempF: 60,
+    refPressureInHg: 29.92,
+    pressure: "total",
+    tempExponent: 0.5,
+    mechanicalEfficiency: false,
+  },
+};
+
+export function isCorrectionStandard(x: unknown): x is CorrectionStandard {
+  return typeof x === "string" && Object.hasOwn(CORRECTION_STANDARDS, x);
+}
+
+function namedCorrection(std: CorrectionStandard, tempF: number, P: number, e: number): number {
+  if (std === "sheet") return standardCorrection(tempF, P, e).correction;
+
+  const s = CORRECTION_STANDARDS[std];
+  const p = s.pressure === "dry" ? P - e : P;
+  const cf = (s.refPressureInHg / p) * Math.pow(fToK(tempF) / fToK(s.refTempF), s.tempExponent);
+  return s.mechanicalEfficiency ? 1.18 * cf - 0.18 : cf;
+}
+
 // ==============================
 // Main compute function
 // ==============================
 
-export function computeRacingWeather(x: Inputs): RawOutput {
+export type ComputeOptions = {
+  // Which standard fills `correction` (default: the original sheet formula)
+  correctionStandard?: CorrectionStandard;
+  // DA constants from a calibration profile (default: DA_A / DA_B)
+  calibration?: DaConstants;
+};
+
+export function computeRacingWeather(x: Inputs, opts: ComputeOptions = {}): RawOutput {
   const { tempF, humidityPct, absPressureInHg } = x;
 
   const pdValue = pdValueInHg(tempF);
@@ -115,22 +227,26 @@ export function computeRacingWeather(x: Inputs): RawOutput {
   const humidityGrainsVal = humidityGrains(absPressureInHg, vaporPressureInHg);
 
   const adrPct = adrPercent(tempF, absPressureInHg, vaporPressureInHg);
-  const densityAltFt = densityAltitudeFt(adrPct);
+  const densityAltFt = densityAltitudeFt(adrPct, opts.calibration);
 
-  const { tf, hf, bf, correction } = standardCorrection(
+  const { tf, hf, bf, correction: sheetCorrection } = standardCorrection(
     tempF,
     absPressureInHg,
     vaporPressureInHg
   );
 
+  const corr = (std: CorrectionStandard) =>
+    std === "sheet" ? sheetCorrection : namedCorrection(std, tempF, absPressureInHg, vaporPressureInHg);
+  const correctionStandard = opts.correctionStandard ?? DEFAULT_CORRECTION_STANDARD;
+
   // ==========================================
-  // ADR2 math from your Excel
+  // ADR2 math from your Excel (always against the sheet correction it was built on)
   // adrCorr = (((100 - adr) / 100) + 1)
   // adrCalc = adrCorr - correction
   // adr2    = adrCorr - (adrCalc / 2)
   // ==========================================
   const adrCorr = ((100 - adrPct) / 100) + 1;
-  const adrCalc = adrCorr - correction;
+  const adrCalc = adrCorr - sheetCorrection;
   const adr2 = adrCorr - (adrCalc / 2);
 
   return {
@@ -150,10 +266,121 @@ export function computeRacingWeather(x: Inputs): RawOutput {
     tf,
     hf,
     bf,
-    correction,
+    correction: corr(correctionStandard),
+    correctionStandard,
+
+    corrSheet: sheetCorrection,
+    corrSaeJ1349: corr("saeJ1349"),
+    corrSaeJ607: corr("saeJ607"),
+    corrDin70020: corr("din70020"),
+    corrNhraOld: corr("nhraOld"),
 
     adrCorr,
     adrCalc,
     adr2,
   };
-}
\ No newline at end of file
+}
+// ==============================
+// Inverse solving
+// ==============================
+//
+// "At today's pressure and humidity, what temperature gives me ADR 95?"
+// Hold two inputs fixed, search the third until the chosen output hits the
+// target. Same bisection idea as dewPointFFromVaporPressure, with a coarse
+// scan first to find a bracket since not every output is monotonic over the
+// whole range.
+
+export type SolveFor = keyof Inputs;
+
+export type SolveTarget =
+  | "adrPct"
+  | "adr2"
+  | "densityAltFt"
+  | "correction"
+  | "humidityGrains"
+  | "dewPointF";
+
+export const SOLVE_TARGETS: SolveTarget[] = [
+  "adrPct",
+  "adr2",
+  "densityAltFt",
+  "correction",
+  "humidityGrains",
+  "dewPointF",
+];
+
+// Physically sensible search range for each input
+export const SOLVE_RANGES: Record<SolveFor, [number, number]> = {
+  tempF: [-40, 140],
+  humidityPct: [0, 100],
+  absPressureInHg: [20, 32],
+};
+
+export type SolveResult = {
+  solveFor: SolveFor;
+  value: number;
+  inputs: Inputs;
+  output: RawOutput;
+};
+
+const SOLVE_SCAN_STEPS = 200;
+
+/**
+ * Find the value of `solveFor` (other inputs taken from `known`) at which
+ * `target` equals `targetValue`. Returns null when the target can't be
+ * reached anywhere in SOLVE_RANGES.
+ */
+export function solveForInput(
+  solveFor: SolveFor,
+  target: SolveTarget,
+  targetValue: number,
+  known: Inputs,
+  opts: ComputeOptions = {}
+): SolveResult | null {
+  const [min, max] = SOLVE_RANGES[solveFor];
+
+  const evalAt = (v: number) => {
+    const inputs = { ...known, [solveFor]: v };
+    return { inputs, output: computeRacingWeather(inputs, opts) };
+  };
+  const f = (v: number) => evalAt(v).output[target] - targetValue;
+
+  // 1) coarse scan for a sign change
+  let lo = NaN;
+  let hi = NaN;
+  let prevV = min;
+  let prevF = f(min);
+  for (let i = 1; i <= SOLVE_SCAN_STEPS; i++) {
+    const v = min + ((max - min) * i) / SOLVE_SCAN_STEPS;
+    const fv = f(v);
+    if (prevF === 0) {
+      lo = hi = prevV;
+      break;
+    }
+    if (Number.isFinite(prevF) && Number.isFinite(fv) && Math.sign(fv) !== Math.sign(prevF)) {
+      lo = prevV;
+      hi = v;
+      break;
+    }
+    prevV = v;
+    prevF = fv;
+  }
+  if (!Number.isFinite(lo)) return null;
+
+  // 2) bisection inside the bracket
+  let fLo = f(lo);
+  for (let i = 0; i < 80 && lo !== hi; i++) {
+    const mid = (lo + hi) / 2;
+    const fMid = f(mid);
+    if (Math.sign(fMid) === Math.sign(fLo)) {
+      lo = mid;
+      fLo = fMid;
+    } else {
+      hi = mid;
+    }
+  }
+
+  const value = (lo + hi) / 2;
+  const { inputs, output } = evalAt(value);
+  return { solveFor, value, inputs, output };
+}
@@ -0,0 +1,273 @@
+// ==============================
+// WeatherLink v2 client + payload helpers (server only)
+// ==============================
+
+import { parseCurrentPayload, type WeatherLinkPayload } from "@/lib/weatherlinkPayload";
+
+// Point at a local fake server for testing (see scripts/fake-weatherlink.mjs)
+export function weatherLinkBaseUrl(): string {
+  return (process.env.WEATHERLINK_BASE_URL || "https://api.weatherlink.com").replace(/\/+$/, "");
+}
+
+// Station used when a request doesn't name one (and for readings stored
+// before history was tagged by station).
+export function defaultStationId(): string {
+  return process.env.WEATHERLINK_STATION_ID ?? "";
+}
+
+// Stations the background poller records: WEATHERLINK_STATION_IDS (comma
+// separated) or just the default station.
+export function configuredStationIds(): string[] {
+  const list = (process.env.WEATHERLINK_STATION_IDS ?? "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+  if (list.length) return [...new Set(list)];
+  return defaultStationId() ? [defaultStationId()] : [];
+}
+
+// ==============================
+// Shared request layer
+// ==============================
+//
+// Every WeatherLink call goes through requestWeatherLink, so however many
+// viewers, pollers and diagnostics pages ask at once:
+// - identical requests in flight share one fetch, and a response is reused
+//   for a few seconds (WeatherLink only updates current conditions each minute);
+// - network errors, 429 and 5xx are retried with backoff (honoring Retry-After);
+// - after repeated failures the circuit opens and calls fail fast for a while,
+//   instead of adding to a rate limit or an outage.
+
+const RETRY_ATTEMPTS = 3;
+const RETRY_BASE_MS = 500;
+const RETRY_AFTER_MAX_MS = 10_000;
+// Failed calls (after retries) in a row that open the circuit, and for how long
+const BREAKER_THRESHOLD = 3;
+const BREAKER_OPEN_MS = 60_000;
+
+export const CURRENT_CACHE_MS = 15_000;
+const STATIONS_CACHE_MS = 5 * 60_000;
+
+type CachedResponse = { payload: unknown; fetchedAt: number };
+
+type WeatherLinkClientState = {
+  cache: Map<string, CachedResponse>;
+  inFlight: Map<string, Promise<CachedResponse>>;
+  // Newest good /current payload per station, kept past the cache for stale fallbacks
+  lastGood: Map<string, CachedResponse>;
+  consecutiveFailures: number;
+  openUntil: number;
+  lastError: string | null;
+};
+
+// Kept on globalThis so dev hot-reloads share one cache and breaker
+const g = globalThis as unknown as { __racewxWeatherLink?: WeatherLinkClientState };
+const client: WeatherLinkClientState = (g.__racewxWeatherLink ??= {
+  cache: new Map(),
+  inFlight: new Map(),
+  lastGood: new Map(),
+  consecutiveFailures: 0,
+  openUntil: 0,
+  lastError: null,
+});
+
+function credentials(needStation: boolean, stationId?: string) {
+  const apiKey = process.env.WEATHERLINK_API_KEY;
+  const apiSecret = process.env.WEATHERLINK_API_SECRET;
+  if (!apiKey || !apiSecret || (needStation && !stationId)) {
+    throw new Error("Missing WEATHERLINK env vars. Check .env.local");
+  }
+  return { apiKey, apiSecret };
+}
+
+function isTransientStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+function retryDelayMs(attempt: number, retryAfter: string | null): number {
+  const sec = Number(retryAfter);
+  if (retryAfter && Number.isFinite(sec)) return Math.min(sec * 1000, RETRY_AFTER_MAX_MS);
+  // 500 ms, 1 s, 2 s… with a little jitter so parallel callers don't retry in step
+  return RETRY_BASE_MS * 2 ** attempt * (0.8 + Math.random() * 0.4);
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function fetchWithRetry(url: string, apiSecret: string, label: string): Promise<unknown> {
+  for (let attempt = 0; ; attempt++) {
+    let res: Response;
+    try {
+      res = await fetch(url, { headers: { "X-Api-Secret": apiSecret }, cache: "no-store" });
+    } catch (err: unknown) {
+      if (attempt + 1 >= RETRY_ATTEMPTS) throw new Error(`${label}: ${(err as Error)?.message ?? "network error"}`);
+      await sleep(retryDelayMs(attempt, null));
+      continue;
+    }
+    if (res.ok) {
+      const txt = await res.text();
+      try {
+        return JSON.parse(txt);
+      } catch {
+        throw new Error(`${label}: response isn't valid JSON (${txt.slice(0, 60)}…)`);
+      }
+    }
+
+    const txt = await res.text();
+    const error = new Error(`${label} HTTP ${res.status}: ${txt}`);
+    if (!isTransientStatus(res.status) || attempt + 1 >= RETRY_ATTEMPTS) {
+      // Bad key / unknown station aren't outages; don't trip the breaker for them
+      if (!isTransientStatus(res.status)) Object.assign(error, { permanent: true });
+      throw error;
+    }
+    await sleep(retryDelayMs(attempt, res.headers.get("retry-after")));
+  }
+}
+
+/**
+ * GET a WeatherLink path through the shared cache, coalescing, retry and
+ * circuit breaker. `cacheMs` 0 skips the cache (still coalesced). `parse`
+ * runs before caching, so a malformed body is a failed call, not a cached one.
+ */
+async function requestWeatherLink(
+  path: string,
+  opts: { cacheMs: number; label: string; apiKey: string; apiSecret: string; parse?: (payload: unknown) => unknown }
+): Promise<CachedResponse> {
+  const sep = path.includes("?") ? "&" : "?";
+  const url = `${weatherLinkBaseUrl()}${path}${sep}api-key=${opts.apiKey}`;
+
+  const cached = client.cache.get(url);
+  if (cached && Date.now() - cached.fetchedAt < opts.cacheMs) return cached;
+
+  const pending = client.inFlight.get(url);
+  if (pending) return pending;
+
+  if (Date.now() < client.openUntil) {
+    const sec = Math.ceil((client.openUntil - Date.now()) / 1000);
+    throw new Error(`WeatherLink paused for ${sec}s after repeated failures (last: ${client.lastError})`);
+  }
+
+  const request = (async () => {
+    try {
+      const body = await fetchWithRetry(url, opts.apiSecret, opts.label);
+      const payload = opts.parse ? opts.parse(body) : body;
+      const entry = { payload, fetchedAt: Date.now() };
+      if (opts.cacheMs > 0) client.cache.set(url, entry);
+      client.consecutiveFailures = 0;
+      client.lastError = null;
+      return entry;
+    } catch (err: unknown) {
+      if (!(err as { permanent?: boolean }).permanent) {
+        client.lastError = (err as Error)?.message ?? "Unknown error";
+        if (++client.consecutiveFailures >= BREAKER_THRESHOLD) client.openUntil = Date.now() + BREAKER_OPEN_MS;
+      }
+      throw err;
+    } finally {
+      client.inFlight.delete(url);
+    }
+  })();
+  client.inFlight.set(url, request);
+  return request;
+}
+
+export type WeatherLinkClientStatus = {
+  circuit: "closed" | "open";
+  openUntil: string | null;
+  consecutiveFailures: number;
+  lastError: string | null;
+  cachedResponses: number;
+};
+
+export function weatherLinkClientStatus(): WeatherLinkClientStatus {
+  const open = Date.now() < client.openUntil;
+  return {
+    circuit: open ? "open" : "closed",
+    openUntil: open ? new Date(client.openUntil).toISOString() : null,
+    consecutiveFailures: client.consecutiveFailures,
+    lastError: client.lastError,
+    cachedResponses: client.cache.size,
+  };
+}
+
+// WeatherLink v2 current endpoint:
+// https://api.weatherlink.com/v2/current/{station-id}?api-key=...
+export async function fetchWeatherLinkCurrent(stationId = defaultStationId()): Promise<WeatherLinkPayload> {
+  return (await fetchWeatherLinkCurrentOrStale(stationId, false)).payload;
+}
+
+// Set when WeatherLink couldn't be reached and an earlier payload was served instead
+export type StaleResponse = { reason: string; fetchedAt: string };
+
+/**
+ * Current conditions for a station. When WeatherLink fails (or the circuit is
+ * open) and `allowStale`, the last good payload comes back with `stale` set
+ * instead of an error; with nothing to fall back on it still throws.
+ */
+export async function fetchWeatherLinkCurrentOrStale(
+  stationId = defaultStationId(),
+  allowStale = true
+): Promise<{ payload: WeatherLinkPayload; stale: StaleResponse | null }> {
+  const { apiKey, apiSecret } = credentials(true, stationId);
+  try {
+    const entry = await requestWeatherLink(`/v2/current/${encodeURIComponent(stationId)}`, {
+      cacheMs: CURRENT_CACHE_MS,
+      label: "WeatherLink",
+      apiKey,
+      apiSecret,
+      parse: parseCurrentPayload,
+    });
+    const payload = entry.payload as WeatherLinkPayload;
+    client.lastGood.set(stationId, { payload, fetchedAt: entry.fetchedAt });
+    return { payload, stale: null };
+  } catch (err: unknown) {
+    const last = client.lastGood.get(stationId);
+    if (!allowStale || !last || (err as { permanent?: boolean }).permanent) throw err;
+    return {
+      payload: last.payload as WeatherLinkPayload,
+      stale: {
+        reason: (err as Error)?.message ?? "WeatherLink unavailable",
+        fetchedAt: new Date(last.fetchedAt).toISOString(),
+      },
+    };
+  }
+}
+
+// WeatherLink v2 stations endpoint: every station on the account
+export type WeatherLinkStation = { station_id: number; station_name: string; station_id_uuid?: string };
+
+export async function fetchWeatherLinkStations(): Promise<{ stations?: WeatherLinkStation[] }> {
+  const { apiKey, apiSecret } = credentials(false);
+  const entry = await requestWeatherLink("/v2/stations", {
+    cacheMs: STATIONS_CACHE_MS,
+    label: "Stations",
+    apiKey,
+    apiSecret,
+  });
+  return entry.payload as { stations?: WeatherLinkStation[] };
+}
+
+// ==============================
+// Historic (archive) endpoint
+// ==============================
+
+// WeatherLink refuses historic windows longer than 24 hours.
+export const HISTORIC_MAX_WINDOW_SEC = 24 * 60 * 60;
+
+// WeatherLink v2 historic endpoint:
+// https://api.weatherlink.com/v2/historic/{station-id}?api-key=...&start-timestamp=...&end-timestamp=...
+export async function fetchWeatherLinkHistoric(
+  startSec: number,
+  endSec: number,
+  stationId = defaultStationId()
+) {
+  const { apiKey, apiSecret } = credentials(true, stationId);
+
+  if (endSec - startSec > HISTORIC_MAX_WINDOW_SEC) {
+    throw new Error("Historic window must be 24 hours or less.");
+  }
+
+  const path =
+    `/v2/historic/${encodeURIComponent(stationId)}` +
+    `?start-timestamp=${Math.floor(startSec)}&end-timestamp=${Math.floor(endSec)}`;
+  const entry = await requestWeatherLink(path, { cacheMs: 0, label: "WeatherLink historic", apiKey, apiSecret });
+  return entry.payload;
+}
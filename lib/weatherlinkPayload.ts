@@ -0,0 +1,412 @@
+// ==============================
+// WeatherLink v2 current-conditions payload parser
+// ==============================
+//
+// A payload is a list of logical sensors (each with an lsid, a sensor_type
+// and a data_structure_type) and their records. Which sensor feeds which calc
+// input is decided from the sensor's role, so an indoor console, a soil/leaf
+// station or an AirLink never stands in for the outdoor ISS. A station can
+// pin an input to one lsid (see StationConfig.lsids) when the roles aren't
+// enough, e.g. two ISS transmitters.
+
+import type { InputSource } from "@/lib/reading";
+import type { ReportedPressure } from "@/lib/pressure";
+
+export type WeatherLinkRecord = { ts?: number | null } & Record<string, unknown>;
+
+export type WeatherLinkSensor = {
+  lsid: number | null;
+  sensor_type: number | null;
+  data_structure_type: number | null;
+  data: WeatherLinkRecord[];
+};
+
+export type WeatherLinkPayload = {
+  station_id: number | null;
+  generated_at: number | null;
+  sensors: WeatherLinkSensor[];
+};
+
+export type InputKey = InputSource["input"];
+
+export type SensorRole =
+  | "iss"
+  | "console"
+  | "tempHum"
+  | "barometer"
+  | "indoor"
+  | "soilLeaf"
+  | "airQuality"
+  | "health"
+  | "other";
+
+export const SENSOR_ROLES: Record<SensorRole, { label: string }> = {
+  iss: { label: "Outdoor ISS" },
+  console: { label: "Vantage console (whole station)" },
+  tempHum: { label: "Extra temp/hum" },
+  barometer: { label: "Barometer" },
+  indoor: { label: "Indoor temp/hum" },
+  soilLeaf: { label: "Soil / leaf" },
+  airQuality: { label: "Air quality" },
+  health: { label: "Device health" },
+  other: { label: "Other" },
+};
+
+// sensor_type codes from the WeatherLink v2 sensor catalog (GET /v2/sensor-catalog)
+const ISS_SENSOR_TYPES = new Set([
+  23, 24, 27, 28, 43, 44, 45, 46, 48, 49, 50, 51, 76, 77, 78, 79, 80, 81, 82, 83, 84, 85,
+]);
+const ROLE_BY_SENSOR_TYPE: Record<number, SensorRole> = {
+  55: "tempHum",
+  56: "soilLeaf",
+  242: "barometer",
+  243: "indoor",
+  323: "airQuality",
+  326: "airQuality",
+  504: "health",
+  506: "health",
+};
+// Whole-station records from a Vantage console on WeatherLinkIP / Vantage Connect:
+// current conditions (1, 2) and archive (3, 4), revision A and B
+const CONSOLE_DATA_STRUCTURES = new Set([1, 2, 3, 4]);
+
+// Fields that describe the link / power rather than the weather
+export const HEALTH_FIELD = /batt|rssi|reception|signal|resyn|packets|afc|link|uptime|tx_id|freq|voltage/i;
+
+function toNumberOrNull(v: unknown): number | null {
+  return typeof v === "number" && Number.isFinite(v) ? v : null;
+}
+
+/**
+ * Check the shape of a /v2/current (or /v2/historic) response and type it. Sensors or records
+ * that aren't objects are dropped; a body with no sensors list throws.
+ */
+export function parseCurrentPayload(json: unknown): WeatherLinkPayload {
+  const body = json as { station_id?: unknown; generated_at?: unknown; sensors?: unknown } | null;
+  if (!body || typeof body !== "object" || !Array.isArray(body.sensors)) {
+    throw new Error("Unexpected WeatherLink payload (no sensors list).");
+  }
+  const sensors = body.sensors
+    .filter((s): s is Record<string, unknown> => !!s && typeof s === "object")
+    .map((s) => ({
+      lsid: toNumberOrNull(s.lsid),
+      sensor_type: toNumberOrNull(s.sensor_type),
+      data_structure_type: toNumberOrNull(s.data_structure_type),
+      data: (Array.isArray(s.data) ? s.data : []).filter(
+        (rec): rec is WeatherLinkRecord => !!rec && typeof rec === "object"
+      ),
+    }));
+  return { station_id: toNumberOrNull(body.station_id), generated_at: toNumberOrNull(body.generated_at), sensors };
+}
+
+export function recordTsMs(rec: WeatherLinkRecord): number | null {
+  const n = typeof rec?.ts === "number" ? rec.ts : Number(rec?.ts);
+  if (!Number.isFinite(n) || n <= 0) return null;
+  return n < 10_000_000_000 ? n * 1000 : n; // seconds vs ms safeguard
+}
+
+function recordTsIso(rec: WeatherLinkRecord): string | null {
+  const ms = recordTsMs(rec);
+  return ms === null ? null : new Date(ms).toISOString();
+}
+
+// Unknown hardware: go by the keys its records carry
+function roleFromKeys(records: WeatherLinkRecord[]): SensorRole {
+  const keys = new Set(records.flatMap((rec) => Object.keys(rec)));
+  const has = (k: string) => keys.has(k);
+  if (has("temp_in") || has("hum_in") || has("temp_in_last")) return has("temp_out") ? "console" : "indoor";
+  if (has("temp_out") || has("hum_out")) return "console";
+  if (has("moist_soil_last") || has("wet_leaf_last")) return "soilLeaf";
+  if (has("pm_2p5") || has("pm_10")) return "airQuality";
+  if (has("temp") || has("hum") || has("temp_last") || has("hum_last") || has("wind_speed_last")) return "iss";
+  if ([...keys].some((k) => k.startsWith("bar_") || k === "abs_press")) return "barometer";
+  if ([...keys].some((k) => HEALTH_FIELD.test(k))) return "health";
+  return "other";
+}
+
+/**
+ * What a logical sensor is: by sensor_type when it's a known code, then by
+ * data_structure_type, then by the fields its records carry.
+ */
+export function sensorRole(sensor: WeatherLinkSensor): SensorRole {
+  const type = sensor.sensor_type;
+  if (type !== null && ISS_SENSOR_TYPES.has(type)) return "iss";
+  if (type !== null && ROLE_BY_SENSOR_TYPE[type]) return ROLE_BY_SENSOR_TYPE[type];
+  if (sensor.data_structure_type !== null && CONSOLE_DATA_STRUCTURES.has(sensor.data_structure_type)) {
+    return "console";
+  }
+  return roleFromKeys(sensor.data);
+}
+
+type InputRule = { roles: SensorRole[]; fields: string[] };
+
+// Per input, in order of preference: which roles may feed it and under which fields
+const INPUT_RULES: Record<InputKey, InputRule[]> = {
+  tempF: [
+    { roles: ["iss"], fields: ["temp"] },
+    { roles: ["console"], fields: ["temp_out"] },
+  ],
+  humidityPct: [
+    { roles: ["iss"], fields: ["hum"] },
+    { roles: ["console"], fields: ["hum_out"] },
+  ],
+  absPressureInHg: [
+    { roles: ["barometer", "console"], fields: ["bar_absolute", "abs_press"] },
+    { roles: ["barometer"], fields: ["bar_sea_level"] },
+    { roles: ["console"], fields: ["bar"] },
+  ],
+  uvIndex: [
+    { roles: ["iss"], fields: ["uv_index"] },
+    { roles: ["console"], fields: ["uv"] },
+  ],
+};
+
+// The same for /v2/historic archive records. Only absolute pressure: backfill
+// has no temp-at-the-time to convert sea-level pressure with.
+const ARCHIVE_RULES: Record<InputKey, InputRule[]> = {
+  tempF: [
+    { roles: ["iss"], fields: ["temp_last", "temp_avg", "temp"] },
+    { roles: ["console"], fields: ["temp_out"] },
+  ],
+  humidityPct: [
+    { roles: ["iss"], fields: ["hum_last", "hum"] },
+    { roles: ["console"], fields: ["hum_out"] },
+  ],
+  absPressureInHg: [{ roles: ["barometer", "console"], fields: ["bar_absolute", "abs_press"] }],
+  uvIndex: [
+    { roles: ["iss"], fields: ["uv_index_avg", "uv_index"] },
+    { roles: ["console"], fields: ["uv"] },
+  ],
+};
+
+// Fields that hold sea-level rather than station pressure
+const SEA_LEVEL_FIELDS = new Set(["bar_sea_level", "bar"]);
+
+const INPUT_LABELS: Record<InputKey, string> = {
+  tempF: "temp",
+  humidityPct: "humidity",
+  absPressureInHg: "pressure",
+  uvIndex: "UV",
+};
+
+// Logical sensor (lsid) pinned to an input; unset inputs pick by role
+export type InputLsids = Partial<Record<InputKey, number>>;
+
+export const PINNABLE_INPUTS = Object.keys(INPUT_RULES) as InputKey[];
+
+export type LocatedInput = { value: number; source: InputSource };
+
+function strictNumber(v: unknown): number | null {
+  return typeof v === "number" && Number.isFinite(v) ? v : null;
+}
+
+// UV comes through as a string on some firmware
+function looseNumber(v: unknown): number | null {
+  const n = typeof v === "number" ? v : Number(v);
+  return v !== null && v !== undefined && v !== "" && Number.isFinite(n) ? n : null;
+}
+
+type SensorHit = { value: number; rec: WeatherLinkRecord; ms: number };
+
+// Newest record of the sensor that has a number under `field`
+function findInSensor(
+  sensor: WeatherLinkSensor,
+  field: string,
+  numeric: (v: unknown) => number | null
+): SensorHit | null {
+  let best: SensorHit | null = null;
+  for (const rec of sensor.data) {
+    const value = numeric(rec[field]);
+    if (value === null) continue;
+    const ms = recordTsMs(rec) ?? -Infinity;
+    if (!best || ms > best.ms) best = { value, rec, ms };
+  }
+  return best;
+}
+
+type Tier = { sensors: WeatherLinkSensor[]; fields: string[] };
+
+// Sensors that may feed `input`, best first: just the pinned one, or one tier per rule
+function inputTiers(
+  payload: WeatherLinkPayload,
+  input: InputKey,
+  pinned: number | undefined,
+  rules: Record<InputKey, InputRule[]>,
+  roles: Map<WeatherLinkSensor, SensorRole>
+): Tier[] {
+  if (pinned !== undefined) {
+    const sensor = payload.sensors.find((s) => s.lsid === pinned);
+    if (!sensor) throw new Error(`Sensor lsid ${pinned} (set for ${INPUT_LABELS[input]}) isn't in the payload.`);
+    return [{ sensors: [sensor], fields: [...new Set(rules[input].flatMap((r) => r.fields))] }];
+  }
+  return rules[input].map((rule) => ({
+    sensors: payload.sensors.filter((s) => rule.roles.includes(roles.get(s)!)),
+    fields: rule.fields,
+  }));
+}
+
+/**
+ * Find each input in the payload along with the record it came from. Pinned
+ * inputs only look at their lsid (and throw if it's not in the payload);
+ * the rest go through INPUT_RULES, taking the newest record when several
+ * sensors qualify for the same rule (two ISS, say). A null reading (offseason
+ * ISS) leaves the input missing rather than falling through to another kind of
+ * sensor.
+ */
+export function locateInputs(
+  payload: WeatherLinkPayload,
+  lsids: InputLsids = {}
+): Partial<Record<InputKey, LocatedInput>> {
+  const found: Partial<Record<InputKey, LocatedInput>> = {};
+  const roles = new Map(payload.sensors.map((s) => [s, sensorRole(s)]));
+
+  for (const input of PINNABLE_INPUTS) {
+    const numeric = input === "uvIndex" ? looseNumber : strictNumber;
+    const pinned = lsids[input];
+
+    for (const { sensors, fields } of inputTiers(payload, input, pinned, INPUT_RULES, roles)) {
+      let best: (SensorHit & { sensor: WeatherLinkSensor; field: string }) | null = null;
+      for (const sensor of sensors) {
+        for (const field of fields) {
+          const hit = findInSensor(sensor, field, numeric);
+          if (!hit) continue;
+          if (!best || hit.ms > best.ms) best = { ...hit, sensor, field };
+          break;
+        }
+      }
+      if (!best) continue;
+      const { sensor } = best;
+      found[input] = {
+        value: best.value,
+        source: {
+          input,
+          field: best.field,
+          lsid: sensor.lsid,
+          sensorType: sensor.sensor_type,
+          dataStructureType: sensor.data_structure_type,
+          ts: recordTsIso(best.rec),
+          role: roles.get(sensor)!,
+          pinned: pinned !== undefined,
+        },
+      };
+      break;
+    }
+  }
+  return found;
+}
+
+export function inputSources(payload: WeatherLinkPayload, lsids: InputLsids = {}): InputSource[] {
+  return Object.values(locateInputs(payload, lsids)).map((f) => f!.source);
+}
+
+/**
+ * Newest record "ts" across all sensors, in ms, or null if none reported one.
+ */
+export function extractSensorTimestampMs(payload: WeatherLinkPayload): number | null {
+  let bestMs: number | null = null;
+  for (const s of payload.sensors) {
+    for (const rec of s.data) {
+      const ms = recordTsMs(rec);
+      if (ms !== null && (bestMs === null || ms > bestMs)) bestMs = ms;
+    }
+  }
+  return bestMs;
+}
+
+/**
+ * Observation time of the readings we actually use: the *oldest* record among
+ * temp, humidity and pressure, so a silent ISS shows up as stale even while
+ * the console barometer keeps reporting. Falls back to the newest ts anywhere.
+ */
+export function inputsSensorTimestampMs(payload: WeatherLinkPayload, lsids: InputLsids = {}): number | null {
+  const found = locateInputs(payload, lsids);
+  const ts = (["tempF", "humidityPct", "absPressureInHg"] as const)
+    .map((k) => (found[k]?.source.ts ? Date.parse(found[k]!.source.ts!) : NaN))
+    .filter((ms) => Number.isFinite(ms));
+  return ts.length ? Math.min(...ts) : extractSensorTimestampMs(payload);
+}
+
+/**
+ * Extract tempF, humidityPct, pressure (+ uvIndex) from a current payload.
+ * Different stations expose pressure differently (bar_absolute, abs_press or
+ * only a sea-level value); `pressure.type` says which kind was found.
+ */
+export function extractInputs(payload: WeatherLinkPayload, lsids: InputLsids = {}) {
+  const found = locateInputs(payload, lsids);
+  const tempF = found.tempF?.value ?? null;
+  const humidityPct = found.humidityPct?.value ?? null;
+  const pressureFound = found.absPressureInHg ?? null;
+
+  // If WeatherLink is sending nulls (offseason), you'll land here:
+  if (tempF === null || humidityPct === null) {
+    const missing: InputKey = tempF === null ? "tempF" : "humidityPct";
+    const pinned = lsids[missing];
+    throw new Error(
+      pinned !== undefined
+        ? `Sensor lsid ${pinned} isn't reporting ${INPUT_LABELS[missing]} (values are missing or null).`
+        : "Outdoor sensor not reporting (temp/hum are missing or null). " +
+            "Turn on the outdoor ISS/transmitter to enable live racing calculations."
+    );
+  }
+
+  if (pressureFound === null) {
+    throw new Error("Could not find pressure (no barometer record with bar_absolute/abs_press/bar_sea_level).");
+  }
+  const pressure: ReportedPressure = {
+    type: SEA_LEVEL_FIELDS.has(pressureFound.source.field) ? "seaLevel" : "absolute",
+    inHg: pressureFound.value,
+  };
+
+  // UV index (optional; will be null if no UV sensor or not reporting)
+  const uvIndex = found.uvIndex?.value ?? null;
+
+  return { tempF, humidityPct, uvIndex, pressure };
+}
+
+export type ArchiveInputs = {
+  tsMs: number;
+  tempF: number;
+  humidityPct: number;
+  absPressureInHg: number;
+  uvIndex: number | null;
+};
+
+/**
+ * Archive records come one per interval per sensor, so temp/hum (ISS) and
+ * pressure (barometer) for the same moment live in different sensors. Each
+ * input is read per "ts" from the same sensors the live parser would use
+ * (ARCHIVE_RULES, or the pinned lsid); intervals missing temp, humidity or
+ * pressure are dropped.
+ */
+export function extractArchiveInputs(json: unknown, lsids: InputLsids = {}): ArchiveInputs[] {
+  const payload = parseCurrentPayload(json);
+  const roles = new Map(payload.sensors.map((s) => [s, sensorRole(s)]));
+  const byTs = new Map<number, Partial<ArchiveInputs>>();
+
+  for (const input of PINNABLE_INPUTS) {
+    const numeric = input === "uvIndex" ? looseNumber : strictNumber;
+    // Earlier tiers fill an interval first; later ones only fill what's left
+    for (const { sensors, fields } of inputTiers(payload, input, lsids[input], ARCHIVE_RULES, roles)) {
+      for (const sensor of sensors) {
+        for (const rec of sensor.data) {
+          const tsMs = recordTsMs(rec);
+          if (tsMs === null) continue;
+          const row = byTs.get(tsMs) ?? { tsMs };
+          if (row[input] !== undefined) continue;
+          const value = fields.map((f) => numeric(rec[f])).find((v) => v !== null);
+          if (value === undefined) continue;
+          row[input] = value;
+          byTs.set(tsMs, row);
+        }
+      }
+    }
+  }
+
+  return [...byTs.values()]
+    .filter(
+      (r): r is ArchiveInputs =>
+        r.tempF !== undefined && r.humidityPct !== undefined && r.absPressureInHg !== undefined
+    )
+    .map((r) => ({ ...r, uvIndex: r.uvIndex ?? null }))
+    .sort((a, b) => a.tsMs - b.tsMs);
+}
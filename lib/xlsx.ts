@@ -0,0 +1,141 @@
+// ==============================
+// Minimal .xlsx writer (server only)
+// ==============================
+//
+// One sheet, a header row and plain cells: numbers stay numbers, everything
+// else is an inline string. Enough for Excel / Numbers / Sheets to open
+// natively without pulling in a spreadsheet library.
+
+import { deflateRawSync } from "zlib";
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(buf: Buffer): number {
+  let c = 0xffffffff;
+  for (let i = 0; i < buf.length; i++) c = CRC_TABLE[(c ^ buf[i]) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Deflated zip archive of the given files (no zip64, so keep it under 4 GB).
+ */
+function zip(files: { name: string; data: Buffer }[]): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = Buffer.from(file.name, "utf8");
+    const packed = deflateRawSync(file.data);
+    const crc = crc32(file.data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4); // version needed
+    local.writeUInt16LE(0x0800, 6); // utf-8 names
+    local.writeUInt16LE(8, 8); // deflate
+    local.writeUInt32LE(0, 10); // mod time/date
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(packed.length, 18);
+    local.writeUInt32LE(file.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+    locals.push(local, name, packed);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4); // version made by
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(0, 12);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(packed.length, 20);
+    central.writeUInt32LE(file.data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, name);
+
+    offset += local.length + name.length + packed.length;
+  }
+
+  const centralSize = centrals.reduce((n, b) => n + b.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(centralSize, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, ...centrals, end]);
+}
+
+function xmlEscape(s: string): string {
+  return s.replace(/[<>&"]/g, (c) => ({ "<": "&lt;", ">": "&gt;", "&": "&amp;", '"': "&quot;" })[c]!);
+}
+
+// 0 → A, 25 → Z, 26 → AA
+function columnName(i: number): string {
+  let s = "";
+  for (let n = i + 1; n > 0; n = Math.floor((n - 1) / 26)) s = String.fromCharCode(65 + ((n - 1) % 26)) + s;
+  return s;
+}
+
+function cell(value: unknown, ref: string): string {
+  if (value === null || value === undefined || value === "") return "";
+  if (typeof value === "number" && Number.isFinite(value)) return `<c r="${ref}"><v>${value}</v></c>`;
+  if (typeof value === "boolean") return `<c r="${ref}" t="b"><v>${value ? 1 : 0}</v></c>`;
+  return `<c r="${ref}" t="inlineStr"><is><t>${xmlEscape(String(value))}</t></is></c>`;
+}
+
+const XML_DECL = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+const PKG = "http://schemas.openxmlformats.org/package/2006";
+const MAIN = "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+const DOC_REL = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const SHEET_MIME = "application/vnd.openxmlformats-officedocument.spreadsheetml";
+
+export function toXlsx(sheetName: string, header: string[], rows: unknown[][]): Buffer {
+  // Excel caps sheet names at 31 characters and rejects a few symbols
+  const safeName = sheetName.replace(/[[\]:*?/\\]/g, "-").slice(0, 31) || "Sheet1";
+  const sheetRows = [header, ...rows]
+    .map((row, r) => `<row r="${r + 1}">${row.map((v, c) => cell(v, `${columnName(c)}${r + 1}`)).join("")}</row>`)
+    .join("");
+
+  const files: Record<string, string> = {
+    "[Content_Types].xml":
+      XML_DECL +
+      `<Types xmlns="${PKG}/content-types">` +
+      `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>` +
+      `<Default Extension="xml" ContentType="application/xml"/>` +
+      `<Override PartName="/xl/workbook.xml" ContentType="${SHEET_MIME}.sheet.main+xml"/>` +
+      `<Override PartName="/xl/worksheets/sheet1.xml" ContentType="${SHEET_MIME}.worksheet+xml"/>` +
+      "</Types>",
+    "_rels/.rels":
+      XML_DECL +
+      `<Relationships xmlns="${PKG}/relationships">` +
+      `<Relationship Id="rId1" Type="${DOC_REL}/officeDocument" Target="xl/workbook.xml"/>` +
+      "</Relationships>",
+    "xl/workbook.xml":
+      XML_DECL +
+      `<workbook xmlns="${MAIN}" xmlns:r="${DOC_REL}">` +
+      `<sheets><sheet name="${xmlEscape(safeName)}" sheetId="1" r:id="rId1"/></sheets>` +
+      "</workbook>",
+    "xl/_rels/workbook.xml.rels":
+      XML_DECL +
+      `<Relationships xmlns="${PKG}/relationships">` +
+      `<Relationship Id="rId1" Type="${DOC_REL}/worksheet" Target="worksheets/sheet1.xml"/>` +
+      "</Relationships>",
+    "xl/worksheets/sheet1.xml":
+      XML_DECL + `<worksheet xmlns="${MAIN}">` + `<sheetData>${sheetRows}</sheetData>` + "</worksheet>",
+  };
+
+  return zip(Object.entries(files).map(([name, xml]) => ({ name, data: Buffer.from(xml, "utf8") })));
+}
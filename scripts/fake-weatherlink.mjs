@@ -0,0 +1,220 @@
+// Local stand-in for the WeatherLink v2 API (current, historic, stations), for
+// exercising the ingest poller and backfill without a real station.
+//
+//   node scripts/fake-weatherlink.mjs            (listens on :8787)
+//   WEATHERLINK_BASE_URL=http://localhost:8787 WEATHERLINK_API_KEY=x \
+//   WEATHERLINK_API_SECRET=x WEATHERLINK_STATION_ID=1 npm run dev
+//
+// Control endpoints:
+//   /__fail?count=3     next 3 API calls return HTTP 503
+//     &status=429&retryAfter=2   ...or another status, optionally with Retry-After
+//   /__freeze?on=1      keep returning the same sensor ts (duplicate polls)
+//   /__skip?minutes=15  jump the sensor clock forward (shows up as a gap)
+//   /__offline?on=1     outdoor temp/hum come back null (offseason ISS)
+//   /__silent?on=1      ISS stops transmitting: its record keeps the last ts
+//                       while the console barometer keeps updating
+//   /__sealevel?on=1    barometer drops bar_absolute (sea-level pressure only)
+//   /__spike?hum=99     next current reading reports that humidity (one glitch)
+//   /__malformed?count=1  next current call returns a cut-off JSON body
+//     &kind=shape         ...or valid JSON without a sensors list
+//   /__delay?ms=500     next API call answers that much later (a poll in flight)
+//   /__stats            API calls served so far (checks the client's cache/coalescing)
+
+import http from "node:http";
+
+const PORT = Number(process.env.FAKE_WL_PORT || 8787);
+
+let failCount = 0;
+let failStatus = 503;
+let failRetryAfter = null;
+let malformedCount = 0;
+let delayMs = 0;
+let malformedKind = "json";
+let apiCalls = 0;
+let frozen = false;
+let offline = false;
+let silent = false;
+let seaLevelOnly = false;
+let spikeHum = null;
+let clockOffsetSec = 0;
+let lastTs = Math.floor(Date.now() / 1000);
+let lastIssTs = lastTs;
+
+function sensorTs() {
+  if (!frozen) lastTs = Math.floor(Date.now() / 1000) + clockOffsetSec;
+  return lastTs;
+}
+
+function conditionsAt(ts) {
+  // Slow sine drift so consecutive readings differ a little
+  const phase = (ts / 3600) * Math.PI * 2 / 24;
+  return {
+    temp: Math.round((72 + 12 * Math.sin(phase)) * 10) / 10,
+    hum: Math.round((45 - 15 * Math.sin(phase)) * 10) / 10,
+    bar_absolute: Math.round((28.95 + 0.05 * Math.cos(phase)) * 1000) / 1000,
+  };
+}
+
+function currentPayload(stationId) {
+  const ts = sensorTs();
+  if (!silent) lastIssTs = ts;
+  const c = conditionsAt(ts);
+  const issC = conditionsAt(lastIssTs);
+  return {
+    station_id: Number(stationId),
+    generated_at: Math.floor(Date.now() / 1000),
+    sensors: [
+      {
+        lsid: 1001,
+        sensor_type: 45,
+        data_structure_type: 10,
+        data: [
+          {
+            ts: lastIssTs,
+            temp: offline ? null : issC.temp,
+            hum: offline ? null : spikeHum ?? issC.hum,
+            uv_index: offline ? null : 3.2,
+            rssi: -62,
+            trans_battery_flag: 0,
+            reception_day: 97,
+          },
+        ],
+      },
+      {
+        lsid: 1002,
+        sensor_type: 242,
+        data_structure_type: 12,
+        data: [
+          seaLevelOnly
+            ? { ts, bar_sea_level: c.bar_absolute + 1.02 }
+            : { ts, bar_absolute: c.bar_absolute, bar_sea_level: c.bar_absolute + 1.02 },
+        ],
+      },
+      {
+        lsid: 1003,
+        sensor_type: 504,
+        data_structure_type: 15,
+        data: [{ ts, battery_voltage: 4120, input_voltage: 4980, wifi_rssi: -55, uptime: 86400 }],
+      },
+    ],
+  };
+}
+
+// 5-minute archive records, ISS and barometer as separate sensors like the real API
+function historicPayload(stationId, start, end) {
+  const iss = [];
+  const baro = [];
+  for (let ts = Math.ceil(start / 300) * 300; ts <= end; ts += 300) {
+    const c = conditionsAt(ts);
+    iss.push({ ts, arch_int: 300, temp_last: c.temp, temp_avg: c.temp, hum_last: c.hum, uv_index_avg: 2.5 });
+    baro.push({ ts, arch_int: 300, bar_absolute: c.bar_absolute, bar_sea_level: c.bar_absolute + 1.02 });
+  }
+  return {
+    station_id: Number(stationId),
+    sensors: [
+      { lsid: 1001, sensor_type: 45, data_structure_type: 11, data: iss },
+      { lsid: 1002, sensor_type: 242, data_structure_type: 13, data: baro },
+    ],
+  };
+}
+
+function send(res, status, body, headers = {}) {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify(body));
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  const p = url.pathname;
+
+  if (p === "/__fail") {
+    failCount = Number(url.searchParams.get("count") || 1);
+    failStatus = Number(url.searchParams.get("status") || 503);
+    failRetryAfter = url.searchParams.get("retryAfter");
+    return send(res, 200, { failCount, failStatus, failRetryAfter });
+  }
+  if (p === "/__freeze") {
+    frozen = url.searchParams.get("on") !== "0";
+    return send(res, 200, { frozen });
+  }
+  if (p === "/__skip") {
+    clockOffsetSec += Number(url.searchParams.get("minutes") || 0) * 60;
+    return send(res, 200, { clockOffsetSec });
+  }
+  if (p === "/__silent") {
+    silent = url.searchParams.get("on") !== "0";
+    return send(res, 200, { silent });
+  }
+  if (p === "/__spike") {
+    spikeHum = Number(url.searchParams.get("hum") || 99);
+    return send(res, 200, { spikeHum });
+  }
+  if (p === "/__sealevel") {
+    seaLevelOnly = url.searchParams.get("on") !== "0";
+    return send(res, 200, { seaLevelOnly });
+  }
+  if (p === "/__malformed") {
+    malformedCount = Number(url.searchParams.get("count") || 1);
+    malformedKind = url.searchParams.get("kind") === "shape" ? "shape" : "json";
+    return send(res, 200, { malformedCount, malformedKind });
+  }
+  if (p === "/__delay") {
+    delayMs = Number(url.searchParams.get("ms") || 0);
+    return send(res, 200, { delayMs });
+  }
+  if (p === "/__stats") {
+    return send(res, 200, { apiCalls });
+  }
+  if (p === "/__offline") {
+    offline = url.searchParams.get("on") !== "0";
+    return send(res, 200, { offline });
+  }
+
+  if (!url.searchParams.get("api-key") || !req.headers["x-api-secret"]) {
+    return send(res, 401, { code: 401, message: "missing api-key / X-Api-Secret" });
+  }
+
+  apiCalls++;
+  if (delayMs > 0) {
+    const ms = delayMs;
+    delayMs = 0;
+    await new Promise((resolve) => setTimeout(resolve, ms));
+  }
+  if (failCount > 0) {
+    failCount--;
+    const headers = failRetryAfter !== null ? { "Retry-After": failRetryAfter } : {};
+    return send(res, failStatus, { code: failStatus, message: `fake HTTP ${failStatus}` }, headers);
+  }
+
+  let m;
+  if ((m = p.match(/^\/v2\/current\/([^/]+)$/))) {
+    const payload = currentPayload(m[1]);
+    spikeHum = null;
+    if (malformedCount > 0) {
+      malformedCount--;
+      if (malformedKind === "shape") return send(res, 200, { station_id: payload.station_id, data: [] });
+      res.writeHead(200, { "Content-Type": "application/json" });
+      return res.end(JSON.stringify(payload).slice(0, 80));
+    }
+    return send(res, 200, payload);
+  }
+  if ((m = p.match(/^\/v2\/historic\/([^/]+)$/))) {
+    const start = Number(url.searchParams.get("start-timestamp"));
+    const end = Number(url.searchParams.get("end-timestamp"));
+    if (!(end > start) || end - start > 86400) {
+      return send(res, 400, { code: 400, message: "window must be > 0 and <= 86400 seconds" });
+    }
+    return send(res, 200, historicPayload(m[1], start, end));
+  }
+  if (p === "/v2/stations") {
+    return send(res, 200, {
+      stations: [{ station_id: 1, station_id_uuid: "fake-0001", station_name: "Fake Pits" }],
+    });
+  }
+
+  send(res, 404, { code: 404, message: `no fake for ${p}` });
+});
+
+server.listen(PORT, () => {
+  console.log(`fake WeatherLink listening on http://localhost:${PORT}`);
+});
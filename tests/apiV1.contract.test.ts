@@ -0,0 +1,221 @@
+// Contract tests for /api/v1: every handler's response (errors included) must
+// match what /api/v1/openapi.json says about it, and the document itself must
+// still describe the published v1 shape pinned below. The document is built
+// from lib/apiV1's tables, so it can't be its own reference.
+
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import Ajv2020 from "ajv/dist/2020";
+import addFormats from "ajv-formats";
+import { openApiV1Document } from "@/lib/openapiV1";
+import { startFakeWeatherLink, useFakeEnv, type FakeWeatherLink } from "./helpers/fakeWeatherLink";
+import { useTempDataDir } from "./helpers/dataDir";
+
+type Operation = { responses: Record<string, unknown> };
+
+// The published v1 values as [unit, decimals], in response order. A new field
+// is added here by hand; an existing one never changes.
+const PUBLISHED_VALUES: Record<string, [string, number]> = {
+  tempF: ["degF", 1],
+  humidityPct: ["percent", 1],
+  absPressureInHg: ["inHg", 3],
+  uvIndex: ["index", 1],
+  vaporPressureInHg: ["inHg", 4],
+  dewPointF: ["degF", 1],
+  humidityGrains: ["grains/lb", 1],
+  adr: ["percent", 2],
+  adr2: ["ratio", 5],
+  densityAltFt: ["ft", 0],
+  correction: ["ratio", 5],
+  corrSheet: ["ratio", 5],
+  corrSaeJ1349: ["ratio", 5],
+  corrSaeJ607: ["ratio", 5],
+  corrDin70020: ["ratio", 5],
+  corrNhraOld: ["ratio", 5],
+};
+
+const PUBLISHED_READING_KEYS = [
+  "stationId",
+  "provider",
+  "observedAt",
+  "capturedAt",
+  "values",
+  "correctionStandard",
+  "calibrationProfileId",
+  "quality",
+  "origin",
+  "stale",
+  "event",
+];
+
+const doc = openApiV1Document();
+const ajv = new Ajv2020({ strict: false, allErrors: true });
+addFormats(ajv);
+ajv.addSchema(doc, "openapi");
+
+const pointer = (s: string) => s.replace(/~/g, "~0").replace(/\//g, "~1");
+
+function operation(path: string): Operation {
+  return (doc.paths as Record<string, { get: Operation }>)[path].get;
+}
+
+function validate(schemaRef: string, body: unknown) {
+  const check = ajv.getSchema(schemaRef);
+  if (!check) throw new Error(`No schema at ${schemaRef}`);
+  const ok = check(body);
+  return ok ? null : ajv.errorsText(check.errors);
+}
+
+/**
+ * The response status must be documented for the path, and the body must
+ * match the schema given for that status.
+ */
+async function expectDocumented(path: string, res: Response) {
+  const status = String(res.status);
+  expect(Object.keys(operation(path).responses), `${path} doesn't document ${status}`).toContain(status);
+  const body = await res.json();
+  const ref = `openapi#/paths/${pointer(path)}/get/responses/${status}/content/application~1json/schema`;
+  expect(validate(ref, body)).toBeNull();
+  return body;
+}
+
+async function expectError(res: Response, status: number, code: string, param?: string) {
+  expect(res.status).toBe(status);
+  const body = await res.json();
+  expect(validate("openapi#/components/schemas/Error", body)).toBeNull();
+  expect(body.error.code).toBe(code);
+  if (param) expect(body.error.param).toBe(param);
+  return body;
+}
+
+const req = (pathAndQuery: string) => new Request(`http://localhost${pathAndQuery}`);
+
+let fake: FakeWeatherLink;
+let data: ReturnType<typeof useTempDataDir>;
+
+beforeAll(async () => {
+  data = useTempDataDir();
+  fake = await startFakeWeatherLink();
+  useFakeEnv(fake);
+});
+
+afterAll(async () => {
+  await fake?.stop();
+  data?.cleanup();
+});
+
+describe("GET /api/v1/openapi.json", () => {
+  it("serves the document the tests validate against", async () => {
+    const { GET } = await import("@/app/api/v1/openapi.json/route");
+    const res = GET();
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual(JSON.parse(JSON.stringify(doc)));
+  });
+
+  it("still documents the published fields, units and precision", () => {
+    const values = doc.components.schemas.Values;
+    expect(values.required).toEqual(Object.keys(PUBLISHED_VALUES));
+    const documented = Object.fromEntries(
+      Object.entries(values.properties).map(([k, f]) => [
+        k,
+        [(f as Record<string, unknown>)["x-unit"], (f as Record<string, unknown>)["x-decimals"]],
+      ])
+    );
+    expect(documented).toEqual(PUBLISHED_VALUES);
+    expect(doc.components.schemas.Reading.required).toEqual(PUBLISHED_READING_KEYS);
+  });
+});
+
+describe("GET /api/v1/current", () => {
+  it("returns a documented reading", async () => {
+    const { GET } = await import("@/app/api/v1/current/route");
+    const body = await expectDocumented("/api/v1/current", await GET(req("/api/v1/current")));
+    expect(body.reading.stationId).toBe("111");
+    expect(body.reading.origin).toBe("live");
+    expect(body.reading.stale).toBeNull();
+    expect(Object.keys(body.reading)).toEqual(PUBLISHED_READING_KEYS);
+    for (const [k, [, decimals]] of Object.entries(PUBLISHED_VALUES)) {
+      const v = body.reading.values[k];
+      if (v !== null) expect(v, k).toBe(Number(v.toFixed(decimals)));
+    }
+
+    // The schema is strict enough to catch a renamed field
+    const { adr, ...rest } = body.reading.values;
+    const renamed = { reading: { ...body.reading, values: { ...rest, adrPct: adr } } };
+    const ref = `openapi#/paths/${pointer("/api/v1/current")}/get/responses/200/content/application~1json/schema`;
+    expect(validate(ref, renamed)).not.toBeNull();
+  });
+
+  it("returns source_unavailable when the station can't produce a reading", async () => {
+    const { GET } = await import("@/app/api/v1/current/route");
+    await fake.control("/__offline?on=1");
+    try {
+      const res = await GET(req("/api/v1/current?station=222"));
+      await expectDocumented("/api/v1/current", res.clone());
+      await expectError(res, 502, "source_unavailable");
+    } finally {
+      await fake.control("/__offline?on=0");
+    }
+  });
+});
+
+describe("GET /api/v1/readings", () => {
+  it("returns documented pages, with nulls for fields older readings lack", async () => {
+    const { addReadings } = await import("@/lib/historyStore");
+    await addReadings([
+      {
+        stationId: "111",
+        inputs: { tempF: 70, humidityPct: 40, absPressureInHg: 29 },
+        display: { ts: "2024-05-01T12:00:00.000Z", tempF: 70, humidityPct: 40, absPressureInHg: 29, adr: 97.1234 },
+      },
+    ]);
+    const { GET } = await import("@/app/api/v1/readings/route");
+    const body = await expectDocumented("/api/v1/readings", await GET(req("/api/v1/readings?limit=50")));
+    expect(body.limit).toBe(50);
+    const old = body.readings.find((r: { observedAt: string }) => r.observedAt === "2024-05-01T12:00:00.000Z");
+    expect(old.values.adr).toBe(97.12);
+    expect(old.values.corrSaeJ1349).toBeNull();
+    expect(old.capturedAt).toBeNull();
+  });
+
+  it.each([
+    ["limit=0", "limit"],
+    ["limit=abc", "limit"],
+    ["offset=-1", "offset"],
+    ["from=yesterday", "from"],
+    ["from=2030-01-01&to=2020-01-01", "from"],
+  ])("rejects %s with invalid_parameter", async (query, param) => {
+    const { GET } = await import("@/app/api/v1/readings/route");
+    const res = await GET(req(`/api/v1/readings?${query}`));
+    await expectDocumented("/api/v1/readings", res.clone());
+    await expectError(res, 400, "invalid_parameter", param);
+  });
+});
+
+describe("GET /api/v1/calc", () => {
+  it("returns a documented result", async () => {
+    const { GET } = await import("@/app/api/v1/calc/route");
+    const res = await GET(req("/api/v1/calc?tempF=80&humidityPct=50&absPressureInHg=28.9&standard=saeJ1349"));
+    const body = await expectDocumented("/api/v1/calc", res);
+    expect(body.result.correctionStandard).toBe("saeJ1349");
+    expect(body.result.values.correction).toBe(body.result.values.corrSaeJ1349);
+    expect(body.result.values.uvIndex).toBeNull();
+  });
+
+  it.each([
+    ["tempF=80&humidityPct=50", "absPressureInHg"],
+    ["tempF=300&humidityPct=50&absPressureInHg=28.9", "tempF"],
+    ["tempF=80&humidityPct=50&absPressureInHg=28.9&standard=bogus", "standard"],
+  ])("rejects %s with invalid_parameter", async (query, param) => {
+    const { GET } = await import("@/app/api/v1/calc/route");
+    const res = await GET(req(`/api/v1/calc?${query}`));
+    await expectDocumented("/api/v1/calc", res.clone());
+    await expectError(res, 400, "invalid_parameter", param);
+  });
+});
+
+describe("unknown /api/v1 paths", () => {
+  it("answer with the same error object", async () => {
+    const { GET } = await import("@/app/api/v1/[...path]/route");
+    await expectError(GET(req("/api/v1/nope")), 404, "not_found");
+  });
+});
@@ -0,0 +1,38 @@
+// POST /api/backfill: a window the caller got wrong is a 400 and an unknown job a
+// 404, not a server error.
+
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { POST } from "@/app/api/backfill/route";
+import { useTempDataDir } from "./helpers/dataDir";
+
+let data: ReturnType<typeof useTempDataDir>;
+
+beforeAll(() => {
+  data = useTempDataDir();
+});
+
+afterAll(() => {
+  data?.cleanup();
+});
+
+const post = (body: unknown) =>
+  POST(new Request("http://localhost/api/backfill", { method: "POST", body: JSON.stringify(body) }));
+
+describe("POST /api/backfill", () => {
+  it.each([
+    [{ from: "2025-06-02T00:00:00Z", to: "2025-06-01T00:00:00Z" }, /must end after it starts/],
+    [{ from: 1_750_000_000_000, to: 1_750_000_000_000 }, /must end after it starts/],
+    [{ from: "2025-01-01T00:00:00Z", to: "2025-03-01T00:00:00Z" }, /limited to 31 days/],
+    [{ from: "last week" }, /Body must be/],
+  ])("rejects %j with 400", async (body, message) => {
+    const res = await post(body);
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toMatch(message);
+  });
+
+  it("answers 404 for resuming a job that doesn't exist", async () => {
+    const res = await post({ resume: "bf_nope" });
+    expect(res.status).toBe(404);
+    expect((await res.json()).error).toBe("No backfill job bf_nope");
+  });
+});
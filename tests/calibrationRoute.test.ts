@@ -0,0 +1,45 @@
+// POST /api/calibration { action: "save" }: the fit summary is checked and
+// stored as { n, rmseBefore, rmseAfter } only.
+
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { useTempDataDir } from "./helpers/dataDir";
+
+let data: ReturnType<typeof useTempDataDir>;
+
+beforeAll(() => {
+  data = useTempDataDir();
+});
+
+afterAll(() => {
+  data?.cleanup();
+});
+
+async function save(fit: unknown) {
+  const { POST } = await import("@/app/api/calibration/route");
+  const body = { action: "save", name: "Track day", daA: 145442, daB: 0.235, fit };
+  const res = await POST(
+    new Request("http://localhost/api/calibration", { method: "POST", body: JSON.stringify(body) })
+  );
+  return { status: res.status, body: await res.json() };
+}
+
+describe("POST /api/calibration save", () => {
+  it("keeps just the fit's fields", async () => {
+    const { status, body } = await save({ n: 12, rmseBefore: 84.2, rmseAfter: null, note: "<b>hi</b>" });
+    expect(status).toBe(200);
+    expect(body.profile.fit).toEqual({ n: 12, rmseBefore: 84.2, rmseAfter: null });
+    expect((await save(undefined)).body.profile.fit).toBeNull();
+  });
+
+  it.each([
+    "good",
+    { n: "12", rmseBefore: 1, rmseAfter: 1 },
+    { n: 1.5, rmseBefore: 1, rmseAfter: 1 },
+    { n: 12, rmseBefore: "84", rmseAfter: 1 },
+    { n: 12, rmseBefore: 1 },
+  ])("rejects fit %j with 400", async (fit) => {
+    const { status, body } = await save(fit);
+    expect(status).toBe(400);
+    expect(body.error).toMatch(/^fit must be/);
+  });
+});
@@ -0,0 +1,11 @@
+// Throwaway RACEWX_DATA_DIR for suites that touch the file store.
+
+import { mkdtempSync, rmSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+export function useTempDataDir(): { dir: string; cleanup: () => void } {
+  const dir = mkdtempSync(path.join(os.tmpdir(), "racewx-test-"));
+  process.env.RACEWX_DATA_DIR = dir;
+  return { dir, cleanup: () => rmSync(dir, { recursive: true, force: true }) };
+}
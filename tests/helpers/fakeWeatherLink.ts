@@ -0,0 +1,70 @@
+// Starts scripts/fake-weatherlink.mjs on a free port and points the
+// WeatherLink client at it. Each suite gets its own server (and process).
+
+import { spawn, type ChildProcess } from "node:child_process";
+import net from "node:net";
+import path from "node:path";
+
+export type FakeWeatherLink = {
+  baseUrl: string;
+  // Hit a control endpoint, e.g. control("/__fail?count=1&status=429")
+  control: (pathAndQuery: string) => Promise<unknown>;
+  stop: () => Promise<void>;
+};
+
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const srv = net.createServer();
+    srv.once("error", reject);
+    srv.listen(0, () => {
+      const { port } = srv.address() as net.AddressInfo;
+      srv.close(() => resolve(port));
+    });
+  });
+}
+
+export async function startFakeWeatherLink(): Promise<FakeWeatherLink> {
+  const port = await freePort();
+  const script = path.join(process.cwd(), "scripts", "fake-weatherlink.mjs");
+  const child: ChildProcess = spawn(process.execPath, [script], {
+    env: { ...process.env, FAKE_WL_PORT: String(port) },
+    stdio: ["ignore", "pipe", "inherit"],
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error("fake WeatherLink didn't start")), 10_000);
+    child.stdout!.on("data", (chunk: Buffer) => {
+      if (chunk.toString().includes("listening")) {
+        clearTimeout(timer);
+        resolve();
+      }
+    });
+    child.once("exit", (code) => {
+      clearTimeout(timer);
+      reject(new Error(`fake WeatherLink exited (${code})`));
+    });
+  });
+
+  const baseUrl = `http://127.0.0.1:${port}`;
+  return {
+    baseUrl,
+    control: async (pathAndQuery) => (await fetch(`${baseUrl}${pathAndQuery}`)).json(),
+    stop: () =>
+      new Promise((resolve) => {
+        if (child.exitCode !== null) return resolve();
+        child.once("exit", () => resolve());
+        child.kill();
+      }),
+  };
+}
+
+/**
+ * Environment for the app's WeatherLink provider against the fake.
+ */
+export function useFakeEnv(fake: FakeWeatherLink, stationId = "111") {
+  process.env.RACEWX_PROVIDER = "weatherlink";
+  process.env.WEATHERLINK_BASE_URL = fake.baseUrl;
+  process.env.WEATHERLINK_API_KEY = "test-key";
+  process.env.WEATHERLINK_API_SECRET = "test-secret";
+  process.env.WEATHERLINK_STATION_ID = stationId;
+}
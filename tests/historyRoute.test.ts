@@ -0,0 +1,131 @@
+// /api/history: what an import accepts and how it is tagged, paging by cursor
+// and bad query parameters.
+
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { useTempDataDir } from "./helpers/dataDir";
+
+let data: ReturnType<typeof useTempDataDir>;
+
+beforeAll(() => {
+  data = useTempDataDir();
+});
+
+afterAll(() => {
+  data?.cleanup();
+});
+
+const inputs = { tempF: 70, humidityPct: 40, absPressureInHg: 29 };
+
+function reading(ts: string, extra: Record<string, unknown> = {}) {
+  return { stationId: "h1", inputs, display: { ts, ...inputs }, ...extra };
+}
+
+async function post(readings: unknown[]) {
+  const { POST } = await import("@/app/api/history/route");
+  const res = await POST(
+    new Request("http://localhost/api/history", { method: "POST", body: JSON.stringify({ readings }) })
+  );
+  return { status: res.status, body: await res.json() };
+}
+
+async function get(query: string) {
+  const { GET } = await import("@/app/api/history/route");
+  return (await GET(new Request(`http://localhost/api/history?${query}`))).json();
+}
+
+describe("POST /api/history { readings }", () => {
+  it("skips readings without finite inputs", async () => {
+    const { status, body } = await post([
+      reading("2025-01-01T00:00:00.000Z"),
+      { stationId: "h1", display: { ts: "2025-01-01T00:01:00.000Z" } },
+      reading("2025-01-01T00:02:00.000Z", { inputs: { ...inputs, tempF: "hot" } }),
+      reading("2025-01-01T00:03:00.000Z", { inputs: { tempF: 70, humidityPct: 40 } }),
+      reading("2025-01-01T00:04:00.000Z", { inputs: { ...inputs, humidityPct: null } }),
+    ]);
+    expect(status).toBe(200);
+    expect(body).toEqual({ added: 1, skipped: 4 });
+  });
+
+  it("recomputes display from the inputs and drops fields it can't check", async () => {
+    const { computeRacingWeather } = await import("@/lib/weatherCalc");
+    await post([
+      reading("2025-01-03T00:00:00.000Z", {
+        stationId: "h3",
+        display: { ts: "2025-01-03T00:00:00.000Z", ...inputs, adr: 42, correction: 9 },
+        correctionStandard: "saeJ1349",
+        calibrationProfileId: "cal_nope",
+        event: { eventId: "ev_forged", sessionId: null },
+        admin: true,
+      }),
+    ]);
+    const { readings } = await get("station=h3");
+    const raw = computeRacingWeather(inputs, { correctionStandard: "saeJ1349" });
+    expect(readings).toHaveLength(1);
+    expect(readings[0].display.adr).toBe(Math.round(raw.adrPct * 100) / 100);
+    expect(readings[0].display.correction).toBeCloseTo(raw.corrSaeJ1349, 5);
+    expect(readings[0]).toMatchObject({ correctionStandard: "saeJ1349", calibrationProfileId: null });
+    expect(readings[0]).not.toHaveProperty("event");
+    expect(readings[0]).not.toHaveProperty("admin");
+  });
+});
+
+describe("GET /api/history", () => {
+  it.each(["from=yesterday", "to=2025-13-45", "before=soon"])("rejects %s with 400", async (query) => {
+    const { GET } = await import("@/app/api/history/route");
+    const res = await GET(new Request(`http://localhost/api/history?${query}`));
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toMatch(/^Invalid (from|to|before): /);
+  });
+});
+
+describe("GET /api/history?before=", () => {
+  it("pages below the cursor while total counts the whole range", async () => {
+    await post(["00:10", "00:11", "00:12", "00:13"].map((t) => reading(`2025-01-02T${t}:00.000Z`)));
+
+    const first = await get("station=h1&from=2025-01-02T00:00:00Z&limit=2");
+    expect(first.readings.map((r: { display: { ts: string } }) => r.display.ts.slice(11, 16))).toEqual([
+      "00:13",
+      "00:12",
+    ]);
+
+    // A reading arriving between pages would shift an offset; the cursor doesn't care
+    await post([reading("2025-01-02T00:14:00.000Z")]);
+    const next = await get("station=h1&from=2025-01-02T00:00:00Z&limit=2&before=2025-01-02T00:12:00.000Z");
+    expect(next.readings.map((r: { display: { ts: string } }) => r.display.ts.slice(11, 16))).toEqual([
+      "00:11",
+      "00:10",
+    ]);
+    expect(next.total).toBe(5);
+  });
+});
+
+describe("POST /api/history { text }", () => {
+  it("tags imported rows with the event they fall in", async () => {
+    const { createEvent } = await import("@/lib/eventStore");
+    const event = await createEvent({ track: "Test Strip", timezone: "UTC", startDate: "2025-06-07", stationId: "h2" });
+
+    const { POST } = await import("@/app/api/history/route");
+    const text = [
+      "ts,tempF,humidityPct,absPressureInHg",
+      "2025-06-07T15:00:00.000Z,80,40,29",
+      "2025-06-08T15:00:00.000Z,81,40,29",
+    ].join("\n");
+    const res = await POST(
+      new Request("http://localhost/api/history", {
+        method: "POST",
+        body: JSON.stringify({ text, format: "csv", station: "h2" }),
+      })
+    );
+    expect((await res.json()).added).toBe(2);
+
+    const { readings } = await get("station=h2");
+    const tags = readings.map((r: { display: { ts: string }; event?: { eventId: string } }) => [
+      r.display.ts.slice(0, 10),
+      r.event?.eventId ?? null,
+    ]);
+    expect(tags).toEqual([
+      ["2025-06-08", null],
+      ["2025-06-07", event.id],
+    ]);
+  });
+});
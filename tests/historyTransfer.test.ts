@@ -0,0 +1,91 @@
+// History files: what an export writes, parseImport reads back, in imperial
+// and converted units, and full readings are rebuilt rather than trusted.
+
+import { describe, expect, it } from "vitest";
+import { toCsv } from "@/lib/csv";
+import { DEFAULT_EXPORT_COLUMNS, exportTable, parseImport, resolveColumns } from "@/lib/historyTransfer";
+import { buildDisplay, type Reading } from "@/lib/reading";
+import { IMPERIAL_UNITS, METRIC_UNITS, type UnitPrefs } from "@/lib/units";
+import { computeRacingWeather } from "@/lib/weatherCalc";
+
+const calc = { correctionStandard: "saeJ1349" as const };
+const opts = { station: "t1", calc, profiles: new Map([["cal_1", { daA: 145442, daB: 0.235 }]]) };
+
+function reading(ts: string, tempF: number, humidityPct: number, absPressureInHg: number): Reading {
+  const inputs = { tempF, humidityPct, absPressureInHg };
+  return {
+    stationId: "t1",
+    inputs: { ...inputs, uvIndex: null },
+    display: buildDisplay(computeRacingWeather(inputs, calc), ts, null),
+    correctionStandard: "saeJ1349",
+  };
+}
+
+const readings = [
+  reading("2025-05-01T12:00:00.000Z", 72.4, 41, 28.913),
+  reading("2025-05-01T12:01:00.000Z", 95.1, 12.5, 29.451),
+  reading("2025-05-01T12:02:00.000Z", 38, 88, 30.02),
+];
+
+function exported(units: UnitPrefs) {
+  const columns = resolveColumns(DEFAULT_EXPORT_COLUMNS);
+  return exportTable(readings, columns, units, (r) => computeRacingWeather(r.inputs, calc));
+}
+
+function asJson({ header, rows }: ReturnType<typeof exported>) {
+  return JSON.stringify({ rows: rows.map((row) => Object.fromEntries(header.map((h, i) => [h, row[i]]))) });
+}
+
+describe("export → parseImport", () => {
+  it.each([
+    ["csv", (t: ReturnType<typeof exported>) => toCsv(t.header, t.rows)],
+    ["json", asJson],
+  ] as const)("reads an imperial %s export back as the same readings", (format, write) => {
+    const { readings: back, issues, total } = parseImport(write(exported(IMPERIAL_UNITS)), format, opts);
+    expect(issues).toEqual([]);
+    expect(total).toBe(readings.length);
+    expect(back.map((r) => [r.stationId, r.inputs, r.display])).toEqual(
+      readings.map((r) => [r.stationId, r.inputs, r.display])
+    );
+    expect(back.every((r) => r.imported)).toBe(true);
+  });
+
+  it("reads a metric export back to within the exported precision", () => {
+    const t = exported(METRIC_UNITS);
+    expect(t.header).toContain("tempC");
+    const { readings: back, issues } = parseImport(toCsv(t.header, t.rows), "csv", opts);
+    expect(issues).toEqual([]);
+    back.forEach((r, i) => {
+      expect(r.display.ts).toBe(readings[i].display.ts);
+      // 0.1 °C is 0.18 °F, and the import rounds to 0.1 °F again
+      expect(Math.abs(r.inputs.tempF - readings[i].inputs.tempF)).toBeLessThan(0.15);
+      expect(r.inputs.humidityPct).toBe(readings[i].inputs.humidityPct);
+      expect(Math.abs(r.inputs.absPressureInHg - readings[i].inputs.absPressureInHg)).toBeLessThan(0.005);
+    });
+  });
+});
+
+describe("parseImport { readings }", () => {
+  it("rebuilds full readings from their inputs", () => {
+    const forged = {
+      ...readings[0],
+      stationId: undefined,
+      display: { ...readings[0].display, adr: 12.34, densityAltFt: -5000 },
+      calibrationProfileId: "cal_1",
+      event: { eventId: "ev_x", sessionId: null },
+      quality: { flag: "ok" },
+      admin: true,
+    };
+    const { readings: back, issues } = parseImport(JSON.stringify({ readings: [forged] }), "json", opts);
+    expect(issues).toEqual([]);
+    const raw = computeRacingWeather(readings[0].inputs, { ...calc, calibration: opts.profiles.get("cal_1") });
+    expect(back[0]).toEqual({
+      stationId: "t1",
+      inputs: readings[0].inputs,
+      display: buildDisplay(raw, readings[0].display.ts, null),
+      correctionStandard: "saeJ1349",
+      calibrationProfileId: "cal_1",
+      imported: true,
+    });
+  });
+});
@@ -0,0 +1,126 @@
+// The background poller (lib/ingest) against scripts/fake-weatherlink.mjs:
+// duplicate polls, a sensor-clock gap, failure bookkeeping and a restart
+// while a poll is running. The client caches /current for a few seconds, so
+// the clock (Date only, until the last case) is moved on between polls.
+
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { startFakeWeatherLink, useFakeEnv, type FakeWeatherLink } from "./helpers/fakeWeatherLink";
+import { useTempDataDir } from "./helpers/dataDir";
+import { CURRENT_CACHE_MS } from "@/lib/weatherlink";
+import { getIngestStatus, readIngestLog, runIngestNow, startIngest, stopIngest } from "@/lib/ingest";
+
+const STATION = "401";
+
+let fake: FakeWeatherLink;
+let data: ReturnType<typeof useTempDataDir>;
+
+const station = () => getIngestStatus().stations[STATION];
+
+async function apiCalls(): Promise<number> {
+  return ((await fake.control("/__stats")) as { apiCalls: number }).apiCalls;
+}
+
+async function settle() {
+  for (let i = 0; i < 20; i++) await new Promise((resolve) => setImmediate(resolve));
+}
+
+async function until(check: () => Promise<boolean>) {
+  for (let i = 0; i < 200 && !(await check()); i++) await settle();
+  expect(await check()).toBe(true);
+}
+
+// Past the client's response cache, so the next poll really fetches
+function nextPoll() {
+  vi.setSystemTime(Date.now() + CURRENT_CACHE_MS + 5_000);
+}
+
+beforeAll(async () => {
+  data = useTempDataDir();
+  fake = await startFakeWeatherLink();
+  useFakeEnv(fake, STATION);
+  vi.useFakeTimers({ toFake: ["Date"] });
+});
+
+afterEach(() => {
+  stopIngest();
+});
+
+afterAll(async () => {
+  vi.useRealTimers();
+  await fake?.stop();
+  data?.cleanup();
+});
+
+describe("ingest poller", () => {
+  it("stores a reading once and counts the repeat as a duplicate", async () => {
+    await fake.control("/__freeze?on=1");
+    await runIngestNow();
+    expect(station()).toMatchObject({ totalSuccesses: 1, duplicatesSkipped: 0, consecutiveFailures: 0 });
+    const first = station().lastReadingTs;
+    expect(first).not.toBeNull();
+
+    nextPoll();
+    const before = await apiCalls();
+    await runIngestNow();
+    expect(await apiCalls()).toBe(before + 1);
+    expect(station()).toMatchObject({ totalSuccesses: 2, duplicatesSkipped: 1, lastReadingTs: first });
+    await fake.control("/__freeze?on=0");
+  });
+
+  it("logs a gap when the sensor clock jumps", async () => {
+    await fake.control("/__skip?minutes=15");
+    nextPoll();
+    await runIngestNow();
+    const [gap] = await readIngestLog();
+    expect(gap).toMatchObject({ type: "gap", stationId: STATION });
+    expect(gap.type === "gap" && gap.minutes).toBeGreaterThanOrEqual(15);
+    expect(station().lastSensorTs).toBe(gap.type === "gap" ? gap.to : null);
+  });
+
+  it("records failures and clears them on the next success", async () => {
+    const lastSuccessAt = station().lastSuccessAt;
+    await fake.control("/__fail?count=3&status=503&retryAfter=0");
+    nextPoll();
+    await runIngestNow();
+    expect(station()).toMatchObject({ consecutiveFailures: 1, totalFailures: 1, lastSuccessAt });
+    expect(station().lastError).toMatch(/HTTP 503/);
+    const [failure] = await readIngestLog();
+    expect(failure).toMatchObject({ type: "failure", stationId: STATION });
+
+    nextPoll();
+    await runIngestNow();
+    expect(station()).toMatchObject({ consecutiveFailures: 0, totalFailures: 1, lastError: null });
+    expect(station().lastSuccessAt).not.toBe(lastSuccessAt);
+  });
+
+  it("runs one loop after a stop and start during a poll", async () => {
+    const now = Date.now();
+    vi.useRealTimers();
+    vi.useFakeTimers({ toFake: ["Date", "setTimeout", "clearTimeout"], now });
+    try {
+      nextPoll();
+      await fake.control("/__delay?ms=300");
+      startIngest(60);
+      stopIngest();
+      startIngest(60);
+      // Joins the poll the first start kicked off
+      await runIngestNow();
+      await settle();
+
+      // The loop still polls each interval...
+      const before = await apiCalls();
+      await vi.advanceTimersByTimeAsync(60_000);
+      await until(async () => (await apiCalls()) === before + 1);
+      await runIngestNow();
+      await settle();
+
+      // ...and stopping really stops it: no loop from the first start is left over
+      stopIngest();
+      await vi.advanceTimersByTimeAsync(180_000);
+      await settle();
+      expect(await apiCalls()).toBe(before + 1);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
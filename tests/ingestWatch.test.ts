@@ -0,0 +1,74 @@
+// watchStation with the background poller off: one polling loop, however
+// watchers come and go while a poll is in flight.
+
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { WeatherProvider } from "@/lib/providers/types";
+import { useTempDataDir } from "./helpers/dataDir";
+
+let calls = 0;
+let release: () => void = () => {};
+let gate = Promise.resolve();
+
+const provider: WeatherProvider = {
+  id: "weatherlink",
+  label: "Test",
+  configured: () => true,
+  defaultStationId: () => "w1",
+  stationIds: () => ["w1"],
+  async fetchCurrent() {
+    calls++;
+    await gate;
+    throw new Error("station offline");
+  },
+};
+
+vi.mock("@/lib/providers", () => ({ getProvider: () => provider }));
+
+// Lets the store's file I/O run; only timers are faked
+async function until(check: () => boolean) {
+  for (let i = 0; i < 1000 && !check(); i++) await new Promise((resolve) => setImmediate(resolve));
+  expect(check()).toBe(true);
+}
+
+let data: ReturnType<typeof useTempDataDir>;
+
+beforeAll(() => {
+  data = useTempDataDir();
+  vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"] });
+});
+
+afterAll(() => {
+  vi.useRealTimers();
+  data?.cleanup();
+});
+
+describe("watchStation", () => {
+  it("doesn't leave a second loop behind when rewatched mid-poll", async () => {
+    const { getIngestStatus, watchStation } = await import("@/lib/ingest");
+    gate = new Promise((resolve) => (release = resolve));
+
+    const unwatch = watchStation("w1");
+    vi.advanceTimersByTime(0);
+    await until(() => calls === 1);
+
+    // Every tab closes, then one opens, while that first poll is still waiting
+    unwatch();
+    const unwatchAgain = watchStation("w1");
+    vi.advanceTimersByTime(0);
+    await until(() => calls === 2);
+
+    release();
+    await until(() => getIngestStatus().stations.w1?.totalFailures === 2 && vi.getTimerCount() > 0);
+    // Give the older loop time to finish too
+    for (let i = 0; i < 50; i++) await new Promise((resolve) => setImmediate(resolve));
+    expect(vi.getTimerCount()).toBe(1);
+
+    vi.advanceTimersByTime(getIngestStatus().intervalSec * 1000);
+    await until(() => calls === 3);
+    for (let i = 0; i < 50; i++) await new Promise((resolve) => setImmediate(resolve));
+    expect(calls).toBe(3);
+
+    unwatchAgain();
+    expect(vi.getTimerCount()).toBe(0);
+  });
+});
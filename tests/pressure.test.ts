@@ -0,0 +1,79 @@
+// Station ↔ sea-level ↔ altimeter conversions against reference values: the
+// US Standard Atmosphere table, the NWS altimeter-setting definition and a
+// sea-level reduction worked by hand in hPa / m.
+
+import { describe, expect, it } from "vitest";
+import {
+  altimeterToStationInHg,
+  isaPressureInHg,
+  resolvePressure,
+  seaLevelToStationInHg,
+  stationToAltimeterInHg,
+  stationToSeaLevelInHg,
+} from "@/lib/pressure";
+import { HPA_PER_INHG, M_PER_FT } from "@/lib/units";
+
+const hPa = (inHg: number) => inHg * HPA_PER_INHG;
+
+describe("isaPressureInHg", () => {
+  it.each([
+    [0, 29.921],
+    [1000, 28.856],
+    [5000, 24.896],
+    [10000, 20.577],
+  ])("matches the standard atmosphere at %i ft", (ft, inHg) => {
+    expect(isaPressureInHg(ft)).toBeCloseTo(inHg, 2);
+  });
+});
+
+describe("altimeter setting", () => {
+  it("is 29.92 for a station sitting at the standard atmosphere", () => {
+    // NWS: station pressure carries a 0.3 hPa offset over the ISA value
+    expect(hPa(altimeterToStationInHg(29.92, 5000))).toBeCloseTo(843.35, 1);
+    expect(stationToAltimeterInHg(isaPressureInHg(5000) + 0.3 / HPA_PER_INHG, 5000)).toBeCloseTo(29.92, 2);
+  });
+
+  it("gives Denver (1609 m) at 836 hPa an altimeter of 1014.85 hPa", () => {
+    const inHg = stationToAltimeterInHg(836 / HPA_PER_INHG, 1609 / M_PER_FT);
+    expect(hPa(inHg)).toBeCloseTo(1014.85, 1);
+    expect(altimeterToStationInHg(inHg, 1609 / M_PER_FT) * HPA_PER_INHG).toBeCloseTo(836, 6);
+  });
+
+  it("is the station pressure at sea level, give or take the offset", () => {
+    expect(hPa(stationToAltimeterInHg(30, 0)) - hPa(30)).toBeCloseTo(-0.3, 6);
+  });
+});
+
+describe("sea-level pressure", () => {
+  it("reduces 900 hPa at 1000 m and 15 °C to 1011.98 hPa", () => {
+    const slp = stationToSeaLevelInHg(900 / HPA_PER_INHG, 1000 / M_PER_FT, 59);
+    expect(hPa(slp)).toBeCloseTo(1011.98, 1);
+    expect(hPa(seaLevelToStationInHg(slp, 1000 / M_PER_FT, 59))).toBeCloseTo(900, 6);
+  });
+
+  it("reduces more on a cold day than a warm one", () => {
+    expect(stationToSeaLevelInHg(25, 5000, 20)).toBeGreaterThan(stationToSeaLevelInHg(25, 5000, 95));
+  });
+});
+
+describe("resolvePressure", () => {
+  it("turns every reported type into the same station pressure", () => {
+    const at = { elevationFt: 4000, tempF: 70 };
+    const { absPressureInHg: abs, info } = resolvePressure({ type: "absolute", inHg: 25.8 }, at);
+    expect(info.warning).toBeNull();
+    expect(resolvePressure({ type: "seaLevel", inHg: info.seaLevelInHg! }, at).absPressureInHg).toBeCloseTo(abs, 9);
+    expect(resolvePressure({ type: "altimeter", inHg: info.altimeterInHg! }, at).absPressureInHg).toBeCloseTo(abs, 9);
+  });
+
+  it("warns when the pressure doesn't fit the elevation", () => {
+    // A sea-level value fed in as absolute at a mile-high track
+    const { info } = resolvePressure({ type: "absolute", inHg: 29.9 }, { elevationFt: 5280, tempF: 70 });
+    expect(info.warning).toMatch(/above the ~24\.\d\d inHg expected at 5280 ft/);
+  });
+
+  it("needs an elevation for anything but absolute", () => {
+    expect(() => resolvePressure({ type: "altimeter", inHg: 29.92 }, { elevationFt: null, tempF: 70 })).toThrow(
+      /set the station elevation/
+    );
+  });
+});
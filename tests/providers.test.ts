@@ -0,0 +1,182 @@
+// Provider parsers against recorded payloads (tests/fixtures/providers).
+
+import dgram from "node:dgram";
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { ambientProvider, parseAmbientDevice, type AmbientDevice } from "@/lib/providers/ambient";
+import { parseTempestRestObservation, parseTempestUdpMessage, tempestProvider } from "@/lib/providers/tempest";
+import { extractMappedReading, parseHttpJsonMapping } from "@/lib/providers/httpJson";
+import { getProvider } from "@/lib/providers";
+
+function fixture<T = unknown>(name: string): T {
+  return JSON.parse(readFileSync(path.join(__dirname, "fixtures", "providers", `${name}.json`), "utf8"));
+}
+
+describe("parseAmbientDevice", () => {
+  const [pit, tower, indoor] = fixture<AmbientDevice[]>("ambient-devices");
+
+  it("reads outdoor temp/humidity and absolute pressure", () => {
+    expect(parseAmbientDevice(pit)).toEqual({
+      inputs: { tempF: 78.3, humidityPct: 42, uvIndex: 5 },
+      pressure: { type: "absolute", inHg: 28.874 },
+      sensorTsMs: 1760889600000,
+      meta: { provider: "ambient", stationId: "00:0E:C6:20:0F:7B", deviceName: "Pit Trailer" },
+    });
+  });
+
+  it("falls back to relative pressure, reported as sea level", () => {
+    const r = parseAmbientDevice(tower);
+    expect(r.pressure).toEqual({ type: "seaLevel", inHg: 30.021 });
+    expect(r.inputs.uvIndex).toBeNull();
+  });
+
+  it("won't use the indoor sensor for outdoor air", () => {
+    expect(() => parseAmbientDevice(indoor)).toThrow("Ambient device 00:0E:C6:20:11:99 has no outdoor temp/humidity");
+  });
+
+  it("needs some pressure", () => {
+    const lastData = { ...tower.lastData, baromrelin: null };
+    expect(() => parseAmbientDevice({ ...tower, lastData })).toThrow(/has no pressure/);
+  });
+});
+
+describe("parseTempestUdpMessage", () => {
+  const msgs = fixture<Record<string, unknown>>("tempest-udp");
+
+  it("converts an obs_st to imperial, with station pressure as absolute", () => {
+    const r = parseTempestUdpMessage(msgs.obs_st)!;
+    expect(r.inputs.tempF).toBeCloseTo(77.9, 5);
+    expect(r.inputs.humidityPct).toBe(42.3);
+    expect(r.inputs.uvIndex).toBe(4.2);
+    expect(r.pressure.type).toBe("absolute");
+    expect(r.pressure.inHg).toBeCloseTo(28.954, 3);
+    expect(r.sensorTsMs).toBe(1760889600_000);
+    expect(r.meta).toEqual({ provider: "tempest", stationId: "ST-00028405", hubSerial: "HB-00013030" });
+  });
+
+  it("ignores the other broadcast types", () => {
+    expect(parseTempestUdpMessage(msgs.rapid_wind)).toBeNull();
+    expect(parseTempestUdpMessage(msgs.hub_status)).toBeNull();
+    expect(parseTempestUdpMessage(null)).toBeNull();
+  });
+
+  it("rejects an obs_st without air readings", () => {
+    expect(() => parseTempestUdpMessage(msgs.obs_st_no_temp)).toThrow(
+      "Tempest ST-00028405 has no air temperature / humidity."
+    );
+  });
+});
+
+describe("parseTempestRestObservation", () => {
+  it("reads the newest observation in metric, whatever station_units says", () => {
+    const r = parseTempestRestObservation(fixture("tempest-rest"));
+    expect(r.inputs.tempF).toBeCloseTo(86.18, 5);
+    expect(r.inputs.humidityPct).toBe(18);
+    expect(r.inputs.uvIndex).toBe(6.02);
+    expect(r.pressure.inHg).toBeCloseTo(27.814, 3);
+    expect(r.sensorTsMs).toBe(1760889600_000);
+    expect(r.meta).toEqual({ provider: "tempest", stationId: "84521", stationName: "Tempest at the Strip" });
+  });
+
+  it("rejects a response without observations", () => {
+    expect(() => parseTempestRestObservation({ station_id: 1, obs: [] })).toThrow(/no observations/);
+  });
+});
+
+describe("extractMappedReading", () => {
+  const payload = fixture("http-json-kestrel");
+  const map = parseHttpJsonMapping(
+    JSON.stringify({
+      tempF: "data.temp",
+      tempUnit: "C",
+      humidityPct: "data.rh",
+      absPressureInHg: "data.station_p",
+      pressureUnit: "hPa",
+      uvIndex: "data.uv",
+      ts: "data.time",
+    })
+  );
+
+  it("follows the mapping and converts units", () => {
+    const r = extractMappedReading(payload, map, "kestrel");
+    expect(r.inputs.tempF).toBeCloseTo(79.16, 5);
+    // Numeric strings are accepted
+    expect(r.inputs.humidityPct).toBe(37.5);
+    expect(r.inputs.uvIndex).toBeNull();
+    expect(r.pressure.type).toBe("absolute");
+    expect(r.pressure.inHg).toBeCloseTo(28.8, 2);
+    expect(r.sensorTsMs).toBe(Date.parse("2025-10-19T16:00:00Z"));
+    expect(r.meta).toEqual({ provider: "http-json", stationId: "kestrel" });
+  });
+
+  it("takes array indices and a declared pressure type", () => {
+    const r = extractMappedReading(payload, { ...map, tempF: "history.1.temp", pressureType: "seaLevel" });
+    expect(r.inputs.tempF).toBeCloseTo(78.8, 5);
+    expect(r.pressure.type).toBe("seaLevel");
+  });
+
+  it("names the path that had no number", () => {
+    expect(() => extractMappedReading(payload, { ...map, humidityPct: "data.humidity" })).toThrow(
+      'No numeric humidity at "data.humidity".'
+    );
+  });
+
+  it("rejects a mapping without the required paths", () => {
+    expect(() => parseHttpJsonMapping('{"tempF":"t"}')).toThrow(/needs a "humidityPct" path/);
+    expect(() => parseHttpJsonMapping("{")).toThrow(/not valid JSON/);
+  });
+});
+
+describe("stationIds", () => {
+  const saved = { ...process.env };
+  afterEach(() => {
+    process.env = { ...saved };
+  });
+
+  it("is empty until a station is configured", () => {
+    delete process.env.AMBIENT_MAC_ADDRESS;
+    delete process.env.TEMPEST_STATION_ID;
+    process.env.TEMPEST_TOKEN = "token";
+    expect(ambientProvider.stationIds()).toEqual([]);
+    expect(tempestProvider.stationIds()).toEqual([]);
+
+    process.env.AMBIENT_MAC_ADDRESS = "00:0E:C6:20:0F:7B";
+    process.env.TEMPEST_STATION_ID = "84521";
+    expect(ambientProvider.stationIds()).toEqual(["00:0E:C6:20:0F:7B"]);
+    expect(tempestProvider.stationIds()).toEqual(["84521"]);
+  });
+
+  it("takes the first Tempest heard over UDP when no station is set", async () => {
+    delete process.env.TEMPEST_STATION_ID;
+    delete process.env.TEMPEST_TOKEN;
+    process.env.TEMPEST_UDP_PORT = "50299";
+    expect(tempestProvider.configured()).toBe(true);
+    expect(tempestProvider.stationIds()).toEqual([]);
+
+    const sender = dgram.createSocket("udp4");
+    const packet = JSON.stringify(fixture<Record<string, unknown>>("tempest-udp").obs_st);
+    try {
+      for (let i = 0; i < 100 && !tempestProvider.stationIds().length; i++) {
+        await new Promise((resolve) => sender.send(packet, 50299, "127.0.0.1", resolve));
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+    } finally {
+      sender.close();
+    }
+    expect(tempestProvider.stationIds()).toEqual(["ST-00028405"]);
+    expect(tempestProvider.defaultStationId()).toBe("ST-00028405");
+  });
+});
+
+describe("getProvider", () => {
+  const saved = { ...process.env };
+  afterEach(() => {
+    process.env = { ...saved };
+  });
+
+  it.each(["toString", "constructor", "__proto__", "davis"])("rejects RACEWX_PROVIDER=%s", (id) => {
+    process.env.RACEWX_PROVIDER = id;
+    expect(() => getProvider()).toThrow(`Unknown RACEWX_PROVIDER "${id}"`);
+  });
+});
@@ -0,0 +1,104 @@
+// applyQuality: out-of-range values, steps that are glitches and steps that
+// are real (confirmed by the next reading), and rolling smoothing. Each case
+// feeds readings one minute apart, storing each result the way ingest does.
+
+import { describe, expect, it } from "vitest";
+import { applyQuality, DEFAULT_QUALITY, type QualitySettings, type QualityValues } from "@/lib/quality";
+import type { Reading } from "@/lib/reading";
+
+const START = Date.parse("2025-06-07T15:00:00.000Z");
+const base: QualityValues = { tempF: 80, humidityPct: 40, absPressureInHg: 29 };
+
+/**
+ * Run applyQuality over `temps` (other inputs held at base), one minute
+ * apart. Returns each result, newest last.
+ */
+function feed(temps: number[], settings: QualitySettings = DEFAULT_QUALITY) {
+  const stored: Reading[] = [];
+  return temps.map((tempF, i) => {
+    const atMs = START + i * 60_000;
+    const result = applyQuality({ ...base, tempF }, stored, settings, atMs);
+    const ts = new Date(atMs).toISOString();
+    stored.unshift({ inputs: result.values, display: { ts } as Reading["display"], quality: result.quality });
+    return result;
+  });
+}
+
+describe("applyQuality ranges", () => {
+  it("replaces an impossible value with the last good one", () => {
+    const stored: Reading[] = [];
+    const first = applyQuality(base, stored, DEFAULT_QUALITY, START);
+    stored.unshift({ inputs: first.values, display: { ts: new Date(START).toISOString() } as Reading["display"] });
+
+    const { values, quality } = applyQuality({ ...base, humidityPct: 140 }, stored, DEFAULT_QUALITY, START + 60_000);
+    expect(values.humidityPct).toBe(40);
+    expect(quality.flag).toBe("filtered");
+    expect(quality.raw.humidityPct).toBe(140);
+    expect(quality.issues).toEqual([
+      { input: "humidityPct", kind: "range", value: 140, replacedWith: 40, detail: "Humidity 140 is outside 0–100" },
+    ]);
+  });
+
+  it("throws when there is nothing to fall back on", () => {
+    expect(() => applyQuality({ ...base, tempF: NaN }, [], DEFAULT_QUALITY, START)).toThrow(
+      "Temp NaN is outside -40–140; no earlier reading to fall back on."
+    );
+  });
+});
+
+describe("applyQuality steps", () => {
+  it("holds a one-reading spike at the last good value", () => {
+    const [, spike, after] = feed([80, 95, 80.5]);
+    expect(spike.values.tempF).toBe(80);
+    expect(spike.quality.flag).toBe("filtered");
+    expect(spike.quality.issues[0]).toMatchObject({ input: "tempF", kind: "step", value: 95, replacedWith: 80 });
+    expect(spike.quality.issues[0].detail).toBe("Temp jumped 15.00 in 1.0 min (limit 3/min)");
+    expect(after.values.tempF).toBe(80.5);
+    expect(after.quality.flag).toBe("ok");
+  });
+
+  it("accepts a step once the next reading confirms it", () => {
+    const [, jump, confirmed, next] = feed([80, 90, 90.5, 91]);
+    expect(jump.values.tempF).toBe(80);
+    expect(jump.quality.issues.map((i) => i.kind)).toEqual(["step"]);
+    expect(confirmed.values.tempF).toBe(90.5);
+    expect(confirmed.quality).toMatchObject({ flag: "ok", issues: [] });
+    expect(next.values.tempF).toBe(91);
+  });
+
+  it("allows more change over a longer gap", () => {
+    const stored: Reading[] = [
+      { inputs: base, display: { ts: new Date(START).toISOString() } as Reading["display"] },
+    ];
+    // 10 minutes at 3 °F/min
+    const { quality } = applyQuality({ ...base, tempF: 105 }, stored, DEFAULT_QUALITY, START + 10 * 60_000);
+    expect(quality.flag).toBe("ok");
+  });
+});
+
+describe("applyQuality smoothing", () => {
+  it("averages the window with mean", () => {
+    const settings: QualitySettings = { ...DEFAULT_QUALITY, smoothing: "mean", window: 3 };
+    const results = feed([80, 81, 82, 83], settings);
+    expect(results[0].quality).toMatchObject({ flag: "ok", smoothing: null });
+    expect(results[1].values.tempF).toBeCloseTo(80.5, 9);
+    // The stored (smoothed) values aren't smoothed again: raw 83, 82, 81
+    expect(results[3].values.tempF).toBeCloseTo(82, 9);
+    expect(results[3].quality).toMatchObject({ flag: "smoothed", smoothing: { method: "mean", window: 3 } });
+    expect(results[3].quality.raw.tempF).toBe(83);
+  });
+
+  it("takes the middle value with median", () => {
+    const settings: QualitySettings = { ...DEFAULT_QUALITY, smoothing: "median", window: 3 };
+    const results = feed([80, 82, 81], settings);
+    expect(results[2].values.tempF).toBe(81);
+    expect(feed([80, 82], settings)[1].values.tempF).toBe(81);
+  });
+
+  it("leaves a rejected value out of the window", () => {
+    const settings: QualitySettings = { ...DEFAULT_QUALITY, smoothing: "mean", window: 5 };
+    const results = feed([80, 81, 99, 82], settings);
+    expect(results[2].quality.flag).toBe("filtered");
+    expect(results[3].values.tempF).toBeCloseTo((80 + 81 + 82) / 3, 9);
+  });
+});
@@ -0,0 +1,38 @@
+// POST /api/runs: a run time that isn't a time is the caller's mistake (400).
+
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { useTempDataDir } from "./helpers/dataDir";
+
+let data: ReturnType<typeof useTempDataDir>;
+
+beforeAll(() => {
+  data = useTempDataDir();
+});
+
+afterAll(() => {
+  data?.cleanup();
+});
+
+async function post(body: unknown) {
+  const { POST } = await import("@/app/api/runs/route");
+  return POST(new Request("http://localhost/api/runs", { method: "POST", body: JSON.stringify(body) }));
+}
+
+describe("POST /api/runs", () => {
+  it.each(["after lunch", "2025-02-30T25:00:00Z", 1_750_000_000_000, { at: "noon" }])(
+    "rejects runAt %j with 400",
+    async (runAt) => {
+      const res = await post({ runAt, car: "Dragster" });
+      expect(res.status).toBe(400);
+      expect((await res.json()).error).toMatch(/^Invalid runAt: /);
+    }
+  );
+
+  it("stamps a run without runAt with the current time", async () => {
+    const res = await post({ car: "Dragster", quarterEt: "6.512" });
+    expect(res.status).toBe(200);
+    const { run } = await res.json();
+    expect(Math.abs(Date.parse(run.runAt) - Date.now())).toBeLessThan(60_000);
+    expect(run).toMatchObject({ car: "Dragster", quarterEt: 6.512, weather: null });
+  });
+});
@@ -0,0 +1,35 @@
+// GET /api/solve: bad params are 400s, never a crash.
+
+import { describe, expect, it } from "vitest";
+import { GET } from "@/app/api/solve/route";
+import { computeRacingWeather } from "@/lib/weatherCalc";
+
+const solve = (query: string) => GET(new Request(`http://localhost/api/solve?${query}`));
+
+describe("GET /api/solve", () => {
+  it("solves for temperature", async () => {
+    const res = solve("solveFor=tempF&target=adrPct&value=95&humidityPct=40&absPressureInHg=28.9");
+    expect(res.status).toBe(200);
+    const { result } = await res.json();
+    expect(result.inputs).toEqual({ tempF: result.value, humidityPct: 40, absPressureInHg: 28.9 });
+    // Running the calc on the answer lands on the target
+    expect(computeRacingWeather(result.inputs).adrPct).toBeCloseTo(95, 3);
+  });
+
+  it.each([
+    ["solveFor=toString&target=adrPct&value=95", /solveFor must be one of/],
+    ["solveFor=constructor&target=adrPct&value=95", /solveFor must be one of/],
+    ["target=adrPct&value=95", /solveFor must be one of/],
+    ["solveFor=tempF&target=toString&value=95&humidityPct=40&absPressureInHg=28.9", /target must be one of/],
+    ["solveFor=tempF&target=adrPct&value=abc&humidityPct=40&absPressureInHg=28.9", /value must be a number/],
+    ["solveFor=tempF&target=adrPct&value=&humidityPct=40&absPressureInHg=28.9", /value must be a number/],
+    ["solveFor=tempF&target=adrPct&humidityPct=40&absPressureInHg=28.9", /value must be a number/],
+    ["solveFor=tempF&target=adrPct&value=Infinity&humidityPct=40&absPressureInHg=28.9", /value must be a number/],
+    ["solveFor=tempF&target=adrPct&value=95&humidityPct=40", /absPressureInHg is required/],
+    ["solveFor=tempF&target=adrPct&value=95&humidityPct=&absPressureInHg=28.9", /humidityPct is required/],
+  ])("rejects %s with 400", async (query, message) => {
+    const res = solve(query);
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toMatch(message);
+  });
+});
@@ -0,0 +1,72 @@
+// Tune tables: JSON rows are checked like CSV ones, and a deleted table is
+// still listed for times before it was deleted.
+
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { useTempDataDir } from "./helpers/dataDir";
+
+let data: ReturnType<typeof useTempDataDir>;
+
+beforeAll(() => {
+  data = useTempDataDir();
+  vi.useFakeTimers({ toFake: ["Date"] });
+});
+
+afterAll(() => {
+  vi.useRealTimers();
+  data?.cleanup();
+});
+
+const T = (hhmm: string) => Date.parse(`2025-06-07T${hhmm}:00.000Z`);
+
+async function post(body: unknown) {
+  const { POST } = await import("@/app/api/tune/route");
+  const res = await POST(new Request("http://localhost/api/tune", { method: "POST", body: JSON.stringify(body) }));
+  return { status: res.status, body: await res.json() };
+}
+
+async function namesAt(ms: number): Promise<string[]> {
+  const { GET } = await import("@/app/api/tune/route");
+  const { tables } = await (await GET(new Request(`http://localhost/api/tune?at=${ms}`))).json();
+  return tables.map((t: { name: string }) => t.name);
+}
+
+const table = (rows: unknown[]) => ({ name: "Jets", keyField: "adr", columns: ["main"], rows });
+
+describe("POST /api/tune with JSON rows", () => {
+  it.each([
+    [[{ key: 95, values: { main: "72" } }], 'Row 95: "main" must be a number.'],
+    [[{ key: 95, values: {} }], 'Row 95: "main" must be a number.'],
+    [[{ key: 95 }], 'Row 95: "main" must be a number.'],
+    [[{ key: 95, values: { main: null } }], 'Row 95: "main" must be a number.'],
+  ])("rejects %j", async (rows, error) => {
+    expect(await post(table(rows))).toEqual({ status: 400, body: { error } });
+  });
+
+  it("keeps only the declared columns", async () => {
+    const { body } = await post({ ...table([{ key: 95, values: { main: 72, extra: 1 } }]), name: "Trimmed" });
+    expect(body.table.rows).toEqual([{ key: 95, values: { main: 72 } }]);
+  });
+});
+
+describe("deleting a tune table", () => {
+  it("keeps it in ?at= lookups from before the delete", async () => {
+    const { DELETE } = await import("@/app/api/tune/route");
+    const del = async (id: string) =>
+      (await DELETE(new Request(`http://localhost/api/tune?id=${id}`, { method: "DELETE" }))).json();
+
+    vi.setSystemTime(T("10:00"));
+    const { body } = await post({ ...table([{ key: 95, values: { main: 72 } }]), name: "Clutch" });
+    const id = body.table.id;
+
+    vi.setSystemTime(T("12:00"));
+    expect(await del(id)).toEqual({ deleted: true });
+    expect(await namesAt(T("11:00"))).toContain("Clutch");
+    expect(await namesAt(T("12:30"))).not.toContain("Clutch");
+
+    // Saved again later: back from then on, still gone in between
+    vi.setSystemTime(T("14:00"));
+    await post({ ...table([{ key: 95, values: { main: 74 } }]), id, name: "Clutch" });
+    expect(await namesAt(T("13:00"))).not.toContain("Clutch");
+    expect(await namesAt(T("14:30"))).toContain("Clutch");
+  });
+});
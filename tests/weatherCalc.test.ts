@@ -0,0 +1,46 @@
+// Correction standards against their published definitions: each gives 1 on
+// its own reference day, and an off-reference day matches the standard's SI
+// formula worked by hand (kPa, K), which the inHg / °F constants approximate.
+
+import { describe, expect, it } from "vitest";
+import { computeRacingWeather } from "@/lib/weatherCalc";
+
+// Dry air, so the dry and total barometer standards read the same pressure
+const dry = (tempF: number, absPressureInHg: number) =>
+  computeRacingWeather({ tempF, humidityPct: 0, absPressureInHg });
+
+describe("correction standards", () => {
+  it.each([
+    // SAE J1349: 25 °C, 99 kPa dry air
+    ["corrSaeJ1349", 77, 29.235],
+    // SAE J607: 60 °F, 29.92 inHg dry air
+    ["corrSaeJ607", 60, 29.92],
+    // DIN 70020: 20 °C, 1013 mbar
+    ["corrDin70020", 68, 29.914],
+    // Old NHRA: 60 °F, 29.92 inHg
+    ["corrNhraOld", 60, 29.92],
+  ] as const)("%s is 1 on its reference day", (key, tempF, inHg) => {
+    expect(dry(tempF, inHg)[key]).toBeCloseTo(1, 3);
+  });
+
+  it("matches the SI formulas on a hot, low-pressure day (95 °F, 28.50 inHg)", () => {
+    // cf = (Pref / P) · √(T / Tref); J1349 then 1.18 · cf − 0.18
+    const r = dry(95, 28.5);
+    expect(r.corrSaeJ1349).toBeCloseTo(1.05055, 3);
+    expect(r.corrSaeJ607).toBeCloseTo(1.08465, 3);
+    expect(r.corrDin70020).toBeCloseTo(1.07613, 3);
+    expect(r.corrNhraOld).toBeCloseTo(1.08465, 3);
+  });
+
+  it("puts SAE J607 about 4% above SAE J1349 on the J1349 reference day", () => {
+    const r = dry(77, 29.235);
+    expect(r.corrSaeJ607 / r.corrSaeJ1349).toBeCloseTo(1.04009, 3);
+  });
+
+  it("takes vapor out of the barometer only for the dry-air standards", () => {
+    const r = computeRacingWeather({ tempF: 85, humidityPct: 60, absPressureInHg: 29.1 });
+    const dryShare = 29.1 / (29.1 - r.vaporPressureInHg);
+    expect(r.corrSaeJ607 / r.corrNhraOld).toBeCloseTo(dryShare, 9);
+    expect(r.corrDin70020).toBeLessThan(r.corrSaeJ607);
+  });
+});
@@ -0,0 +1,90 @@
+// The WeatherLink client (lib/weatherlink) against scripts/fake-weatherlink.mjs:
+// a good poll, a rejected key, rate limiting and broken bodies. Responses are
+// cached per station, so each case asks for its own station id.
+
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { startFakeWeatherLink, useFakeEnv, type FakeWeatherLink } from "./helpers/fakeWeatherLink";
+import { useTempDataDir } from "./helpers/dataDir";
+import { fetchWeatherLinkCurrent, weatherLinkClientStatus } from "@/lib/weatherlink";
+import { weatherLinkProvider } from "@/lib/providers/weatherlink";
+
+let fake: FakeWeatherLink;
+let data: ReturnType<typeof useTempDataDir>;
+
+async function apiCalls(): Promise<number> {
+  return ((await fake.control("/__stats")) as { apiCalls: number }).apiCalls;
+}
+
+beforeAll(async () => {
+  data = useTempDataDir();
+  fake = await startFakeWeatherLink();
+  useFakeEnv(fake);
+});
+
+afterAll(async () => {
+  await fake?.stop();
+  data?.cleanup();
+});
+
+describe("WeatherLink client", () => {
+  it("reads the ISS and barometer, then serves repeats from the cache", async () => {
+    const before = await apiCalls();
+    const r = await weatherLinkProvider.fetchCurrent("301");
+    expect(Number.isFinite(r.inputs.tempF)).toBe(true);
+    expect(r.inputs.uvIndex).toBe(3.2);
+    expect(r.pressure.type).toBe("absolute");
+    expect(r.sources?.map((s) => [s.input, s.lsid])).toEqual([
+      ["tempF", 1001],
+      ["humidityPct", 1001],
+      ["absPressureInHg", 1002],
+      ["uvIndex", 1001],
+    ]);
+
+    await fetchWeatherLinkCurrent("301");
+    expect((await apiCalls()) - before).toBe(1);
+  });
+
+  it("doesn't retry a 401 or count it toward the circuit breaker", async () => {
+    const before = await apiCalls();
+    await fake.control("/__fail?count=1&status=401");
+    await expect(fetchWeatherLinkCurrent("302")).rejects.toThrow("WeatherLink HTTP 401");
+    expect((await apiCalls()) - before).toBe(1);
+    expect(weatherLinkClientStatus().consecutiveFailures).toBe(0);
+  });
+
+  it("gets a 401 from the fake itself without the secret header", async () => {
+    const res = await fetch(`${fake.baseUrl}/v2/current/302?api-key=test-key`);
+    expect(res.status).toBe(401);
+  });
+
+  it("retries a 429 after Retry-After", async () => {
+    const before = await apiCalls();
+    await fake.control("/__fail?count=2&status=429&retryAfter=0");
+    const payload = await fetchWeatherLinkCurrent("303");
+    expect(payload.sensors).toHaveLength(3);
+    expect((await apiCalls()) - before).toBe(3);
+  });
+
+  it("gives up on a 429 that outlasts the retries", async () => {
+    const before = await apiCalls();
+    await fake.control("/__fail?count=3&status=429&retryAfter=0");
+    await expect(fetchWeatherLinkCurrent("304")).rejects.toThrow("WeatherLink HTTP 429");
+    expect((await apiCalls()) - before).toBe(3);
+    expect(weatherLinkClientStatus()).toMatchObject({ circuit: "closed", consecutiveFailures: 1 });
+  });
+
+  it("reports a cut-off body and fetches again next time", async () => {
+    await fake.control("/__malformed?count=1");
+    await expect(fetchWeatherLinkCurrent("305")).rejects.toThrow("WeatherLink: response isn't valid JSON");
+    const payload = await fetchWeatherLinkCurrent("305");
+    expect(payload.sensors).toHaveLength(3);
+    expect(weatherLinkClientStatus().consecutiveFailures).toBe(0);
+  });
+
+  it("doesn't cache a body without a sensors list", async () => {
+    await fake.control("/__malformed?count=1&kind=shape");
+    await expect(fetchWeatherLinkCurrent("306")).rejects.toThrow(/no sensors list/);
+    const payload = await fetchWeatherLinkCurrent("306");
+    expect(payload.sensors).toHaveLength(3);
+  });
+});
@@ -0,0 +1,194 @@
+// WeatherLink /v2/current and /v2/historic payloads from different hardware
+// (tests/fixtures/weatherlink) through the role-based parser.
+
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import {
+  extractArchiveInputs,
+  extractInputs,
+  inputSources,
+  inputsSensorTimestampMs,
+  locateInputs,
+  parseCurrentPayload,
+  sensorRole,
+  type WeatherLinkPayload,
+} from "@/lib/weatherlinkPayload";
+
+function fixtureJson(name: string): unknown {
+  return JSON.parse(readFileSync(path.join(__dirname, "fixtures", "weatherlink", `${name}.json`), "utf8"));
+}
+
+function fixture(name: string): WeatherLinkPayload {
+  return parseCurrentPayload(fixtureJson(name));
+}
+
+const roles = (p: WeatherLinkPayload) => p.sensors.map((s) => [s.lsid, sensorRole(s)]);
+const lsidOf = (p: WeatherLinkPayload, input: string) => inputSources(p).find((s) => s.input === input)?.lsid;
+
+describe("parseCurrentPayload", () => {
+  it("rejects a body without a sensors list", () => {
+    expect(() => parseCurrentPayload({ code: 401, message: "bad key" })).toThrow(/no sensors list/);
+    expect(() => parseCurrentPayload(null)).toThrow(/no sensors list/);
+  });
+
+  it("drops sensors and records that aren't objects", () => {
+    const p = parseCurrentPayload({ sensors: [null, 3, { lsid: 1, data: [null, { ts: 5 }] }] });
+    expect(p.sensors).toHaveLength(1);
+    expect(p.sensors[0]).toMatchObject({ lsid: 1, sensor_type: null, data: [{ ts: 5 }] });
+  });
+});
+
+describe("role detection", () => {
+  it("knows a Vantage Vue ISS, barometer and gateway health sensor", () => {
+    expect(roles(fixture("vantage-vue"))).toEqual([
+      [1001, "iss"],
+      [1002, "barometer"],
+      [1003, "health"],
+    ]);
+  });
+
+  it("keeps indoor and AirLink temp/hum apart from the ISS", () => {
+    const p = fixture("weatherlink-live-airlink");
+    expect(roles(p)).toEqual([
+      [3001, "indoor"],
+      [3002, "airQuality"],
+      [3003, "iss"],
+      [3004, "barometer"],
+    ]);
+    // The AirLink's temp/hum are newer, but it isn't an outdoor weather sensor
+    expect(lsidOf(p, "tempF")).toBe(3003);
+    expect(lsidOf(p, "humidityPct")).toBe(3003);
+    expect(extractInputs(p)).toMatchObject({ tempF: 72.6, humidityPct: 41.5, uvIndex: null });
+  });
+
+  it("reads a whole-station Vantage console record", () => {
+    const p = fixture("vantage-pro2-weatherlinkip");
+    expect(roles(p)).toEqual([[4001, "console"]]);
+    expect(extractInputs(p)).toEqual({
+      tempF: 75.2,
+      humidityPct: 38,
+      uvIndex: 4.1,
+      pressure: { type: "seaLevel", inHg: 29.982 },
+    });
+    expect(inputSources(p).map((s) => s.field)).toEqual(["temp_out", "hum_out", "bar", "uv"]);
+  });
+
+  it("falls back to record keys for unknown hardware", () => {
+    const p = parseCurrentPayload({
+      sensors: [
+        { lsid: 1, sensor_type: 9999, data: [{ ts: 1, temp_in: 70 }] },
+        { lsid: 2, sensor_type: 9999, data: [{ ts: 1, temp: 70, hum: 40 }] },
+        { lsid: 3, sensor_type: 9999, data: [{ ts: 1, moist_soil_last: 12 }] },
+      ],
+    });
+    expect(roles(p)).toEqual([
+      [1, "indoor"],
+      [2, "iss"],
+      [3, "soilLeaf"],
+    ]);
+  });
+});
+
+describe("input selection", () => {
+  it("takes absolute pressure from the barometer and a string UV index", () => {
+    const p = fixture("vantage-vue");
+    expect(extractInputs(p)).toEqual({
+      tempF: 71.4,
+      humidityPct: 44.2,
+      uvIndex: 3.2,
+      pressure: { type: "absolute", inHg: 28.951 },
+    });
+    const pressure = inputSources(p).find((s) => s.input === "absPressureInHg");
+    expect(pressure).toMatchObject({ lsid: 1002, field: "bar_absolute", role: "barometer", pinned: false });
+  });
+
+  it("stamps the reading with the oldest input record", () => {
+    // ISS at ...540, barometer at ...580
+    expect(inputsSensorTimestampMs(fixture("vantage-vue"))).toBe(1760889540_000);
+  });
+
+  it("picks the newest ISS when there are two", () => {
+    expect(lsidOf(fixture("two-iss"), "tempF")).toBe(5002);
+  });
+});
+
+describe("lsid pinning", () => {
+  it("reads a pinned input from that lsid only", () => {
+    const p = fixture("two-iss");
+    const found = locateInputs(p, { tempF: 5001, humidityPct: 5001 });
+    expect(found.tempF).toMatchObject({ value: 66, source: { lsid: 5001, pinned: true } });
+    expect(found.humidityPct?.value).toBe(52);
+    // Unpinned inputs still go by role
+    expect(found.uvIndex?.source).toMatchObject({ lsid: 5002, pinned: false });
+  });
+
+  it("throws when the pinned lsid isn't in the payload", () => {
+    expect(() => extractInputs(fixture("vantage-vue"), { tempF: 9999 })).toThrow(
+      "Sensor lsid 9999 (set for temp) isn't in the payload."
+    );
+  });
+
+  it("names the lsid of the input that failed", () => {
+    const p = fixture("vantage-vue");
+    // Barometer has no temp/hum
+    expect(() => extractInputs(p, { tempF: 1002 })).toThrow("Sensor lsid 1002 isn't reporting temp");
+    expect(() => extractInputs(p, { tempF: 1001, humidityPct: 1002 })).toThrow(
+      "Sensor lsid 1002 isn't reporting humidity"
+    );
+  });
+});
+
+describe("offseason ISS (null values)", () => {
+  const p = fixture("offseason");
+
+  it("leaves temp/hum missing instead of using the indoor sensor", () => {
+    const found = locateInputs(p);
+    expect(found.tempF).toBeUndefined();
+    expect(found.humidityPct).toBeUndefined();
+    expect(found.uvIndex).toBeUndefined();
+    expect(found.absPressureInHg?.source.lsid).toBe(6003);
+  });
+
+  it("explains that the outdoor sensor is off", () => {
+    expect(() => extractInputs(p)).toThrow(/Outdoor sensor not reporting/);
+  });
+
+  it("still classifies the silent ISS by its sensor_type", () => {
+    expect(sensorRole(p.sensors[1])).toBe("iss");
+  });
+});
+
+describe("archive records (backfill)", () => {
+  const json = fixtureJson("historic-with-airlink");
+
+  it("takes temp/hum from the ISS, never the AirLink or indoor sensor", () => {
+    // The second interval has a null ISS, so it's dropped rather than filled from the AirLink
+    expect(extractArchiveInputs(json)).toEqual([
+      { tsMs: 1760889300_000, tempF: 72.1, humidityPct: 41, absPressureInHg: 28.87, uvIndex: 2.5 },
+    ]);
+  });
+
+  it("follows the station's pinned lsids", () => {
+    const rows = extractArchiveInputs(json, { tempF: 3002, humidityPct: 3002 });
+    expect(rows.map((r) => [r.tempF, r.humidityPct])).toEqual([
+      [81, 28],
+      [81.2, 27.5],
+    ]);
+    expect(() => extractArchiveInputs(json, { absPressureInHg: 77 })).toThrow(/lsid 77 \(set for pressure\)/);
+  });
+
+  it("reads a Vantage console archive", () => {
+    const rows = extractArchiveInputs({
+      sensors: [
+        {
+          lsid: 4001,
+          sensor_type: 1,
+          data_structure_type: 4,
+          data: [{ ts: 1760889300, temp_out: 75.2, hum_out: 38, abs_press: 28.9, bar: 29.95, uv: 3 }],
+        },
+      ],
+    });
+    expect(rows).toEqual([{ tsMs: 1760889300_000, tempF: 75.2, humidityPct: 38, absPressureInHg: 28.9, uvIndex: 3 }]);
+  });
+});
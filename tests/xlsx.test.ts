@@ -0,0 +1,78 @@
+// lib/xlsx writes its own zip: walk it the way an unzipper does (end record →
+// central directory → local headers) and check every entry's sizes and CRC.
+
+import { crc32, inflateRawSync } from "zlib";
+import { describe, expect, it } from "vitest";
+import { toXlsx } from "@/lib/xlsx";
+
+type Entry = { name: string; data: Buffer };
+
+function unzip(buf: Buffer): Entry[] {
+  // No archive comment, so the end record is the last 22 bytes
+  const end = buf.length - 22;
+  expect(buf.readUInt32LE(end)).toBe(0x06054b50);
+  const count = buf.readUInt16LE(end + 10);
+  expect(buf.readUInt16LE(end + 8)).toBe(count);
+  const cdSize = buf.readUInt32LE(end + 12);
+  const cdOffset = buf.readUInt32LE(end + 16);
+  expect(cdOffset + cdSize).toBe(end);
+
+  const entries: Entry[] = [];
+  let p = cdOffset;
+  for (let i = 0; i < count; i++) {
+    expect(buf.readUInt32LE(p)).toBe(0x02014b50);
+    const method = buf.readUInt16LE(p + 10);
+    const crc = buf.readUInt32LE(p + 16);
+    const packedSize = buf.readUInt32LE(p + 20);
+    const size = buf.readUInt32LE(p + 24);
+    const nameLen = buf.readUInt16LE(p + 28);
+    const extraLen = buf.readUInt16LE(p + 30);
+    const commentLen = buf.readUInt16LE(p + 32);
+    const localOffset = buf.readUInt32LE(p + 42);
+    const name = buf.toString("utf8", p + 46, p + 46 + nameLen);
+
+    // The local header must agree with the central one
+    const l = localOffset;
+    expect(buf.readUInt32LE(l)).toBe(0x04034b50);
+    expect(buf.readUInt16LE(l + 8)).toBe(method);
+    expect(buf.readUInt32LE(l + 14)).toBe(crc);
+    expect(buf.readUInt32LE(l + 18)).toBe(packedSize);
+    expect(buf.readUInt32LE(l + 22)).toBe(size);
+    const localNameLen = buf.readUInt16LE(l + 26);
+    expect(buf.toString("utf8", l + 30, l + 30 + localNameLen)).toBe(name);
+    const start = l + 30 + localNameLen + buf.readUInt16LE(l + 28);
+
+    expect(method).toBe(8);
+    const data = inflateRawSync(buf.subarray(start, start + packedSize));
+    expect(data.length).toBe(size);
+    expect(crc32(data)).toBe(crc);
+
+    entries.push({ name, data });
+    p += 46 + nameLen + extraLen + commentLen;
+  }
+  expect(p).toBe(end);
+  return entries;
+}
+
+describe("toXlsx", () => {
+  it("writes a well-formed zip with the workbook parts", () => {
+    const entries = unzip(toXlsx("Readings", ["ts", "tempF"], [["2025-05-01T12:00:00.000Z", 72.4]]));
+    expect(entries.map((e) => e.name)).toEqual([
+      "[Content_Types].xml",
+      "_rels/.rels",
+      "xl/workbook.xml",
+      "xl/_rels/workbook.xml.rels",
+      "xl/worksheets/sheet1.xml",
+    ]);
+  });
+
+  it("keeps numbers as numbers and escapes strings", () => {
+    const entries = unzip(toXlsx("Runs: Q1/Q2", ["note", "adr"], [["<fast> & \"dry\"", 97.25], [null, true]]));
+    const sheet = entries.find((e) => e.name === "xl/worksheets/sheet1.xml")!.data.toString("utf8");
+    expect(sheet).toContain('<c r="A2" t="inlineStr"><is><t>&lt;fast&gt; &amp; &quot;dry&quot;</t></is></c>');
+    expect(sheet).toContain('<c r="B2"><v>97.25</v></c>');
+    expect(sheet).toContain('<row r="3"><c r="B3" t="b"><v>1</v></c></row>');
+    const workbook = entries.find((e) => e.name === "xl/workbook.xml")!.data.toString("utf8");
+    expect(workbook).toContain('<sheet name="Runs- Q1-Q2"');
+  });
+});